@@ -0,0 +1,94 @@
+-- SYLON Migration 002
+-- Store identifiers as text. The application uses readable ids such as
+-- 'plow-truck-01' and 'job-plow-001', which are not UUIDs.
+
+-- Views select the identifier columns and are recreated below
+DROP VIEW IF EXISTS v_active_resources;
+DROP VIEW IF EXISTS v_job_summary;
+DROP VIEW IF EXISTS v_site_inventory;
+
+DO $$
+DECLARE
+  fk RECORD;
+  col RECORD;
+BEGIN
+  CREATE TEMP TABLE migration_foreign_keys ON COMMIT DROP AS
+    SELECT conrelid::regclass::text AS table_name, conname, pg_get_constraintdef(oid) AS definition
+    FROM pg_constraint
+    WHERE contype = 'f' AND connamespace = 'public'::regnamespace;
+
+  FOR fk IN SELECT * FROM migration_foreign_keys LOOP
+    EXECUTE format('ALTER TABLE %s DROP CONSTRAINT %I', fk.table_name, fk.conname);
+  END LOOP;
+
+  FOR col IN
+    SELECT c.table_name, c.column_name, c.column_default
+    FROM information_schema.columns c
+    JOIN information_schema.tables t ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+    WHERE c.table_schema = 'public' AND c.data_type = 'uuid' AND t.table_type = 'BASE TABLE'
+  LOOP
+    IF col.column_default IS NOT NULL THEN
+      EXECUTE format('ALTER TABLE %I ALTER COLUMN %I DROP DEFAULT', col.table_name, col.column_name);
+    END IF;
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN %I TYPE TEXT USING %I::text', col.table_name, col.column_name, col.column_name);
+    IF col.column_default LIKE 'uuid_generate_v4()%' THEN
+      EXECUTE format('ALTER TABLE %I ALTER COLUMN %I SET DEFAULT uuid_generate_v4()::text', col.table_name, col.column_name);
+    END IF;
+  END LOOP;
+
+  -- Users are not stored yet and job materials refer to the shared material catalog,
+  -- so those references are kept without foreign keys
+  FOR fk IN
+    SELECT * FROM migration_foreign_keys
+    WHERE definition NOT LIKE '%REFERENCES users(id)%'
+      AND NOT (table_name = 'job_materials' AND definition LIKE '%REFERENCES materials(id)%')
+  LOOP
+    EXECUTE format('ALTER TABLE %s ADD CONSTRAINT %I %s', fk.table_name, fk.conname, fk.definition);
+  END LOOP;
+END $$;
+
+-- The baseline schema seeds the demo company under a UUID
+UPDATE companies SET id = 'demo-company-001' WHERE id = 'a0000000-0000-0000-0000-000000000001';
+
+CREATE VIEW v_active_resources AS
+SELECT 
+  r.*,
+  u.first_name || ' ' || u.last_name AS operator_name,
+  ST_Y(r.current_position::geometry) AS latitude,
+  ST_X(r.current_position::geometry) AS longitude
+FROM resources r
+LEFT JOIN users u ON r.assigned_operator_id = u.id
+WHERE r.status NOT IN ('offline', 'maintenance');
+
+CREATE VIEW v_job_summary AS
+SELECT 
+  j.*,
+  COUNT(DISTINCT ja.resource_id) AS assigned_resource_count,
+  COUNT(DISTINCT d.id) FILTER (WHERE NOT d.resolved) AS open_deviation_count,
+  SUM(EXTRACT(EPOCH FROM (te.end_time - te.start_time))/3600) AS total_hours
+FROM jobs j
+LEFT JOIN job_assignments ja ON j.id = ja.job_id
+LEFT JOIN deviations d ON j.id = d.job_id
+LEFT JOIN time_entries te ON j.id = te.job_id
+GROUP BY j.id;
+
+CREATE VIEW v_site_inventory AS
+SELECT 
+  s.id AS site_id,
+  s.name AS site_name,
+  s.type AS site_type,
+  m.id AS material_id,
+  m.name AS material_name,
+  m.code AS material_code,
+  m.current_stock,
+  m.unit,
+  m.availability,
+  m.min_stock,
+  CASE 
+    WHEN m.current_stock <= m.min_stock THEN 'low'
+    WHEN m.current_stock = 0 THEN 'out'
+    ELSE 'ok'
+  END AS stock_status
+FROM sites s
+JOIN materials m ON s.id = m.site_id
+WHERE s.status = 'active';
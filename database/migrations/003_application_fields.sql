@@ -0,0 +1,20 @@
+-- SYLON Migration 003
+-- Columns for application fields the baseline schema does not cover
+
+-- Job status transitions (who and when) and a geofence centre apart from the location
+ALTER TABLE jobs ADD COLUMN status_history JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE jobs ADD COLUMN geofence_center GEOGRAPHY(POINT, 4326);
+
+-- Geofence settings (name, alerts) and the operating days of a site
+ALTER TABLE sites ADD COLUMN geofence_definition JSONB;
+ALTER TABLE sites ADD COLUMN hours_days INTEGER[];
+
+-- Job sub-resources can be edited after creation
+ALTER TABLE time_entries ADD COLUMN updated_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE job_photos ADD COLUMN updated_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE deviations ADD COLUMN updated_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE job_notes ADD COLUMN updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Stock is kept by the application ledger, which also rejects withdrawals below zero.
+-- The stored stock level is written with the material, so the trigger would count twice.
+DROP TRIGGER IF EXISTS update_material_stock_trigger ON material_transactions;
@@ -0,0 +1,8 @@
+-- SYLON Migration 005
+-- Versions for optimistic concurrency on jobs and their sub-entities
+
+ALTER TABLE jobs ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE time_entries ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE job_photos ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE deviations ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE job_notes ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
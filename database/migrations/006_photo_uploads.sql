@@ -0,0 +1,5 @@
+-- SYLON Migration 006
+-- EXIF capture time on job photos, and the deviation a photo was taken for
+
+ALTER TABLE job_photos ADD COLUMN taken_at TIMESTAMPTZ;
+ALTER TABLE job_photos ADD COLUMN deviation_id TEXT;
@@ -0,0 +1,25 @@
+-- SYLON Migration 007
+-- Rate cards that job invoices are priced by, per customer and contract type.
+-- A card without a customer is the company default for its contract type.
+
+CREATE TABLE rate_cards (
+  id TEXT PRIMARY KEY,
+  company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  customer_id TEXT,
+  contract_type VARCHAR(20) NOT NULL,
+  labor_rate DECIMAL(10, 2) NOT NULL,
+  labor_rates JSONB,
+  equipment_rates JSONB NOT NULL DEFAULT '{}',
+  material_markup DECIMAL(5, 2),
+  fixed_price DECIMAL(12, 2),
+  call_out_fee DECIMAL(10, 2),
+  minimum_hours DECIMAL(6, 2),
+  payment_terms_days INTEGER NOT NULL DEFAULT 30,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by TEXT,
+  updated_by TEXT
+);
+
+CREATE UNIQUE INDEX idx_rate_cards_terms ON rate_cards(company_id, contract_type, COALESCE(customer_id, ''));
@@ -0,0 +1,42 @@
+-- SYLON Migration 008
+-- Customers with billing details and contacts, and the work orders that
+-- group a customer's jobs under a contract type and validity window.
+
+CREATE TABLE customers (
+  id TEXT PRIMARY KEY,
+  company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  customer_number VARCHAR(50) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  organization_number VARCHAR(20),
+  billing_address JSONB NOT NULL,
+  invoice_email VARCHAR(255),
+  contacts JSONB NOT NULL DEFAULT '[]',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by TEXT,
+  updated_by TEXT
+);
+
+CREATE UNIQUE INDEX idx_customers_number ON customers(company_id, customer_number);
+
+CREATE TABLE work_orders (
+  id TEXT PRIMARY KEY,
+  company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  order_number VARCHAR(50) NOT NULL,
+  customer_id TEXT NOT NULL REFERENCES customers(id),
+  job_ids TEXT[] NOT NULL DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'draft',
+  valid_from TIMESTAMPTZ NOT NULL,
+  valid_to TIMESTAMPTZ,
+  contract_type VARCHAR(20) NOT NULL,
+  terms TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by TEXT,
+  updated_by TEXT
+);
+
+CREATE UNIQUE INDEX idx_work_orders_number ON work_orders(company_id, order_number);
+CREATE INDEX idx_work_orders_customer ON work_orders(customer_id);
@@ -0,0 +1,9 @@
+-- SYLON Migration 009
+-- Supervisor review of time entries: who rejected an entry and why. Entries
+-- waiting for review are listed per operator and week.
+
+ALTER TABLE time_entries ADD COLUMN rejected_by TEXT;
+ALTER TABLE time_entries ADD COLUMN rejected_at TIMESTAMPTZ;
+ALTER TABLE time_entries ADD COLUMN review_comment TEXT;
+
+CREATE INDEX idx_time_entries_unapproved ON time_entries(operator_id, start_time) WHERE NOT approved;
@@ -0,0 +1,53 @@
+-- SYLON Migration 010
+-- Daily checks, shifts, site visits, processed material loads and upload sessions,
+-- which were only kept in memory and lost on restart
+
+-- A check is stored with the time it was completed, not just its day
+ALTER TABLE daily_checks ALTER COLUMN check_date TYPE TIMESTAMPTZ;
+ALTER TABLE daily_checks ADD COLUMN updated_at TIMESTAMPTZ DEFAULT NOW();
+
+CREATE TABLE shifts (
+  id TEXT PRIMARY KEY,
+  operator_id TEXT NOT NULL,
+  resource_id TEXT NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  breaks JSONB NOT NULL DEFAULT '[]',
+  status VARCHAR(20) NOT NULL,
+  -- The day summary that closed the shift, so a retried sync updates the same shift
+  day_summary_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_shifts_resource ON shifts(resource_id);
+CREATE INDEX idx_shifts_start ON shifts(start_time DESC);
+
+ALTER TABLE site_visits ADD COLUMN created_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE site_visits ADD COLUMN updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Load ids are chosen by the field app, so they are unique per company only
+CREATE TABLE processed_material_loads (
+  company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  job_material JSONB NOT NULL,
+  transaction_ids TEXT[] NOT NULL,
+  processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (company_id, id)
+);
+
+-- Chunked uploads; the received bytes are in the blob store under uploads/<id>
+CREATE TABLE uploads (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  filename TEXT NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  size INTEGER NOT NULL,
+  received INTEGER NOT NULL DEFAULT 0,
+  chunk_size INTEGER NOT NULL,
+  complete BOOLEAN NOT NULL DEFAULT false,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_uploads_expires ON uploads(expires_at);
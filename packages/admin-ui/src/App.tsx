@@ -2,23 +2,35 @@
  * SYLON Admin UI - Main App
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { LoginView } from './components/auth';
 import { Layout } from './components/layout/Layout';
 import { Dashboard } from './components/dashboard/Dashboard';
 import { ResourcesView } from './components/resources/ResourcesView';
 import { WorksView } from './components/works/WorksView';
 import { SitesView } from './components/sites/SitesView';
 import { GarageView } from './components/garage/GarageView';
-import { useResources, useJobs, useSites } from './hooks';
+import { WorkOrdersView } from './components/workorders/WorkOrdersView';
+import { TimeApprovalView } from './components/timesheets/TimeApprovalView';
+import { useResources, useJobs, useSites, useDailyChecks, useWorkOrders, useTimeApprovals } from './hooks';
 import { Spinner } from './components/ui';
+import { getSession, logout, onSessionEnded, type Session } from './services/auth';
 import './styles/globals.css';
 
-const App: React.FC = () => {
+interface AuthenticatedAppProps {
+  session: Session;
+  onLogout: () => void;
+}
+
+const AuthenticatedApp: React.FC<AuthenticatedAppProps> = ({ session, onLogout }) => {
   const [activeModule, setActiveModule] = useState('dashboard');
   
   const { resources, loading: resourcesLoading } = useResources();
   const { jobs, loading: jobsLoading, updateStatus, createJob } = useJobs();
-  const { sites, loading: sitesLoading, updateSite, addMaterial, updateMaterial, deleteMaterial } = useSites();
+  const { checks: dailyChecks, skipped: skippedChecks } = useDailyChecks();
+  const { sites, loading: sitesLoading, updateSite, addMaterial, updateMaterial, deleteMaterial, recordTransaction } = useSites();
+  const { workOrders, customers, error: workOrdersError } = useWorkOrders();
+  const { groups: approvalGroups, error: approvalsError, review: reviewTimeEntries } = useTimeApprovals();
 
   const loading = resourcesLoading || jobsLoading || sitesLoading;
 
@@ -68,10 +80,15 @@ const App: React.FC = () => {
             onAddMaterial={addMaterial}
             onUpdateMaterial={updateMaterial}
             onDeleteMaterial={deleteMaterial}
+            onRecordTransaction={recordTransaction}
           />
         );
       case 'garage':
-        return <GarageView resources={resources} />;
+        return <GarageView resources={resources} dailyChecks={dailyChecks} skippedChecks={skippedChecks} />;
+      case 'workorders':
+        return <WorkOrdersView workOrders={workOrders} customers={customers} error={workOrdersError} />;
+      case 'timesheets':
+        return <TimeApprovalView groups={approvalGroups} error={approvalsError} onReview={reviewTimeEntries} />;
       default:
         return (
           <Dashboard 
@@ -84,10 +101,28 @@ const App: React.FC = () => {
   };
 
   return (
-    <Layout activeModule={activeModule} onModuleChange={setActiveModule}>
+    <Layout
+      activeModule={activeModule}
+      onModuleChange={setActiveModule}
+      userName={`${session.user.firstName} ${session.user.lastName}`}
+      onLogout={onLogout}
+    >
       {renderModule()}
     </Layout>
   );
 };
 
+const App: React.FC = () => {
+  const [session, setSession] = useState<Session | null>(getSession);
+
+  // Back to the login view when a refresh is rejected
+  useEffect(() => onSessionEnded(() => setSession(null)), []);
+
+  if (!session) {
+    return <LoginView onLogin={setSession} />;
+  }
+
+  return <AuthenticatedApp session={session} onLogout={() => void logout()} />;
+};
+
 export default App;
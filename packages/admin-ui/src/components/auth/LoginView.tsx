@@ -0,0 +1,71 @@
+/**
+ * SYLON Admin UI - Login View
+ * Email and password sign-in for office users
+ */
+
+import React, { useState } from 'react';
+import { Button, Card } from '../ui';
+import { login, type Session } from '../../services/auth';
+import './auth.css';
+
+interface LoginViewProps {
+  onLogin: (session: Session) => void;
+}
+
+export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      onLogin(await login(email.trim(), password));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Inloggning misslyckades');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-page">
+      <Card className="login-card" padding="lg">
+        <div className="login-logo">
+          <div className="logo-icon">S</div>
+          <span className="logo-text">SYLON</span>
+        </div>
+        <form className="login-form" onSubmit={handleSubmit}>
+          <label>
+            E-post
+            <input
+              type="email"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              autoComplete="username"
+              required
+            />
+          </label>
+          <label>
+            Lösenord
+            <input
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+            />
+          </label>
+          {error && <p className="login-error">{error}</p>}
+          <Button type="submit" loading={submitting}>Logga in</Button>
+        </form>
+        <p className="login-hint">Demo: admin@sylon.se / demo1234</p>
+      </Card>
+    </div>
+  );
+};
+
+export default LoginView;
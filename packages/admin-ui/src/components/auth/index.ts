@@ -0,0 +1,6 @@
+/**
+ * SYLON Admin UI - Auth Components
+ */
+
+export { LoginView } from './LoginView';
+export { default } from './LoginView';
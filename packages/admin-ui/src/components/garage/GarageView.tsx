@@ -15,16 +15,21 @@ import {
   Droplets,
   Activity,
   TrendingUp,
+  ClipboardCheck,
 } from 'lucide-react';
 import { Card, CardHeader, Badge, StatCard, Tabs } from '../ui';
 import { RESOURCE_TYPE_LABELS } from '@sylon/shared';
-import type { Resource, GeoPosition } from '@sylon/shared';
+import type { Resource, GeoPosition, DailyCheck, SkippedDailyCheck } from '@sylon/shared';
 import './garage.css';
 
 interface GarageViewProps {
   resources: { resource: Resource; position: GeoPosition }[];
+  dailyChecks?: DailyCheck[];
+  skippedChecks?: SkippedDailyCheck[];
 }
 
+type GarageTab = 'overview' | 'service' | 'fuel' | 'checks';
+
 type ServiceStatus = 'ok' | 'due_soon' | 'overdue';
 
 interface ResourceServiceInfo {
@@ -46,6 +51,12 @@ const STATUS_VARIANTS: Record<ServiceStatus, 'success' | 'warning' | 'danger'> =
   overdue: 'danger',
 };
 
+const SKIPPED_EVIDENCE_LABELS: Record<SkippedDailyCheck['evidence'], string> = {
+  shift: 'Skift rapporterat',
+  job: 'Pågående uppdrag',
+  gps: 'GPS-aktivitet',
+};
+
 // Helper function to get resource type color
 const getResourceTypeColor = (type: string): string => {
   switch (type) {
@@ -62,8 +73,13 @@ const getResourceTypeColor = (type: string): string => {
   }
 };
 
-export const GarageView: React.FC<GarageViewProps> = ({ resources }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'service' | 'fuel'>('overview');
+export const GarageView: React.FC<GarageViewProps> = ({ resources, dailyChecks = [], skippedChecks = [] }) => {
+  const [activeTab, setActiveTab] = useState<GarageTab>('overview');
+
+  const resourceNames = useMemo(
+    () => new Map(resources.map(({ resource }) => [resource.id, resource.name])),
+    [resources]
+  );
 
   // Calculate service information for each resource
   const resourceServiceInfo: ResourceServiceInfo[] = useMemo(() => {
@@ -134,6 +150,7 @@ export const GarageView: React.FC<GarageViewProps> = ({ resources }) => {
     { id: 'overview', label: 'Översikt', icon: <Activity size={16} /> },
     { id: 'service', label: 'Service', icon: <Wrench size={16} /> },
     { id: 'fuel', label: 'Bränsle', icon: <Fuel size={16} /> },
+    { id: 'checks', label: 'Dagliga kontroller', icon: <ClipboardCheck size={16} /> },
   ];
 
   const renderOverview = () => (
@@ -414,6 +431,87 @@ export const GarageView: React.FC<GarageViewProps> = ({ resources }) => {
     </div>
   );
 
+  const renderChecksTab = () => (
+    <div className="garage-checks-view">
+      <div className="garage-section-header">
+        <h3>Ej genomförda kontroller</h3>
+        <p>Fordon som använts idag utan daglig kontroll</p>
+      </div>
+
+      {skippedChecks.length === 0 ? (
+        <p className="checks-empty">Alla fordon i drift har genomfört daglig kontroll</p>
+      ) : (
+        <div className="garage-service-grid">
+          {skippedChecks.map(entry => (
+            <Card key={entry.resourceId} className="service-card">
+              <div className="service-card-header">
+                <div className="service-card-icon" style={{ backgroundColor: 'var(--color-danger)' }}>
+                  <AlertTriangle size={20} />
+                </div>
+                <div className="service-card-info">
+                  <h4>{resourceNames.get(entry.resourceId) ?? entry.resourceId}</h4>
+                  <span className="service-card-type">{SKIPPED_EVIDENCE_LABELS[entry.evidence]}</span>
+                </div>
+                <Badge variant="danger" size="sm">Saknas</Badge>
+              </div>
+              <div className="service-card-details">
+                <div className="service-detail">
+                  <span className="detail-label">Förare</span>
+                  <span className="detail-value">{entry.operatorId ?? '–'}</span>
+                </div>
+                <div className="service-detail">
+                  <span className="detail-label">Första aktivitet</span>
+                  <span className="detail-value">
+                    {entry.firstSeenAt ? entry.firstSeenAt.toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' }) : '–'}
+                  </span>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <div className="garage-section-header">
+        <h3>Dagens kontroller</h3>
+        <p>Genomförda kontroller före körning</p>
+      </div>
+
+      {dailyChecks.length === 0 ? (
+        <p className="checks-empty">Inga kontroller registrerade idag</p>
+      ) : (
+        <div className="garage-service-grid">
+          {dailyChecks.map(check => (
+            <Card key={check.id} className="service-card">
+              <div className="service-card-header">
+                <div className="service-card-icon" style={{
+                  backgroundColor: check.allPassed ? 'var(--color-success)' : 'var(--color-danger)'
+                }}>
+                  {check.allPassed ? <CheckCircle size={20} /> : <Wrench size={20} />}
+                </div>
+                <div className="service-card-info">
+                  <h4>{resourceNames.get(check.resourceId) ?? check.resourceId}</h4>
+                  <span className="service-card-type">
+                    {check.checkDate.toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' })} • {check.operatorId}
+                  </span>
+                </div>
+                <Badge variant={check.allPassed ? 'success' : 'danger'} size="sm">
+                  {check.allPassed ? 'Godkänd' : `${check.issuesFound} fel`}
+                </Badge>
+              </div>
+              {!check.allPassed && (
+                <ul className="check-failed-items">
+                  {check.items.filter(item => item.issue).map(item => (
+                    <li key={item.item}>{item.item}</li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="garage-view">
       <div className="garage-header">
@@ -424,13 +522,14 @@ export const GarageView: React.FC<GarageViewProps> = ({ resources }) => {
       <Tabs
         tabs={tabs}
         activeTab={activeTab}
-        onChange={(id) => setActiveTab(id as 'overview' | 'service' | 'fuel')}
+        onChange={(id) => setActiveTab(id as GarageTab)}
       />
 
       <div className="garage-content">
         {activeTab === 'overview' && renderOverview()}
         {activeTab === 'service' && renderServiceTab()}
         {activeTab === 'fuel' && renderFuelTab()}
+        {activeTab === 'checks' && renderChecksTab()}
       </div>
     </div>
   );
@@ -10,11 +10,14 @@ import {
   MapPin,
   Briefcase,
   Warehouse,
+  FileText,
+  ClipboardCheck,
   Settings,
   Menu,
   X,
   Bell,
   User,
+  LogOut,
   Smartphone,
   ExternalLink,
 } from 'lucide-react';
@@ -24,6 +27,8 @@ interface LayoutProps {
   children: React.ReactNode;
   activeModule: string;
   onModuleChange: (module: string) => void;
+  userName: string;
+  onLogout: () => void;
 }
 
 // Field App URL - defaults to localhost:5174 for development
@@ -35,12 +40,16 @@ const navItems = [
   { id: 'resources', label: 'Resurser', icon: Truck },
   { id: 'sites', label: 'Sites', icon: MapPin },
   { id: 'garage', label: 'Garage', icon: Warehouse },
+  { id: 'workorders', label: 'Arbetsordrar', icon: FileText },
+  { id: 'timesheets', label: 'Attestering', icon: ClipboardCheck },
 ];
 
 export const Layout: React.FC<LayoutProps> = ({
   children,
   activeModule,
   onModuleChange,
+  userName,
+  onLogout,
 }) => {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -127,7 +136,10 @@ export const Layout: React.FC<LayoutProps> = ({
             </button>
             <button className="header-btn user-btn">
               <User size={20} />
-              <span className="user-name">Admin</span>
+              <span className="user-name">{userName}</span>
+            </button>
+            <button className="header-btn" onClick={onLogout} title="Logga ut">
+              <LogOut size={20} />
             </button>
           </div>
         </header>
@@ -6,15 +6,23 @@
 import React, { useEffect, useState } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, useMap, Circle, Polyline } from 'react-leaflet';
 import L from 'leaflet';
+import { History } from 'lucide-react';
 import { SUNDSVALL_CENTER, RESOURCE_TYPE_LABELS, DEMO_GARAGE, DEMO_QUARRY_NORTH, DEMO_QUARRY_SOUTH, DEMO_SNOW_DUMP } from '@sylon/shared';
 import type { GeoPosition, Resource, ResourceType } from '@sylon/shared';
-import { Badge } from '../ui';
+import { Badge, Button } from '../ui';
+import { useResourceTrack } from '../../hooks';
+import { TrackPlaybackLayer, TrackPlaybackControls } from './TrackPlayback';
 import 'leaflet/dist/leaflet.css';
 import './map.css';
 
 // Delay in ms before allowing map to be panned after centering
 const MAP_CENTER_RESET_DELAY_MS = 100;
 
+// Playback advances this many ms of recorded time per animation step
+const PLAYBACK_STEP_MS = 30000;
+const PLAYBACK_TICK_MS = 200;
+const DEFAULT_PLAYBACK_WINDOW_HOURS = 4;
+
 // Fix Leaflet default icons
 delete (L.Icon.Default.prototype as unknown as { _getIconUrl: unknown })._getIconUrl;
 L.Icon.Default.mergeOptions({
@@ -77,6 +85,7 @@ interface LiveMapProps {
   onResourceSelect?: (resourceId: string) => void;
   showTrails?: boolean;
   filterTypes?: ResourceType[];
+  enablePlayback?: boolean;
 }
 
 export const LiveMap: React.FC<LiveMapProps> = ({
@@ -85,10 +94,21 @@ export const LiveMap: React.FC<LiveMapProps> = ({
   onResourceSelect,
   showTrails = false,
   filterTypes,
+  enablePlayback = false,
 }) => {
   const [trails, setTrails] = useState<Map<string, [number, number][]>>(new Map());
   const [shouldCenterMap, setShouldCenterMap] = useState(true);
   const [lastSelectedId, setLastSelectedId] = useState<string | undefined>(undefined);
+  const [playbackActive, setPlaybackActive] = useState(false);
+  const [playbackWindowHours, setPlaybackWindowHours] = useState(DEFAULT_PLAYBACK_WINDOW_HOURS);
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  
+  const isPlayback = enablePlayback && playbackActive && !!selectedResourceId;
+  const { track, loading: trackLoading } = useResourceTrack(selectedResourceId, playbackWindowHours, isPlayback);
+  const trackStart = track?.points[0]?.timestamp.getTime() ?? 0;
+  const trackEnd = track?.points[track.points.length - 1]?.timestamp.getTime() ?? 0;
+  const currentTime = Math.min(Math.max(playbackTime ?? trackStart, trackStart), trackEnd);
   
   // Filter resources by type
   const filteredResources = filterTypes
@@ -130,6 +150,40 @@ export const LiveMap: React.FC<LiveMapProps> = ({
     }
   }, [filteredResources, showTrails]);
 
+  // Advance playback while playing
+  useEffect(() => {
+    if (!isPlayback || !playing) return;
+    const timer = setTimeout(() => {
+      const next = currentTime + PLAYBACK_STEP_MS;
+      if (next >= trackEnd) {
+        setPlaybackTime(trackEnd);
+        setPlaying(false);
+      } else {
+        setPlaybackTime(next);
+      }
+    }, PLAYBACK_TICK_MS);
+    return () => clearTimeout(timer);
+  }, [isPlayback, playing, currentTime, trackEnd]);
+
+  const startPlayback = () => {
+    setPlaybackActive(true);
+    setPlaybackTime(null);
+    setPlaying(false);
+  };
+
+  const stopPlayback = () => {
+    setPlaybackActive(false);
+    setPlaying(false);
+  };
+
+  const togglePlay = () => {
+    // Restart from the beginning when playback has reached the end
+    if (!playing && currentTime >= trackEnd) {
+      setPlaybackTime(trackStart);
+    }
+    setPlaying(!playing);
+  };
+
   const selectedResource = filteredResources.find(r => r.resource.id === selectedResourceId);
   const center: [number, number] = selectedResource
     ? [selectedResource.position.latitude, selectedResource.position.longitude]
@@ -165,46 +219,57 @@ export const LiveMap: React.FC<LiveMapProps> = ({
           );
         })}
 
+        {/* Track playback for the selected resource */}
+        {isPlayback && track && (
+          <TrackPlaybackLayer
+            track={track}
+            currentTime={currentTime}
+            color={selectedResource ? RESOURCE_COLORS[selectedResource.resource.type] : '#2563eb'}
+          />
+        )}
+
         {/* Resource markers */}
-        {filteredResources.map(({ resource, position }) => (
-          <Marker
-            key={resource.id}
-            position={[position.latitude, position.longitude]}
-            icon={createMarkerIcon(resource.type, position.heading)}
-            eventHandlers={{
-              click: () => onResourceSelect?.(resource.id),
-            }}
-          >
-            <Popup className="resource-popup">
-              <div className="popup-content">
-                <div className="popup-header">
-                  <strong>{resource.name}</strong>
-                  <Badge variant={resource.status === 'on_job' ? 'success' : 'default'} size="sm">
-                    {resource.status}
-                  </Badge>
-                </div>
-                <div className="popup-details">
-                  <div className="popup-row">
-                    <span className="popup-label">Typ:</span>
-                    <span>{RESOURCE_TYPE_LABELS[resource.type] ?? resource.type}</span>
-                  </div>
-                  <div className="popup-row">
-                    <span className="popup-label">Reg.nr:</span>
-                    <span>{resource.registrationNumber}</span>
-                  </div>
-                  <div className="popup-row">
-                    <span className="popup-label">Hastighet:</span>
-                    <span>{Math.round(position.speed ?? 0)} km/h</span>
+        {filteredResources
+          .filter(({ resource }) => !(isPlayback && resource.id === selectedResourceId))
+          .map(({ resource, position }) => (
+            <Marker
+              key={resource.id}
+              position={[position.latitude, position.longitude]}
+              icon={createMarkerIcon(resource.type, position.heading)}
+              eventHandlers={{
+                click: () => onResourceSelect?.(resource.id),
+              }}
+            >
+              <Popup className="resource-popup">
+                <div className="popup-content">
+                  <div className="popup-header">
+                    <strong>{resource.name}</strong>
+                    <Badge variant={resource.status === 'on_job' ? 'success' : 'default'} size="sm">
+                      {resource.status}
+                    </Badge>
                   </div>
-                  <div className="popup-row">
-                    <span className="popup-label">Bränsle:</span>
-                    <span>{Math.round(resource.fuelStatus.currentLevel)}%</span>
+                  <div className="popup-details">
+                    <div className="popup-row">
+                      <span className="popup-label">Typ:</span>
+                      <span>{RESOURCE_TYPE_LABELS[resource.type] ?? resource.type}</span>
+                    </div>
+                    <div className="popup-row">
+                      <span className="popup-label">Reg.nr:</span>
+                      <span>{resource.registrationNumber}</span>
+                    </div>
+                    <div className="popup-row">
+                      <span className="popup-label">Hastighet:</span>
+                      <span>{Math.round(position.speed ?? 0)} km/h</span>
+                    </div>
+                    <div className="popup-row">
+                      <span className="popup-label">Bränsle:</span>
+                      <span>{Math.round(resource.fuelStatus.currentLevel)}%</span>
+                    </div>
                   </div>
                 </div>
-              </div>
-            </Popup>
-          </Marker>
-        ))}
+              </Popup>
+            </Marker>
+          ))}
 
         {/* Sites - Garage HQ */}
         <Circle
@@ -258,6 +323,32 @@ export const LiveMap: React.FC<LiveMapProps> = ({
           </Popup>
         </Circle>
       </MapContainer>
+
+      {enablePlayback && selectedResourceId && !playbackActive && (
+        <div className="map-controls">
+          <Button variant="secondary" size="sm" icon={<History size={14} />} onClick={startPlayback}>
+            Uppspelning
+          </Button>
+        </div>
+      )}
+
+      {isPlayback && (
+        <TrackPlaybackControls
+          track={track}
+          loading={trackLoading}
+          windowHours={playbackWindowHours}
+          currentTime={currentTime}
+          playing={playing}
+          onWindowChange={(hours) => {
+            setPlaybackWindowHours(hours);
+            setPlaybackTime(null);
+            setPlaying(false);
+          }}
+          onSeek={setPlaybackTime}
+          onTogglePlay={togglePlay}
+          onClose={stopPlayback}
+        />
+      )}
     </div>
   );
 };
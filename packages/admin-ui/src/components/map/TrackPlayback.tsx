@@ -0,0 +1,201 @@
+/**
+ * SYLON Admin UI - Track Playback
+ * Replays a resource's recorded track on the live map
+ */
+
+import React from 'react';
+import { Marker, Popup, Polyline, CircleMarker } from 'react-leaflet';
+import L from 'leaflet';
+import { Play, Pause, X } from 'lucide-react';
+import { formatDuration, formatSwedishDateTime, formatSwedishTime } from '@sylon/shared';
+import type { GeoPosition, ResourceTrack } from '@sylon/shared';
+import { Button, Spinner } from '../ui';
+
+const PLAYBACK_WINDOWS = [
+  { hours: 1, label: '1 h' },
+  { hours: 4, label: '4 h' },
+  { hours: 12, label: '12 h' },
+  { hours: 24, label: '24 h' },
+];
+
+// Find the interpolated position at a given time along the track
+function positionAt(points: GeoPosition[], time: number): GeoPosition | null {
+  if (points.length === 0) return null;
+
+  const first = points[0]!;
+  if (time <= first.timestamp.getTime()) return first;
+
+  for (let i = 1; i < points.length; i++) {
+    const next = points[i]!;
+    const nextTime = next.timestamp.getTime();
+    if (time <= nextTime) {
+      const prev = points[i - 1]!;
+      const prevTime = prev.timestamp.getTime();
+      const fraction = nextTime === prevTime ? 1 : (time - prevTime) / (nextTime - prevTime);
+      return {
+        latitude: prev.latitude + (next.latitude - prev.latitude) * fraction,
+        longitude: prev.longitude + (next.longitude - prev.longitude) * fraction,
+        timestamp: new Date(time),
+        speed: next.speed,
+        heading: next.heading,
+      };
+    }
+  }
+
+  return points[points.length - 1]!;
+}
+
+const playbackIcon = L.divIcon({
+  className: 'resource-marker',
+  html: `
+    <div class="marker-container" style="--marker-color: #2563eb; --rotation: 0deg">
+      <div class="marker-icon playback-marker-icon"></div>
+    </div>
+  `,
+  iconSize: [40, 40],
+  iconAnchor: [20, 20],
+});
+
+// ============================================
+// MAP LAYER
+// ============================================
+
+interface TrackPlaybackLayerProps {
+  track: ResourceTrack;
+  currentTime: number;
+  color: string;
+}
+
+export const TrackPlaybackLayer: React.FC<TrackPlaybackLayerProps> = ({ track, currentTime, color }) => {
+  const position = positionAt(track.points, currentTime);
+
+  return (
+    <>
+      {track.points.length >= 2 && (
+        <Polyline
+          positions={track.points.map(p => [p.latitude, p.longitude] as [number, number])}
+          color={color}
+          weight={4}
+          opacity={0.7}
+        />
+      )}
+
+      {track.stops.map(stop => (
+        <CircleMarker
+          key={`stop-${stop.arrivedAt.getTime()}`}
+          center={[stop.coordinates.latitude, stop.coordinates.longitude]}
+          radius={7}
+          pathOptions={{ color: '#ef4444', fillColor: '#fca5a5', fillOpacity: 0.9 }}
+        >
+          <Popup>
+            <strong>Stopp</strong>
+            <br />
+            {formatSwedishTime(stop.arrivedAt)} – {formatSwedishTime(stop.departedAt)}
+            <br />
+            {formatDuration(Math.round(stop.duration / 60))}
+          </Popup>
+        </CircleMarker>
+      ))}
+
+      {position && (
+        <Marker position={[position.latitude, position.longitude]} icon={playbackIcon}>
+          <Popup>
+            {formatSwedishDateTime(position.timestamp)}
+            <br />
+            {Math.round(position.speed ?? 0)} km/h
+          </Popup>
+        </Marker>
+      )}
+    </>
+  );
+};
+
+// ============================================
+// CONTROLS
+// ============================================
+
+interface TrackPlaybackControlsProps {
+  track: ResourceTrack | null;
+  loading: boolean;
+  windowHours: number;
+  currentTime: number;
+  playing: boolean;
+  onWindowChange: (hours: number) => void;
+  onSeek: (time: number) => void;
+  onTogglePlay: () => void;
+  onClose: () => void;
+}
+
+export const TrackPlaybackControls: React.FC<TrackPlaybackControlsProps> = ({
+  track,
+  loading,
+  windowHours,
+  currentTime,
+  playing,
+  onWindowChange,
+  onSeek,
+  onTogglePlay,
+  onClose,
+}) => {
+  const start = track?.points[0]?.timestamp.getTime() ?? 0;
+  const end = track?.points[track.points.length - 1]?.timestamp.getTime() ?? 0;
+  const hasTrack = !!track && track.points.length >= 2;
+
+  return (
+    <div className="playback-controls">
+      <div className="playback-header">
+        <span className="playback-title">Uppspelning</span>
+        <div className="playback-windows">
+          {PLAYBACK_WINDOWS.map(w => (
+            <button
+              key={w.hours}
+              className={`playback-window ${windowHours === w.hours ? 'playback-window-active' : ''}`}
+              onClick={() => onWindowChange(w.hours)}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+        <button className="playback-close" onClick={onClose} title="Stäng uppspelning">
+          <X size={16} />
+        </button>
+      </div>
+
+      {loading && <Spinner size="sm" />}
+
+      {!loading && !hasTrack && (
+        <p className="playback-empty">Ingen positionshistorik för vald period</p>
+      )}
+
+      {!loading && hasTrack && (
+        <>
+          <div className="playback-timeline">
+            <Button
+              variant="secondary"
+              size="sm"
+              icon={playing ? <Pause size={14} /> : <Play size={14} />}
+              onClick={onTogglePlay}
+            >
+              {playing ? 'Pausa' : 'Spela'}
+            </Button>
+            <input
+              type="range"
+              className="playback-slider"
+              min={start}
+              max={end}
+              step={1000}
+              value={Math.min(Math.max(currentTime, start), end)}
+              onChange={e => onSeek(Number(e.target.value))}
+            />
+            <span className="playback-time">{formatSwedishDateTime(new Date(Math.max(currentTime, start)))}</span>
+          </div>
+          <div className="playback-summary">
+            <span>{track.distance.toFixed(1)} km</span>
+            <span>{track.stops.length} stopp</span>
+            <span>{track.points.length} / {track.originalPointCount} punkter</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
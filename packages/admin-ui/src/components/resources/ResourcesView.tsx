@@ -166,6 +166,7 @@ export const ResourcesView: React.FC<ResourcesViewProps> = ({ resources }) => {
                   resources={[selectedResource]}
                   selectedResourceId={selectedResourceId ?? undefined}
                   showTrails
+                  enablePlayback
                 />
               </div>
               <div className="detail-info">
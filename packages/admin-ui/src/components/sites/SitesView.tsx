@@ -15,10 +15,13 @@ import {
   Plus,
   Trash2,
   Save,
+  Truck,
+  ArrowLeftRight,
 } from 'lucide-react';
 import { Card, CardHeader, Badge, Button, Modal } from '../ui';
 import { LiveMap } from '../map/LiveMap';
-import type { Site, SiteMaterial, MaterialCategory } from '@sylon/shared';
+import { RESOURCE_TYPE_LABELS } from '@sylon/shared';
+import type { Site, SiteMaterial, MaterialCategory, CreateMaterialTransactionRequest, MaterialTransactionResult } from '@sylon/shared';
 import './sites.css';
 
 interface SitesViewProps {
@@ -27,6 +30,7 @@ interface SitesViewProps {
   onAddMaterial?: (siteId: string, material: Partial<SiteMaterial>) => Promise<Site>;
   onUpdateMaterial?: (siteId: string, materialId: string, updates: Partial<SiteMaterial>) => Promise<Site>;
   onDeleteMaterial?: (siteId: string, materialId: string) => Promise<Site>;
+  onRecordTransaction?: (siteId: string, transaction: CreateMaterialTransactionRequest) => Promise<MaterialTransactionResult>;
 }
 
 const SITE_TYPE_ICONS: Record<string, React.ReactNode> = {
@@ -91,18 +95,35 @@ const initialMaterialFormData: MaterialFormData = {
   availability: 'available',
 };
 
+interface TransactionFormData {
+  type: 'in' | 'out';
+  quantity: string;
+  weighticketNumber: string;
+  notes: string;
+}
+
+const initialTransactionFormData: TransactionFormData = {
+  type: 'in',
+  quantity: '',
+  weighticketNumber: '',
+  notes: '',
+};
+
 export const SitesView: React.FC<SitesViewProps> = ({ 
   sites,
   onUpdateSite,
   onAddMaterial,
   onUpdateMaterial,
   onDeleteMaterial,
+  onRecordTransaction,
 }) => {
   const [selectedSiteId, setSelectedSiteId] = useState<string | null>(null);
   const [isEditingSite, setIsEditingSite] = useState(false);
   const [isMaterialModalOpen, setIsMaterialModalOpen] = useState(false);
   const [editingMaterial, setEditingMaterial] = useState<SiteMaterial | null>(null);
   const [materialFormData, setMaterialFormData] = useState<MaterialFormData>(initialMaterialFormData);
+  const [transactionMaterial, setTransactionMaterial] = useState<SiteMaterial | null>(null);
+  const [transactionFormData, setTransactionFormData] = useState<TransactionFormData>(initialTransactionFormData);
   const [isSaving, setIsSaving] = useState(false);
   
   // Site edit form state
@@ -176,7 +197,8 @@ export const SitesView: React.FC<SitesViewProps> = ({
         description: materialFormData.description || undefined,
         unit: materialFormData.unit,
         pricePerUnit: materialFormData.pricePerUnit ? parseFloat(materialFormData.pricePerUnit) : undefined,
-        currentStock: materialFormData.currentStock ? parseFloat(materialFormData.currentStock) : undefined,
+        // Stock of existing materials only changes through the transaction ledger
+        currentStock: !editingMaterial && materialFormData.currentStock ? parseFloat(materialFormData.currentStock) : undefined,
         minStock: materialFormData.minStock ? parseFloat(materialFormData.minStock) : undefined,
         maxStock: materialFormData.maxStock ? parseFloat(materialFormData.maxStock) : undefined,
         availability: materialFormData.availability,
@@ -198,6 +220,38 @@ export const SitesView: React.FC<SitesViewProps> = ({
     }
   };
 
+  const handleOpenTransactionModal = (material: SiteMaterial) => {
+    setTransactionMaterial(material);
+    setTransactionFormData(initialTransactionFormData);
+  };
+
+  const handleSaveTransaction = async () => {
+    if (!selectedSite || !transactionMaterial || !onRecordTransaction) return;
+    const quantity = parseFloat(transactionFormData.quantity);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      alert('Ange en giltig mängd');
+      return;
+    }
+    setIsSaving(true);
+    
+    try {
+      await onRecordTransaction(selectedSite.id, {
+        materialId: transactionMaterial.id,
+        type: transactionFormData.type,
+        quantity,
+        weighticketNumber: transactionFormData.weighticketNumber || undefined,
+        notes: transactionFormData.notes || undefined,
+      });
+      setTransactionMaterial(null);
+    } catch (error) {
+      console.error('Failed to record transaction:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Ett oväntat fel uppstod';
+      alert(`Kunde inte registrera lagerrörelse: ${errorMessage}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleDeleteMaterial = async (materialId: string) => {
     if (!selectedSite || !onDeleteMaterial) return;
     if (!confirm('Är du säker på att du vill ta bort detta material?')) return;
@@ -316,6 +370,44 @@ export const SitesView: React.FC<SitesViewProps> = ({
                   </div>
                 )}
                 
+                {selectedSite.trafficStats && (
+                  <div className="detail-section">
+                    <h5>Trafik idag</h5>
+                    <div className="traffic-stats">
+                      <div className="traffic-stat">
+                        <Truck size={14} />
+                        <span>{selectedSite.trafficStats.totalVisits} besök</span>
+                      </div>
+                      <div className="traffic-stat">
+                        <span>{selectedSite.trafficStats.totalLoads} lastningar</span>
+                      </div>
+                      <div className="traffic-stat">
+                        <span>{selectedSite.trafficStats.totalUnloads} lossningar</span>
+                      </div>
+                      {selectedSite.trafficStats.averageWaitTime !== undefined && (
+                        <div className="traffic-stat">
+                          <Clock size={14} />
+                          <span>{selectedSite.trafficStats.averageWaitTime} min snittväntetid</span>
+                        </div>
+                      )}
+                      {selectedSite.trafficStats.peakHour && (
+                        <div className="traffic-stat">
+                          <span>Högtrafik {selectedSite.trafficStats.peakHour}</span>
+                        </div>
+                      )}
+                    </div>
+                    {selectedSite.trafficStats.byResourceType && selectedSite.trafficStats.byResourceType.length > 0 && (
+                      <div className="traffic-by-type">
+                        {selectedSite.trafficStats.byResourceType.map(entry => (
+                          <Badge key={entry.type} variant="default">
+                            {RESOURCE_TYPE_LABELS[entry.type] ?? entry.type}: {entry.count}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                
                 {selectedSite.contact && (
                   <div className="detail-section">
                     <h5>Kontakt</h5>
@@ -362,8 +454,17 @@ export const SitesView: React.FC<SitesViewProps> = ({
                                 {material.currentStock.toLocaleString()} {material.unit}
                               </span>
                             )}
-                            {(onUpdateMaterial || onDeleteMaterial) && (
+                            {(onUpdateMaterial || onDeleteMaterial || onRecordTransaction) && (
                               <div className="material-actions">
+                                {onRecordTransaction && (
+                                  <button 
+                                    className="material-action-btn"
+                                    onClick={() => handleOpenTransactionModal(material)}
+                                    title="Lagerrörelse"
+                                  >
+                                    <ArrowLeftRight size={14} />
+                                  </button>
+                                )}
                                 {onUpdateMaterial && (
                                   <button 
                                     className="material-action-btn"
@@ -593,13 +694,15 @@ export const SitesView: React.FC<SitesViewProps> = ({
         </div>
         <div className="form-row">
           <div className="form-group">
-            <label>Nuvarande lager</label>
+            <label>{editingMaterial ? 'Nuvarande lager' : 'Ingående lager'}</label>
             <input
               type="number"
               value={materialFormData.currentStock}
               onChange={(e) => setMaterialFormData(prev => ({ ...prev, currentStock: e.target.value }))}
               className="form-input"
               min="0"
+              disabled={!!editingMaterial}
+              title={editingMaterial ? 'Lagersaldot ändras via lagertransaktioner' : undefined}
             />
           </div>
           <div className="form-group">
@@ -637,6 +740,78 @@ export const SitesView: React.FC<SitesViewProps> = ({
           </select>
         </div>
       </Modal>
+
+      {/* Material Transaction Modal */}
+      <Modal
+        isOpen={!!transactionMaterial}
+        onClose={() => setTransactionMaterial(null)}
+        title={`Lagerrörelse – ${transactionMaterial?.name ?? ''}`}
+        size="md"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setTransactionMaterial(null)}>
+              Avbryt
+            </Button>
+            <Button 
+              variant="primary" 
+              icon={<Save size={16} />}
+              onClick={handleSaveTransaction}
+              loading={isSaving}
+              disabled={!transactionFormData.quantity}
+            >
+              Registrera
+            </Button>
+          </>
+        }
+      >
+        {transactionMaterial?.currentStock !== undefined && (
+          <p className="transaction-stock">
+            I lager: {transactionMaterial.currentStock.toLocaleString()} {transactionMaterial.unit}
+          </p>
+        )}
+        <div className="form-row">
+          <div className="form-group">
+            <label>Typ</label>
+            <select
+              value={transactionFormData.type}
+              onChange={(e) => setTransactionFormData(prev => ({ ...prev, type: e.target.value as TransactionFormData['type'] }))}
+              className="form-input"
+            >
+              <option value="in">Inleverans</option>
+              <option value="out">Utleverans</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Mängd ({transactionMaterial?.unit}) *</label>
+            <input
+              type="number"
+              value={transactionFormData.quantity}
+              onChange={(e) => setTransactionFormData(prev => ({ ...prev, quantity: e.target.value }))}
+              className="form-input"
+              min="0"
+              step="0.01"
+            />
+          </div>
+        </div>
+        <div className="form-group">
+          <label>Vågsedel</label>
+          <input
+            type="text"
+            value={transactionFormData.weighticketNumber}
+            onChange={(e) => setTransactionFormData(prev => ({ ...prev, weighticketNumber: e.target.value }))}
+            className="form-input"
+          />
+        </div>
+        <div className="form-group">
+          <label>Anteckning</label>
+          <textarea
+            value={transactionFormData.notes}
+            onChange={(e) => setTransactionFormData(prev => ({ ...prev, notes: e.target.value }))}
+            className="form-input"
+            rows={2}
+          />
+        </div>
+      </Modal>
     </div>
   );
 };
@@ -0,0 +1,266 @@
+/**
+ * SYLON Admin UI - Time Approval View
+ * Supervisor queue of unapproved time entries per operator and week, with
+ * anomalies flagged and bulk approve or reject
+ */
+
+import React, { useMemo, useState } from 'react';
+import { CheckCircle, XCircle, AlertTriangle, Clock, Users, ListChecks } from 'lucide-react';
+import { Card, CardHeader, Badge, Button, StatCard, Tabs } from '../ui';
+import type {
+  ReviewTimeEntriesRequest,
+  ReviewTimeEntriesResult,
+  TimeApprovalGroup,
+  TimeEntryAnomalyType,
+  TimeEntryType,
+} from '@sylon/shared';
+import './timesheets.css';
+
+interface TimeApprovalViewProps {
+  groups: TimeApprovalGroup[];
+  error?: Error | null;
+  onReview: (request: ReviewTimeEntriesRequest) => Promise<ReviewTimeEntriesResult>;
+}
+
+type QueueFilter = 'all' | 'anomalies';
+
+const TIME_ENTRY_TYPE_LABELS: Record<TimeEntryType, string> = {
+  work: 'Arbete',
+  travel: 'Resa',
+  break: 'Rast',
+  maintenance: 'Underhåll',
+  waiting: 'Väntetid',
+  loading: 'Lastning',
+  unloading: 'Lossning',
+};
+
+const ANOMALY_LABELS: Record<TimeEntryAnomalyType, string> = {
+  overlap: 'Överlapp',
+  outside_shift: 'Utanför skift',
+  missing_break: 'Rast saknas',
+};
+
+const formatDay = (date: Date) => date.toLocaleDateString('sv-SE', { weekday: 'short', day: 'numeric', month: 'short' });
+
+const formatTime = (date: Date) => date.toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' });
+
+const formatHours = (hours: number) => `${hours.toLocaleString('sv-SE', { maximumFractionDigits: 2 })} h`;
+
+const groupKey = (group: TimeApprovalGroup) => `${group.operatorId}:${group.week}`;
+
+export const TimeApprovalView: React.FC<TimeApprovalViewProps> = ({ groups, error, onReview }) => {
+  const [filter, setFilter] = useState<QueueFilter>('all');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [outcome, setOutcome] = useState<{ message: string; failed: ReviewTimeEntriesResult['failed'] } | null>(null);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+
+  const visibleGroups = useMemo(
+    () => filter === 'anomalies' ? groups.filter(group => group.anomalyCount > 0) : groups,
+    [groups, filter]
+  );
+
+  const totals = useMemo(() => ({
+    entries: groups.reduce((sum, group) => sum + group.items.length, 0),
+    hours: groups.reduce((sum, group) => sum + group.totalHours, 0),
+    operators: new Set(groups.map(group => group.operatorId)).size,
+    flagged: groups.reduce((sum, group) => sum + group.items.filter(item => item.anomalies.length > 0).length, 0),
+  }), [groups]);
+
+  const toggle = (ids: string[], on: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      for (const id of ids) {
+        if (on) next.add(id);
+        else next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const submit = async (decision: ReviewTimeEntriesRequest['decision']) => {
+    setSubmitting(true);
+    setReviewError(null);
+    try {
+      const result = await onReview({
+        entryIds: [...selected],
+        decision,
+        comment: comment.trim() || undefined,
+      });
+      const done = result.reviewed.length;
+      setOutcome({
+        message: decision === 'approve' ? `${done} tidrapporter attesterade` : `${done} tidrapporter returnerade till föraren`,
+        failed: result.failed,
+      });
+      setSelected(new Set(result.failed.map(f => f.entryId)));
+      setComment('');
+    } catch (err) {
+      setReviewError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const tabs = [
+    { id: 'all', label: 'Alla', icon: <ListChecks size={16} /> },
+    { id: 'anomalies', label: 'Med avvikelser', icon: <AlertTriangle size={16} /> },
+  ];
+
+  const renderGroup = (group: TimeApprovalGroup) => {
+    const ids = group.items.map(item => item.entry.id);
+    const allSelected = ids.every(id => selected.has(id));
+    return (
+      <Card key={groupKey(group)} className="timesheet-group" padding="none">
+        <CardHeader
+          title={group.operatorName}
+          subtitle={`Vecka ${group.week.split('-W')[1]} · från ${group.weekStart} · ${formatHours(group.totalHours)}`}
+          action={
+            <div className="timesheet-group-actions">
+              {group.anomalyCount > 0 && (
+                <Badge variant="warning" size="sm">{group.anomalyCount} avvikelser</Badge>
+              )}
+              <label className="timesheet-select-all">
+                <input type="checkbox" checked={allSelected} onChange={e => toggle(ids, e.target.checked)} />
+                Markera veckan
+              </label>
+            </div>
+          }
+        />
+        <table className="timesheet-table">
+          <thead>
+            <tr>
+              <th />
+              <th>Dag</th>
+              <th>Tid</th>
+              <th>Typ</th>
+              <th>Jobb</th>
+              <th className="numeric">Timmar</th>
+              <th>Avvikelser</th>
+            </tr>
+          </thead>
+          <tbody>
+            {group.items.map(({ entry, jobNumber, jobTitle, hours, anomalies }) => (
+              <tr key={entry.id} className={selected.has(entry.id) ? 'timesheet-row-selected' : undefined}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={selected.has(entry.id)}
+                    onChange={e => toggle([entry.id], e.target.checked)}
+                  />
+                </td>
+                <td>{formatDay(entry.timeRange.start)}</td>
+                <td className="timesheet-nowrap">
+                  {formatTime(entry.timeRange.start)}–{formatTime(entry.timeRange.end)}
+                </td>
+                <td>{TIME_ENTRY_TYPE_LABELS[entry.type]}</td>
+                <td>
+                  <span className="timesheet-job-number">{jobNumber}</span>
+                  <span className="timesheet-muted">{jobTitle}</span>
+                  {entry.description && <span className="timesheet-muted">{entry.description}</span>}
+                </td>
+                <td className="numeric">{formatHours(hours)}</td>
+                <td>
+                  <div className="timesheet-badges">
+                    {entry.rejectedAt && (
+                      <Badge variant="danger" size="sm">Returnerad</Badge>
+                    )}
+                    {anomalies.map(anomaly => (
+                      <span key={anomaly.type} title={anomaly.message}>
+                        <Badge variant="warning" size="sm">{ANOMALY_LABELS[anomaly.type]}</Badge>
+                      </span>
+                    ))}
+                  </div>
+                  {entry.reviewComment && (
+                    <span className="timesheet-comment">”{entry.reviewComment}”</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="timesheets-view">
+      <div className="timesheets-header">
+        <h2>Attestering</h2>
+        <p className="timesheets-subtitle">
+          Tidrapporter som väntar på attest. Attesterad tid låses och går vidare till fakturering och lön.
+        </p>
+      </div>
+
+      <div className="timesheets-stats">
+        <StatCard title="Väntar på attest" value={totals.entries} icon={<Clock size={20} />} variant="primary" />
+        <StatCard title="Timmar" value={formatHours(totals.hours)} icon={<CheckCircle size={20} />} />
+        <StatCard title="Förare" value={totals.operators} icon={<Users size={20} />} />
+        <StatCard
+          title="Med avvikelser"
+          value={totals.flagged}
+          icon={<AlertTriangle size={20} />}
+          variant={totals.flagged > 0 ? 'warning' : 'success'}
+        />
+      </div>
+
+      <Card className="timesheets-actions">
+        <div className="timesheets-actions-row">
+          <span className="timesheets-selected">{selected.size} markerade</span>
+          <textarea
+            className="timesheets-comment-input"
+            placeholder="Kommentar till föraren (krävs vid underkännande)"
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            rows={2}
+          />
+          <Button
+            variant="success"
+            icon={<CheckCircle size={16} />}
+            disabled={selected.size === 0 || submitting}
+            loading={submitting}
+            onClick={() => submit('approve')}
+          >
+            Attestera
+          </Button>
+          <Button
+            variant="danger"
+            icon={<XCircle size={16} />}
+            disabled={selected.size === 0 || comment.trim().length === 0 || submitting}
+            onClick={() => submit('reject')}
+          >
+            Underkänn
+          </Button>
+        </div>
+        {reviewError && <p className="timesheet-error">{reviewError}</p>}
+        {outcome && (
+          <div className="timesheets-outcome">
+            <span>{outcome.message}</span>
+            {outcome.failed.map(f => (
+              <span key={f.entryId} className="timesheet-error">{f.entryId}: {f.message}</span>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <Tabs tabs={tabs} activeTab={filter} onChange={(id) => setFilter(id as QueueFilter)} />
+
+      {error ? (
+        <Card>
+          <p className="timesheet-error">{error.message}</p>
+        </Card>
+      ) : visibleGroups.length === 0 ? (
+        <Card>
+          <div className="timesheet-empty">
+            <CheckCircle size={48} />
+            <p>Inga tidrapporter väntar på attest</p>
+          </div>
+        </Card>
+      ) : (
+        <div className="timesheets-groups">{visibleGroups.map(renderGroup)}</div>
+      )}
+    </div>
+  );
+};
+
+export default TimeApprovalView;
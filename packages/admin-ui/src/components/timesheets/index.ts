@@ -0,0 +1,6 @@
+/**
+ * SYLON Admin UI - Time Approval Components
+ */
+
+export { TimeApprovalView } from './TimeApprovalView';
+export { default } from './TimeApprovalView';
@@ -0,0 +1,310 @@
+/**
+ * SYLON Admin UI - Work Orders View
+ * Customer work orders with their jobs, logged hours and invoiced amounts
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  FileText,
+  Building2,
+  Clock,
+  CheckCircle,
+  Receipt,
+  Wallet,
+  Mail,
+  Phone,
+  User,
+  ChevronRight,
+} from 'lucide-react';
+import { Card, CardHeader, Badge, StatCard, Tabs, Spinner } from '../ui';
+import { JOB_STATUS_LABELS } from '@sylon/shared';
+import type { ContractType, Customer, InvoiceStatus, WorkOrder, WorkOrderStatus } from '@sylon/shared';
+import { useWorkOrderSummary } from '../../hooks';
+import './workorders.css';
+
+interface WorkOrdersViewProps {
+  workOrders: WorkOrder[];
+  customers: Customer[];
+  error?: Error | null;
+}
+
+type StatusFilter = 'open' | 'all';
+
+const CONTRACT_TYPE_LABELS: Record<ContractType, string> = {
+  fixed: 'Fast pris',
+  hourly: 'Löpande räkning',
+  call_out: 'Utryckning',
+};
+
+const STATUS_LABELS: Record<WorkOrderStatus, string> = {
+  draft: 'Utkast',
+  active: 'Aktiv',
+  completed: 'Avslutad',
+  invoiced: 'Fakturerad',
+};
+
+const STATUS_VARIANTS: Record<WorkOrderStatus, 'default' | 'primary' | 'success' | 'info'> = {
+  draft: 'default',
+  active: 'primary',
+  completed: 'success',
+  invoiced: 'info',
+};
+
+const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  pending: 'Ej fakturerad',
+  draft: 'Utkast',
+  generated: 'Skapad',
+  sent: 'Skickad',
+  paid: 'Betald',
+};
+
+const INVOICE_STATUS_VARIANTS: Record<InvoiceStatus, 'default' | 'warning' | 'primary' | 'info' | 'success'> = {
+  pending: 'default',
+  draft: 'warning',
+  generated: 'primary',
+  sent: 'info',
+  paid: 'success',
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString('sv-SE');
+
+const formatHours = (hours: number) => `${hours.toLocaleString('sv-SE', { maximumFractionDigits: 2 })} h`;
+
+const validity = (workOrder: WorkOrder) =>
+  `${formatDate(workOrder.validFrom)} – ${workOrder.validTo ? formatDate(workOrder.validTo) : 'tillsvidare'}`;
+
+export const WorkOrdersView: React.FC<WorkOrdersViewProps> = ({ workOrders, customers, error }) => {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
+  const [selectedId, setSelectedId] = useState<string | undefined>();
+  const { summary, loading: summaryLoading, error: summaryError } = useWorkOrderSummary(selectedId);
+
+  const customerNames = useMemo(
+    () => new Map(customers.map(customer => [customer.id, customer.name])),
+    [customers]
+  );
+
+  const visibleOrders = useMemo(() => {
+    const orders = statusFilter === 'open'
+      ? workOrders.filter(w => w.status === 'draft' || w.status === 'active')
+      : workOrders;
+    return [...orders].sort((a, b) => b.orderNumber.localeCompare(a.orderNumber));
+  }, [workOrders, statusFilter]);
+
+  const money = useMemo(
+    () => new Intl.NumberFormat('sv-SE', { style: 'currency', currency: summary?.currency ?? 'SEK' }),
+    [summary?.currency]
+  );
+
+  const tabs = [
+    { id: 'open', label: 'Pågående', icon: <FileText size={16} /> },
+    { id: 'all', label: 'Alla', icon: <Receipt size={16} /> },
+  ];
+
+  const renderCustomer = (customer: Customer) => (
+    <div className="workorder-section">
+      <h5>Kund</h5>
+      <div className="workorder-customer">
+        <span className="workorder-customer-name">
+          <Building2 size={16} />
+          {customer.name}
+        </span>
+        <span className="workorder-muted">
+          {customer.customerNumber}
+          {customer.organizationNumber && ` · Org.nr ${customer.organizationNumber}`}
+        </span>
+        <span className="workorder-muted">
+          {customer.billingAddress.street}, {customer.billingAddress.postalCode} {customer.billingAddress.city}
+        </span>
+        {customer.invoiceEmail && (
+          <span className="workorder-muted">
+            <Mail size={14} /> {customer.invoiceEmail}
+          </span>
+        )}
+      </div>
+      {customer.contacts.length > 0 && (
+        <div className="workorder-contacts">
+          {customer.contacts.map(contact => (
+            <div key={`${contact.name}-${contact.email ?? contact.phone ?? ''}`} className="workorder-contact">
+              <span className="workorder-contact-name">
+                <User size={14} /> {contact.name}
+                {contact.role && <span className="workorder-muted"> · {contact.role}</span>}
+              </span>
+              {contact.phone && <span className="workorder-muted"><Phone size={12} /> {contact.phone}</span>}
+              {contact.email && <span className="workorder-muted"><Mail size={12} /> {contact.email}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderDetail = () => {
+    if (!selectedId) {
+      return (
+        <Card className="workorder-detail-card workorder-detail-empty">
+          <div className="workorder-empty">
+            <FileText size={48} />
+            <p>Välj en arbetsorder för att se jobb, timmar och fakturerat</p>
+          </div>
+        </Card>
+      );
+    }
+    if (summaryLoading && !summary) {
+      return (
+        <Card className="workorder-detail-card workorder-detail-empty">
+          <Spinner size="lg" />
+        </Card>
+      );
+    }
+    if (summaryError || !summary) {
+      return (
+        <Card className="workorder-detail-card workorder-detail-empty">
+          <p className="workorder-error">{summaryError?.message ?? 'Arbetsordern kunde inte hämtas'}</p>
+        </Card>
+      );
+    }
+
+    const { workOrder, customer, jobs, totals } = summary;
+    return (
+      <Card className="workorder-detail-card" padding="none">
+        <CardHeader
+          title={workOrder.orderNumber}
+          subtitle={`${CONTRACT_TYPE_LABELS[workOrder.contractType]} · ${validity(workOrder)}`}
+          action={
+            <Badge variant={STATUS_VARIANTS[workOrder.status]} size="sm">
+              {STATUS_LABELS[workOrder.status]}
+            </Badge>
+          }
+        />
+        <div className="workorder-detail-content">
+          <div className="workorder-stats-grid">
+            <StatCard title="Timmar" value={formatHours(totals.hours)} icon={<Clock size={20} />} />
+            <StatCard
+              title="Attesterade"
+              value={formatHours(totals.approvedHours)}
+              icon={<CheckCircle size={20} />}
+              variant={totals.approvedHours < totals.hours ? 'warning' : 'success'}
+            />
+            <StatCard
+              title="Fakturerat"
+              value={money.format(totals.billedAmount)}
+              subtitle={totals.draftAmount > 0 ? `${money.format(totals.draftAmount)} i utkast` : 'exkl. moms'}
+              icon={<Receipt size={20} />}
+              variant="primary"
+            />
+            <StatCard
+              title="Betalt"
+              value={money.format(totals.paidAmount)}
+              icon={<Wallet size={20} />}
+              variant="success"
+            />
+          </div>
+
+          {customer && renderCustomer(customer)}
+
+          {workOrder.terms && (
+            <div className="workorder-section">
+              <h5>Villkor</h5>
+              <p className="workorder-terms">{workOrder.terms}</p>
+            </div>
+          )}
+
+          <div className="workorder-section">
+            <h5>Jobb ({jobs.length})</h5>
+            {jobs.length === 0 ? (
+              <p className="workorder-muted">Inga jobb är kopplade till arbetsordern</p>
+            ) : (
+              <table className="workorder-jobs-table">
+                <thead>
+                  <tr>
+                    <th>Jobb</th>
+                    <th>Status</th>
+                    <th className="numeric">Timmar</th>
+                    <th className="numeric">Attesterat</th>
+                    <th>Faktura</th>
+                    <th className="numeric">Belopp</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {jobs.map(job => (
+                    <tr key={job.jobId}>
+                      <td>
+                        <span className="workorder-job-number">{job.jobNumber}</span>
+                        <span className="workorder-muted">{job.title}</span>
+                      </td>
+                      <td>{JOB_STATUS_LABELS[job.status] ?? job.status}</td>
+                      <td className="numeric">{formatHours(job.hours)}</td>
+                      <td className="numeric">{formatHours(job.approvedHours)}</td>
+                      <td>
+                        <Badge variant={INVOICE_STATUS_VARIANTS[job.invoiceStatus]} size="sm">
+                          {INVOICE_STATUS_LABELS[job.invoiceStatus]}
+                        </Badge>
+                        {job.invoiceNumber && <span className="workorder-muted">{job.invoiceNumber}</span>}
+                      </td>
+                      <td className="numeric">
+                        {job.invoiceAmount !== undefined ? money.format(job.invoiceAmount) : '–'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="workorders-view">
+      <div className="workorders-header">
+        <h2>Arbetsordrar</h2>
+        <p className="workorders-subtitle">Kundernas beställningar, avtalstyp och vad som har fakturerats</p>
+      </div>
+
+      <Tabs tabs={tabs} activeTab={statusFilter} onChange={(id) => setStatusFilter(id as StatusFilter)} />
+
+      {error ? (
+        <Card>
+          <p className="workorder-error">{error.message}</p>
+        </Card>
+      ) : (
+        <div className="workorders-content">
+          <div className="workorders-list">
+            {visibleOrders.length === 0 && (
+              <p className="workorder-muted">Inga arbetsordrar</p>
+            )}
+            {visibleOrders.map(workOrder => (
+              <Card
+                key={workOrder.id}
+                className={`workorder-card ${workOrder.id === selectedId ? 'workorder-card-selected' : ''}`}
+                hover
+                onClick={() => setSelectedId(workOrder.id)}
+              >
+                <div className="workorder-card-content">
+                  <div className="workorder-card-main">
+                    <span className="workorder-number">{workOrder.orderNumber}</span>
+                    <span className="workorder-customer-name">
+                      {customerNames.get(workOrder.customerId) ?? workOrder.customerId}
+                    </span>
+                    <span className="workorder-muted">
+                      {CONTRACT_TYPE_LABELS[workOrder.contractType]} · {validity(workOrder)} · {workOrder.jobs.length} jobb
+                    </span>
+                  </div>
+                  <Badge variant={STATUS_VARIANTS[workOrder.status]} size="sm">
+                    {STATUS_LABELS[workOrder.status]}
+                  </Badge>
+                  <ChevronRight size={18} className="workorder-arrow" />
+                </div>
+              </Card>
+            ))}
+          </div>
+
+          <div className="workorder-detail-panel">{renderDetail()}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkOrdersView;
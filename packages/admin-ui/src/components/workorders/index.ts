@@ -0,0 +1,6 @@
+/**
+ * SYLON Admin UI - Work Order Components
+ */
+
+export { WorkOrdersView } from './WorkOrdersView';
+export { default } from './WorkOrdersView';
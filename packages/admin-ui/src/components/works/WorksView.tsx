@@ -33,6 +33,7 @@ interface WorksViewProps {
 const STATUS_TABS = [
   { id: 'all', label: 'Alla' },
   { id: 'scheduled', label: 'Schemalagda' },
+  { id: 'assigned', label: 'Tilldelade' },
   { id: 'in_progress', label: 'Pågående' },
   { id: 'completed', label: 'Klara' },
 ];
@@ -286,7 +287,7 @@ export const WorksView: React.FC<WorksViewProps> = ({
                 </div>
 
                 <div className="detail-actions">
-                  {selectedJob.status === 'scheduled' && (
+                  {selectedJob.status === 'assigned' && (
                     <Button
                       variant="success"
                       icon={<Play size={16} />}
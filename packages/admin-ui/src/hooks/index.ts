@@ -5,7 +5,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import api from '../services/api';
 import wsService, { type WebSocketMessage } from '../services/websocket';
-import type { Resource, Job, Site, SiteMaterial, GeoPosition } from '@sylon/shared';
+import type { Resource, Job, Site, SiteMaterial, GeoPosition, ResourceTrack, CreateMaterialTransactionRequest, MaterialTransactionResult, DailyCheck, SkippedDailyCheck, Customer, WorkOrder, WorkOrderSummary, TimeApprovalGroup, ReviewTimeEntriesRequest, ReviewTimeEntriesResult, TimeEntry } from '@sylon/shared';
 
 // ============================================
 // useApi Hook
@@ -93,6 +93,9 @@ export function useResources(): {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
+  // Bumped to fetch again, e.g. after missed WebSocket events
+  const [reloadKey, setReloadKey] = useState(0);
+
   // Initial fetch
   useEffect(() => {
     async function fetchResources() {
@@ -116,7 +119,7 @@ export function useResources(): {
       }
     }
     fetchResources();
-  }, []);
+  }, [reloadKey]);
 
   // WebSocket updates
   useWebSocket((message) => {
@@ -129,12 +132,82 @@ export function useResources(): {
         }
         return r;
       }));
+    } else if (message.type === 'RESOURCE_STATUS_CHANGE') {
+      const { resourceId, status } = message.data as { resourceId: string; status: Resource['status'] };
+      setResources(prev => prev.map(r => 
+        r.resource.id === resourceId ? { ...r, resource: { ...r.resource, status } } : r
+      ));
+    } else if (message.type === 'RESYNC_REQUIRED') {
+      // Events were missed while disconnected
+      setReloadKey(key => key + 1);
     }
   });
 
   return { resources, loading, error };
 }
 
+// ============================================
+// useResourceTrack Hook
+// ============================================
+
+// Convert date strings from the API into Date objects
+function parseTrack(track: ResourceTrack): ResourceTrack {
+  return {
+    ...track,
+    from: new Date(track.from),
+    to: new Date(track.to),
+    points: track.points.map(p => ({ ...p, timestamp: new Date(p.timestamp) })),
+    stops: track.stops.map(s => ({
+      ...s,
+      arrivedAt: new Date(s.arrivedAt),
+      departedAt: new Date(s.departedAt),
+    })),
+  };
+}
+
+export function useResourceTrack(
+  resourceId: string | undefined,
+  windowHours: number,
+  enabled: boolean
+): {
+  track: ResourceTrack | null;
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+} {
+  const [track, setTrack] = useState<ResourceTrack | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchTrack = useCallback(async () => {
+    if (!enabled || !resourceId) {
+      setTrack(null);
+      return;
+    }
+    try {
+      setLoading(true);
+      const to = new Date();
+      const from = new Date(to.getTime() - windowHours * 60 * 60 * 1000);
+      const data = await api.getResourceTrack(resourceId, {
+        from: from.toISOString(),
+        to: to.toISOString(),
+      }) as ResourceTrack;
+      setTrack(parseTrack(data));
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [resourceId, windowHours, enabled]);
+
+  useEffect(() => {
+    fetchTrack();
+  }, [fetchTrack]);
+
+  return { track, loading, error, refetch: fetchTrack };
+}
+
 // ============================================
 // useJobs Hook
 // ============================================
@@ -170,10 +243,9 @@ export function useJobs(): {
 
   const updateStatus = useCallback(async (jobId: string, status: string) => {
     try {
-      await api.updateJobStatus(jobId, status);
-      setJobs(prev => prev.map(job => 
-        job.id === jobId ? { ...job, status: status as Job['status'], updatedAt: new Date() } : job
-      ));
+      // The server sets timing, assignments and history along with the status
+      const updated = await api.updateJobStatus(jobId, status) as Job;
+      setJobs(prev => prev.map(job => job.id === jobId ? updated : job));
     } catch (err) {
       throw err;
     }
@@ -192,6 +264,9 @@ export function useJobs(): {
       setJobs(prev => prev.map(job => 
         job.id === jobId ? { ...job, status: status as Job['status'], updatedAt: new Date() } : job
       ));
+    } else if (message.type === 'RESYNC_REQUIRED') {
+      // Events were missed while disconnected
+      fetchJobs();
     }
   });
 
@@ -210,6 +285,7 @@ export function useSites(): {
   addMaterial: (siteId: string, material: Partial<SiteMaterial>) => Promise<Site>;
   updateMaterial: (siteId: string, materialId: string, updates: Partial<SiteMaterial>) => Promise<Site>;
   deleteMaterial: (siteId: string, materialId: string) => Promise<Site>;
+  recordTransaction: (siteId: string, transaction: CreateMaterialTransactionRequest) => Promise<MaterialTransactionResult>;
   refetch: () => Promise<void>;
 } {
   const [sites, setSites] = useState<Site[]>([]);
@@ -233,6 +309,21 @@ export function useSites(): {
     fetchSites();
   }, [fetchSites]);
 
+  // Refresh traffic stats when a resource enters or leaves a site
+  useWebSocket((message) => {
+    if (message.type === 'SITE_VISIT') {
+      const { siteId } = message.data as { siteId: string };
+      api.getSite(siteId).then(data => {
+        const updatedSite = data as Site;
+        setSites(prev => prev.map(site => 
+          site.id === siteId ? updatedSite : site
+        ));
+      }).catch(() => {
+        // Stats are refreshed again on the next visit
+      });
+    }
+  });
+
   const updateSite = useCallback(async (siteId: string, updates: Partial<Site>) => {
     const updatedSite = await api.updateSite(siteId, updates) as Site;
     setSites(prev => prev.map(site => 
@@ -265,5 +356,213 @@ export function useSites(): {
     return updatedSite;
   }, []);
 
-  return { sites, loading, error, updateSite, addMaterial, updateMaterial, deleteMaterial, refetch: fetchSites };
+  const recordTransaction = useCallback(async (siteId: string, transaction: CreateMaterialTransactionRequest) => {
+    const result = await api.createSiteTransaction(siteId, transaction) as MaterialTransactionResult;
+    setSites(prev => prev.map(site => 
+      site.id === siteId
+        ? { ...site, materials: site.materials?.map(m => m.id === result.material.id ? result.material : m) }
+        : site
+    ));
+    return result;
+  }, []);
+
+  return { sites, loading, error, updateSite, addMaterial, updateMaterial, deleteMaterial, recordTransaction, refetch: fetchSites };
+}
+
+// ============================================
+// useDailyChecks Hook
+// ============================================
+
+export function useDailyChecks(): {
+  checks: DailyCheck[];
+  skipped: SkippedDailyCheck[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+} {
+  const [checks, setChecks] = useState<DailyCheck[]>([]);
+  const [skipped, setSkipped] = useState<SkippedDailyCheck[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchChecks = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [checkData, skippedData] = await Promise.all([
+        api.getDailyChecks() as Promise<DailyCheck[]>,
+        api.getSkippedDailyChecks() as Promise<SkippedDailyCheck[]>,
+      ]);
+      setChecks(checkData.map(check => ({ ...check, checkDate: new Date(check.checkDate) })));
+      setSkipped(skippedData.map(entry => ({
+        ...entry,
+        firstSeenAt: entry.firstSeenAt ? new Date(entry.firstSeenAt) : undefined,
+      })));
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchChecks();
+  }, [fetchChecks]);
+
+  // Refresh when a failed check flags a resource for the garage
+  useWebSocket((message) => {
+    if (message.type === 'ALERT' && (message.data as { type: string }).type === 'daily_check_failed') {
+      fetchChecks();
+    }
+  });
+
+  return { checks, skipped, loading, error, refetch: fetchChecks };
+}
+
+// ============================================
+// useWorkOrders Hook
+// ============================================
+
+// Convert date strings from the API into Date objects
+function parseWorkOrder(workOrder: WorkOrder): WorkOrder {
+  return {
+    ...workOrder,
+    validFrom: new Date(workOrder.validFrom),
+    validTo: workOrder.validTo ? new Date(workOrder.validTo) : undefined,
+  };
+}
+
+export function useWorkOrders(): {
+  workOrders: WorkOrder[];
+  customers: Customer[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+} {
+  const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchWorkOrders = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [orderData, customerData] = await Promise.all([
+        api.getWorkOrders() as Promise<WorkOrder[]>,
+        // Orders of deactivated customers still show who they were for
+        api.getCustomers({ includeInactive: 'true' }) as Promise<Customer[]>,
+      ]);
+      setWorkOrders(orderData.map(parseWorkOrder));
+      setCustomers(customerData);
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorkOrders();
+  }, [fetchWorkOrders]);
+
+  return { workOrders, customers, loading, error, refetch: fetchWorkOrders };
+}
+
+export function useWorkOrderSummary(workOrderId: string | undefined): {
+  summary: WorkOrderSummary | null;
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+} {
+  const [summary, setSummary] = useState<WorkOrderSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchSummary = useCallback(async () => {
+    if (!workOrderId) {
+      setSummary(null);
+      return;
+    }
+    try {
+      setLoading(true);
+      const data = await api.getWorkOrderSummary(workOrderId) as WorkOrderSummary;
+      setSummary({
+        ...data,
+        workOrder: parseWorkOrder(data.workOrder),
+        jobs: data.jobs.map(job => ({ ...job, scheduledStart: new Date(job.scheduledStart) })),
+      });
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [workOrderId]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  // Hours and invoices change as the order's jobs are reported and billed
+  useWebSocket((message) => {
+    if (message.type === 'JOB_STATUS_CHANGE' && summary?.jobs.some(job => job.jobId === (message.data as { jobId: string }).jobId)) {
+      fetchSummary();
+    }
+  });
+
+  return { summary, loading, error, refetch: fetchSummary };
+}
+
+// ============================================
+// useTimeApprovals Hook
+// ============================================
+
+function parseTimeEntry(entry: TimeEntry): TimeEntry {
+  return {
+    ...entry,
+    timeRange: { start: new Date(entry.timeRange.start), end: new Date(entry.timeRange.end) },
+    rejectedAt: entry.rejectedAt ? new Date(entry.rejectedAt) : undefined,
+  };
+}
+
+export function useTimeApprovals(): {
+  groups: TimeApprovalGroup[];
+  loading: boolean;
+  error: Error | null;
+  review: (request: ReviewTimeEntriesRequest) => Promise<ReviewTimeEntriesResult>;
+  refetch: () => Promise<void>;
+} {
+  const [groups, setGroups] = useState<TimeApprovalGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchGroups = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await api.getTimeApprovals() as TimeApprovalGroup[];
+      setGroups(data.map(group => ({
+        ...group,
+        items: group.items.map(item => ({ ...item, entry: parseTimeEntry(item.entry) })),
+      })));
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [fetchGroups]);
+
+  // Reviewed entries leave the queue and anomalies are recomputed across the week
+  const review = useCallback(async (request: ReviewTimeEntriesRequest) => {
+    const result = await api.reviewTimeEntries(request) as ReviewTimeEntriesResult;
+    await fetchGroups();
+    return result;
+  }, [fetchGroups]);
+
+  return { groups, loading, error, review, refetch: fetchGroups };
 }
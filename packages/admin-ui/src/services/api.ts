@@ -2,6 +2,8 @@
  * SYLON Admin UI - API Service
  */
 
+import { getAccessToken, refreshSession } from './auth';
+
 const API_BASE = 'http://localhost:3001/api';
 
 export interface ApiResponse<T> {
@@ -11,14 +13,28 @@ export interface ApiResponse<T> {
   meta?: { total?: number };
 }
 
-async function fetchApi<T>(endpoint: string, options?: RequestInit): Promise<T> {
-  const response = await fetch(`${API_BASE}${endpoint}`, {
+function request(endpoint: string, options: RequestInit | undefined, accessToken: string | null): Promise<Response> {
+  return fetch(`${API_BASE}${endpoint}`, {
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...(accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {}),
       ...options?.headers,
     },
   });
+}
+
+async function fetchApi<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  let response = await request(endpoint, options, await getAccessToken());
+
+  // The access token may have been revoked or expired early; refresh once and retry
+  if (response.status === 401) {
+    const session = await refreshSession();
+    if (!session) {
+      throw new Error('Sessionen har gått ut. Logga in igen.');
+    }
+    response = await request(endpoint, options, session.accessToken);
+  }
 
   const json = await response.json() as ApiResponse<T>;
   
@@ -34,6 +50,10 @@ export const api = {
   getResources: () => fetchApi<unknown[]>('/resources'),
   getResource: (id: string) => fetchApi<unknown>(`/resources/${id}`),
   getResourcePositions: () => fetchApi<unknown[]>('/resources/positions'),
+  getResourceTrack: (id: string, params?: { from?: string; to?: string; tolerance?: string }) => {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    return fetchApi<unknown>(`/resources/${id}/track${query ? `?${query}` : ''}`);
+  },
   
   // Jobs
   getJobs: (params?: { status?: string; type?: string }) => {
@@ -68,6 +88,66 @@ export const api = {
   deleteMaterial: (siteId: string, materialId: string) => fetchApi<unknown>(`/sites/${siteId}/materials/${materialId}`, {
     method: 'DELETE',
   }),
+  getSiteTransactions: (siteId: string, params?: { materialId?: string; jobId?: string; from?: string; to?: string }) => {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    return fetchApi<unknown[]>(`/sites/${siteId}/transactions${query ? `?${query}` : ''}`);
+  },
+  createSiteTransaction: (siteId: string, transaction: unknown) => fetchApi<unknown>(`/sites/${siteId}/transactions`, {
+    method: 'POST',
+    body: JSON.stringify(transaction),
+  }),
+  
+  // Customers & work orders
+  getCustomers: (params?: { includeInactive?: string; search?: string }) => {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    return fetchApi<unknown[]>(`/customers${query ? `?${query}` : ''}`);
+  },
+  getCustomer: (id: string) => fetchApi<unknown>(`/customers/${id}`),
+  createCustomer: (data: unknown) => fetchApi<unknown>('/customers', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
+  updateCustomer: (id: string, data: unknown) => fetchApi<unknown>(`/customers/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(data),
+  }),
+  getWorkOrders: (params?: { customerId?: string; status?: string; contractType?: string }) => {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    return fetchApi<unknown[]>(`/work-orders${query ? `?${query}` : ''}`);
+  },
+  getWorkOrderSummary: (id: string) => fetchApi<unknown>(`/work-orders/${id}/summary`),
+  createWorkOrder: (data: unknown) => fetchApi<unknown>('/work-orders', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
+  updateWorkOrder: (id: string, data: unknown) => fetchApi<unknown>(`/work-orders/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(data),
+  }),
+  
+  // Time approval
+  getTimeApprovals: (params?: { week?: string; operatorId?: string }) => {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    return fetchApi<unknown[]>(`/time-entries/approvals${query ? `?${query}` : ''}`);
+  },
+  reviewTimeEntries: (data: unknown) => fetchApi<unknown>('/time-entries/review', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
+  
+  // Daily checks & shifts
+  getDailyChecks: (params?: { date?: string; resourceId?: string; operatorId?: string }) => {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    return fetchApi<unknown[]>(`/daily-checks${query ? `?${query}` : ''}`);
+  },
+  getSkippedDailyChecks: (params?: { date?: string }) => {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    return fetchApi<unknown[]>(`/daily-checks/skipped${query ? `?${query}` : ''}`);
+  },
+  getShifts: (params?: { date?: string; resourceId?: string; operatorId?: string }) => {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    return fetchApi<unknown[]>(`/shifts${query ? `?${query}` : ''}`);
+  },
   
   // Dashboard
   getDashboard: () => fetchApi<unknown>('/dashboard'),
@@ -0,0 +1,145 @@
+/**
+ * SYLON Admin UI - Authentication Service
+ * Keeps the session in localStorage and refreshes the access token when it expires
+ */
+
+import type { ApiResponse, AuthTokens, LoginResponse, SessionUser } from '@sylon/shared';
+
+const API_BASE = 'http://localhost:3001/api';
+
+// Refresh a little before the access token expires
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+const SESSION_STORAGE_KEY = 'sylon_admin_session';
+const DEVICE_ID_KEY = 'sylon_admin_device_id';
+
+export interface Session {
+  user: SessionUser;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+// Refresh tokens are bound to the device they were issued to
+function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = `admin-${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+export function getSession(): Session | null {
+  const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as Session;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(session: Session): void {
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+}
+
+// Notified when the session ends, e.g. after a rejected refresh
+const sessionEndedListeners = new Set<() => void>();
+
+export function onSessionEnded(listener: () => void): () => void {
+  sessionEndedListeners.add(listener);
+  return () => sessionEndedListeners.delete(listener);
+}
+
+export function clearSession(): void {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+  sessionEndedListeners.forEach(listener => listener());
+}
+
+export async function login(email: string, password: string): Promise<Session> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password, deviceId: getDeviceId() }),
+    });
+  } catch {
+    throw new Error('Kunde inte nå servern. Försök igen.');
+  }
+
+  const result = await response.json() as ApiResponse<LoginResponse>;
+  if (!response.ok || !result.data) {
+    throw new Error('Inloggning misslyckades. Kontrollera e-post och lösenord.');
+  }
+
+  const session: Session = {
+    user: result.data.user,
+    accessToken: result.data.accessToken,
+    refreshToken: result.data.refreshToken,
+    expiresAt: Date.now() + result.data.expiresIn * 1000,
+  };
+  saveSession(session);
+  return session;
+}
+
+/**
+ * Exchange the refresh token for a new token pair. Refresh tokens are single use,
+ * so a rejected refresh ends the session.
+ */
+export async function refreshSession(): Promise<Session | null> {
+  const session = getSession();
+  if (!session) return null;
+
+  const response = await fetch(`${API_BASE}/auth/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refreshToken: session.refreshToken, deviceId: getDeviceId() }),
+  });
+
+  const result = await response.json() as ApiResponse<AuthTokens>;
+  if (!response.ok || !result.data) {
+    clearSession();
+    return null;
+  }
+
+  const refreshed: Session = {
+    ...session,
+    accessToken: result.data.accessToken,
+    refreshToken: result.data.refreshToken,
+    expiresAt: Date.now() + result.data.expiresIn * 1000,
+  };
+  saveSession(refreshed);
+  return refreshed;
+}
+
+// Access token of the current session, refreshed first if it is about to expire
+export async function getAccessToken(): Promise<string | null> {
+  const session = getSession();
+  if (!session) return null;
+  if (session.expiresAt - REFRESH_MARGIN_MS > Date.now()) return session.accessToken;
+
+  const refreshed = await refreshSession();
+  return refreshed?.accessToken ?? null;
+}
+
+// Logout, revoking the session on the server
+export async function logout(): Promise<void> {
+  const session = getSession();
+  clearSession();
+  if (!session) return;
+
+  try {
+    await fetch(`${API_BASE}/auth/logout`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.accessToken}`,
+      },
+      body: JSON.stringify({ refreshToken: session.refreshToken }),
+    });
+  } catch (error) {
+    console.error('Logout API error:', error);
+  }
+}
@@ -1,80 +1,160 @@
 /**
  * SYLON Admin UI - WebSocket Service
+ * Reconnects with jittered exponential backoff and resumes from the last seen
+ * event, so events sent while offline are replayed instead of lost.
+ * Positions arrive as binary delta frames and are passed on as POSITION_UPDATE.
  */
 
+import { applyPositionFrame, decodePositionFrame, type PositionSlots } from '@sylon/shared';
+import { getAccessToken } from './auth';
+
 type WebSocketEventHandler = (event: WebSocketMessage) => void;
 
 export interface WebSocketMessage {
   type: string;
   data: unknown;
+  // Set on events; replies and position updates are unsequenced
+  seq?: number;
 }
 
+// Reconnect delays grow from the base delay up to the cap, never giving up
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
 class WebSocketService {
   private ws: WebSocket | null = null;
   private url: string;
   private handlers: Set<WebSocketEventHandler> = new Set();
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 3000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private shouldReconnect = false;
+  private opening = false;
+  // Server run and last event seen, used to resume after a reconnect
+  private epoch: string | null = null;
+  private lastSeq = 0;
+  // Positions sent on the current connection, which binary frames are deltas against
+  private positionSlots: PositionSlots = new Map();
 
   constructor(url: string) {
     this.url = url;
   }
 
   connect(): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
+    this.shouldReconnect = true;
+    if (this.opening || (this.ws && this.ws.readyState !== WebSocket.CLOSED)) {
       return;
     }
 
-    try {
-      this.ws = new WebSocket(this.url);
+    void this.open();
+  }
 
-      this.ws.onopen = () => {
+  // The server only sends events of the signed-in user's company
+  private async open(): Promise<void> {
+    this.opening = true;
+    try {
+      const token = await getAccessToken();
+      if (!token || !this.shouldReconnect) {
+        return;
+      }
+
+      const resuming = this.epoch !== null;
+      const ws = new WebSocket(`${this.url}?token=${encodeURIComponent(token)}&positions=binary${resuming ? '&resume=1' : ''}`);
+      ws.binaryType = 'arraybuffer';
+      this.ws = ws;
+      this.positionSlots = new Map();
+
+      ws.onopen = () => {
         console.log('WebSocket connected');
         this.reconnectAttempts = 0;
       };
 
-      this.ws.onmessage = (event) => {
+      ws.onmessage = (event) => {
         try {
+          if (event.data instanceof ArrayBuffer) {
+            const data = applyPositionFrame(this.positionSlots, decodePositionFrame(event.data));
+            this.handlers.forEach(handler => handler({ type: 'POSITION_UPDATE', data }));
+            return;
+          }
           const message = JSON.parse(event.data) as WebSocketMessage;
-          this.handlers.forEach(handler => handler(message));
+          this.handleMessage(ws, message);
         } catch (error) {
           console.error('Failed to parse WebSocket message:', error);
         }
       };
 
-      this.ws.onclose = () => {
+      ws.onclose = () => {
         console.log('WebSocket disconnected');
-        this.attemptReconnect();
+        if (this.ws === ws) {
+          this.ws = null;
+          this.attemptReconnect();
+        }
       };
 
-      this.ws.onerror = (error) => {
+      ws.onerror = (error) => {
         console.error('WebSocket error:', error);
       };
     } catch (error) {
       console.error('Failed to connect WebSocket:', error);
       this.attemptReconnect();
+    } finally {
+      this.opening = false;
+    }
+  }
+
+  private handleMessage(ws: WebSocket, message: WebSocketMessage): void {
+    if (message.type === 'WELCOME') {
+      const { epoch, seq } = message.data as { epoch: string; seq: number };
+      if (this.epoch !== null) {
+        // Ask for the events missed while disconnected; the server holds new ones until then
+        ws.send(JSON.stringify({ type: 'RESUME', epoch: this.epoch, lastSeq: this.lastSeq }));
+      } else {
+        this.epoch = epoch;
+        this.lastSeq = seq;
+      }
+      return;
     }
+
+    if (message.type === 'RESYNC_REQUIRED') {
+      // Missed events are gone; handlers reload their data from the API
+      const { epoch, seq } = message.data as { epoch: string; seq: number };
+      this.epoch = epoch;
+      this.lastSeq = seq;
+    }
+
+    if (typeof message.seq === 'number') {
+      this.lastSeq = message.seq;
+    }
+
+    this.handlers.forEach(handler => handler(message));
   }
 
   private attemptReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      console.log('Max reconnect attempts reached');
+    if (!this.shouldReconnect || this.reconnectTimer) {
       return;
     }
 
+    // Full jitter keeps clients from reconnecting in lockstep after a server restart
+    const ceiling = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts);
+    const delay = Math.round(Math.random() * ceiling);
     this.reconnectAttempts++;
-    console.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
-    
-    setTimeout(() => {
+    console.log(`Attempting to reconnect in ${delay} ms (attempt ${this.reconnectAttempts})...`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       this.connect();
-    }, this.reconnectDelay * this.reconnectAttempts);
+    }, delay);
   }
 
   disconnect(): void {
+    this.shouldReconnect = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     if (this.ws) {
-      this.ws.close();
+      const ws = this.ws;
       this.ws = null;
+      ws.close();
     }
   }
 
@@ -0,0 +1,99 @@
+/**
+ * SYLON Position Broadcast Benchmark
+ * Bytes per tick sent to one client following a large fleet, for each position format.
+ * Usage: tsx src/benchmarks/positions.ts [resources] [ticks]
+ */
+
+import type { GeoPosition, PositionFormat } from '@sylon/shared';
+import { SUNDSVALL_CENTER } from '@sylon/shared';
+import { createPositionStream, encodePositionUpdates, type PositionUpdate } from '../modules/realtime/position-stream.js';
+
+const TICK_MS = 2000;
+
+// Share of the fleet driving at any time; the rest is parked or working in place
+const MOVING_SHARE = 0.3;
+
+interface Vehicle {
+  id: string;
+  moving: boolean;
+  position: GeoPosition;
+}
+
+function createFleet(size: number, start: number): Vehicle[] {
+  const { latitude, longitude } = SUNDSVALL_CENTER;
+  return Array.from({ length: size }, (_, i) => ({
+    id: `resource-${String(i + 1).padStart(4, '0')}`,
+    moving: Math.random() < MOVING_SHARE,
+    position: {
+      latitude: latitude + (Math.random() - 0.5) * 0.4,
+      longitude: longitude + (Math.random() - 0.5) * 0.8,
+      timestamp: new Date(start),
+      speed: 0,
+      heading: Math.random() * 360,
+    },
+  }));
+}
+
+function tick(fleet: Vehicle[], now: number): PositionUpdate[] {
+  return fleet.map(vehicle => {
+    // Vehicles now and then start or stop, keeping the moving share steady
+    const switchChance = vehicle.moving ? 0.02 : 0.02 * MOVING_SHARE / (1 - MOVING_SHARE);
+    if (Math.random() < switchChance) vehicle.moving = !vehicle.moving;
+
+    const previous = vehicle.position;
+    const speed = vehicle.moving ? 30 + Math.random() * 40 : 0;
+    const heading = vehicle.moving ? (previous.heading ?? 0) + (Math.random() - 0.5) * 20 : previous.heading;
+    const km = (speed / 3600) * (TICK_MS / 1000);
+    const radians = ((heading ?? 0) * Math.PI) / 180;
+    // GPS jitter of a couple of meters even when standing still
+    const jitter = () => (Math.random() - 0.5) * 0.00003;
+
+    vehicle.position = {
+      latitude: previous.latitude + (km / 111) * Math.cos(radians) + jitter(),
+      longitude: previous.longitude + (km / 55) * Math.sin(radians) + jitter(),
+      timestamp: new Date(now),
+      speed,
+      heading: heading === undefined ? undefined : (heading + 360) % 360,
+    };
+    return { resourceId: vehicle.id, position: vehicle.position };
+  });
+}
+
+function byteLength(message: string | Buffer | null): number {
+  if (message === null) return 0;
+  return typeof message === 'string' ? Buffer.byteLength(message) : message.length;
+}
+
+function run(resources: number, ticks: number): void {
+  const start = Date.now();
+  const fleet = createFleet(resources, start);
+  const formats = ['full', 'delta', 'binary'] as const satisfies PositionFormat[];
+  const streams = formats.map(format => createPositionStream(format));
+  const totals = { baseline: 0, full: 0, delta: 0, binary: 0 };
+
+  for (let i = 0; i < ticks; i++) {
+    const now = start + i * TICK_MS;
+    const updates = tick(fleet, now);
+    // What every tick cost before change-only updates: every position, every time
+    totals.baseline += Buffer.byteLength(JSON.stringify({ type: 'POSITION_UPDATE', data: updates }));
+    formats.forEach((format, f) => {
+      const stream = streams[f];
+      if (stream) totals[format] += byteLength(encodePositionUpdates(stream, updates, now));
+    });
+  }
+
+  console.log(`${resources} resources, ${ticks} ticks of ${TICK_MS / 1000} s, ${Math.round(MOVING_SHARE * 100)}% moving\n`);
+  const rows = [
+    ['all positions, JSON', totals.baseline],
+    ['changed positions, JSON (full)', totals.full],
+    ['quantized deltas, JSON (delta)', totals.delta],
+    ['quantized deltas, binary (binary)', totals.binary],
+  ] as const;
+  for (const [label, total] of rows) {
+    const perTick = Math.round(total / ticks);
+    const reduction = totals.baseline > 0 ? (1 - total / totals.baseline) * 100 : 0;
+    console.log(`${label.padEnd(36)} ${String(perTick).padStart(9)} B/tick  ${reduction.toFixed(1).padStart(5)}% smaller`);
+  }
+}
+
+run(Number(process.argv[2] ?? 500), Number(process.argv[3] ?? 150));
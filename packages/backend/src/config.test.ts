@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { checkProductionConfig } from './config.js';
+
+describe('checkProductionConfig', () => {
+  it('refuses production without a database or a JWT secret', () => {
+    expect(checkProductionConfig({ NODE_ENV: 'production' })).toEqual([
+      expect.stringContaining('DATABASE_URL'),
+      expect.stringContaining('JWT_SECRET'),
+    ]);
+  });
+
+  it('accepts production with both, and other environments with neither', () => {
+    expect(checkProductionConfig({ NODE_ENV: 'production', DATABASE_URL: 'postgresql://db/sylon', JWT_SECRET: 'secret' })).toEqual([]);
+    expect(checkProductionConfig({ NODE_ENV: 'development' })).toEqual([]);
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * SYLON Server Configuration
+ * Settings a production server refuses to start without
+ */
+
+/**
+ * Problems that keep the server from starting in production. Without a database
+ * the demo users, who share a known password, can log in; without JWT_SECRET
+ * tokens are signed with a random key. Other environments run with both defaults.
+ */
+export function checkProductionConfig(env: NodeJS.ProcessEnv = process.env): string[] {
+  if (env.NODE_ENV !== 'production') return [];
+
+  const problems: string[] = [];
+  if (!env.DATABASE_URL) {
+    problems.push('DATABASE_URL must be set in production, the in-memory demo users share a known password');
+  }
+  if (!env.JWT_SECRET) {
+    problems.push('JWT_SECRET must be set in production, a random signing key ends every session on restart');
+  }
+  return problems;
+}
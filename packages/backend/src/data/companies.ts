@@ -0,0 +1,30 @@
+/**
+ * SYLON Demo Data - Companies
+ * Each company is a tenant with its own settings; every other entity belongs to one
+ */
+
+import type { Company, CompanySettings } from '@sylon/shared';
+import { DEMO_COMPANY, DEMO_SUBSIDIARY } from '@sylon/shared';
+
+function createCompany(company: Omit<Company, 'createdAt' | 'updatedAt'>): Company {
+  return {
+    ...company,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+}
+
+export const allCompanies: Company[] = [
+  createCompany(DEMO_COMPANY),
+  createCompany(DEMO_SUBSIDIARY),
+];
+
+export function getCompanyById(id: string): Company | undefined {
+  return allCompanies.find(c => c.id === id);
+}
+
+export function updateCompanySettings(company: Company, settings: Partial<CompanySettings>): Company {
+  company.settings = { ...company.settings, ...settings };
+  company.updatedAt = new Date();
+  return company;
+}
@@ -0,0 +1,86 @@
+/**
+ * SYLON Demo Data - Customers
+ * The customers the demo work orders and rate cards refer to
+ */
+
+import type { Customer } from '@sylon/shared';
+import { DEMO_COMPANY } from '@sylon/shared';
+
+const createdAt = new Date('2024-01-01');
+
+function createCustomer(
+  id: string,
+  customerNumber: string,
+  name: string,
+  details: Omit<Customer, 'id' | 'companyId' | 'customerNumber' | 'name' | 'isActive' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>
+): Customer {
+  return {
+    id,
+    companyId: DEMO_COMPANY.id,
+    customerNumber,
+    name,
+    ...details,
+    isActive: true,
+    createdAt,
+    updatedAt: createdAt,
+    createdBy: 'system',
+    updatedBy: 'system',
+  };
+}
+
+export const allCustomers: Customer[] = [
+  createCustomer('customer-trafikverket', 'K-1001', 'Trafikverket Region Mitt', {
+    organizationNumber: '202100-6297',
+    billingAddress: {
+      street: 'Box 810',
+      postalCode: '781 28',
+      city: 'Borlänge',
+      country: 'Sverige',
+    },
+    invoiceEmail: 'fakturor@trafikverket.se',
+    contacts: [
+      { name: 'Anna Lindqvist', role: 'Beställare vinterväghållning', phone: '+46 10 123 45 67', email: 'anna.lindqvist@trafikverket.se' },
+    ],
+  }),
+  createCustomer('customer-sundsvall', 'K-1002', 'Sundsvalls kommun', {
+    organizationNumber: '212000-2411',
+    billingAddress: {
+      street: 'Norrmalmsgatan 4',
+      postalCode: '851 85',
+      city: 'Sundsvall',
+      country: 'Sverige',
+    },
+    invoiceEmail: 'leverantorsfakturor@sundsvall.se',
+    contacts: [
+      { name: 'Per Sjöberg', role: 'Gatuchef', phone: '+46 60 19 10 00', email: 'per.sjoberg@sundsvall.se' },
+      { name: 'Karin Holm', role: 'Ekonomi', email: 'karin.holm@sundsvall.se' },
+    ],
+  }),
+  createCustomer('customer-norra-kajen', 'K-1003', 'Norra Kajen Exploatering AB', {
+    organizationNumber: '559012-3456',
+    billingAddress: {
+      street: 'Kajgatan 12',
+      postalCode: '852 30',
+      city: 'Sundsvall',
+      country: 'Sverige',
+    },
+    contacts: [
+      { name: 'Johan Ek', role: 'Projektledare', phone: '+46 70 555 12 34', email: 'johan.ek@norrakajen.se' },
+    ],
+    notes: 'Material faktureras separat enligt avtal',
+  }),
+];
+
+export function getCustomerById(id: string): Customer | undefined {
+  return allCustomers.find(c => c.id === id);
+}
+
+export function getCustomersByCompany(companyId: string): Customer[] {
+  return allCustomers.filter(c => c.companyId === companyId);
+}
+
+export function deleteCustomer(id: string): Customer | undefined {
+  const index = allCustomers.findIndex(c => c.id === id);
+  if (index === -1) return undefined;
+  return allCustomers.splice(index, 1)[0];
+}
@@ -21,6 +21,7 @@ function createJob(
 ): Job {
   const scheduledStart = new Date(now.getTime() + Math.random() * 4 * 60 * 60 * 1000);
   const scheduledEnd = new Date(scheduledStart.getTime() + (2 + Math.random() * 4) * 60 * 60 * 1000);
+  const started = status === 'in_progress' || status === 'paused';
   
   return {
     id,
@@ -38,13 +39,16 @@ function createJob(
     assignedResources: resourceIds.map(resourceId => ({
       resourceId,
       assignedAt: now,
-      status: 'assigned' as const,
+      startedAt: started ? now : undefined,
+      status: started ? 'active' as const : 'assigned' as const,
     })),
     scheduledTime: {
       start: scheduledStart,
       end: scheduledEnd,
     },
+    actualTime: started ? { start: now } : undefined,
     estimatedDuration: Math.floor((scheduledEnd.getTime() - scheduledStart.getTime()) / 60000),
+    statusHistory: [],
     timeEntries: [],
     photos: [],
     deviations: [],
@@ -54,6 +58,7 @@ function createJob(
     updatedAt: now,
     createdBy: 'system',
     updatedBy: 'system',
+    version: 1,
   };
 }
 
@@ -78,7 +83,7 @@ export const plowingJobs: Job[] = [
     'Plogning av gator i Sundsvalls centrum',
     { name: 'Stadscentrum', lat: 62.3880, lng: 17.3100 },
     ['plow-truck-02'],
-    'scheduled',
+    'assigned',
     'high'
   ),
   createJob(
@@ -89,7 +94,7 @@ export const plowingJobs: Job[] = [
     'Snöröjning av industriområdet väster om centrum',
     { name: 'Industriområdet', lat: 62.4050, lng: 17.2700 },
     ['plow-truck-03'],
-    'scheduled',
+    'assigned',
     'normal'
   ),
   createJob(
@@ -100,7 +105,7 @@ export const plowingJobs: Job[] = [
     'Saltning av vägar och gångbanor på Södermalm',
     { name: 'Södermalm', lat: 62.3650, lng: 17.2900 },
     ['plow-truck-04'],
-    'scheduled',
+    'assigned',
     'normal'
   ),
 ];
@@ -126,7 +131,7 @@ export const transportJobs: Job[] = [
     'Leverans av makadam från Bergtäkt Södra till vägbygge Timrå',
     { name: 'Vägbygge Timrå', lat: PROJECT_AREAS[1]!.coordinates.latitude, lng: PROJECT_AREAS[1]!.coordinates.longitude },
     ['haul-truck-02'],
-    'scheduled',
+    'assigned',
     'normal'
   ),
   createJob(
@@ -137,7 +142,7 @@ export const transportJobs: Job[] = [
     'Leverans av sand från Bergtäkt Södra till industrimark expansion',
     { name: 'Industrimark expansion', lat: PROJECT_AREAS[2]!.coordinates.latitude, lng: PROJECT_AREAS[2]!.coordinates.longitude },
     ['haul-truck-03'],
-    'scheduled',
+    'assigned',
     'low'
   ),
   createJob(
@@ -148,7 +153,7 @@ export const transportJobs: Job[] = [
     'Transport av sandningssand till kommunens väghållningsdepå',
     { name: 'Väghållningsdepå', lat: 62.3950, lng: 17.3200 },
     ['haul-truck-04'],
-    'scheduled',
+    'assigned',
     'high'
   ),
 ];
@@ -174,7 +179,7 @@ export const excavationJobs: Job[] = [
     'Nedläggning av ny VA-ledning längs Storgatan',
     { name: 'Storgatan', lat: 62.3900, lng: 17.3050 },
     ['excavator-02'],
-    'scheduled',
+    'assigned',
     'high'
   ),
   createJob(
@@ -185,7 +190,7 @@ export const excavationJobs: Job[] = [
     'Markberedning för industrimark expansion',
     { name: 'Industrimark expansion', lat: PROJECT_AREAS[2]!.coordinates.latitude, lng: PROJECT_AREAS[2]!.coordinates.longitude },
     ['excavator-03', 'loader-02'],
-    'scheduled',
+    'assigned',
     'normal'
   ),
   createJob(
@@ -196,7 +201,7 @@ export const excavationJobs: Job[] = [
     'Schaktning och planering av ny parkeringsplats vid köpcentrum',
     { name: 'Köpcentrum P-plats', lat: 62.3920, lng: 17.2950 },
     ['excavator-04'],
-    'scheduled',
+    'assigned',
     'low'
   ),
 ];
@@ -233,7 +238,7 @@ export const loadingJobs: Job[] = [
     'Lastning av sandningssand för vinterväghållning',
     { name: 'Bergtäkt Södra', lat: DEMO_QUARRY_SOUTH.latitude, lng: DEMO_QUARRY_SOUTH.longitude },
     ['loader-04'],
-    'scheduled',
+    'assigned',
     'high'
   ),
   createJob(
@@ -244,7 +249,7 @@ export const loadingJobs: Job[] = [
     'Lastning och förflyttning av material på byggarbetsplats Norra Kajen',
     { name: 'Norra Kajen', lat: PROJECT_AREAS[0]!.coordinates.latitude, lng: PROJECT_AREAS[0]!.coordinates.longitude },
     ['loader-02'],
-    'scheduled',
+    'assigned',
     'normal'
   ),
 ];
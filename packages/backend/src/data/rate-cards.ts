@@ -0,0 +1,90 @@
+/**
+ * SYLON Demo Data - Rate Cards
+ * Company default prices per contract type, and agreed prices for some customers
+ */
+
+import type { ContractType, RateCard, ResourceType } from '@sylon/shared';
+import { DEMO_COMPANY, DEMO_SUBSIDIARY } from '@sylon/shared';
+
+const createdAt = new Date('2024-01-01');
+
+// SEK per machine hour
+const EQUIPMENT_RATES: Record<ResourceType, number> = {
+  wheel_loader: 950,
+  excavator: 1100,
+  plow_truck: 1250,
+  haul_truck: 1050,
+  dump_truck: 1000,
+  tanker: 1100,
+  crane: 1800,
+};
+
+function createRateCard(
+  id: string,
+  name: string,
+  contractType: ContractType,
+  prices: Partial<RateCard> = {},
+  companyId: string = DEMO_COMPANY.id
+): RateCard {
+  return {
+    id,
+    companyId,
+    name,
+    contractType,
+    laborRate: 650,
+    laborRates: { travel: 450 },
+    equipmentRates: { ...EQUIPMENT_RATES },
+    materialMarkup: 15,
+    paymentTermsDays: 30,
+    ...prices,
+    createdAt,
+    updatedAt: createdAt,
+    createdBy: 'system',
+    updatedBy: 'system',
+  };
+}
+
+export const allRateCards: RateCard[] = [
+  createRateCard('rate-hourly', 'Löpande räkning', 'hourly'),
+  createRateCard('rate-fixed', 'Fast pris', 'fixed', { fixedPrice: 25000 }),
+  createRateCard('rate-call-out', 'Utryckning', 'call_out', {
+    laborRate: 750,
+    callOutFee: 1500,
+    minimumHours: 2,
+  }),
+  createRateCard('rate-trafikverket-call-out', 'Trafikverket vinterväghållning', 'call_out', {
+    customerId: 'customer-trafikverket',
+    laborRate: 700,
+    equipmentRates: { ...EQUIPMENT_RATES, plow_truck: 1150 },
+    callOutFee: 1200,
+    minimumHours: 3,
+    paymentTermsDays: 20,
+  }),
+  createRateCard('rate-norra-kajen-fixed', 'Norra Kajen etapp 2', 'fixed', {
+    customerId: 'customer-norra-kajen',
+    fixedPrice: 48000,
+    materialMarkup: 10,
+  }),
+  createRateCard('rate-sub-hourly', 'Löpande räkning', 'hourly', {}, DEMO_SUBSIDIARY.id),
+];
+
+export function getRateCardById(id: string): RateCard | undefined {
+  return allRateCards.find(r => r.id === id);
+}
+
+export function getRateCardsByCompany(companyId: string): RateCard[] {
+  return allRateCards.filter(r => r.companyId === companyId);
+}
+
+// The customer's own card for the contract type, or the company default
+export function findRateCard(companyId: string, contractType: ContractType, customerId?: string): RateCard | undefined {
+  const cards = getRateCardsByCompany(companyId).filter(r => r.contractType === contractType);
+  return (customerId ? cards.find(r => r.customerId === customerId) : undefined) ??
+    cards.find(r => r.customerId === undefined);
+}
+
+export function deleteRateCard(id: string): RateCard | undefined {
+  const index = allRateCards.findIndex(r => r.id === id);
+  if (index === -1) return undefined;
+  return allRateCards.splice(index, 1)[0];
+}
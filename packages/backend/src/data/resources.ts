@@ -1,10 +1,11 @@
 /**
  * SYLON Demo Data - Resources
- * 16 units: 4 wheel loaders, 4 excavators, 4 plow trucks, 4 haul trucks
+ * 16 units: 4 wheel loaders, 4 excavators, 4 plow trucks, 4 haul trucks,
+ * plus 2 units of the subsidiary tenant
  */
 
 import type { Resource, ResourceType, ResourceStatus } from '@sylon/shared';
-import { DEMO_COMPANY, DEMO_GARAGE } from '@sylon/shared';
+import { DEMO_COMPANY, DEMO_GARAGE, DEMO_SUBSIDIARY } from '@sylon/shared';
 
 function createResource(
   id: string,
@@ -12,7 +13,8 @@ function createResource(
   type: ResourceType,
   regNumber: string,
   specs: Partial<Resource['specifications']>,
-  capacity: Partial<Resource['capacity']>
+  capacity: Partial<Resource['capacity']>,
+  companyId: string = DEMO_COMPANY.id
 ): Resource {
   const now = new Date();
   const lastService = new Date(now.getTime() - Math.random() * 30 * 24 * 60 * 60 * 1000);
@@ -20,7 +22,7 @@ function createResource(
   
   return {
     id,
-    companyId: DEMO_COMPANY.id,
+    companyId,
     name,
     type,
     registrationNumber: regNumber,
@@ -208,11 +210,34 @@ export const haulTrucks: Resource[] = [
   ),
 ];
 
+// Subsidiary fleet (Kust Entreprenad)
+export const subsidiaryResources: Resource[] = [
+  createResource(
+    'kust-plow-01',
+    'Volvo FMX 460',
+    'plow_truck',
+    'KST 460',
+    { manufacturer: 'Volvo', model: 'FMX 460', year: 2022, enginePower: 340, weight: 19000 },
+    { maxLoad: 14, unit: 'ton' },
+    DEMO_SUBSIDIARY.id
+  ),
+  createResource(
+    'kust-haul-01',
+    'Scania G450',
+    'haul_truck',
+    'KST 450',
+    { manufacturer: 'Scania', model: 'G450', year: 2021, enginePower: 330, weight: 18000 },
+    { maxLoad: 22, unit: 'ton' },
+    DEMO_SUBSIDIARY.id
+  ),
+];
+
 export const allResources: Resource[] = [
   ...wheelLoaders,
   ...excavators,
   ...plowTrucks,
   ...haulTrucks,
+  ...subsidiaryResources,
 ];
 
 export function getResourceById(id: string): Resource | undefined {
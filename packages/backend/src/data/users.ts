@@ -0,0 +1,79 @@
+/**
+ * SYLON Demo Data - Users
+ * Office staff and field operators of the demo companies. All demo users share DEMO_PASSWORD.
+ */
+
+import type { User, UserRole } from '@sylon/shared';
+import { DEMO_COMPANY, DEMO_SUBSIDIARY } from '@sylon/shared';
+import { getResourceById } from './resources.js';
+import { hashPasswordSync } from '../modules/auth/passwords.js';
+
+// A user as stored by the backend, never sent to clients as is
+export interface UserAccount extends User {
+  passwordHash: string;
+  lastLoginAt?: Date;
+}
+
+export const DEMO_PASSWORD = 'demo1234';
+
+const demoPasswordHash = hashPasswordSync(DEMO_PASSWORD);
+
+function createUser(
+  id: string,
+  email: string,
+  firstName: string,
+  lastName: string,
+  role: UserRole,
+  phone: string,
+  companyId: string = DEMO_COMPANY.id
+): UserAccount {
+  return {
+    id,
+    companyId,
+    email,
+    firstName,
+    lastName,
+    phone,
+    role,
+    isActive: true,
+    preferences: {
+      language: 'sv',
+      theme: 'system',
+      notifications: { email: true, push: true, sms: false },
+    },
+    passwordHash: demoPasswordHash,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+}
+
+export const allUsers: UserAccount[] = [
+  createUser('user-admin-001', 'admin@sylon.se', 'Anna', 'Berg', 'admin', '+46 70 111 00 01'),
+  createUser('user-dispatcher-001', 'dispatcher@sylon.se', 'Erik', 'Lund', 'dispatcher', '+46 70 111 00 02'),
+  createUser('user-supervisor-001', 'arbetsledare@sylon.se', 'Maria', 'Holm', 'supervisor', '+46 70 111 00 03'),
+  createUser('user-demo-001', 'demo@sylon.se', 'Demo', 'Förare', 'driver', '+46 70 111 00 04'),
+  createUser('user-operator-001', 'operator@sylon.se', 'Johan', 'Sjöberg', 'operator', '+46 70 111 00 05'),
+  createUser('user-kust-admin-001', 'admin@kust.sylon.se', 'Karin', 'Strand', 'admin', '+46 70 222 00 01', DEMO_SUBSIDIARY.id),
+  createUser('user-kust-driver-001', 'forare@kust.sylon.se', 'Olof', 'Viklund', 'driver', '+46 70 222 00 02', DEMO_SUBSIDIARY.id),
+];
+
+export function getUserById(id: string): UserAccount | undefined {
+  return allUsers.find(u => u.id === id);
+}
+
+export function getUserByEmail(email: string): UserAccount | undefined {
+  const normalized = email.trim().toLowerCase();
+  return allUsers.find(u => u.email.toLowerCase() === normalized);
+}
+
+// Field operators and the machine they drive
+const DEMO_OPERATOR_RESOURCES: Record<string, string> = {
+  'user-demo-001': 'plow-truck-01',
+  'user-operator-001': 'loader-01',
+  'user-kust-driver-001': 'kust-plow-01',
+};
+
+for (const [userId, resourceId] of Object.entries(DEMO_OPERATOR_RESOURCES)) {
+  const resource = getResourceById(resourceId);
+  if (resource) resource.assignedOperatorId = userId;
+}
@@ -0,0 +1,85 @@
+/**
+ * SYLON Demo Data - Work Orders
+ * Customer orders grouping demo jobs under a contract type
+ */
+
+import type { ContractType, WorkOrder } from '@sylon/shared';
+import { DEMO_COMPANY } from '@sylon/shared';
+
+const createdAt = new Date('2024-01-01');
+
+function createWorkOrder(
+  id: string,
+  orderNumber: string,
+  customerId: string,
+  contractType: ContractType,
+  jobs: string[],
+  terms?: string
+): WorkOrder {
+  return {
+    id,
+    companyId: DEMO_COMPANY.id,
+    orderNumber,
+    customerId,
+    jobs,
+    status: 'active',
+    validFrom: createdAt,
+    contractType,
+    terms,
+    createdAt,
+    updatedAt: createdAt,
+    createdBy: 'system',
+    updatedBy: 'system',
+  };
+}
+
+export const allWorkOrders: WorkOrder[] = [
+  createWorkOrder(
+    'wo-001',
+    'AO-2024-001',
+    'customer-trafikverket',
+    'call_out',
+    ['job-plow-001'],
+    'Vinterväghållning E4 enligt beredskapsavtal'
+  ),
+  createWorkOrder(
+    'wo-002',
+    'AO-2024-002',
+    'customer-sundsvall',
+    'hourly',
+    ['job-plow-002', 'job-plow-003', 'job-salt-001']
+  ),
+  createWorkOrder(
+    'wo-003',
+    'AO-2024-003',
+    'customer-norra-kajen',
+    'fixed',
+    ['job-haul-001', 'job-load-004'],
+    'Fast pris per uppdrag, material debiteras separat'
+  ),
+];
+
+export function getWorkOrderById(id: string): WorkOrder | undefined {
+  return allWorkOrders.find(w => w.id === id);
+}
+
+export function getWorkOrdersByCompany(companyId: string): WorkOrder[] {
+  return allWorkOrders.filter(w => w.companyId === companyId);
+}
+
+export function getWorkOrderForJob(jobId: string): WorkOrder | undefined {
+  return allWorkOrders.find(w => w.jobs.includes(jobId));
+}
+
+// Whether the order covers a moment; validTo is the last moment it covers
+export function isWithinValidity(workOrder: Pick<WorkOrder, 'validFrom' | 'validTo'>, at: Date): boolean {
+  const time = at.getTime();
+  return time >= new Date(workOrder.validFrom).getTime() &&
+    (workOrder.validTo === undefined || time <= new Date(workOrder.validTo).getTime());
+}
+
+export function deleteWorkOrder(id: string): WorkOrder | undefined {
+  const index = allWorkOrders.findIndex(w => w.id === id);
+  if (index === -1) return undefined;
+  return allWorkOrders.splice(index, 1)[0];
+}
@@ -0,0 +1,35 @@
+/**
+ * SYLON Database CLI
+ * Usage: tsx src/db/cli.ts migrate|seed
+ */
+
+import { closePool, getPool } from './pool.js';
+import { runMigrations } from './migrate.js';
+import { seedDemoData } from './seed.js';
+
+async function main(command: string | undefined): Promise<void> {
+  const pool = getPool();
+
+  switch (command) {
+    case 'migrate': {
+      const applied = await runMigrations(pool);
+      console.log(applied.length > 0 ? `Applied migrations: ${applied.join(', ')}` : 'Database is up to date');
+      break;
+    }
+    case 'seed': {
+      await runMigrations(pool);
+      const seeded = await seedDemoData(pool);
+      console.log(seeded ? 'Seeded demo data' : 'Database already has data, nothing seeded');
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command ?? ''}", expected migrate or seed`);
+  }
+}
+
+main(process.argv[2])
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
@@ -0,0 +1,86 @@
+/**
+ * SYLON Database Migrations
+ * Applies database/schema.sql as the baseline, then database/migrations/*.sql in order
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import type pg from 'pg';
+
+const DATABASE_DIR = fileURLToPath(new URL('../../../../database/', import.meta.url));
+const BASELINE_VERSION = '001_schema';
+
+// Arbitrary key so concurrent server starts do not migrate at the same time
+const MIGRATION_LOCK_KEY = 72_011;
+
+interface Migration {
+  version: string;
+  path: string;
+}
+
+async function listMigrations(): Promise<Migration[]> {
+  const files = (await readdir(`${DATABASE_DIR}migrations`))
+    .filter(file => file.endsWith('.sql'))
+    .sort();
+
+  return [
+    { version: BASELINE_VERSION, path: `${DATABASE_DIR}schema.sql` },
+    ...files.map(file => ({ version: file.replace(/\.sql$/, ''), path: `${DATABASE_DIR}migrations/${file}` })),
+  ];
+}
+
+async function tableExists(client: pg.PoolClient, table: string): Promise<boolean> {
+  const result = await client.query('SELECT to_regclass($1) IS NOT NULL AS exists', [`public.${table}`]);
+  return result.rows[0].exists === true;
+}
+
+/**
+ * Apply pending migrations, each in its own transaction. A database that was set up
+ * by hand from schema.sql is recognised and only gets the later migrations.
+ */
+export async function runMigrations(pool: pg.Pool): Promise<string[]> {
+  const client = await pool.connect();
+  const applied: string[] = [];
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+
+    if (!(await tableExists(client, 'schema_migrations'))) {
+      const hasBaseline = await tableExists(client, 'companies');
+      await client.query(`
+        CREATE TABLE schema_migrations (
+          version TEXT PRIMARY KEY,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+      `);
+      if (hasBaseline) {
+        await client.query('INSERT INTO schema_migrations (version) VALUES ($1)', [BASELINE_VERSION]);
+      }
+    }
+
+    const done = new Set(
+      (await client.query('SELECT version FROM schema_migrations')).rows.map(row => row.version as string)
+    );
+
+    for (const migration of await listMigrations()) {
+      if (done.has(migration.version)) continue;
+
+      const sql = await readFile(migration.path, 'utf8');
+      try {
+        await client.query('BEGIN');
+        await client.query(sql);
+        await client.query('INSERT INTO schema_migrations (version) VALUES ($1)', [migration.version]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new Error(`Migration ${migration.version} failed: ${(error as Error).message}`);
+      }
+      applied.push(migration.version);
+    }
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    client.release();
+  }
+
+  return applied;
+}
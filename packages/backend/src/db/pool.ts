@@ -0,0 +1,54 @@
+/**
+ * SYLON Database Connection
+ * PostgreSQL connection pool, enabled by DATABASE_URL
+ */
+
+import pg from 'pg';
+
+export type Database = pg.Pool | pg.PoolClient;
+
+let pool: pg.Pool | undefined;
+
+// Without DATABASE_URL the server keeps all data in memory
+export function isDatabaseConfigured(): boolean {
+  return Boolean(process.env.DATABASE_URL);
+}
+
+export function getPool(): pg.Pool {
+  if (!pool) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+    pool.on('error', error => console.error('PostgreSQL pool error:', error));
+  }
+  return pool;
+}
+
+export async function closePool(): Promise<void> {
+  await pool?.end();
+  pool = undefined;
+}
+
+/**
+ * Run work in a transaction. A client that is already in a transaction
+ * (a pool client handed down by the caller) is used as is.
+ */
+export async function withTransaction<T>(db: Database, work: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  if (!(db instanceof pg.Pool)) {
+    return work(db);
+  }
+
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
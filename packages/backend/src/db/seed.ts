@@ -0,0 +1,81 @@
+/**
+ * SYLON Demo Data Seeding
+ * Loads the demo companies, users, customers, work orders, resources, sites, jobs, rate cards and opening stock into an empty database
+ */
+
+import type pg from 'pg';
+import { allCompanies } from '../data/companies.js';
+import { allResources } from '../data/resources.js';
+import { allSites } from '../data/sites.js';
+import { allJobs } from '../data/jobs.js';
+import { allUsers } from '../data/users.js';
+import { allRateCards } from '../data/rate-cards.js';
+import { allCustomers } from '../data/customers.js';
+import { allWorkOrders } from '../data/work-orders.js';
+import { getAllTransactions } from '../modules/sites/ledger.js';
+import { createPostgresRepositories } from '../repositories/postgres/index.js';
+import { withTransaction } from './pool.js';
+
+async function isEmpty(pool: pg.Pool, table: string): Promise<boolean> {
+  const result = await pool.query(`SELECT 1 FROM ${table} LIMIT 1`);
+  return result.rowCount === 0;
+}
+
+/**
+ * Seed the demo data unless the database already holds resources. Demo users, rate
+ * cards and customers with their work orders are seeded separately, so databases
+ * created before they were stored get them too. The demo users share a public
+ * password, so this only runs from `npm run db:seed`, never at startup.
+ * Returns whether anything was seeded.
+ */
+export async function seedDemoData(pool: pg.Pool): Promise<boolean> {
+  const seedData = await isEmpty(pool, 'resources');
+  const seedUsers = await isEmpty(pool, 'users');
+  const seedRateCards = await isEmpty(pool, 'rate_cards');
+  const seedCustomers = await isEmpty(pool, 'customers');
+  if (!seedData && !seedUsers && !seedRateCards && !seedCustomers) return false;
+
+  await withTransaction(pool, async client => {
+    const repositories = createPostgresRepositories(client);
+
+    // Companies already stored keep their settings
+    const storedCompanyIds = new Set((await repositories.companies.findAll()).map(c => c.id));
+    for (const company of allCompanies) {
+      if (storedCompanyIds.has(company.id)) continue;
+      await repositories.companies.save(company);
+    }
+
+    if (seedUsers) {
+      for (const user of allUsers) {
+        await repositories.users.save(user);
+      }
+    }
+    if (seedRateCards) {
+      for (const card of allRateCards) {
+        await repositories.rateCards.save(card);
+      }
+    }
+    if (seedCustomers) {
+      for (const customer of allCustomers) {
+        await repositories.customers.save(customer);
+      }
+      for (const workOrder of allWorkOrders) {
+        await repositories.workOrders.save(workOrder);
+      }
+    }
+    if (!seedData) return;
+
+    for (const resource of allResources) {
+      await repositories.resources.save(resource);
+    }
+    for (const site of allSites) {
+      await repositories.sites.save(site);
+    }
+    for (const job of allJobs) {
+      await repositories.jobs.save(job);
+    }
+    await repositories.materialTransactions.append(getAllTransactions());
+  });
+
+  return true;
+}
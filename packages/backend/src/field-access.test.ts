@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Job } from '@sylon/shared';
+import { startApiServer, type ApiServer } from './testing/api-server.js';
+
+// The demo driver operates this resource
+const DRIVER_RESOURCE = 'plow-truck-01';
+
+let server: ApiServer;
+let dispatcher: string;
+let driver: string;
+
+beforeAll(async () => {
+  server = await startApiServer();
+  dispatcher = await server.login('dispatcher@sylon.se');
+  driver = await server.login('demo@sylon.se');
+}, 90_000);
+
+afterAll(async () => {
+  await server?.stop();
+});
+
+let scheduledDays = 0;
+
+// A job assigned to the driver's resource, created by the dispatcher on a day of its own
+async function assignedJob(): Promise<Job> {
+  const start = Date.now() + (30 + ++scheduledDays) * 24 * 60 * 60 * 1000;
+  const { body } = await server.request<Job>(dispatcher, 'POST', '/api/jobs', {
+    type: 'snow_plowing',
+    title: 'Plogning av infarten',
+    location: { name: 'Infarten', coordinates: { latitude: 62.4, longitude: 17.3 } },
+    scheduledTime: { start: new Date(start).toISOString(), end: new Date(start + 2 * 60 * 60 * 1000).toISOString() },
+    assignedResources: [DRIVER_RESOURCE],
+  });
+  expect(body.data!.status).toBe('assigned');
+  return body.data!;
+}
+
+function setStatus(token: string, job: Job, status: string) {
+  return server.request<Job>(token, 'PATCH', `/api/jobs/${job.id}/status`, { status });
+}
+
+describe('job status changes by field users', () => {
+  it('does not let a driver cancel or unschedule an assigned job', async () => {
+    const job = await assignedJob();
+
+    expect((await setStatus(driver, job, 'cancelled')).status).toBe(403);
+    expect((await setStatus(driver, job, 'scheduled')).status).toBe(403);
+  });
+
+  it('does not let a driver cancel a job in progress', async () => {
+    const job = await assignedJob();
+
+    expect((await setStatus(driver, job, 'in_progress')).status).toBe(200);
+    const cancel = await setStatus(driver, job, 'cancelled');
+
+    expect(cancel.status).toBe(403);
+    expect(cancel.body.error?.details).toEqual({ role: 'driver', permission: 'jobs:cancel' });
+  });
+
+  it('lets a driver work through a job and the dispatcher cancel one', async () => {
+    const worked = await assignedJob();
+    const cancelled = await assignedJob();
+
+    expect((await setStatus(driver, worked, 'in_progress')).status).toBe(200);
+    expect((await setStatus(driver, worked, 'paused')).status).toBe(200);
+    expect((await setStatus(driver, worked, 'completed')).body.data!.status).toBe('completed');
+    expect((await setStatus(dispatcher, cancelled, 'cancelled')).body.data!.status).toBe('cancelled');
+  });
+});
+
+// Reports on the driver's job made in the name of another user, with a change each accepts
+const OTHER_USERS_REPORTS: [string, Record<string, unknown>, Record<string, unknown>][] = [
+  ['time-entries', {
+    resourceId: DRIVER_RESOURCE,
+    operatorId: 'user-operator-001',
+    type: 'work',
+    timeRange: { start: '2026-01-15T07:00:00Z', end: '2026-01-15T09:00:00Z' },
+  }, { description: 'Ändrad' }],
+  ['notes', { authorId: 'user-supervisor-001', content: 'Kontrollera skyltarna' }, { content: 'Ändrad' }],
+  ['deviations', {
+    resourceId: DRIVER_RESOURCE,
+    reportedBy: 'user-supervisor-001',
+    type: 'damage',
+    severity: 'warning',
+    title: 'Skadad skylt',
+    description: 'Påkörd skylt vid infarten',
+  }, { title: 'Ändrad' }],
+];
+
+describe('reports of other users', () => {
+  it.each(OTHER_USERS_REPORTS)('does not let a driver change or delete %s of another user', async (path, report, change) => {
+    const job = await assignedJob();
+    const created = await server.request<{ id: string }>(dispatcher, 'POST', `/api/jobs/${job.id}/${path}`, report);
+    const itemPath = `/api/jobs/${job.id}/${path}/${created.body.data!.id}`;
+
+    expect((await server.request(driver, 'PATCH', itemPath, change)).status).toBe(403);
+    expect((await server.request(driver, 'DELETE', itemPath)).status).toBe(403);
+    expect((await server.request(dispatcher, 'PATCH', itemPath, change)).status).toBe(200);
+  });
+
+  it('lets a driver change and delete their own note', async () => {
+    const job = await assignedJob();
+    const created = await server.request<{ id: string }>(driver, 'POST', `/api/jobs/${job.id}/notes`, {
+      authorId: 'user-demo-001',
+      content: 'Halt vid infarten',
+    });
+    const itemPath = `/api/jobs/${job.id}/notes/${created.body.data!.id}`;
+
+    expect((await server.request(driver, 'PATCH', itemPath, { content: 'Sandat vid infarten' })).status).toBe(200);
+    expect((await server.request(driver, 'DELETE', itemPath)).status).toBe(200);
+  });
+});
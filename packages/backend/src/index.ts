@@ -5,24 +5,65 @@
 
 import express, { type Request, type Response, type NextFunction } from 'express';
 import cors from 'cors';
-import { createServer } from 'http';
+import { createServer, type IncomingMessage } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
 import { v4 as uuidv4 } from 'uuid';
 
-import type { ApiResponse, WebSocketEvent, Resource, Job, Site, SiteMaterial, GeoPosition } from '@sylon/shared';
-import { DEMO_COMPANY } from '@sylon/shared';
+import type { ApiResponse, Company, Resource, Job, Site, SiteMaterial, GeoPosition, GpsBatchResult, ResourceTrack, SiteVisit, MaterialTransaction, MaterialTransactionResult, MaterialLoadResult, JobAssignmentResult, DailyCheck, Shift, SkippedDailyCheck, LoginResponse, AuthTokens, SessionUser, UploadSession, JobInvoice, RateCard, Customer, WorkOrder, WorkOrderSummary, TimeApprovalGroup, ReviewTimeEntriesResult, PayrollReport } from '@sylon/shared';
+import { DEMO_COMPANY, hasPermission, isJobCancellation } from '@sylon/shared';
 
 import { allResources, getResourceById, getResourcesByType } from './data/resources.js';
 import { allSites, getSiteById, getSitesByType, updateSite, addMaterialToSite, updateMaterialInSite, deleteMaterialFromSite } from './data/sites.js';
 import { allJobs, getJobById, getJobsByStatus, getJobsByResource } from './data/jobs.js';
-import { initializeSimulation, updateSimulation, getAllPositions, getResourcePosition } from './modules/gps/simulation.js';
+import { initializeSimulation, updateSimulation } from './modules/gps/simulation.js';
+import { getCurrentPositions, getCurrentPosition, mergeDevicePositions, recordSimulatedPositions } from './modules/gps/positions.js';
+import { validateGpsBatch, ingestGpsBatch } from './modules/gps/ingestion.js';
+import { buildTrack, buildTrackFromPositions } from './modules/gps/track.js';
+import { getHistoryStart, onPositionRecorded } from './modules/gps/history.js';
+import { evaluatePosition, transitionToEvents } from './modules/geofence/engine.js';
+import { handleGeofenceTransition, getSiteVisits, type VisitChange } from './modules/sites/visits.js';
+import { validateMaterialLoad, recordMaterialLoad, toStoredMaterialLoad } from './modules/jobs/material-loads.js';
+import { validateStatusUpdate, transitionJob } from './modules/jobs/state-machine.js';
+import { validateCreateJob, checkWorkOrderFit } from './modules/jobs/creation.js';
+import { validateAssignment, validateInitialAssignments, assignResource, assignInitialResources, releaseResource } from './modules/jobs/assignments.js';
+import { JOB_SUB_RESOURCES, JOB_SUB_RESOURCE_KEYS, listSubResources, getSubResource, getReporter, createSubResource, updateSubResource, deleteSubResource, type JobSubResourceTypes, type JobSubResourceKey } from './modules/jobs/sub-resources.js';
+import { conflictError, findConflict } from './modules/jobs/versioning.js';
+import { validateUploadRequest, createUpload, getUpload, appendChunk, discardUpload, MAX_CHUNK_SIZE } from './modules/photos/uploads.js';
+import { preparePhoto, readPhotoOriginal, readPhotoThumbnail, deletePhotoFiles, type PreparedPhoto } from './modules/photos/processing.js';
+import { buildInvoice, draftInvoice, validateInvoiceStatusUpdate, transitionInvoice } from './modules/invoicing/invoices.js';
+import { validateRateCard } from './modules/invoicing/rate-cards.js';
+import { prepareInvoiceDocument } from './modules/invoicing/documents.js';
+import { validateCustomer, nextCustomerNumber, customerReferences } from './modules/customers/customers.js';
+import { validateWorkOrder, nextOrderNumber, linkJobs, summarizeWorkOrder } from './modules/customers/work-orders.js';
+import { getApprovalQueue, validateReview, reviewTimeEntries, timeEntryLock, ownTimeEntryError, refreshDraftInvoice } from './modules/timesheets/approval.js';
+import { validatePayrollPeriod, buildPayrollReport } from './modules/timesheets/payroll.js';
+import { renderInvoicePdf } from './modules/invoicing/pdf.js';
+import { renderInvoiceUbl } from './modules/invoicing/ubl.js';
+import { validateDayStart, validateDaySummary, recordDayStart, recordDaySummary, getDailyChecks, getShifts, getSkippedChecks } from './modules/garage/daily-checks.js';
+import { validateTransaction, recordTransaction, recordOpeningBalance, refreshMaterialStock, getTransactions } from './modules/sites/ledger.js';
+import { validateLogin, validateRefresh, login, refresh, logout, authenticateAccessToken, onSessionEnded, toSessionUser } from './modules/auth/sessions.js';
+import { authenticate, readBearerToken, requireAuth } from './modules/auth/middleware.js';
+import { isPositionFormat } from './modules/realtime/position-stream.js';
+import { addClient, removeClient, handleClientMessage, broadcastEvent, broadcastPositions, closeAllClients, closeSessionClients, getClientCount, jobScope, resourceScope, type EventScope } from './modules/realtime/hub.js';
+import { authorize, canAccessJob, canAccessResource, canAccessSite, canReportAs, isFieldUser, isSameCompany } from './modules/auth/authorization.js';
+import { resolveTenant, requireCompany } from './modules/auth/tenant.js';
+import { validateSettingsUpdate } from './modules/company/settings.js';
+import { updateCompanySettings } from './data/companies.js';
+import { getUserById } from './data/users.js';
+import { allRateCards, getRateCardById, getRateCardsByCompany, deleteRateCard } from './data/rate-cards.js';
+import { allCustomers, getCustomerById, getCustomersByCompany, deleteCustomer } from './data/customers.js';
+import { allWorkOrders, getWorkOrderById, getWorkOrdersByCompany, deleteWorkOrder } from './data/work-orders.js';
+import { repositories, initRepositories } from './repositories/index.js';
+import { closePool } from './db/pool.js';
+import { checkProductionConfig } from './config.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Field-app photos and deviations carry base64 images
+app.use(express.json({ limit: '15mb' }));
 
 // Request logging
 app.use((req: Request, _res: Response, next: NextFunction) => {
@@ -30,6 +71,28 @@ app.use((req: Request, _res: Response, next: NextFunction) => {
   next();
 });
 
+// Handlers that write to the database pass failures on to the error handler
+function asyncRoute(handler: (req: Request, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res).catch(next);
+  };
+}
+
+// Write resources and sites changed as a side effect of job and ledger updates
+async function saveResources(resourceIds: string[]): Promise<void> {
+  for (const resourceId of new Set(resourceIds)) {
+    const resource = getResourceById(resourceId);
+    if (resource) await repositories.resources.save(resource);
+  }
+}
+
+async function saveSites(siteIds: string[]): Promise<void> {
+  for (const siteId of new Set(siteIds)) {
+    const site = getSiteById(siteId);
+    if (site) await repositories.sites.save(site);
+  }
+}
+
 // ============================================
 // HEALTH & INFO ENDPOINTS
 // ============================================
@@ -57,15 +120,273 @@ app.get('/api/info', (_req: Request, res: Response) => {
   } satisfies ApiResponse<unknown>);
 });
 
+// ============================================
+// AUTH ENDPOINTS
+// ============================================
+
+function authErrorStatus(code: string): number {
+  return code === 'ACCOUNT_DISABLED' ? 403 : 401;
+}
+
+app.post('/api/auth/login', asyncRoute(async (req: Request, res: Response) => {
+  const { request, errors } = validateLogin(req.body);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid login', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const outcome = await login(request);
+  
+  if ('error' in outcome) {
+    res.status(authErrorStatus(outcome.error.code)).json({
+      success: false,
+      error: outcome.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  await repositories.users.save(outcome.user);
+  await repositories.refreshTokens.save(outcome.changed);
+  
+  res.json({
+    success: true,
+    data: outcome.result,
+  } satisfies ApiResponse<LoginResponse>);
+}));
+
+// Rotate the refresh token; each token can be used once, from the device it was issued to
+app.post('/api/auth/refresh', asyncRoute(async (req: Request, res: Response) => {
+  const { request, errors } = validateRefresh(req.body);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid refresh request', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const outcome = refresh(request);
+  await repositories.refreshTokens.save(outcome.changed);
+  
+  if ('error' in outcome) {
+    res.status(401).json({
+      success: false,
+      error: outcome.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  res.json({
+    success: true,
+    data: outcome.result,
+  } satisfies ApiResponse<AuthTokens>);
+}));
+
+// Revoke the session of the bearer token and/or the refresh token in the body
+app.post('/api/auth/logout', asyncRoute(async (req: Request, res: Response) => {
+  const accessToken = readBearerToken(req);
+  const claims = accessToken ? authenticateAccessToken(accessToken) : undefined;
+  const refreshToken = typeof req.body?.refreshToken === 'string' ? req.body.refreshToken : undefined;
+  
+  if (!claims && !refreshToken) {
+    res.status(401).json({
+      success: false,
+      error: { code: 'UNAUTHORIZED', message: 'A valid access token or refresh token is required' },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const revoked = logout(claims, refreshToken);
+  await repositories.refreshTokens.save(revoked);
+  
+  res.json({
+    success: true,
+    data: { revokedTokens: revoked.length },
+  } satisfies ApiResponse<{ revokedTokens: number }>);
+}));
+
+app.get('/api/auth/me', authenticate, (req: Request, res: Response) => {
+  const user = getUserById(req.auth?.sub ?? '');
+  
+  if (!user) {
+    res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'User not found' },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  res.json({
+    success: true,
+    data: toSessionUser(user),
+  } satisfies ApiResponse<SessionUser>);
+});
+
+// Everything below requires a valid access token and is scoped to the user's company
+app.use('/api', authenticate, resolveTenant);
+
+// ============================================
+// ACCESS HELPERS
+// ============================================
+
+function sendForbidden(res: Response, message: string): void {
+  res.status(403).json({
+    success: false,
+    error: { code: 'FORBIDDEN', message },
+  } satisfies ApiResponse<never>);
+}
+
+// Entities of other companies are reported as not found
+function sendNotFound(res: Response, message: string): void {
+  res.status(404).json({
+    success: false,
+    error: { code: 'NOT_FOUND', message },
+  } satisfies ApiResponse<never>);
+}
+
+function checkResourceAccess(req: Request, res: Response, resourceId: string): Resource | undefined {
+  const auth = requireAuth(req);
+  const resource = getResourceById(resourceId);
+  
+  if (!resource || !isSameCompany(auth, resource)) {
+    sendNotFound(res, 'Resource not found');
+    return undefined;
+  }
+  if (!canAccessResource(auth, resource)) {
+    sendForbidden(res, 'Resource is not assigned to you');
+    return undefined;
+  }
+  return resource;
+}
+
+// Whether a referenced resource, site or job exists in the user's company
+function isCompanyResource(req: Request, resourceId: string): boolean {
+  const resource = getResourceById(resourceId);
+  return resource !== undefined && isSameCompany(requireAuth(req), resource);
+}
+
+function isCompanySite(req: Request, siteId: string): boolean {
+  const site = getSiteById(siteId);
+  return site !== undefined && isSameCompany(requireAuth(req), site);
+}
+
+function isCompanyJob(req: Request, jobId: string): boolean {
+  const job = getJobById(jobId);
+  return job !== undefined && isSameCompany(requireAuth(req), job);
+}
+
+function isCompanyCustomer(req: Request, customerId: string): boolean {
+  const customer = getCustomerById(customerId);
+  return customer !== undefined && isSameCompany(requireAuth(req), customer);
+}
+
+// Reports name the user who made them; field users may only report as themselves
+function checkReporter(req: Request, res: Response, userId: unknown): boolean {
+  const auth = requireAuth(req);
+  // A missing or malformed user is left to the validation of the report
+  if (typeof userId !== 'string' || canReportAs(auth, userId)) return true;
+  
+  if (isFieldUser(auth)) {
+    sendForbidden(res, 'You may only report as yourself');
+  } else {
+    sendNotFound(res, 'User not found');
+  }
+  return false;
+}
+
+// Field users may only change and delete their own reports
+function checkReportOwner(req: Request, res: Response, reporter: unknown): boolean {
+  const auth = requireAuth(req);
+  if (!isFieldUser(auth) || reporter === auth.sub) return true;
+  
+  sendForbidden(res, 'You may only change your own reports');
+  return false;
+}
+
+// Look up the resource, job or site of the route's :id for the authenticated user
+function findAccessibleResource(req: Request, res: Response): Resource | undefined {
+  return checkResourceAccess(req, res, req.params.id ?? '');
+}
+
+function findAccessibleJob(req: Request, res: Response): Job | undefined {
+  const auth = requireAuth(req);
+  const job = getJobById(req.params.id ?? '');
+  
+  if (!job || !isSameCompany(auth, job)) {
+    sendNotFound(res, 'Job not found');
+    return undefined;
+  }
+  if (!canAccessJob(auth, job)) {
+    sendForbidden(res, 'Job is not assigned to your resource');
+    return undefined;
+  }
+  return job;
+}
+
+function findAccessibleSite(req: Request, res: Response): Site | undefined {
+  const site = getSiteById(req.params.id ?? '');
+  
+  if (!site || !canAccessSite(requireAuth(req), site)) {
+    sendNotFound(res, 'Site not found');
+    return undefined;
+  }
+  return site;
+}
+
+// ============================================
+// COMPANY ENDPOINTS
+// ============================================
+
+app.get('/api/company', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: requireCompany(req),
+  } satisfies ApiResponse<Company>);
+});
+
+app.patch('/api/company/settings', authorize('company:edit'), asyncRoute(async (req: Request, res: Response) => {
+  const company = requireCompany(req);
+  const { request, errors } = validateSettingsUpdate(req.body, company.settings);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid company settings', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  updateCompanySettings(company, request);
+  await repositories.companies.save(company);
+  
+  res.json({
+    success: true,
+    data: company,
+  } satisfies ApiResponse<Company>);
+}));
+
 // ============================================
 // RESOURCES ENDPOINTS
 // ============================================
 
 // Helper function to derive resource status from job assignments
-// Priority: in_progress (on_job) > assigned (en_route) > available
+// Priority: maintenance > in_progress (on_job) > assigned (en_route) > available
 // If a resource has multiple jobs, the highest priority status is returned
 function getResourceStatusFromJobs(resourceId: string): Resource['status'] {
-  const resourceJobs = getJobsByResource(resourceId);
+  // Resources flagged for the garage stay in maintenance regardless of jobs
+  if (getResourceById(resourceId)?.status === 'maintenance') {
+    return 'maintenance';
+  }
+  
+  // Released assignments no longer tie the resource to the job
+  const resourceJobs = getJobsByResource(resourceId).filter(job =>
+    job.assignedResources.some(a => a.resourceId === resourceId && a.status !== 'released')
+  );
   
   // Check if resource is assigned to any active job (in_progress takes priority)
   for (const job of resourceJobs) {
@@ -84,8 +405,9 @@ function getResourceStatusFromJobs(resourceId: string): Resource['status'] {
   return 'available';
 }
 
-app.get('/api/resources', (req: Request, res: Response) => {
-  let resources = [...allResources];
+app.get('/api/resources', authorize('resources:read'), (req: Request, res: Response) => {
+  const auth = requireAuth(req);
+  let resources = allResources.filter(r => canAccessResource(auth, r));
   
   // Filter by type
   const type = req.query.type as string | undefined;
@@ -93,8 +415,8 @@ app.get('/api/resources', (req: Request, res: Response) => {
     resources = resources.filter(r => r.type === type);
   }
   
-  // Add current positions from simulation and update status based on job assignments
-  const positions = getAllPositions();
+  // Add current positions (device or simulated) and update status based on job assignments
+  const positions = getCurrentPositions();
   resources = resources.map(r => ({
     ...r,
     currentPosition: positions.get(r.id) ?? r.currentPosition,
@@ -116,20 +438,13 @@ app.get('/api/resources', (req: Request, res: Response) => {
   } satisfies ApiResponse<Resource[]>);
 });
 
-app.get('/api/resources/:id', (req: Request, res: Response) => {
+app.get('/api/resources/:id', authorize('resources:read'), (req: Request, res: Response) => {
   const resourceId = req.params.id ?? '';
-  const resource = getResourceById(resourceId);
+  const resource = findAccessibleResource(req, res);
+  if (!resource) return;
   
-  if (!resource) {
-    res.status(404).json({
-      success: false,
-      error: { code: 'NOT_FOUND', message: 'Resource not found' },
-    } satisfies ApiResponse<never>);
-    return;
-  }
-  
-  // Add current position from simulation and update status based on job assignments
-  const position = getResourcePosition(resourceId);
+  // Add current position (device or simulated) and update status based on job assignments
+  const position = getCurrentPosition(resourceId);
   const resourceWithPosition = {
     ...resource,
     currentPosition: position ?? resource.currentPosition,
@@ -142,9 +457,11 @@ app.get('/api/resources/:id', (req: Request, res: Response) => {
   } satisfies ApiResponse<Resource>);
 });
 
-app.get('/api/resources/:id/position', (req: Request, res: Response) => {
+app.get('/api/resources/:id/position', authorize('resources:read'), (req: Request, res: Response) => {
   const resourceId = req.params.id ?? '';
-  const position = getResourcePosition(resourceId);
+  if (!findAccessibleResource(req, res)) return;
+  
+  const position = getCurrentPosition(resourceId);
   
   if (!position) {
     res.status(404).json({
@@ -160,12 +477,76 @@ app.get('/api/resources/:id/position', (req: Request, res: Response) => {
   } satisfies ApiResponse<GeoPosition>);
 });
 
-app.get('/api/resources/positions', (_req: Request, res: Response) => {
-  const positions = getAllPositions();
-  const positionsArray = Array.from(positions.entries()).map(([resourceId, position]) => ({
-    resourceId,
-    ...position,
-  }));
+// Default time window for track queries: the 12 hours before to
+const DEFAULT_TRACK_WINDOW_MS = 12 * 60 * 60 * 1000;
+const DEFAULT_TRACK_TOLERANCE = 5; // meters
+
+app.get('/api/resources/:id/track', authorize('resources:read'), asyncRoute(async (req: Request, res: Response) => {
+  const resourceId = req.params.id ?? '';
+  if (!findAccessibleResource(req, res)) return;
+  
+  const to = req.query.to ? new Date(req.query.to as string) : new Date();
+  const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - DEFAULT_TRACK_WINDOW_MS);
+  const tolerance = req.query.tolerance !== undefined ? Number(req.query.tolerance) : DEFAULT_TRACK_TOLERANCE;
+  
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'from and to must be valid dates with from before to' },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  if (!Number.isFinite(tolerance) || tolerance < 0) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'tolerance must be a non-negative number of meters' },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  // Device readings stored in the database give tracks of any window
+  const stored = await repositories.gpsReadings.findByResource(resourceId, from, to);
+  if (stored.length > 0) {
+    res.json({
+      success: true,
+      data: buildTrackFromPositions(resourceId, from, to, stored.map(r => r.position), tolerance),
+    } satisfies ApiResponse<ResourceTrack>);
+    return;
+  }
+  
+  // Otherwise tracks are built from the position history kept for the last 24 hours
+  const historyStart = getHistoryStart(resourceId);
+  if (to <= historyStart) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Track window ends before the kept position history',
+        details: { historyStart },
+      },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  res.json({
+    success: true,
+    data: buildTrack(resourceId, from, to, tolerance),
+  } satisfies ApiResponse<ResourceTrack>);
+}));
+
+app.get('/api/resources/positions', authorize('resources:read'), (req: Request, res: Response) => {
+  const auth = requireAuth(req);
+  const positions = getCurrentPositions();
+  const positionsArray = Array.from(positions.entries())
+    .filter(([resourceId]) => {
+      const resource = getResourceById(resourceId);
+      return resource !== undefined && canAccessResource(auth, resource);
+    })
+    .map(([resourceId, position]) => ({
+      resourceId,
+      ...position,
+    }));
   
   res.json({
     success: true,
@@ -173,12 +554,39 @@ app.get('/api/resources/positions', (_req: Request, res: Response) => {
   } satisfies ApiResponse<unknown>);
 });
 
+// ============================================
+// GPS ENDPOINTS
+// ============================================
+
+app.post('/api/gps/batch', authorize('gps:report'), asyncRoute(async (req: Request, res: Response) => {
+  const { batch, errors } = validateGpsBatch(req.body);
+  
+  if (!batch) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid GPS batch', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  if (!checkResourceAccess(req, res, batch.resourceId)) return;
+  
+  const { result, accepted } = ingestGpsBatch(batch);
+  await repositories.gpsReadings.append(accepted);
+  
+  res.json({
+    success: true,
+    data: result,
+  } satisfies ApiResponse<GpsBatchResult>);
+}));
+
 // ============================================
 // JOBS/WORKS ENDPOINTS
 // ============================================
 
-app.get('/api/jobs', (req: Request, res: Response) => {
-  let jobs = [...allJobs];
+app.get('/api/jobs', authorize('jobs:read'), (req: Request, res: Response) => {
+  const auth = requireAuth(req);
+  let jobs = allJobs.filter(j => canAccessJob(auth, j));
   
   // Filter by status
   const status = req.query.status as string | undefined;
@@ -198,101 +606,1324 @@ app.get('/api/jobs', (req: Request, res: Response) => {
     jobs = jobs.filter(j => j.assignedResources.some(r => r.resourceId === resourceId));
   }
   
+  // Filter by customer
+  const customerId = req.query.customerId as string | undefined;
+  if (customerId) {
+    jobs = jobs.filter(j => j.customerId === customerId);
+  }
+  
+  res.json({
+    success: true,
+    data: jobs,
+    meta: {
+      total: jobs.length,
+    },
+  } satisfies ApiResponse<Job[]>);
+});
+
+app.get('/api/jobs/:id', authorize('jobs:read'), (req: Request, res: Response) => {
+  const job = findAccessibleJob(req, res);
+  if (!job) return;
+  
+  res.json({
+    success: true,
+    data: job,
+  } satisfies ApiResponse<Job>);
+});
+
+app.post('/api/jobs', authorize('jobs:create'), asyncRoute(async (req: Request, res: Response) => {
+  const auth = requireAuth(req);
+  
+  const { request, errors } = validateCreateJob(req.body);
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid job', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  // Resources may be given as ids (CreateJobRequest) or as assignments
+  const { requests, errors: assignmentErrors } = validateInitialAssignments(req.body.assignedResources);
+  if (!requests) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid assigned resources', details: { errors: assignmentErrors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  // Jobs may only reference the company's own resources, sites, customers and work orders
+  const foreignResource = requests.find(r => !isCompanyResource(req, r.resourceId));
+  const { siteId } = request.location;
+  if (foreignResource || (siteId !== undefined && !isCompanySite(req, siteId))) {
+    sendNotFound(res, foreignResource ? `Resource ${foreignResource.resourceId} not found` : 'Site not found');
+    return;
+  }
+  if (request.customerId !== undefined && !isCompanyCustomer(req, request.customerId)) {
+    sendNotFound(res, 'Customer not found');
+    return;
+  }
+  const workOrder = request.workOrderId !== undefined ? getWorkOrderById(request.workOrderId) : undefined;
+  if (request.workOrderId !== undefined && (!workOrder || !isSameCompany(auth, workOrder))) {
+    sendNotFound(res, 'Work order not found');
+    return;
+  }
+  const workOrderErrors = workOrder ? checkWorkOrderFit(request, workOrder) : [];
+  if (workOrderErrors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid job', details: { errors: workOrderErrors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const { workOrderId: _workOrderId, ...fields } = request;
+  const newJob: Job = {
+    ...fields,
+    jobNumber: request.jobNumber ?? `JOB-${Date.now()}`,
+    id: `job-${uuidv4()}`,
+    companyId: auth.cid,
+    status: 'scheduled',
+    assignedResources: [],
+    statusHistory: [],
+    timeEntries: [],
+    photos: [],
+    deviations: [],
+    notes: [],
+    invoiceStatus: 'pending',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: auth.sub,
+    updatedBy: auth.sub,
+    version: 1,
+  };
+  
+  // Jobs created with resources start out assigned, if every resource can take the job
+  const outcome = assignInitialResources(newJob, requests, auth.sub);
+  if ('error' in outcome) {
+    res.status(outcome.error.code === 'NOT_FOUND' ? 404 : 409).json({
+      success: false,
+      error: outcome.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  allJobs.push(newJob);
+  await repositories.jobs.save(newJob);
+  await saveResources(requests.map(r => r.resourceId));
+  if (workOrder) {
+    workOrder.jobs.push(newJob.id);
+    workOrder.updatedAt = new Date();
+    workOrder.updatedBy = auth.sub;
+    await saveWorkOrder(workOrder);
+  }
+  
+  // Broadcast to WebSocket clients
+  broadcastEvent(jobScope(newJob), {
+    type: 'JOB_STATUS_CHANGE',
+    data: { jobId: newJob.id, status: newJob.status },
+  });
+  for (const { resourceId } of outcome.assignments) {
+    broadcastEvent(jobScope(newJob), {
+      type: 'NEW_JOB_ASSIGNED',
+      data: { jobId: newJob.id, resourceId },
+    });
+    broadcastEvent(resourceScope(newJob.companyId, resourceId), {
+      type: 'RESOURCE_STATUS_CHANGE',
+      data: { resourceId, status: getResourceStatusFromJobs(resourceId) },
+    });
+  }
+  
+  res.status(201).json({
+    success: true,
+    data: newJob,
+  } satisfies ApiResponse<Job>);
+}));
+
+app.patch('/api/jobs/:id/status', authorize('jobs:update_status'), asyncRoute(async (req: Request, res: Response) => {
+  const job = findAccessibleJob(req, res);
+  if (!job) return;
+  
+  const { request, errors } = validateStatusUpdate(req.body);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid status update', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  // Field users move their jobs along, but taking a job off the plan is left to the office
+  const auth = requireAuth(req);
+  if (isJobCancellation(job.status, request.status) && !hasPermission(auth.role, 'jobs:cancel')) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: `Role ${auth.role} does not have permission jobs:cancel`,
+        details: { role: auth.role, permission: 'jobs:cancel' },
+      },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  // Changes made on an outdated copy of the job are handed back to the client to resolve
+  const conflict = findConflict('job', job, job.id, request.baseVersion, { status: request.status });
+  if (conflict) {
+    res.status(409).json({
+      success: false,
+      error: conflictError(conflict),
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  // The change is recorded as made by the authenticated user
+  const outcome = transitionJob(job, { ...request, changedBy: auth.sub });
+  
+  if ('error' in outcome) {
+    res.status(outcome.error.code === 'VALIDATION_ERROR' ? 400 : 409).json({
+      success: false,
+      error: outcome.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  if (outcome.transition) {
+    // Completed jobs get a draft invoice; without a rate card it is left for later
+    if (job.status === 'completed' && job.invoiceStatus === 'pending') {
+      draftInvoice(job, requireCompany(req));
+    }
+    
+    await repositories.jobs.save(job);
+    await saveResources(outcome.releasedResourceIds);
+    
+    // Broadcast to WebSocket clients
+    broadcastEvent(jobScope(job), {
+      type: 'JOB_STATUS_CHANGE',
+      data: { jobId: job.id, status: job.status },
+    });
+    
+    for (const resourceId of outcome.releasedResourceIds) {
+      broadcastEvent(resourceScope(job.companyId, resourceId), {
+        type: 'RESOURCE_STATUS_CHANGE',
+        data: { resourceId, status: getResourceStatusFromJobs(resourceId) },
+      });
+    }
+  }
+  
+  res.json({
+    success: true,
+    data: job,
+  } satisfies ApiResponse<Job>);
+}));
+
+// Resource assignments
+app.post('/api/jobs/:id/assignments', authorize('jobs:assign'), asyncRoute(async (req: Request, res: Response) => {
+  const job = findAccessibleJob(req, res);
+  if (!job) return;
+  
+  const { request, errors } = validateAssignment(req.body);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid assignment', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const auth = requireAuth(req);
+  const resource = getResourceById(request.resourceId);
+  if (resource && !isSameCompany(auth, resource)) {
+    sendNotFound(res, 'Resource not found');
+    return;
+  }
+  
+  const previousStatus = job.status;
+  const outcome = assignResource(job, { ...request, assignedBy: auth.sub });
+  
+  if ('error' in outcome) {
+    res.status(outcome.error.code === 'NOT_FOUND' ? 404 : 409).json({
+      success: false,
+      error: outcome.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  if (outcome.created) {
+    await repositories.jobs.save(job);
+    await saveResources([request.resourceId]);
+    
+    broadcastEvent(jobScope(job), {
+      type: 'NEW_JOB_ASSIGNED',
+      data: { jobId: job.id, resourceId: request.resourceId },
+    });
+    broadcastEvent(resourceScope(job.companyId, request.resourceId), {
+      type: 'RESOURCE_STATUS_CHANGE',
+      data: { resourceId: request.resourceId, status: getResourceStatusFromJobs(request.resourceId) },
+    });
+    if (job.status !== previousStatus) {
+      broadcastEvent(jobScope(job), {
+        type: 'JOB_STATUS_CHANGE',
+        data: { jobId: job.id, status: job.status },
+      });
+    }
+  }
+  
+  res.status(outcome.created ? 201 : 200).json({
+    success: true,
+    data: outcome.result,
+  } satisfies ApiResponse<JobAssignmentResult>);
+}));
+
+app.delete('/api/jobs/:id/assignments/:resourceId', authorize('jobs:assign'), asyncRoute(async (req: Request, res: Response) => {
+  const job = findAccessibleJob(req, res);
+  if (!job) return;
+  
+  const resourceId = req.params.resourceId ?? '';
+  const previousStatus = job.status;
+  const outcome = releaseResource(job, resourceId, requireAuth(req).sub);
+  
+  if ('error' in outcome) {
+    res.status(404).json({
+      success: false,
+      error: outcome.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  await repositories.jobs.save(job);
+  await saveResources([resourceId]);
+  
+  broadcastEvent(resourceScope(job.companyId, resourceId), {
+    type: 'RESOURCE_STATUS_CHANGE',
+    data: { resourceId, status: getResourceStatusFromJobs(resourceId) },
+  });
+  if (job.status !== previousStatus) {
+    broadcastEvent(jobScope(job), {
+      type: 'JOB_STATUS_CHANGE',
+      data: { jobId: job.id, status: job.status },
+    });
+  }
+  
+  res.json({
+    success: true,
+    data: outcome.result,
+  } satisfies ApiResponse<JobAssignmentResult>);
+}));
+
+// Material loads reported from the field app
+app.post('/api/jobs/:id/material-loads', authorize('jobs:report'), asyncRoute(async (req: Request, res: Response) => {
+  const job = findAccessibleJob(req, res);
+  if (!job) return;
+  
+  const { request, errors } = validateMaterialLoad(req.body);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid material load', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const foreignSite = [request.sourceId, request.destinationId].find(id => id !== undefined && !isCompanySite(req, id));
+  if (foreignSite) {
+    sendNotFound(res, 'Site not found');
+    return;
+  }
+  
+  const outcome = recordMaterialLoad(job, request);
+  
+  if ('error' in outcome) {
+    const status = outcome.error.code === 'NOT_FOUND' ? 404 : outcome.error.code === 'INSUFFICIENT_STOCK' ? 409 : 400;
+    res.status(status).json({
+      success: false,
+      error: outcome.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  if (!outcome.duplicate) {
+    await repositories.jobs.save(job);
+    await repositories.materialTransactions.append(outcome.result.transactions);
+    await repositories.materialLoads.save(toStoredMaterialLoad(job, outcome.result));
+    await saveSites(outcome.result.transactions.map(t => t.siteId));
+  }
+  
+  // Replayed syncs get the original result
+  res.status(outcome.duplicate ? 200 : 201).json({
+    success: true,
+    data: outcome.result,
+  } satisfies ApiResponse<MaterialLoadResult>);
+}));
+
+// Time entries, photos, deviations and notes
+for (const key of JOB_SUB_RESOURCE_KEYS) {
+  const { path, name, reporterField } = JOB_SUB_RESOURCES[key];
+
+  app.get(`/api/jobs/:id/${path}`, authorize('jobs:read'), (req: Request, res: Response) => {
+    const job = findAccessibleJob(req, res);
+    if (!job) return;
+    
+    const items = listSubResources(job, key);
+    res.json({
+      success: true,
+      data: items,
+      meta: { total: items.length },
+    } satisfies ApiResponse<JobSubResourceTypes[JobSubResourceKey][]>);
+  });
+
+  app.get(`/api/jobs/:id/${path}/:itemId`, authorize('jobs:read'), (req: Request, res: Response) => {
+    const job = findAccessibleJob(req, res);
+    if (!job) return;
+    
+    const item = getSubResource(job, key, req.params.itemId ?? '');
+    
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: `${name} not found` },
+      } satisfies ApiResponse<never>);
+      return;
+    }
+    
+    res.json({
+      success: true,
+      data: item,
+    } satisfies ApiResponse<JobSubResourceTypes[JobSubResourceKey]>);
+  });
+
+  app.post(`/api/jobs/:id/${path}`, authorize('jobs:report'), asyncRoute(async (req: Request, res: Response) => {
+    const job = findAccessibleJob(req, res);
+    if (!job) return;
+    if (!checkReporter(req, res, req.body?.[reporterField])) return;
+    
+    // Photo image data is stored, thumbnailed and read for EXIF before the photo is created
+    const prepared: PreparedPhoto = key === 'photos'
+      ? await preparePhoto(job, req.body, requireAuth(req).sub)
+      : { body: req.body, errors: [] };
+    const { item, created, errors } = prepared.errors.length > 0
+      ? { item: undefined, created: false, errors: prepared.errors }
+      : createSubResource(job, key, prepared.body);
+    
+    if (!item) {
+      // The image was stored before the rest of the photo was validated
+      if (prepared.storedPhotoId) {
+        await deletePhotoFiles(job, prepared.storedPhotoId);
+      }
+      res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `Invalid ${name.toLowerCase()}`, details: { errors } },
+      } satisfies ApiResponse<never>);
+      return;
+    }
+    
+    if (created) {
+      await repositories.jobs.save(job);
+    }
+    
+    if (created && prepared.uploadId) {
+      await discardUpload(prepared.uploadId);
+      await repositories.uploads.delete(prepared.uploadId);
+    }
+    
+    if (created && key === 'deviations') {
+      broadcastEvent(jobScope(job), {
+        type: 'DEVIATION_REPORTED',
+        data: { jobId: job.id, deviationId: item.id },
+      });
+    }
+    
+    // Replayed syncs get the original item
+    res.status(created ? 201 : 200).json({
+      success: true,
+      data: item,
+    } satisfies ApiResponse<JobSubResourceTypes[JobSubResourceKey]>);
+  }));
+
+  app.patch(`/api/jobs/:id/${path}/:itemId`, authorize('jobs:report'), asyncRoute(async (req: Request, res: Response) => {
+    const job = findAccessibleJob(req, res);
+    if (!job) return;
+    const existing = getSubResource(job, key, req.params.itemId ?? '');
+    if (existing && !checkReportOwner(req, res, getReporter(key, existing))) return;
+    
+    const auth = requireAuth(req);
+    let body = req.body;
+    const entry = key === 'timeEntries' ? job.timeEntries.find(e => e.id === req.params.itemId) : undefined;
+    
+    // Approving time entries is reserved for supervisors, and recorded as the approving user
+    if (key === 'timeEntries' && req.body?.approved !== undefined) {
+      if (!hasPermission(auth.role, 'time_entries:approve')) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: `Role ${auth.role} does not have permission time_entries:approve`,
+            details: { role: auth.role, permission: 'time_entries:approve' },
+          },
+        } satisfies ApiResponse<never>);
+        return;
+      }
+      const ownEntry = entry && ownTimeEntryError(entry, auth.sub, req.body);
+      if (ownEntry) {
+        res.status(403).json({
+          success: false,
+          error: ownEntry,
+        } satisfies ApiResponse<never>);
+        return;
+      }
+      body = { ...req.body, approvedBy: auth.sub };
+    }
+    
+    // Resolving a deviation is recorded as the resolving user
+    if (key === 'deviations' && req.body?.resolved === true) {
+      body = { ...req.body, resolvedBy: auth.sub };
+    }
+    
+    const lock = entry && typeof body === 'object' && body !== null ? timeEntryLock(job, entry, body) : undefined;
+    if (lock) {
+      res.status(409).json({
+        success: false,
+        error: lock,
+      } satisfies ApiResponse<never>);
+      return;
+    }
+    
+    const { item, conflict, errors } = updateSubResource(job, key, req.params.itemId ?? '', body);
+    
+    if (conflict) {
+      res.status(409).json({
+        success: false,
+        error: conflictError(conflict),
+      } satisfies ApiResponse<never>);
+      return;
+    }
+    
+    if (!item) {
+      const notFound = errors.length === 0;
+      res.status(notFound ? 404 : 400).json({
+        success: false,
+        error: notFound
+          ? { code: 'NOT_FOUND', message: `${name} not found` }
+          : { code: 'VALIDATION_ERROR', message: `Invalid ${name.toLowerCase()}`, details: { errors } },
+      } satisfies ApiResponse<never>);
+      return;
+    }
+    
+    if (key === 'timeEntries' && req.body?.approved !== undefined) {
+      refreshDraftInvoice(job, requireCompany(req));
+    }
+    await repositories.jobs.save(job);
+    
+    res.json({
+      success: true,
+      data: item,
+    } satisfies ApiResponse<JobSubResourceTypes[JobSubResourceKey]>);
+  }));
+
+  app.delete(`/api/jobs/:id/${path}/:itemId`, authorize('jobs:report'), asyncRoute(async (req: Request, res: Response) => {
+    const job = findAccessibleJob(req, res);
+    if (!job) return;
+    const existing = getSubResource(job, key, req.params.itemId ?? '');
+    if (existing && !checkReportOwner(req, res, getReporter(key, existing))) return;
+    
+    const entry = key === 'timeEntries' ? job.timeEntries.find(e => e.id === req.params.itemId) : undefined;
+    const lock = entry ? timeEntryLock(job, entry) : undefined;
+    if (lock) {
+      res.status(409).json({
+        success: false,
+        error: lock,
+      } satisfies ApiResponse<never>);
+      return;
+    }
+    
+    const removed = deleteSubResource(job, key, req.params.itemId ?? '');
+    
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: `${name} not found` },
+      } satisfies ApiResponse<never>);
+      return;
+    }
+    
+    await repositories.jobs.save(job);
+    if (key === 'photos') {
+      await deletePhotoFiles(job, removed.id);
+    }
+    
+    res.json({
+      success: true,
+      data: removed,
+    } satisfies ApiResponse<JobSubResourceTypes[JobSubResourceKey]>);
+  }));
+}
+
+// Image data and thumbnails of photos uploaded from the field app
+for (const variant of ['content', 'thumbnail'] as const) {
+  app.get(`/api/jobs/:id/photos/:photoId/${variant}`, authorize('jobs:read'), asyncRoute(async (req: Request, res: Response) => {
+    const job = findAccessibleJob(req, res);
+    if (!job) return;
+    
+    const photo = job.photos.find(p => p.id === req.params.photoId);
+    const data = photo
+      ? await (variant === 'content' ? readPhotoOriginal(job, photo.id) : readPhotoThumbnail(job, photo.id))
+      : undefined;
+    
+    if (!photo || !data) {
+      res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Photo content not found' },
+      } satisfies ApiResponse<never>);
+      return;
+    }
+    
+    // Stored photos never change, so they can be cached for good
+    res.set('Cache-Control', 'private, max-age=31536000, immutable');
+    res.type(variant === 'content' ? photo.mimeType : 'image/jpeg').send(data);
+  }));
+}
+
+// ============================================
+// UPLOADS ENDPOINTS
+// ============================================
+
+app.post('/api/uploads', authorize('jobs:report'), asyncRoute(async (req: Request, res: Response) => {
+  const { request, errors } = validateUploadRequest(req.body);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid upload', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const userId = requireAuth(req).sub;
+  const upload = await createUpload(request, userId);
+  // Expired uploads were just dropped from memory and the blob store
+  await repositories.uploads.deleteExpired(new Date());
+  await repositories.uploads.save({ ...upload, userId });
+  
+  res.status(201).json({
+    success: true,
+    data: upload,
+  } satisfies ApiResponse<UploadSession>);
+}));
+
+// Where a resuming client should continue
+app.get('/api/uploads/:id', authorize('jobs:report'), (req: Request, res: Response) => {
+  const upload = getUpload(req.params.id ?? '', requireAuth(req).sub);
+  
+  if (!upload) {
+    res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Upload not found' },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  res.json({
+    success: true,
+    data: upload,
+  } satisfies ApiResponse<UploadSession>);
+});
+
+// Append a chunk; ?offset= must be the upload's current offset
+app.put(
+  '/api/uploads/:id',
+  authorize('jobs:report'),
+  express.raw({ type: 'application/octet-stream', limit: MAX_CHUNK_SIZE }),
+  asyncRoute(async (req: Request, res: Response) => {
+    const offset = Number(req.query.offset);
+    const chunk = Buffer.isBuffer(req.body) ? req.body : undefined;
+    
+    if (!Number.isInteger(offset) || offset < 0 || !chunk) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid chunk',
+          details: { errors: ['offset must be a non-negative integer and the body application/octet-stream'] },
+        },
+      } satisfies ApiResponse<never>);
+      return;
+    }
+    
+    const userId = requireAuth(req).sub;
+    const { session, expectedOffset, errors } = await appendChunk(req.params.id ?? '', userId, offset, chunk);
+    
+    if (expectedOffset !== undefined) {
+      res.status(409).json({
+        success: false,
+        error: {
+          code: 'UPLOAD_OFFSET_MISMATCH',
+          message: `Upload continues at offset ${expectedOffset}`,
+          details: { offset: expectedOffset },
+        },
+      } satisfies ApiResponse<never>);
+      return;
+    }
+    
+    if (!session) {
+      const notFound = errors.length === 0;
+      res.status(notFound ? 404 : 400).json({
+        success: false,
+        error: notFound
+          ? { code: 'NOT_FOUND', message: 'Upload not found' }
+          : { code: 'VALIDATION_ERROR', message: 'Invalid chunk', details: { errors } },
+      } satisfies ApiResponse<never>);
+      return;
+    }
+    
+    await repositories.uploads.save({ ...session, userId });
+    
+    res.json({
+      success: true,
+      data: session,
+    } satisfies ApiResponse<UploadSession>);
+  })
+);
+
+app.delete('/api/uploads/:id', authorize('jobs:report'), asyncRoute(async (req: Request, res: Response) => {
+  const upload = getUpload(req.params.id ?? '', requireAuth(req).sub);
+  
+  if (!upload) {
+    res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Upload not found' },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  await discardUpload(upload.id);
+  await repositories.uploads.delete(upload.id);
+  res.json({
+    success: true,
+    data: upload,
+  } satisfies ApiResponse<UploadSession>);
+}));
+
+// ============================================
+// INVOICING ENDPOINTS
+// ============================================
+
+function toJobInvoice(job: Job): JobInvoice {
+  return { jobId: job.id, status: job.invoiceStatus, invoice: job.invoiceData };
+}
+
+app.get('/api/jobs/:id/invoice', authorize('invoices:manage'), (req: Request, res: Response) => {
+  const job = findAccessibleJob(req, res);
+  if (!job) return;
+  
+  res.json({
+    success: true,
+    data: toJobInvoice(job),
+  } satisfies ApiResponse<JobInvoice>);
+});
+
+// Generated invoices as a printable PDF and as a PEPPOL BIS Billing 3.0 e-invoice
+app.get('/api/jobs/:id/invoice.pdf', authorize('invoices:manage'), asyncRoute(async (req: Request, res: Response) => {
+  const job = findAccessibleJob(req, res);
+  if (!job) return;
+  
+  const prepared = prepareInvoiceDocument(job, requireCompany(req));
+  if ('error' in prepared) {
+    res.status(409).json({
+      success: false,
+      error: prepared.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const pdf = await renderInvoicePdf(prepared.document);
+  res.type('application/pdf')
+    .set('Content-Disposition', `inline; filename="faktura-${prepared.document.invoice.invoiceNumber}.pdf"`)
+    .send(pdf);
+}));
+
+app.get('/api/jobs/:id/invoice.xml', authorize('invoices:manage'), (req: Request, res: Response) => {
+  const job = findAccessibleJob(req, res);
+  if (!job) return;
+  
+  const prepared = prepareInvoiceDocument(job, requireCompany(req));
+  if ('error' in prepared) {
+    res.status(409).json({
+      success: false,
+      error: prepared.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const rendered = renderInvoiceUbl(prepared.document);
+  if ('error' in rendered) {
+    res.status(409).json({
+      success: false,
+      error: rendered.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  res.type('application/xml')
+    .set('Content-Disposition', `attachment; filename="faktura-${prepared.document.invoice.invoiceNumber}.xml"`)
+    .send(rendered.xml);
+});
+
+// Preview of the invoice from the job's current data, without saving it
+app.get('/api/jobs/:id/invoice/preview', authorize('invoices:manage'), (req: Request, res: Response) => {
+  const job = findAccessibleJob(req, res);
+  if (!job) return;
+  
+  const built = buildInvoice(job, requireCompany(req));
+  if ('error' in built) {
+    res.status(409).json({
+      success: false,
+      error: built.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  res.json({
+    success: true,
+    data: { jobId: job.id, status: job.invoiceStatus, invoice: built.invoice },
+  } satisfies ApiResponse<JobInvoice>);
+});
+
+// Rebuild the draft, e.g. after time entries were approved or rates changed
+app.post('/api/jobs/:id/invoice', authorize('invoices:manage'), asyncRoute(async (req: Request, res: Response) => {
+  const job = findAccessibleJob(req, res);
+  if (!job) return;
+  
+  const outcome = draftInvoice(job, requireCompany(req));
+  if ('error' in outcome) {
+    res.status(409).json({
+      success: false,
+      error: outcome.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  await repositories.jobs.save(job);
+  res.json({
+    success: true,
+    data: toJobInvoice(job),
+  } satisfies ApiResponse<JobInvoice>);
+}));
+
+app.patch('/api/jobs/:id/invoice/status', authorize('invoices:manage'), asyncRoute(async (req: Request, res: Response) => {
+  const job = findAccessibleJob(req, res);
+  if (!job) return;
+  
+  const { request, errors } = validateInvoiceStatusUpdate(req.body);
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid invoice status update', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const outcome = transitionInvoice(job, request, requireCompany(req));
+  if ('error' in outcome) {
+    res.status(409).json({
+      success: false,
+      error: outcome.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  await repositories.jobs.save(job);
+  res.json({
+    success: true,
+    data: toJobInvoice(job),
+  } satisfies ApiResponse<JobInvoice>);
+}));
+
+// Rate cards
+function findCompanyRateCard(req: Request, res: Response): RateCard | undefined {
+  const card = getRateCardById(req.params.id ?? '');
+  
+  if (!card || !isSameCompany(requireAuth(req), card)) {
+    sendNotFound(res, 'Rate card not found');
+    return undefined;
+  }
+  return card;
+}
+
+app.get('/api/rate-cards', authorize('invoices:manage'), (req: Request, res: Response) => {
+  const { customerId, contractType } = req.query;
+  let cards = getRateCardsByCompany(requireCompany(req).id);
+  
+  if (customerId) {
+    cards = cards.filter(r => r.customerId === customerId);
+  }
+  if (contractType) {
+    cards = cards.filter(r => r.contractType === contractType);
+  }
+  
+  res.json({
+    success: true,
+    data: cards,
+    meta: { total: cards.length },
+  } satisfies ApiResponse<RateCard[]>);
+});
+
+app.get('/api/rate-cards/:id', authorize('invoices:manage'), (req: Request, res: Response) => {
+  const card = findCompanyRateCard(req, res);
+  if (!card) return;
+  
+  res.json({
+    success: true,
+    data: card,
+  } satisfies ApiResponse<RateCard>);
+});
+
+app.post('/api/rate-cards', authorize('company:edit'), asyncRoute(async (req: Request, res: Response) => {
+  const auth = requireAuth(req);
+  const companyId = requireCompany(req).id;
+  const { request, errors } = validateRateCard(req.body, companyId);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid rate card', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const now = new Date();
+  const card: RateCard = {
+    id: `rate-${uuidv4()}`,
+    companyId,
+    ...request,
+    createdAt: now,
+    updatedAt: now,
+    createdBy: auth.sub,
+    updatedBy: auth.sub,
+  };
+  allRateCards.push(card);
+  await repositories.rateCards.save(card);
+  
+  res.status(201).json({
+    success: true,
+    data: card,
+  } satisfies ApiResponse<RateCard>);
+}));
+
+app.patch('/api/rate-cards/:id', authorize('company:edit'), asyncRoute(async (req: Request, res: Response) => {
+  const card = findCompanyRateCard(req, res);
+  if (!card) return;
+  
+  const auth = requireAuth(req);
+  const { request, errors } = validateRateCard(req.body, card.companyId, card);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid rate card', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  // Invoices already built keep the prices they were built with
+  Object.assign(card, request, { updatedAt: new Date(), updatedBy: auth.sub });
+  await repositories.rateCards.save(card);
+  
+  res.json({
+    success: true,
+    data: card,
+  } satisfies ApiResponse<RateCard>);
+}));
+
+app.delete('/api/rate-cards/:id', authorize('company:edit'), asyncRoute(async (req: Request, res: Response) => {
+  const card = findCompanyRateCard(req, res);
+  if (!card) return;
+  
+  deleteRateCard(card.id);
+  await repositories.rateCards.delete(card.id);
+  
+  res.json({
+    success: true,
+    data: card,
+  } satisfies ApiResponse<RateCard>);
+}));
+
+// ============================================
+// CUSTOMERS & WORK ORDERS ENDPOINTS
+// ============================================
+
+function findCompanyCustomer(req: Request, res: Response): Customer | undefined {
+  const customer = getCustomerById(req.params.id ?? '');
+  
+  if (!customer || !isSameCompany(requireAuth(req), customer)) {
+    sendNotFound(res, 'Customer not found');
+    return undefined;
+  }
+  return customer;
+}
+
+app.get('/api/customers', authorize('invoices:manage'), (req: Request, res: Response) => {
+  let customers = getCustomersByCompany(requireCompany(req).id);
+  
+  // Inactive customers are left out unless asked for
+  if (req.query.includeInactive !== 'true') {
+    customers = customers.filter(c => c.isActive);
+  }
+  const search = typeof req.query.search === 'string' ? req.query.search.toLowerCase() : undefined;
+  if (search) {
+    customers = customers.filter(c =>
+      c.name.toLowerCase().includes(search) ||
+      c.customerNumber.toLowerCase().includes(search) ||
+      c.organizationNumber?.includes(search)
+    );
+  }
+  
+  res.json({
+    success: true,
+    data: customers,
+    meta: { total: customers.length },
+  } satisfies ApiResponse<Customer[]>);
+});
+
+app.get('/api/customers/:id', authorize('invoices:manage'), (req: Request, res: Response) => {
+  const customer = findCompanyCustomer(req, res);
+  if (!customer) return;
+  
+  res.json({
+    success: true,
+    data: customer,
+  } satisfies ApiResponse<Customer>);
+});
+
+// The customer's price agreements
+app.get('/api/customers/:id/rate-cards', authorize('invoices:manage'), (req: Request, res: Response) => {
+  const customer = findCompanyCustomer(req, res);
+  if (!customer) return;
+  
+  const cards = getRateCardsByCompany(customer.companyId).filter(r => r.customerId === customer.id);
+  res.json({
+    success: true,
+    data: cards,
+    meta: { total: cards.length },
+  } satisfies ApiResponse<RateCard[]>);
+});
+
+app.post('/api/customers', authorize('invoices:manage'), asyncRoute(async (req: Request, res: Response) => {
+  const auth = requireAuth(req);
+  const companyId = requireCompany(req).id;
+  const { request, errors } = validateCustomer(req.body, companyId);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid customer', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const now = new Date();
+  const customer: Customer = {
+    id: `customer-${uuidv4()}`,
+    companyId,
+    ...request,
+    customerNumber: request.customerNumber ?? nextCustomerNumber(companyId),
+    createdAt: now,
+    updatedAt: now,
+    createdBy: auth.sub,
+    updatedBy: auth.sub,
+  };
+  allCustomers.push(customer);
+  await repositories.customers.save(customer);
+  
+  res.status(201).json({
+    success: true,
+    data: customer,
+  } satisfies ApiResponse<Customer>);
+}));
+
+app.patch('/api/customers/:id', authorize('invoices:manage'), asyncRoute(async (req: Request, res: Response) => {
+  const customer = findCompanyCustomer(req, res);
+  if (!customer) return;
+  
+  const auth = requireAuth(req);
+  const { request, errors } = validateCustomer(req.body, customer.companyId, customer);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid customer', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  Object.assign(customer, request, {
+    customerNumber: request.customerNumber ?? customer.customerNumber,
+    updatedAt: new Date(),
+    updatedBy: auth.sub,
+  });
+  await repositories.customers.save(customer);
+  
+  res.json({
+    success: true,
+    data: customer,
+  } satisfies ApiResponse<Customer>);
+}));
+
+app.delete('/api/customers/:id', authorize('invoices:manage'), asyncRoute(async (req: Request, res: Response) => {
+  const customer = findCompanyCustomer(req, res);
+  if (!customer) return;
+  
+  const references = customerReferences(customer);
+  if (references.workOrders + references.jobs + references.rateCards > 0) {
+    res.status(409).json({
+      success: false,
+      error: {
+        code: 'CUSTOMER_IN_USE',
+        message: 'The customer has work orders, jobs or rate cards; deactivate it instead',
+        details: references,
+      },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  deleteCustomer(customer.id);
+  await repositories.customers.delete(customer.id);
+  
+  res.json({
+    success: true,
+    data: customer,
+  } satisfies ApiResponse<Customer>);
+}));
+
+// Work orders
+function findCompanyWorkOrder(req: Request, res: Response): WorkOrder | undefined {
+  const workOrder = getWorkOrderById(req.params.id ?? '');
+  
+  if (!workOrder || !isSameCompany(requireAuth(req), workOrder)) {
+    sendNotFound(res, 'Work order not found');
+    return undefined;
+  }
+  return workOrder;
+}
+
+async function saveWorkOrder(workOrder: WorkOrder): Promise<void> {
+  await repositories.workOrders.save(workOrder);
+  for (const job of linkJobs(workOrder)) {
+    await repositories.jobs.save(job);
+  }
+}
+
+app.get('/api/work-orders', authorize('invoices:manage'), (req: Request, res: Response) => {
+  const { customerId, status, contractType } = req.query;
+  let workOrders = getWorkOrdersByCompany(requireCompany(req).id);
+  
+  if (customerId) {
+    workOrders = workOrders.filter(w => w.customerId === customerId);
+  }
+  if (status) {
+    workOrders = workOrders.filter(w => w.status === status);
+  }
+  if (contractType) {
+    workOrders = workOrders.filter(w => w.contractType === contractType);
+  }
+  
+  res.json({
+    success: true,
+    data: workOrders,
+    meta: { total: workOrders.length },
+  } satisfies ApiResponse<WorkOrder[]>);
+});
+
+app.get('/api/work-orders/:id', authorize('invoices:manage'), (req: Request, res: Response) => {
+  const workOrder = findCompanyWorkOrder(req, res);
+  if (!workOrder) return;
+  
+  res.json({
+    success: true,
+    data: workOrder,
+  } satisfies ApiResponse<WorkOrder>);
+});
+
+// The order's jobs with their hours and invoiced amounts
+app.get('/api/work-orders/:id/summary', authorize('invoices:manage'), (req: Request, res: Response) => {
+  const workOrder = findCompanyWorkOrder(req, res);
+  if (!workOrder) return;
+  
+  res.json({
+    success: true,
+    data: summarizeWorkOrder(workOrder, requireCompany(req)),
+  } satisfies ApiResponse<WorkOrderSummary>);
+});
+
+app.post('/api/work-orders', authorize('invoices:manage'), asyncRoute(async (req: Request, res: Response) => {
+  const auth = requireAuth(req);
+  const companyId = requireCompany(req).id;
+  const { request, errors } = validateWorkOrder(req.body, companyId);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid work order', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const now = new Date();
+  const workOrder: WorkOrder = {
+    id: `wo-${uuidv4()}`,
+    companyId,
+    ...request,
+    orderNumber: request.orderNumber ?? nextOrderNumber(companyId, now),
+    createdAt: now,
+    updatedAt: now,
+    createdBy: auth.sub,
+    updatedBy: auth.sub,
+  };
+  allWorkOrders.push(workOrder);
+  await saveWorkOrder(workOrder);
+  
+  res.status(201).json({
+    success: true,
+    data: workOrder,
+  } satisfies ApiResponse<WorkOrder>);
+}));
+
+app.patch('/api/work-orders/:id', authorize('invoices:manage'), asyncRoute(async (req: Request, res: Response) => {
+  const workOrder = findCompanyWorkOrder(req, res);
+  if (!workOrder) return;
+  
+  const auth = requireAuth(req);
+  const { request, errors } = validateWorkOrder(req.body, workOrder.companyId, workOrder);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid work order', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  // Draft invoices pick up a changed contract type or customer when they are rebuilt
+  Object.assign(workOrder, request, {
+    orderNumber: request.orderNumber ?? workOrder.orderNumber,
+    updatedAt: new Date(),
+    updatedBy: auth.sub,
+  });
+  await saveWorkOrder(workOrder);
+  
+  res.json({
+    success: true,
+    data: workOrder,
+  } satisfies ApiResponse<WorkOrder>);
+}));
+
+app.delete('/api/work-orders/:id', authorize('invoices:manage'), asyncRoute(async (req: Request, res: Response) => {
+  const workOrder = findCompanyWorkOrder(req, res);
+  if (!workOrder) return;
+  
+  // Generated invoices refer to the order by its number
+  const invoiced = workOrder.jobs.filter(jobId => getJobById(jobId)?.invoiceData?.invoiceNumber !== undefined);
+  if (invoiced.length > 0) {
+    res.status(409).json({
+      success: false,
+      error: {
+        code: 'WORK_ORDER_INVOICED',
+        message: 'Work orders with invoiced jobs cannot be deleted',
+        details: { jobIds: invoiced },
+      },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  deleteWorkOrder(workOrder.id);
+  await repositories.workOrders.delete(workOrder.id);
+  
   res.json({
     success: true,
-    data: jobs,
-    meta: {
-      total: jobs.length,
-    },
-  } satisfies ApiResponse<Job[]>);
-});
+    data: workOrder,
+  } satisfies ApiResponse<WorkOrder>);
+}));
 
-app.get('/api/jobs/:id', (req: Request, res: Response) => {
-  const jobId = req.params.id ?? '';
-  const job = getJobById(jobId);
+// ============================================
+// TIME APPROVAL & PAYROLL ENDPOINTS
+// ============================================
+
+const WEEK_PATTERN = /^\d{4}-W\d{2}$/;
+
+// Unapproved time entries per operator and week, with anomalies; ?week=2025-W03&operatorId=
+app.get('/api/time-entries/approvals', authorize('time_entries:approve'), (req: Request, res: Response) => {
+  const { week, operatorId } = req.query;
   
-  if (!job) {
-    res.status(404).json({
+  if (week !== undefined && (typeof week !== 'string' || !WEEK_PATTERN.test(week))) {
+    res.status(400).json({
       success: false,
-      error: { code: 'NOT_FOUND', message: 'Job not found' },
+      error: { code: 'VALIDATION_ERROR', message: 'week must be an ISO week, e.g. 2025-W03' },
     } satisfies ApiResponse<never>);
     return;
   }
   
+  const groups = getApprovalQueue(requireCompany(req), {
+    week: week as string | undefined,
+    operatorId: typeof operatorId === 'string' ? operatorId : undefined,
+  });
   res.json({
     success: true,
-    data: job,
-  } satisfies ApiResponse<Job>);
+    data: groups,
+    meta: { total: groups.length },
+  } satisfies ApiResponse<TimeApprovalGroup[]>);
 });
 
-app.post('/api/jobs', (req: Request, res: Response) => {
-  const newJob: Job = {
-    id: `job-${uuidv4()}`,
-    companyId: DEMO_COMPANY.id,
-    jobNumber: `JOB-${Date.now()}`,
-    ...req.body,
-    status: 'scheduled',
-    timeEntries: [],
-    photos: [],
-    deviations: [],
-    notes: [],
-    invoiceStatus: 'pending',
-    createdAt: new Date(),
-    updatedAt: new Date(),
-    createdBy: 'api',
-    updatedBy: 'api',
-  };
+// Approve or reject several entries at once; rejections carry a comment for the operator
+app.post('/api/time-entries/review', authorize('time_entries:approve'), asyncRoute(async (req: Request, res: Response) => {
+  const { request, errors } = validateReview(req.body);
   
-  allJobs.push(newJob);
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid review', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
   
-  // Broadcast to WebSocket clients
-  broadcastEvent({
-    type: 'JOB_STATUS_CHANGE',
-    data: { jobId: newJob.id, status: 'scheduled' },
-  });
+  const { result, jobs } = reviewTimeEntries(request, requireCompany(req), requireAuth(req).sub);
+  for (const job of jobs) {
+    await repositories.jobs.save(job);
+  }
   
-  res.status(201).json({
+  res.json({
     success: true,
-    data: newJob,
-  } satisfies ApiResponse<Job>);
-});
+    data: result,
+  } satisfies ApiResponse<ReviewTimeEntriesResult>);
+}));
 
-app.patch('/api/jobs/:id/status', (req: Request, res: Response) => {
-  const jobId = req.params.id ?? '';
-  const job = getJobById(jobId);
+// Approved hours for payroll; ?from=2025-01-01&to=2025-01-31
+app.get('/api/payroll', authorize('payroll:read'), (req: Request, res: Response) => {
+  const { period, errors } = validatePayrollPeriod(req.query);
   
-  if (!job) {
-    res.status(404).json({
+  if (!period) {
+    res.status(400).json({
       success: false,
-      error: { code: 'NOT_FOUND', message: 'Job not found' },
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid payroll period', details: { errors } },
     } satisfies ApiResponse<never>);
     return;
   }
   
-  const { status } = req.body;
-  if (status) {
-    job.status = status;
-    job.updatedAt = new Date();
-    
-    // Broadcast to WebSocket clients
-    broadcastEvent({
-      type: 'JOB_STATUS_CHANGE',
-      data: { jobId: job.id, status },
-    });
-  }
-  
   res.json({
     success: true,
-    data: job,
-  } satisfies ApiResponse<Job>);
+    data: buildPayrollReport(requireCompany(req), period),
+  } satisfies ApiResponse<PayrollReport>);
 });
 
 // ============================================
 // SITES ENDPOINTS
 // ============================================
 
-app.get('/api/sites', (req: Request, res: Response) => {
-  let sites = [...allSites];
+app.get('/api/sites', authorize('sites:read'), (req: Request, res: Response) => {
+  const auth = requireAuth(req);
+  let sites = allSites.filter(s => canAccessSite(auth, s));
   
   // Filter by type
   const type = req.query.type as string | undefined;
@@ -315,22 +1946,37 @@ app.get('/api/sites', (req: Request, res: Response) => {
   } satisfies ApiResponse<Site[]>);
 });
 
-app.get('/api/sites/:id', (req: Request, res: Response) => {
+app.get('/api/sites/:id', authorize('sites:read'), (req: Request, res: Response) => {
   const siteId = req.params.id ?? '';
-  const site = getSiteById(siteId);
+  const site = findAccessibleSite(req, res);
+  if (!site) return;
   
-  if (!site) {
-    res.status(404).json({
+  res.json({
+    success: true,
+    data: site,
+  } satisfies ApiResponse<Site>);
+});
+
+app.get('/api/sites/:id/visits', authorize('sites:read'), (req: Request, res: Response) => {
+  const siteId = req.params.id ?? '';
+  
+  if (!findAccessibleSite(req, res)) return;
+  
+  const from = req.query.from ? new Date(req.query.from as string) : undefined;
+  const to = req.query.to ? new Date(req.query.to as string) : undefined;
+  
+  if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+    res.status(400).json({
       success: false,
-      error: { code: 'NOT_FOUND', message: 'Site not found' },
+      error: { code: 'VALIDATION_ERROR', message: 'from and to must be valid dates' },
     } satisfies ApiResponse<never>);
     return;
   }
   
   res.json({
     success: true,
-    data: site,
-  } satisfies ApiResponse<Site>);
+    data: getSiteVisits(siteId, from, to),
+  } satisfies ApiResponse<SiteVisit[]>);
 });
 
 // Allowed fields for site updates
@@ -348,40 +1994,27 @@ function filterAllowedFields<T extends Record<string, unknown>>(data: T, allowed
   return filtered;
 }
 
-app.patch('/api/sites/:id', (req: Request, res: Response) => {
+app.patch('/api/sites/:id', authorize('sites:edit'), asyncRoute(async (req: Request, res: Response) => {
   const siteId = req.params.id ?? '';
-  const site = getSiteById(siteId);
-  
-  if (!site) {
-    res.status(404).json({
-      success: false,
-      error: { code: 'NOT_FOUND', message: 'Site not found' },
-    } satisfies ApiResponse<never>);
-    return;
-  }
+  const site = findAccessibleSite(req, res);
+  if (!site) return;
   
   // Filter only allowed fields for update
   const filteredUpdates = filterAllowedFields(req.body, ALLOWED_SITE_FIELDS);
   const updatedSite = updateSite(siteId, filteredUpdates);
+  await repositories.sites.save(site);
   
   res.json({
     success: true,
     data: updatedSite,
   } satisfies ApiResponse<Site>);
-});
+}));
 
 // Materials management for sites
-app.post('/api/sites/:id/materials', (req: Request, res: Response) => {
+app.post('/api/sites/:id/materials', authorize('sites:edit'), asyncRoute(async (req: Request, res: Response) => {
   const siteId = req.params.id ?? '';
-  const site = getSiteById(siteId);
-  
-  if (!site) {
-    res.status(404).json({
-      success: false,
-      error: { code: 'NOT_FOUND', message: 'Site not found' },
-    } satisfies ApiResponse<never>);
-    return;
-  }
+  const site = findAccessibleSite(req, res);
+  if (!site) return;
   
   // Validate required fields
   const { name, code, category, unit, availability } = req.body;
@@ -406,23 +2039,30 @@ app.post('/api/sites/:id/materials', (req: Request, res: Response) => {
   };
   
   const updatedSite = addMaterialToSite(siteId, material);
+  const openingBalance = recordOpeningBalance(siteId, material);
+  await repositories.sites.save(site);
+  if (openingBalance) {
+    await repositories.materialTransactions.append([openingBalance]);
+  }
   
   res.status(201).json({
     success: true,
     data: updatedSite,
   } satisfies ApiResponse<Site>);
-});
+}));
 
-app.patch('/api/sites/:id/materials/:materialId', (req: Request, res: Response) => {
+app.patch('/api/sites/:id/materials/:materialId', authorize('sites:edit'), asyncRoute(async (req: Request, res: Response) => {
   const siteId = req.params.id ?? '';
   const materialId = req.params.materialId ?? '';
   
-  const site = getSiteById(siteId);
+  const site = findAccessibleSite(req, res);
+  if (!site) return;
   
-  if (!site) {
-    res.status(404).json({
+  // Stock is derived from the transaction ledger and cannot be overwritten
+  if (req.body.currentStock !== undefined) {
+    res.status(400).json({
       success: false,
-      error: { code: 'NOT_FOUND', message: 'Site not found' },
+      error: { code: 'VALIDATION_ERROR', message: 'currentStock is managed by the transaction ledger; post a transaction instead' },
     } satisfies ApiResponse<never>);
     return;
   }
@@ -439,25 +2079,22 @@ app.patch('/api/sites/:id/materials/:materialId', (req: Request, res: Response)
     return;
   }
   
+  // minStock or availability may have changed
+  refreshMaterialStock(siteId, materialId);
+  await repositories.sites.save(site);
+  
   res.json({
     success: true,
     data: updatedSite,
   } satisfies ApiResponse<Site>);
-});
+}));
 
-app.delete('/api/sites/:id/materials/:materialId', (req: Request, res: Response) => {
+app.delete('/api/sites/:id/materials/:materialId', authorize('sites:edit'), asyncRoute(async (req: Request, res: Response) => {
   const siteId = req.params.id ?? '';
   const materialId = req.params.materialId ?? '';
   
-  const site = getSiteById(siteId);
-  
-  if (!site) {
-    res.status(404).json({
-      success: false,
-      error: { code: 'NOT_FOUND', message: 'Site not found' },
-    } satisfies ApiResponse<never>);
-    return;
-  }
+  const site = findAccessibleSite(req, res);
+  if (!site) return;
   
   const updatedSite = deleteMaterialFromSite(siteId, materialId);
   
@@ -469,44 +2106,294 @@ app.delete('/api/sites/:id/materials/:materialId', (req: Request, res: Response)
     return;
   }
   
+  await repositories.sites.save(site);
+  
   res.json({
     success: true,
     data: updatedSite,
   } satisfies ApiResponse<Site>);
+}));
+
+// Material transaction ledger
+app.get('/api/sites/:id/transactions', authorize('sites:read'), (req: Request, res: Response) => {
+  const siteId = req.params.id ?? '';
+  
+  if (!findAccessibleSite(req, res)) return;
+  
+  const from = req.query.from ? new Date(req.query.from as string) : undefined;
+  const to = req.query.to ? new Date(req.query.to as string) : undefined;
+  
+  if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'from and to must be valid dates' },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const transactions = getTransactions(siteId, {
+    materialId: req.query.materialId as string | undefined,
+    jobId: req.query.jobId as string | undefined,
+    from,
+    to,
+  });
+  
+  res.json({
+    success: true,
+    data: transactions,
+    meta: { total: transactions.length },
+  } satisfies ApiResponse<MaterialTransaction[]>);
+});
+
+app.post('/api/sites/:id/transactions', authorize('stock:record'), asyncRoute(async (req: Request, res: Response) => {
+  const siteId = req.params.id ?? '';
+  if (!findAccessibleSite(req, res)) return;
+  
+  const { request, errors } = validateTransaction(req.body);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid material transaction', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  if (request.jobId && !isCompanyJob(req, request.jobId)) {
+    sendNotFound(res, 'Job not found');
+    return;
+  }
+  if (request.resourceId && !isCompanyResource(req, request.resourceId)) {
+    sendNotFound(res, 'Resource not found');
+    return;
+  }
+  if (request.destinationSiteId && !isCompanySite(req, request.destinationSiteId)) {
+    sendNotFound(res, 'Destination site not found');
+    return;
+  }
+  if (!checkReporter(req, res, request.operatorId)) return;
+  
+  const result = recordTransaction(siteId, request);
+  
+  if ('error' in result) {
+    const status = result.error.code === 'NOT_FOUND' ? 404 : result.error.code === 'INSUFFICIENT_STOCK' ? 409 : 400;
+    res.status(status).json({
+      success: false,
+      error: result.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  await repositories.materialTransactions.append([result.transaction]);
+  await saveSites([siteId]);
+  
+  res.status(201).json({
+    success: true,
+    data: result,
+  } satisfies ApiResponse<MaterialTransactionResult>);
+}));
+
+// ============================================
+// DAILY CHECKS & SHIFTS ENDPOINTS
+// ============================================
+
+// Parse the optional ?date= filter, defaulting to today
+function parseDayQuery(value: unknown): Date | undefined {
+  if (value === undefined) return new Date();
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+app.get('/api/daily-checks', authorize('daily_checks:read'), (req: Request, res: Response) => {
+  const date = req.query.date ? parseDayQuery(req.query.date) : undefined;
+  
+  if (req.query.date && !date) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'date must be a valid date' },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const checks = getDailyChecks({
+    date,
+    resourceId: req.query.resourceId as string | undefined,
+    operatorId: req.query.operatorId as string | undefined,
+  }).filter(c => isCompanyResource(req, c.resourceId));
+  
+  res.json({
+    success: true,
+    data: checks,
+    meta: { total: checks.length },
+  } satisfies ApiResponse<DailyCheck[]>);
+});
+
+// Resources that were used without a pre-trip check
+app.get('/api/daily-checks/skipped', authorize('daily_checks:read'), (req: Request, res: Response) => {
+  const date = parseDayQuery(req.query.date);
+  
+  if (!date) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'date must be a valid date' },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const skipped = getSkippedChecks(date).filter(c => isCompanyResource(req, c.resourceId));
+  
+  res.json({
+    success: true,
+    data: skipped,
+    meta: { total: skipped.length },
+  } satisfies ApiResponse<SkippedDailyCheck[]>);
+});
+
+// Day start checklist synced from the field app
+app.post('/api/daily-checks', authorize('daily_checks:report'), asyncRoute(async (req: Request, res: Response) => {
+  const { request, errors } = validateDayStart(req.body);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid daily check', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const resource = checkResourceAccess(req, res, request.resourceId);
+  if (!resource || !checkReporter(req, res, request.operatorId)) return;
+  
+  const outcome = recordDayStart(request, resource.companyId);
+  if ('error' in outcome) {
+    res.status(409).json({
+      success: false,
+      error: outcome.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const { check, shift, flaggedResource, failedRequiredItems } = outcome;
+  
+  // The check reports the fuel level, and may have taken the resource out of service
+  await repositories.dailyChecks.save(check);
+  await repositories.shifts.save({ shift });
+  await repositories.resources.save(resource);
+  
+  if (flaggedResource) {
+    broadcastEvent(resourceScope(flaggedResource.companyId, flaggedResource.id), {
+      type: 'RESOURCE_STATUS_CHANGE',
+      data: { resourceId: flaggedResource.id, status: flaggedResource.status },
+    });
+    broadcastEvent(resourceScope(flaggedResource.companyId, flaggedResource.id), {
+      type: 'ALERT',
+      data: {
+        type: 'daily_check_failed',
+        message: `${flaggedResource.name} flagged for garage: ${failedRequiredItems.join(', ')}`,
+        severity: 'warning',
+      },
+    });
+  }
+  
+  res.status(201).json({
+    success: true,
+    data: check,
+  } satisfies ApiResponse<DailyCheck>);
+}));
+
+app.get('/api/shifts', authorize('daily_checks:read'), (req: Request, res: Response) => {
+  const date = req.query.date ? parseDayQuery(req.query.date) : undefined;
+  
+  if (req.query.date && !date) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'date must be a valid date' },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const shifts = getShifts({
+    date,
+    resourceId: req.query.resourceId as string | undefined,
+    operatorId: req.query.operatorId as string | undefined,
+  }).filter(s => isCompanyResource(req, s.resourceId));
+  
+  res.json({
+    success: true,
+    data: shifts,
+    meta: { total: shifts.length },
+  } satisfies ApiResponse<Shift[]>);
 });
 
+// End of day summary synced from the field app
+app.post('/api/shifts', authorize('daily_checks:report'), asyncRoute(async (req: Request, res: Response) => {
+  const { request, errors } = validateDaySummary(req.body);
+  
+  if (!request) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid day summary', details: { errors } },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const resource = checkResourceAccess(req, res, request.resourceId);
+  if (!resource || !checkReporter(req, res, request.operatorId)) return;
+  
+  const outcome = recordDaySummary(request, resource.companyId);
+  if ('error' in outcome) {
+    res.status(409).json({
+      success: false,
+      error: outcome.error,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  
+  const { shift } = outcome;
+  await repositories.shifts.save({ shift, daySummaryId: request.id });
+  
+  res.status(201).json({
+    success: true,
+    data: shift,
+  } satisfies ApiResponse<Shift>);
+}));
+
 // ============================================
 // DASHBOARD ENDPOINTS
 // ============================================
 
-app.get('/api/dashboard', (_req: Request, res: Response) => {
-  const positions = getAllPositions();
+app.get('/api/dashboard', authorize('dashboard:read'), (req: Request, res: Response) => {
+  const auth = requireAuth(req);
+  const companyResources = allResources.filter(r => isSameCompany(auth, r));
+  const companyJobs = allJobs.filter(j => isSameCompany(auth, j));
+  const companySites = allSites.filter(s => isSameCompany(auth, s));
+  const positions = getCurrentPositions();
   
   // Count resources that are actively moving (speed > 0) or have active job status
-  const activeResources = allResources.filter(r => {
+  const activeResources = companyResources.filter(r => {
     const position = positions.get(r.id);
     return (position && (position.speed ?? 0) > 0) || r.status === 'on_job' || r.status === 'en_route';
   }).length;
   
-  const activeJobs = allJobs.filter(j => 
+  const activeJobs = companyJobs.filter(j => 
     j.status === 'in_progress' || j.status === 'assigned'
   ).length;
   
-  const completedToday = allJobs.filter(j => {
+  const completedToday = companyJobs.filter(j => {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     return j.status === 'completed' && j.updatedAt >= today;
   }).length;
   
   const dashboard = {
-    resourcesTotal: allResources.length,
+    resourcesTotal: companyResources.length,
     resourcesActive: activeResources,
-    resourcesIdle: allResources.length - activeResources,
+    resourcesIdle: companyResources.length - activeResources,
     activeJobs,
     completedToday,
-    totalSites: allSites.length,
-    upcomingJobs: allJobs.filter(j => j.status === 'scheduled').slice(0, 5),
-    recentActivity: allJobs
+    totalSites: companySites.length,
+    upcomingJobs: companyJobs.filter(j => j.status === 'scheduled' || j.status === 'assigned').slice(0, 5),
+    recentActivity: companyJobs
       .filter(j => j.status === 'in_progress')
       .map(j => ({
         id: j.id,
@@ -516,11 +2403,13 @@ app.get('/api/dashboard', (_req: Request, res: Response) => {
         jobId: j.id,
       }))
       .slice(0, 10),
-    resourcePositions: Array.from(positions.entries()).map(([id, pos]) => ({
-      resourceId: id,
-      resource: getResourceById(id),
-      position: pos,
-    })),
+    resourcePositions: companyResources
+      .filter(r => positions.has(r.id))
+      .map(r => ({
+        resourceId: r.id,
+        resource: r,
+        position: positions.get(r.id),
+      })),
   };
   
   res.json({
@@ -533,11 +2422,13 @@ app.get('/api/dashboard', (_req: Request, res: Response) => {
 // STATISTICS ENDPOINTS
 // ============================================
 
-app.get('/api/stats/resources', (_req: Request, res: Response) => {
+app.get('/api/stats/resources', authorize('dashboard:read'), (req: Request, res: Response) => {
+  const auth = requireAuth(req);
+  const resources = allResources.filter(r => isSameCompany(auth, r));
   const byType: Record<string, number> = {};
   const byStatus: Record<string, number> = {};
   
-  allResources.forEach(r => {
+  resources.forEach(r => {
     byType[r.type] = (byType[r.type] || 0) + 1;
     byStatus[r.status] = (byStatus[r.status] || 0) + 1;
   });
@@ -545,18 +2436,20 @@ app.get('/api/stats/resources', (_req: Request, res: Response) => {
   res.json({
     success: true,
     data: {
-      total: allResources.length,
+      total: resources.length,
       byType,
       byStatus,
     },
   } satisfies ApiResponse<unknown>);
 });
 
-app.get('/api/stats/jobs', (_req: Request, res: Response) => {
+app.get('/api/stats/jobs', authorize('dashboard:read'), (req: Request, res: Response) => {
+  const auth = requireAuth(req);
+  const jobs = allJobs.filter(j => isSameCompany(auth, j));
   const byType: Record<string, number> = {};
   const byStatus: Record<string, number> = {};
   
-  allJobs.forEach(j => {
+  jobs.forEach(j => {
     byType[j.type] = (byType[j.type] || 0) + 1;
     byStatus[j.status] = (byStatus[j.status] || 0) + 1;
   });
@@ -564,7 +2457,7 @@ app.get('/api/stats/jobs', (_req: Request, res: Response) => {
   res.json({
     success: true,
     data: {
-      total: allJobs.length,
+      total: jobs.length,
       byType,
       byStatus,
     },
@@ -578,7 +2471,6 @@ app.get('/api/stats/jobs', (_req: Request, res: Response) => {
 const server = createServer(app);
 const wss = new WebSocketServer({ server, path: '/ws' });
 
-const clients: Set<WebSocket> = new Set();
 
 // Handle WebSocket server errors to prevent unhandled error crashes
 wss.on('error', (error: NodeJS.ErrnoException) => {
@@ -591,68 +2483,90 @@ wss.on('error', (error: NodeJS.ErrnoException) => {
   }
 });
 
-wss.on('connection', (ws: WebSocket) => {
+// Ending a session, by logout or a reused refresh token, also closes its connections
+onSessionEnded(closeSessionClients);
+
+wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+  // Browsers cannot set headers on WebSocket requests, so the access token is passed as ?token=
+  const params = new URL(req.url ?? '', 'http://localhost').searchParams;
+  const token = params.get('token');
+  const claims = token ? authenticateAccessToken(token) : undefined;
+  
+  if (!claims) {
+    ws.close(4401, 'A valid access token is required');
+    return;
+  }
+
+  const positionFormat = params.get('positions') ?? 'full';
+  if (!isPositionFormat(positionFormat)) {
+    ws.close(4400, 'positions must be full, delta, binary or none');
+    return;
+  }
+  
   console.log('WebSocket client connected');
-  clients.add(ws);
-  
-  // Send initial positions
-  const positions = getAllPositions();
-  ws.send(JSON.stringify({
-    type: 'INITIAL_POSITIONS',
-    data: Array.from(positions.entries()).map(([id, pos]) => ({
-      resourceId: id,
-      position: pos,
-    })),
-  }));
+  // Reconnecting clients pass ?resume=1 and then send RESUME with their last sequence number
+  addClient(ws, claims, { resuming: params.get('resume') === '1', positionFormat });
+  
+  ws.on('message', (data) => {
+    handleClientMessage(ws, data.toString());
+  });
   
   ws.on('close', () => {
     console.log('WebSocket client disconnected');
-    clients.delete(ws);
+    removeClient(ws);
   });
   
   ws.on('error', (error) => {
     console.error('WebSocket error:', error);
-    clients.delete(ws);
+    removeClient(ws);
   });
 });
 
-function broadcastEvent(event: WebSocketEvent): void {
-  const message = JSON.stringify(event);
-  clients.forEach(client => {
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(message);
+// ============================================
+// GEOFENCING
+// ============================================
+
+// Evaluate every recorded position (device or simulated) against site and job geofences,
+// recording site visits and broadcasting the transitions
+// Visit writes are chained, so a departure is never stored before its arrival
+let visitWrites: Promise<void> = Promise.resolve();
+
+function storeVisitChange({ visit, dropped }: VisitChange): void {
+  visitWrites = visitWrites
+    .then(() => dropped ? repositories.siteVisits.delete(visit.id) : repositories.siteVisits.save(visit))
+    .catch(error => console.error('Failed to store site visit:', error));
+}
+
+onPositionRecorded((resourceId, point) => {
+  const transitions = evaluatePosition(resourceId, point.position);
+  transitions.forEach(transition => {
+    const visitChange = handleGeofenceTransition(transition);
+    if (visitChange) storeVisitChange(visitChange);
+    const companyId = getResourceById(resourceId)?.companyId;
+    if (companyId) {
+      const { fence } = transition;
+      const scope: EventScope = {
+        ...resourceScope(companyId, resourceId),
+        ...(fence.kind === 'site' ? { siteId: fence.entityId } : { jobId: fence.entityId }),
+      };
+      transitionToEvents(transition).forEach(event => broadcastEvent(scope, event));
     }
   });
-}
+});
 
 // ============================================
 // GPS SIMULATION & BROADCAST
 // ============================================
 
-// Initialize simulation on startup
-initializeSimulation().catch(console.error);
-
 // Update simulation every 2 seconds
 setInterval(() => {
-  const positions = updateSimulation();
+  const simulated = updateSimulation();
+  recordSimulatedPositions(simulated);
+  const positions = mergeDevicePositions(simulated);
   
-  // Broadcast position updates to all connected clients
-  if (clients.size > 0) {
-    const positionUpdates = Array.from(positions.entries()).map(([resourceId, position]) => ({
-      resourceId,
-      position,
-    }));
-    
-    const message = JSON.stringify({
-      type: 'POSITION_UPDATE',
-      data: positionUpdates,
-    });
-    
-    clients.forEach(client => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
-      }
-    });
+  // Each client gets the positions of the resources its topics follow
+  if (getClientCount() > 0) {
+    broadcastPositions(positions);
   }
 }, 2000);
 
@@ -690,12 +2604,7 @@ function gracefulShutdown(signal: string): void {
   console.log(`\n${signal} received. Shutting down gracefully...`);
   
   // Close WebSocket connections
-  clients.forEach(client => {
-    if (client.readyState === WebSocket.OPEN) {
-      client.close(1000, 'Server shutting down');
-    }
-  });
-  clients.clear();
+  closeAllClients(1000, 'Server shutting down');
   
   // Close WebSocket server
   wss.close(() => {
@@ -705,7 +2614,7 @@ function gracefulShutdown(signal: string): void {
   // Close HTTP server
   server.close(() => {
     console.log('HTTP server closed.');
-    process.exit(0);
+    closePool().finally(() => process.exit(0));
   });
   
   // Force exit after 5 seconds if graceful shutdown fails
@@ -733,8 +2642,16 @@ server.on('error', (error: NodeJS.ErrnoException) => {
   throw error;
 });
 
-server.listen(PORT, () => {
-  console.log(`
+// Load the working set from the database (if configured) before serving requests
+async function start(): Promise<void> {
+  const configProblems = checkProductionConfig();
+  if (configProblems.length > 0) {
+    throw new Error(configProblems.join('\n'));
+  }
+  await initRepositories();
+  await initializeSimulation();
+  server.listen(PORT, () => {
+    console.log(`
 ╔═══════════════════════════════════════════════════════════╗
 ║                    SYLON API Server                       ║
 ║                      Version 3.0.0                        ║
@@ -748,7 +2665,11 @@ server.listen(PORT, () => {
 ║  Sites:        ${allSites.length} locations                                   ║
 ║  Jobs:         ${allJobs.length} active/scheduled                          ║
 ╚═══════════════════════════════════════════════════════════╝
-  `);
-});
+    `);
+  });
+}
 
-export { app, server };
+start().catch(error => {
+  console.error('Failed to start server:', error);
+  process.exit(1);
+});
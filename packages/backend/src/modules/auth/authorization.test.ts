@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import type { UserRole } from '@sylon/shared';
+import { DEMO_COMPANY } from '@sylon/shared';
+import { canReportAs } from './authorization.js';
+import type { AccessTokenClaims } from './tokens.js';
+
+function claims(sub: string, role: UserRole): AccessTokenClaims {
+  return { sub, cid: DEMO_COMPANY.id, role, sid: 'session-test', iat: 0, exp: 0 };
+}
+
+describe('canReportAs', () => {
+  it('lets field users report only as themselves', () => {
+    const driver = claims('user-demo-001', 'driver');
+
+    expect(canReportAs(driver, 'user-demo-001')).toBe(true);
+    expect(canReportAs(driver, 'user-operator-001')).toBe(false);
+  });
+
+  it('lets other roles report for users of their own company', () => {
+    const supervisor = claims('user-supervisor-001', 'supervisor');
+
+    expect(canReportAs(supervisor, 'user-operator-001')).toBe(true);
+    expect(canReportAs(supervisor, 'user-kust-driver-001')).toBe(false);
+    expect(canReportAs(supervisor, 'user-unknown')).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * SYLON Authorization
+ * Role permissions and data scoping. Everyone only sees their own company;
+ * field roles (operator, driver) only see their own resource and its jobs.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import type { ApiResponse, Job, Permission, Resource, Site } from '@sylon/shared';
+import { FIELD_ROLES, hasPermission } from '@sylon/shared';
+import { allResources } from '../../data/resources.js';
+import { getUserById } from '../../data/users.js';
+import type { AccessTokenClaims } from './tokens.js';
+
+// Require a permission of the authenticated user's role
+export function authorize(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.auth) {
+      res.status(401).json({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'A valid access token is required' },
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    if (!hasPermission(req.auth.role, permission)) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `Role ${req.auth.role} does not have permission ${permission}`,
+          details: { role: req.auth.role, permission },
+        },
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    next();
+  };
+}
+
+export function isFieldUser(auth: AccessTokenClaims): boolean {
+  return FIELD_ROLES.includes(auth.role);
+}
+
+// Resources operated by the user
+export function getOwnResourceIds(auth: AccessTokenClaims): Set<string> {
+  return new Set(
+    allResources
+      .filter(r => r.companyId === auth.cid && r.assignedOperatorId === auth.sub)
+      .map(r => r.id)
+  );
+}
+
+export function isSameCompany(auth: AccessTokenClaims, entity: { companyId: string }): boolean {
+  return entity.companyId === auth.cid;
+}
+
+export function canAccessResource(auth: AccessTokenClaims, resource: Resource): boolean {
+  if (!isSameCompany(auth, resource)) return false;
+  return !isFieldUser(auth) || resource.assignedOperatorId === auth.sub;
+}
+
+// Field users see jobs their resource is assigned to, or that they are the operator of
+export function canAccessJob(auth: AccessTokenClaims, job: Job): boolean {
+  if (!isSameCompany(auth, job)) return false;
+  if (!isFieldUser(auth)) return true;
+
+  const ownResourceIds = getOwnResourceIds(auth);
+  return job.assignedResources.some(a =>
+    a.status !== 'released' && (ownResourceIds.has(a.resourceId) || a.operatorId === auth.sub)
+  );
+}
+
+// Field users report as themselves; other roles may report for a user of their company
+export function canReportAs(auth: AccessTokenClaims, userId: string): boolean {
+  if (userId === auth.sub) return true;
+  if (isFieldUser(auth)) return false;
+  const user = getUserById(userId);
+  return user !== undefined && isSameCompany(auth, user);
+}
+
+export function canAccessSite(auth: AccessTokenClaims, site: Site): boolean {
+  return isSameCompany(auth, site);
+}
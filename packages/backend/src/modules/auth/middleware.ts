@@ -0,0 +1,46 @@
+/**
+ * SYLON Auth Middleware
+ * Reads the bearer access token and attaches its claims to the request
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import type { ApiResponse } from '@sylon/shared';
+import { authenticateAccessToken } from './sessions.js';
+import type { AccessTokenClaims } from './tokens.js';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      auth?: AccessTokenClaims;
+    }
+  }
+}
+
+export function readBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : undefined;
+}
+
+// Reject requests without a valid access token
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  const token = readBearerToken(req);
+  const claims = token ? authenticateAccessToken(token) : undefined;
+
+  if (!claims) {
+    res.status(401).json({
+      success: false,
+      error: { code: 'UNAUTHORIZED', message: 'A valid access token is required' },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+
+  req.auth = claims;
+  next();
+}
+
+// Claims of a request that passed authenticate
+export function requireAuth(req: Request): AccessTokenClaims {
+  if (!req.auth) throw new Error('Route is missing authentication');
+  return req.auth;
+}
@@ -0,0 +1,44 @@
+/**
+ * SYLON Password Hashing
+ * scrypt with a random salt per password, stored as scrypt$N$r$p$salt$hash
+ */
+
+import { randomBytes, scrypt, scryptSync, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+const COST: ScryptOptions = { N: 16384, r: 8, p: 1 };
+
+function scryptAsync(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+function format(salt: Buffer, key: Buffer): string {
+  return ['scrypt', COST.N, COST.r, COST.p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  return format(salt, await scryptAsync(password, salt, COST));
+}
+
+// Blocking variant for demo data built at startup
+export function hashPasswordSync(password: string): string {
+  const salt = randomBytes(SALT_BYTES);
+  return format(salt, scryptSync(password, salt, KEY_LENGTH, COST));
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, n, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+  });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AuthTokens, LoginResponse } from '@sylon/shared';
+import { DEMO_PASSWORD } from '../../data/users.js';
+import { verifyPassword } from './passwords.js';
+import { authenticateAccessToken, login, refresh, type AuthFailure, type AuthOutcome } from './sessions.js';
+
+vi.mock('./passwords.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./passwords.js')>();
+  return { ...actual, verifyPassword: vi.fn(actual.verifyPassword) };
+});
+
+const DEVICE_ID = 'sessions-test-device';
+
+async function signIn(): Promise<LoginResponse> {
+  const outcome = await login({ email: 'demo@sylon.se', password: DEMO_PASSWORD, deviceId: DEVICE_ID });
+  if ('error' in outcome) throw new Error(outcome.error.message);
+  return outcome.result;
+}
+
+function rotate(refreshToken: string, deviceId = DEVICE_ID): AuthOutcome<AuthTokens> | AuthFailure {
+  return refresh({ refreshToken, deviceId });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('login', () => {
+  it('checks a password hash for an unknown email too', async () => {
+    vi.mocked(verifyPassword).mockClear();
+
+    const outcome = await login({ email: 'okand@sylon.se', password: DEMO_PASSWORD });
+
+    expect(outcome).toEqual({ error: expect.objectContaining({ code: 'INVALID_CREDENTIALS' }), changed: [] });
+    expect(verifyPassword).toHaveBeenCalledOnce();
+  });
+});
+
+describe('refresh', () => {
+  it('replaces the refresh token with a new one and revokes the old one', async () => {
+    const session = await signIn();
+
+    const outcome = rotate(session.refreshToken);
+
+    if ('error' in outcome) throw new Error(outcome.error.message);
+    expect(outcome.result.refreshToken).not.toBe(session.refreshToken);
+    const [used, issued] = outcome.changed;
+    expect(used!.revokedAt).toBeInstanceOf(Date);
+    expect(used!.replacedBy).toBe(issued!.id);
+    expect(authenticateAccessToken(outcome.result.accessToken)).toMatchObject({ sub: 'user-demo-001' });
+  });
+
+  it('ends the whole session when a used refresh token comes back', async () => {
+    const session = await signIn();
+    const rotated = rotate(session.refreshToken);
+    if ('error' in rotated) throw new Error(rotated.error.message);
+
+    const reuse = rotate(session.refreshToken);
+
+    expect(reuse).toMatchObject({ error: { code: 'REFRESH_TOKEN_REUSED' } });
+    expect(rotate(rotated.result.refreshToken)).toMatchObject({ error: { code: 'INVALID_REFRESH_TOKEN' } });
+    expect(authenticateAccessToken(rotated.result.accessToken)).toBeUndefined();
+  });
+
+  it('ends the session when the token comes from another device', async () => {
+    const session = await signIn();
+
+    expect(rotate(session.refreshToken, 'another-device')).toMatchObject({ error: { code: 'DEVICE_MISMATCH' } });
+    expect(authenticateAccessToken(session.accessToken)).toBeUndefined();
+  });
+
+  it('still detects reuse after unused tokens have been dropped', async () => {
+    vi.useFakeTimers({ now: Date.now(), toFake: ['Date'] });
+    const session = await signIn();
+    const rotated = rotate(session.refreshToken);
+    if ('error' in rotated) throw new Error(rotated.error.message);
+
+    // The next login after a while drops tokens that can no longer be used
+    vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+    await signIn();
+
+    expect(rotate(session.refreshToken)).toMatchObject({ error: { code: 'REFRESH_TOKEN_REUSED' } });
+  });
+
+  it('rejects a refresh token after it expires', async () => {
+    vi.useFakeTimers({ now: Date.now(), toFake: ['Date'] });
+    const session = await signIn();
+
+    vi.setSystemTime(Date.now() + 31 * 24 * 60 * 60 * 1000);
+    await signIn();
+
+    expect(rotate(session.refreshToken)).toMatchObject({ error: { code: 'INVALID_REFRESH_TOKEN' } });
+  });
+});
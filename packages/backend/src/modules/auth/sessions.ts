@@ -0,0 +1,280 @@
+/**
+ * SYLON Auth Sessions
+ * Login, refresh token rotation with reuse detection, device binding and logout
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { ApiError, AuthTokens, LoginRequest, LoginResponse, RefreshTokenRequest, SessionUser } from '@sylon/shared';
+import { allResources } from '../../data/resources.js';
+import { getCompanyById } from '../../data/companies.js';
+import { getUserByEmail, getUserById, type UserAccount } from '../../data/users.js';
+import { hashPasswordSync, verifyPassword } from './passwords.js';
+import { ACCESS_TOKEN_TTL_SECONDS, signAccessToken, verifyAccessToken, type AccessTokenClaims } from './tokens.js';
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// How often tokens that can no longer be used are dropped
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+// Unknown emails are checked against this hash, so they take as long as a wrong password
+const DUMMY_PASSWORD_HASH = hashPasswordSync(randomBytes(16).toString('hex'));
+
+// One login creates a session; every refresh replaces its token with a new one
+export interface RefreshToken {
+  id: string;
+  userId: string;
+  sessionId: string;
+  deviceId?: string;
+  // SHA-256 of the token, the token itself is only known to the client
+  tokenHash: string;
+  expiresAt: Date;
+  createdAt: Date;
+  revokedAt?: Date;
+  replacedBy?: string;
+}
+
+export interface AuthOutcome<T> {
+  result: T;
+  user: UserAccount;
+  // Refresh tokens created or revoked, for persistence
+  changed: RefreshToken[];
+}
+
+export type AuthFailure = { error: ApiError; changed: RefreshToken[] };
+
+export type SessionEndListener = (sessionId: string) => void;
+
+const refreshTokens: Map<string, RefreshToken> = new Map();
+// Ended sessions and when they ended
+const revokedSessions: Map<string, number> = new Map();
+let lastPrunedAt = 0;
+const sessionEndListeners: Set<SessionEndListener> = new Set();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function optionalDeviceId(value: unknown, errors: string[]): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.length === 0) {
+    errors.push('deviceId must be a non-empty string');
+    return undefined;
+  }
+  return value;
+}
+
+export function validateLogin(body: unknown): { request?: LoginRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { email, password } = body;
+
+  if (typeof email !== 'string' || email.trim().length === 0) {
+    errors.push('email is required');
+  }
+  if (typeof password !== 'string' || password.length === 0) {
+    errors.push('password is required');
+  }
+  const deviceId = optionalDeviceId(body.deviceId, errors);
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return { request: { email: email as string, password: password as string, deviceId }, errors };
+}
+
+export function validateRefresh(body: unknown): { request?: RefreshTokenRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { refreshToken } = body;
+
+  if (typeof refreshToken !== 'string' || refreshToken.length === 0) {
+    errors.push('refreshToken is required');
+  }
+  const deviceId = optionalDeviceId(body.deviceId, errors);
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return { request: { refreshToken: refreshToken as string, deviceId }, errors };
+}
+
+// The user as sent to clients, without the password hash
+export function toSessionUser(user: UserAccount): SessionUser {
+  const { passwordHash: _passwordHash, lastLoginAt: _lastLoginAt, ...rest } = user;
+  return {
+    ...rest,
+    companyName: getCompanyById(user.companyId)?.name ?? '',
+    assignedResourceId: allResources.find(r => r.assignedOperatorId === user.id)?.id,
+  };
+}
+
+/**
+ * Drop expired tokens and the tokens of ended sessions, which are rejected without
+ * being found. Rotated tokens of live sessions are kept to detect their reuse. An
+ * ended session is forgotten once its access tokens have expired.
+ */
+function pruneRefreshTokens(): void {
+  const now = Date.now();
+  if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt = now;
+
+  for (const [hash, token] of refreshTokens) {
+    if (token.expiresAt.getTime() <= now || revokedSessions.has(token.sessionId)) {
+      refreshTokens.delete(hash);
+    }
+  }
+  for (const [sessionId, endedAt] of revokedSessions) {
+    if (now - endedAt > ACCESS_TOKEN_TTL_SECONDS * 1000) {
+      revokedSessions.delete(sessionId);
+    }
+  }
+}
+
+function issueTokens(user: UserAccount, sessionId: string, deviceId: string | undefined): { tokens: AuthTokens; refreshToken: RefreshToken } {
+  pruneRefreshTokens();
+  const id = `rt-${uuidv4()}`;
+  const token = `${id}.${randomBytes(32).toString('base64url')}`;
+  const now = new Date();
+
+  const refreshToken: RefreshToken = {
+    id,
+    userId: user.id,
+    sessionId,
+    deviceId,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+    createdAt: now,
+  };
+  refreshTokens.set(refreshToken.tokenHash, refreshToken);
+
+  return {
+    tokens: {
+      accessToken: signAccessToken({ sub: user.id, cid: user.companyId, role: user.role, sid: sessionId, did: deviceId }),
+      refreshToken: token,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    },
+    refreshToken,
+  };
+}
+
+// Revoke every live token of a session, ending it on all devices that hold one
+function revokeSession(sessionId: string): RefreshToken[] {
+  const revoked: RefreshToken[] = [];
+  const now = new Date();
+  for (const token of refreshTokens.values()) {
+    if (token.sessionId === sessionId && !token.revokedAt) {
+      token.revokedAt = now;
+      revoked.push(token);
+    }
+  }
+  revokedSessions.set(sessionId, now.getTime());
+  sessionEndListeners.forEach(listener => listener(sessionId));
+  return revoked;
+}
+
+// Subscribe to ended sessions, e.g. to close their WebSocket connections
+export function onSessionEnded(listener: SessionEndListener): () => void {
+  sessionEndListeners.add(listener);
+  return () => sessionEndListeners.delete(listener);
+}
+
+export async function login(request: LoginRequest): Promise<AuthOutcome<LoginResponse> | AuthFailure> {
+  const user = getUserByEmail(request.email);
+  const passwordMatches = await verifyPassword(request.password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+
+  // Unknown email and wrong password look the same to the client
+  if (!user || !passwordMatches) {
+    return { error: { code: 'INVALID_CREDENTIALS', message: 'Invalid email or password' }, changed: [] };
+  }
+  if (!user.isActive) {
+    return { error: { code: 'ACCOUNT_DISABLED', message: 'User account is disabled' }, changed: [] };
+  }
+
+  const { tokens, refreshToken } = issueTokens(user, `session-${uuidv4()}`, request.deviceId);
+  user.lastLoginAt = new Date();
+
+  return { result: { ...tokens, user: toSessionUser(user) }, user, changed: [refreshToken] };
+}
+
+/**
+ * Exchange a refresh token for a new token pair. The presented token is revoked.
+ * Presenting an already rotated token, or a token from another device, is treated
+ * as theft and ends the whole session.
+ */
+export function refresh(request: RefreshTokenRequest): AuthOutcome<AuthTokens> | AuthFailure {
+  const current = refreshTokens.get(hashToken(request.refreshToken));
+  const invalid: ApiError = { code: 'INVALID_REFRESH_TOKEN', message: 'Refresh token is invalid or expired' };
+
+  if (!current || current.expiresAt.getTime() <= Date.now() || revokedSessions.has(current.sessionId)) {
+    return { error: invalid, changed: [] };
+  }
+  if (current.revokedAt) {
+    return {
+      error: { code: 'REFRESH_TOKEN_REUSED', message: 'Refresh token was already used; the session has been ended' },
+      changed: revokeSession(current.sessionId),
+    };
+  }
+  if (current.deviceId && current.deviceId !== request.deviceId) {
+    return {
+      error: { code: 'DEVICE_MISMATCH', message: 'Refresh token was issued to another device; the session has been ended' },
+      changed: revokeSession(current.sessionId),
+    };
+  }
+
+  const user = getUserById(current.userId);
+  if (!user || !user.isActive) {
+    return { error: invalid, changed: revokeSession(current.sessionId) };
+  }
+
+  const { tokens, refreshToken } = issueTokens(user, current.sessionId, current.deviceId);
+  current.revokedAt = new Date();
+  current.replacedBy = refreshToken.id;
+
+  return { result: tokens, user, changed: [current, refreshToken] };
+}
+
+// End the session of an access token and/or refresh token
+export function logout(claims: AccessTokenClaims | undefined, token: string | undefined): RefreshToken[] {
+  const sessionIds = new Set<string>();
+  if (claims) sessionIds.add(claims.sid);
+  if (token) {
+    const stored = refreshTokens.get(hashToken(token));
+    if (stored) sessionIds.add(stored.sessionId);
+  }
+  return [...sessionIds].flatMap(revokeSession);
+}
+
+// Claims of a valid access token whose session has not been ended
+export function authenticateAccessToken(token: string): AccessTokenClaims | undefined {
+  const claims = verifyAccessToken(token);
+  if (!claims || revokedSessions.has(claims.sid)) return undefined;
+  return claims;
+}
+
+// Load stored refresh tokens, e.g. at startup
+export function loadRefreshTokens(stored: RefreshToken[]): void {
+  refreshTokens.clear();
+  revokedSessions.clear();
+
+  const liveSessions = new Set(stored.filter(t => !t.revokedAt).map(t => t.sessionId));
+  for (const token of stored) {
+    refreshTokens.set(token.tokenHash, token);
+    if (!liveSessions.has(token.sessionId)) {
+      // The session ended with the last of its tokens to be revoked
+      const endedAt = token.revokedAt?.getTime() ?? Date.now();
+      revokedSessions.set(token.sessionId, Math.max(endedAt, revokedSessions.get(token.sessionId) ?? 0));
+    }
+  }
+}
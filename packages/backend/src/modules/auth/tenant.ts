@@ -0,0 +1,39 @@
+/**
+ * SYLON Tenant Resolution
+ * The tenant of a request is the company of the authenticated user
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import type { ApiResponse, Company } from '@sylon/shared';
+import { getCompanyById } from '../../data/companies.js';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      company?: Company;
+    }
+  }
+}
+
+// Attach the user's company; tokens of removed companies are rejected
+export function resolveTenant(req: Request, res: Response, next: NextFunction): void {
+  const company = req.auth ? getCompanyById(req.auth.cid) : undefined;
+
+  if (!company) {
+    res.status(403).json({
+      success: false,
+      error: { code: 'TENANT_NOT_FOUND', message: 'The company of this account does not exist' },
+    } satisfies ApiResponse<never>);
+    return;
+  }
+
+  req.company = company;
+  next();
+}
+
+// Company of a request that passed resolveTenant
+export function requireCompany(req: Request): Company {
+  if (!req.company) throw new Error('Route is missing tenant resolution');
+  return req.company;
+}
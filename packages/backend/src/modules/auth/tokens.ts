@@ -0,0 +1,68 @@
+/**
+ * SYLON Access Tokens
+ * Short-lived JWTs (HS256) signed with JWT_SECRET
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { UserRole } from '@sylon/shared';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+export interface AccessTokenClaims {
+  sub: string; // user id
+  cid: string; // company id
+  role: UserRole;
+  sid: string; // session, i.e. the refresh token family
+  did?: string; // device id
+  iat: number;
+  exp: number;
+}
+
+let secret: Buffer | undefined;
+
+// Without JWT_SECRET tokens are signed with a random key and do not survive a restart
+function getSecret(): Buffer {
+  if (!secret) {
+    if (process.env.JWT_SECRET) {
+      secret = Buffer.from(process.env.JWT_SECRET);
+    } else {
+      console.warn('JWT_SECRET is not set, using a random signing key');
+      secret = randomBytes(32);
+    }
+  }
+  return secret;
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function sign(input: string): Buffer {
+  return createHmac('sha256', getSecret()).update(input).digest();
+}
+
+export function signAccessToken(claims: Omit<AccessTokenClaims, 'iat' | 'exp'>): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: AccessTokenClaims = { ...claims, iat: now, exp: now + ACCESS_TOKEN_TTL_SECONDS };
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  return `${input}.${sign(input).toString('base64url')}`;
+}
+
+// Returns the claims of a well-formed, correctly signed and unexpired token
+export function verifyAccessToken(token: string): AccessTokenClaims | undefined {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return undefined;
+
+  const expected = sign(`${header}.${payload}`);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString()) as { alg?: string };
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as AccessTokenClaims;
+    if (alg !== 'HS256' || typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return undefined;
+    return claims.exp > Date.now() / 1000 ? claims : undefined;
+  } catch {
+    return undefined;
+  }
+}
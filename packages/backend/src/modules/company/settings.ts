@@ -0,0 +1,105 @@
+/**
+ * SYLON Company Settings
+ * Validation of per-tenant settings: timezone, locale, currency and working hours
+ */
+
+import type { CompanySettings, WorkingHours } from '@sylon/shared';
+
+export interface SettingsValidationResult {
+  request?: Partial<CompanySettings>;
+  errors: string[];
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidLocale(value: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(value).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+function validateWorkingHours(value: unknown, current: WorkingHours, errors: string[]): WorkingHours | undefined {
+  if (!isRecord(value)) {
+    errors.push('workingHours must be an object');
+    return undefined;
+  }
+
+  const hours = { ...current };
+  if (value.start !== undefined) {
+    if (typeof value.start !== 'string' || !TIME_PATTERN.test(value.start)) errors.push('workingHours.start must be HH:MM');
+    else hours.start = value.start;
+  }
+  if (value.end !== undefined) {
+    if (typeof value.end !== 'string' || !TIME_PATTERN.test(value.end)) errors.push('workingHours.end must be HH:MM');
+    else hours.end = value.end;
+  }
+  if (value.days !== undefined) {
+    const days = value.days;
+    if (!Array.isArray(days) || !days.every(d => Number.isInteger(d) && d >= 0 && d <= 6)) {
+      errors.push('workingHours.days must be a list of weekdays 0-6 (0 = Sunday)');
+    } else {
+      hours.days = [...new Set(days as number[])].sort((a, b) => a - b);
+    }
+  }
+  // HH:MM strings compare in time order
+  if (hours.start >= hours.end) {
+    errors.push('workingHours.start must be before workingHours.end');
+  }
+  return hours;
+}
+
+/**
+ * Validate a partial settings update against the current settings.
+ * Only the given fields change; workingHours may also be given in part.
+ */
+export function validateSettingsUpdate(body: unknown, current: CompanySettings): SettingsValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const request: Partial<CompanySettings> = {};
+
+  if (body.timezone !== undefined) {
+    if (typeof body.timezone !== 'string' || !isValidTimezone(body.timezone)) errors.push('timezone must be an IANA time zone, e.g. Europe/Stockholm');
+    else request.timezone = body.timezone;
+  }
+  if (body.locale !== undefined) {
+    if (typeof body.locale !== 'string' || !isValidLocale(body.locale)) errors.push('locale must be a BCP 47 language tag, e.g. sv-SE');
+    else request.locale = Intl.getCanonicalLocales(body.locale)[0];
+  }
+  if (body.currency !== undefined) {
+    if (typeof body.currency !== 'string' || !CURRENCY_PATTERN.test(body.currency)) errors.push('currency must be an ISO 4217 code, e.g. SEK');
+    else request.currency = body.currency;
+  }
+  if (body.workingHours !== undefined) {
+    request.workingHours = validateWorkingHours(body.workingHours, current.workingHours, errors);
+  }
+
+  if (Object.keys(request).length === 0 && errors.length === 0) {
+    errors.push('No settings to update');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return { request, errors };
+}
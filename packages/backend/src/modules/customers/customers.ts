@@ -0,0 +1,171 @@
+/**
+ * SYLON Customers
+ * Validation of customers and their billing details, and the checks that keep
+ * customers referenced by work orders, jobs and rate cards from being deleted
+ */
+
+import type { Address, CreateCustomerRequest, Customer, CustomerContact } from '@sylon/shared';
+import { getCustomersByCompany } from '../../data/customers.js';
+import { getWorkOrdersByCompany } from '../../data/work-orders.js';
+import { getRateCardsByCompany } from '../../data/rate-cards.js';
+import { allJobs } from '../../data/jobs.js';
+
+const DEFAULT_COUNTRY = 'Sverige';
+
+// 556123-4567 or 5561234567
+const ORGANIZATION_NUMBER_PATTERN = /^\d{6}-?\d{4}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function optionalText(value: unknown, field: string, errors: string[]): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    errors.push(`${field} must be a string`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+function optionalEmail(value: unknown, field: string, errors: string[]): string | undefined {
+  const email = optionalText(value, field, errors);
+  if (email !== undefined && !/^[^\s@]+@[^\s@]+$/.test(email)) {
+    errors.push(`${field} must be an email address`);
+    return undefined;
+  }
+  return email;
+}
+
+function billingAddress(value: unknown, errors: string[]): Address | undefined {
+  if (!isRecord(value)) {
+    errors.push('billingAddress is required');
+    return undefined;
+  }
+  const missing = (['street', 'postalCode', 'city'] as const).filter(field => !isText(value[field]));
+  for (const field of missing) {
+    errors.push(`billingAddress.${field} is required`);
+  }
+  if (value.country !== undefined && !isText(value.country)) {
+    errors.push('billingAddress.country must be a non-empty string');
+  }
+  if (missing.length > 0) return undefined;
+
+  return {
+    street: (value.street as string).trim(),
+    postalCode: (value.postalCode as string).trim(),
+    city: (value.city as string).trim(),
+    country: isText(value.country) ? value.country.trim() : DEFAULT_COUNTRY,
+  };
+}
+
+function contacts(value: unknown, errors: string[]): CustomerContact[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    errors.push('contacts must be an array');
+    return [];
+  }
+
+  return value.flatMap((contact: unknown, index) => {
+    const field = `contacts[${index}]`;
+    if (!isRecord(contact) || !isText(contact.name)) {
+      errors.push(`${field}.name is required`);
+      return [];
+    }
+    return [{
+      name: contact.name.trim(),
+      role: optionalText(contact.role, `${field}.role`, errors),
+      phone: optionalText(contact.phone, `${field}.phone`, errors),
+      email: optionalEmail(contact.email, `${field}.email`, errors),
+    }];
+  });
+}
+
+/**
+ * Validate a customer, or an update merged onto the current customer. Customer
+ * numbers are unique within the company.
+ */
+export function validateCustomer(
+  body: unknown,
+  companyId: string,
+  current?: Customer
+): { request?: CreateCustomerRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const merged: Record<string, unknown> = { isActive: true, ...current, ...body };
+  const errors: string[] = [];
+
+  const { name, customerNumber, organizationNumber, isActive } = merged;
+  if (!isText(name)) {
+    errors.push('name is required');
+  }
+  if (customerNumber !== undefined && !isText(customerNumber)) {
+    errors.push('customerNumber must be a non-empty string');
+  }
+  const orgNumber = optionalText(organizationNumber, 'organizationNumber', errors);
+  if (orgNumber !== undefined && !ORGANIZATION_NUMBER_PATTERN.test(orgNumber)) {
+    errors.push('organizationNumber must be a Swedish organization number, e.g. 556123-4567');
+  }
+  if (typeof isActive !== 'boolean') {
+    errors.push('isActive must be a boolean');
+  }
+
+  const request = {
+    organizationNumber: orgNumber,
+    billingAddress: billingAddress(merged.billingAddress, errors),
+    invoiceEmail: optionalEmail(merged.invoiceEmail, 'invoiceEmail', errors),
+    contacts: contacts(merged.contacts, errors),
+    notes: optionalText(merged.notes, 'notes', errors),
+  };
+
+  const number = isText(customerNumber) ? customerNumber.trim() : undefined;
+  const duplicate = number !== undefined &&
+    getCustomersByCompany(companyId).find(c => c.id !== current?.id && c.customerNumber === number);
+  if (duplicate) {
+    errors.push(`Customer number ${number} is already used by ${duplicate.name}`);
+  }
+
+  if (errors.length > 0 || !request.billingAddress) {
+    return { errors };
+  }
+
+  return {
+    request: {
+      ...request,
+      billingAddress: request.billingAddress,
+      name: (name as string).trim(),
+      customerNumber: number,
+      isActive: isActive as boolean,
+    },
+    errors,
+  };
+}
+
+// Next customer number of the company: K-1001, K-1002, ...
+export function nextCustomerNumber(companyId: string): string {
+  let last = 1000;
+  for (const customer of getCustomersByCompany(companyId)) {
+    const match = /^K-(\d+)$/.exec(customer.customerNumber);
+    if (match) last = Math.max(last, Number(match[1]));
+  }
+  return `K-${last + 1}`;
+}
+
+/**
+ * What still refers to a customer. Invoices and work orders keep the customer's
+ * id, so a referenced customer is deactivated rather than deleted.
+ */
+export function customerReferences(customer: Customer): { workOrders: number; jobs: number; rateCards: number } {
+  const { id, companyId } = customer;
+  return {
+    workOrders: getWorkOrdersByCompany(companyId).filter(w => w.customerId === id).length,
+    jobs: allJobs.filter(j => j.companyId === companyId && (j.customerId === id || j.invoiceData?.customerId === id)).length,
+    rateCards: getRateCardsByCompany(companyId).filter(r => r.customerId === id).length,
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { DEMO_COMPANY } from '@sylon/shared';
+import { getCompanyById } from '../../data/companies.js';
+import { allJobs, getJobById } from '../../data/jobs.js';
+import { getWorkOrderById, isWithinValidity } from '../../data/work-orders.js';
+import { buildInvoice } from '../invoicing/invoices.js';
+import { validateWorkOrder } from './work-orders.js';
+
+const VALIDITY = { validFrom: new Date('2026-01-01T00:00:00Z'), validTo: new Date('2026-03-31T23:59:59Z') };
+
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+describe('isWithinValidity', () => {
+  it('covers its first and last moment and nothing outside them', () => {
+    expect(isWithinValidity(VALIDITY, VALIDITY.validFrom)).toBe(true);
+    expect(isWithinValidity(VALIDITY, VALIDITY.validTo)).toBe(true);
+    expect(isWithinValidity(VALIDITY, new Date('2025-12-31T23:59:59Z'))).toBe(false);
+    expect(isWithinValidity(VALIDITY, new Date('2026-04-01T00:00:00Z'))).toBe(false);
+  });
+
+  it('has no end without validTo', () => {
+    expect(isWithinValidity({ validFrom: VALIDITY.validFrom }, new Date('2099-01-01T00:00:00Z'))).toBe(true);
+  });
+});
+
+describe('validateWorkOrder', () => {
+  it('rejects a validity that ends before it starts and dates that do not parse', () => {
+    const { errors } = validateWorkOrder({
+      customerId: 'customer-sundsvall',
+      contractType: 'hourly',
+      validFrom: '2026-03-01T00:00:00Z',
+      validTo: '2026-02-01T00:00:00Z',
+    }, DEMO_COMPANY.id);
+
+    expect(errors).toEqual(['validTo must not be before validFrom']);
+    expect(validateWorkOrder({ customerId: 'customer-sundsvall', contractType: 'hourly', validFrom: 'soon' }, DEMO_COMPANY.id).errors)
+      .toEqual(['validFrom must be a date']);
+  });
+
+  it('does not let an update end the validity before the jobs it covers', () => {
+    const current = getWorkOrderById('wo-002')!;
+
+    const { errors } = validateWorkOrder({ validTo: daysFromNow(-1) }, DEMO_COMPANY.id, current);
+
+    expect(errors).toEqual(current.jobs.map(jobId =>
+      `Job ${getJobById(jobId)!.jobNumber} is scheduled outside the validity of the work order`
+    ));
+  });
+
+  it('accepts a validity covering the jobs and clears validTo when it is set to null', () => {
+    const current = getWorkOrderById('wo-002')!;
+    const validTo = daysFromNow(7);
+
+    expect(validateWorkOrder({ validTo }, DEMO_COMPANY.id, current))
+      .toEqual({ request: expect.objectContaining({ validTo: new Date(validTo) }), errors: [] });
+    expect(validateWorkOrder({ ...current, validTo: null }, DEMO_COMPANY.id, current).request?.validTo).toBeUndefined();
+  });
+});
+
+describe('invoices of work order jobs', () => {
+  it('warn about a job done outside the validity of its work order', () => {
+    const workOrder = getWorkOrderById('wo-002')!;
+    const job = {
+      ...allJobs.find(j => j.id === workOrder.jobs[0])!,
+      actualTime: { start: new Date('2023-06-01T07:00:00Z'), end: new Date('2023-06-01T11:00:00Z') },
+    };
+
+    const built = buildInvoice(job, getCompanyById(DEMO_COMPANY.id)!);
+
+    expect(built).toMatchObject({
+      invoice: { warnings: expect.arrayContaining([`The job was done outside the validity of work order ${workOrder.orderNumber}`]) },
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * SYLON Work Orders
+ * Validation of customer work orders and the jobs they cover, and the hours and
+ * invoiced amounts of a work order's jobs
+ */
+
+import type {
+  Company,
+  ContractType,
+  CreateWorkOrderRequest,
+  Customer,
+  InvoiceStatus,
+  Job,
+  WorkOrder,
+  WorkOrderJobSummary,
+  WorkOrderStatus,
+  WorkOrderSummary,
+} from '@sylon/shared';
+import { getCustomerById } from '../../data/customers.js';
+import { getJobById } from '../../data/jobs.js';
+import { getWorkOrderForJob, getWorkOrdersByCompany, isWithinValidity } from '../../data/work-orders.js';
+import { CONTRACT_TYPES } from '../invoicing/rate-cards.js';
+import { NON_BILLABLE_TYPES, entryHours } from '../invoicing/invoices.js';
+
+const WORK_ORDER_STATUSES: WorkOrderStatus[] = ['draft', 'active', 'completed', 'invoiced'];
+
+// Invoices in these states are numbered and no longer follow the work order
+const LOCKED_INVOICE_STATUSES: InvoiceStatus[] = ['generated', 'sent', 'paid'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (!(value instanceof Date) && typeof value !== 'string') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isCompanyCustomer(customerId: string, companyId: string): Customer | undefined {
+  const customer = getCustomerById(customerId);
+  return customer?.companyId === companyId ? customer : undefined;
+}
+
+// Checks of the jobs an order covers against the order's customer and validity
+function validateJobs(
+  jobIds: string[],
+  order: { customerId?: string; validFrom?: Date; validTo?: Date },
+  companyId: string,
+  current: WorkOrder | undefined,
+  errors: string[]
+): void {
+  for (const jobId of new Set(jobIds)) {
+    const job = getJobById(jobId);
+    if (!job || job.companyId !== companyId) {
+      errors.push(`Job ${jobId} not found`);
+      continue;
+    }
+    const other = getWorkOrderForJob(jobId);
+    if (other && other.id !== current?.id) {
+      errors.push(`Job ${job.jobNumber} is already on work order ${other.orderNumber}`);
+    }
+    if (order.customerId && job.customerId && job.customerId !== order.customerId) {
+      errors.push(`Job ${job.jobNumber} belongs to another customer`);
+    }
+    if (order.validFrom && !isWithinValidity({ validFrom: order.validFrom, validTo: order.validTo }, new Date(job.scheduledTime.start))) {
+      errors.push(`Job ${job.jobNumber} is scheduled outside the validity of the work order`);
+    }
+    if (!current?.jobs.includes(jobId) && LOCKED_INVOICE_STATUSES.includes(job.invoiceStatus)) {
+      errors.push(`Job ${job.jobNumber} is already invoiced`);
+    }
+  }
+
+  for (const jobId of current?.jobs ?? []) {
+    const job = getJobById(jobId);
+    if (!jobIds.includes(jobId) && job && LOCKED_INVOICE_STATUSES.includes(job.invoiceStatus)) {
+      errors.push(`Job ${job.jobNumber} is invoiced on this work order and cannot be removed`);
+    }
+  }
+}
+
+/**
+ * Validate a work order, or an update merged onto the current one. Order numbers
+ * are unique within the company, and a job is on at most one work order.
+ */
+export function validateWorkOrder(
+  body: unknown,
+  companyId: string,
+  current?: WorkOrder
+): { request?: CreateWorkOrderRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const merged: Record<string, unknown> = { status: 'draft', jobs: [], ...current, ...body };
+  const errors: string[] = [];
+
+  const { orderNumber, customerId, contractType, status, jobs, terms } = merged;
+  if (orderNumber !== undefined && (typeof orderNumber !== 'string' || orderNumber.trim().length === 0)) {
+    errors.push('orderNumber must be a non-empty string');
+  }
+  if (typeof customerId !== 'string' || customerId.length === 0) {
+    errors.push('customerId is required');
+  } else {
+    const customer = isCompanyCustomer(customerId, companyId);
+    if (!customer) {
+      errors.push(`Customer ${customerId} not found`);
+    } else if (!customer.isActive && customerId !== current?.customerId) {
+      errors.push(`Customer ${customer.name} is inactive`);
+    }
+  }
+  if (typeof contractType !== 'string' || !CONTRACT_TYPES.includes(contractType as ContractType)) {
+    errors.push(`contractType must be one of: ${CONTRACT_TYPES.join(', ')}`);
+  }
+  if (typeof status !== 'string' || !WORK_ORDER_STATUSES.includes(status as WorkOrderStatus)) {
+    errors.push(`status must be one of: ${WORK_ORDER_STATUSES.join(', ')}`);
+  }
+  if (terms !== undefined && terms !== null && typeof terms !== 'string') {
+    errors.push('terms must be a string');
+  }
+
+  const validFrom = parseDate(merged.validFrom);
+  if (!validFrom) {
+    errors.push('validFrom must be a date');
+  }
+  const validTo = merged.validTo === undefined || merged.validTo === null ? undefined : parseDate(merged.validTo);
+  if (merged.validTo !== undefined && merged.validTo !== null && !validTo) {
+    errors.push('validTo must be a date');
+  }
+  if (validFrom && validTo && validTo < validFrom) {
+    errors.push('validTo must not be before validFrom');
+  }
+
+  const jobIds = Array.isArray(jobs) && jobs.every(id => typeof id === 'string') ? [...new Set(jobs as string[])] : undefined;
+  if (!jobIds) {
+    errors.push('jobs must be an array of job ids');
+  } else {
+    validateJobs(jobIds, { customerId: customerId as string, validFrom, validTo }, companyId, current, errors);
+  }
+
+  const number = typeof orderNumber === 'string' ? orderNumber.trim() : undefined;
+  const duplicate = number !== undefined &&
+    getWorkOrdersByCompany(companyId).find(w => w.id !== current?.id && w.orderNumber === number);
+  if (duplicate) {
+    errors.push(`Order number ${number} is already used`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    request: {
+      orderNumber: number,
+      customerId: customerId as string,
+      jobs: jobIds as string[],
+      status: status as WorkOrderStatus,
+      validFrom: validFrom as Date,
+      validTo,
+      contractType: contractType as ContractType,
+      terms: typeof terms === 'string' && terms.trim().length > 0 ? terms.trim() : undefined,
+    },
+    errors,
+  };
+}
+
+// Next order number of the company, numbered per year: AO-2025-001, AO-2025-002, ...
+export function nextOrderNumber(companyId: string, now: Date): string {
+  const prefix = `AO-${now.getFullYear()}-`;
+  let last = 0;
+  for (const workOrder of getWorkOrdersByCompany(companyId)) {
+    if (!workOrder.orderNumber.startsWith(prefix)) continue;
+    last = Math.max(last, Number(workOrder.orderNumber.slice(prefix.length)) || 0);
+  }
+  return `${prefix}${String(last + 1).padStart(3, '0')}`;
+}
+
+/**
+ * Give the order's jobs without a customer the order's customer. Returns the
+ * jobs that changed, for saving.
+ */
+export function linkJobs(workOrder: WorkOrder): Job[] {
+  const changed: Job[] = [];
+  for (const jobId of workOrder.jobs) {
+    const job = getJobById(jobId);
+    if (job && job.customerId === undefined) {
+      job.customerId = workOrder.customerId;
+      job.updatedAt = new Date();
+      changed.push(job);
+    }
+  }
+  return changed;
+}
+
+function summarizeJob(job: Job): WorkOrderJobSummary {
+  let hours = 0;
+  let approvedHours = 0;
+  for (const entry of job.timeEntries) {
+    if (NON_BILLABLE_TYPES.includes(entry.type)) continue;
+    hours += entryHours(entry);
+    if (entry.approved) approvedHours += entryHours(entry);
+  }
+
+  return {
+    jobId: job.id,
+    jobNumber: job.jobNumber,
+    title: job.title,
+    status: job.status,
+    scheduledStart: job.scheduledTime.start,
+    hours: round(hours),
+    approvedHours: round(approvedHours),
+    invoiceStatus: job.invoiceStatus,
+    invoiceNumber: job.invoiceData?.invoiceNumber,
+    invoiceAmount: job.invoiceData?.subtotal,
+  };
+}
+
+/**
+ * Hours and invoiced amounts of each of the order's jobs, with totals. Amounts
+ * are excluding VAT; drafts are counted apart from billed invoices.
+ */
+export function summarizeWorkOrder(workOrder: WorkOrder, company: Company): WorkOrderSummary {
+  const jobs = workOrder.jobs
+    .map(jobId => getJobById(jobId))
+    .filter((job): job is Job => job !== undefined)
+    .map(summarizeJob);
+
+  const totals = { hours: 0, approvedHours: 0, draftAmount: 0, billedAmount: 0, paidAmount: 0 };
+  for (const job of jobs) {
+    totals.hours += job.hours;
+    totals.approvedHours += job.approvedHours;
+    const amount = job.invoiceAmount ?? 0;
+    if (job.invoiceStatus === 'draft') totals.draftAmount += amount;
+    if (LOCKED_INVOICE_STATUSES.includes(job.invoiceStatus)) totals.billedAmount += amount;
+    if (job.invoiceStatus === 'paid') totals.paidAmount += amount;
+  }
+
+  return {
+    workOrder,
+    customer: getCustomerById(workOrder.customerId),
+    jobs,
+    totals: {
+      hours: round(totals.hours),
+      approvedHours: round(totals.approvedHours),
+      draftAmount: round(totals.draftAmount),
+      billedAmount: round(totals.billedAmount),
+      paidAmount: round(totals.paidAmount),
+    },
+    currency: company.settings.currency,
+  };
+}
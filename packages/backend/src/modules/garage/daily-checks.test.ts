@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { DEMO_COMPANY, DEMO_SUBSIDIARY } from '@sylon/shared';
+import { getDailyChecks, recordDayStart, recordDaySummary, validateDayStart, validateDaySummary } from './daily-checks.js';
+
+function dayStart(id: string, resourceId: string, operatorId: string): Record<string, unknown> {
+  return {
+    id,
+    date: new Date().toISOString(),
+    resourceId,
+    operatorId,
+    items: [{ id: 'lights', label: 'Belysning fungerar', checked: true, required: true, category: 'vehicle' }],
+    fuelLevel: 80,
+  };
+}
+
+function daySummary(id: string, resourceId: string, operatorId: string): Record<string, unknown> {
+  const now = Date.now();
+  return {
+    id,
+    date: new Date(now).toISOString(),
+    resourceId,
+    operatorId,
+    startTime: new Date(now - 60 * 60 * 1000).toISOString(),
+    endTime: new Date(now).toISOString(),
+    totalWorkTime: 60,
+    breakTime: 0,
+    completedJobs: 1,
+    defectsReported: [],
+  };
+}
+
+describe('validateDayStart', () => {
+  it('builds the request with parsed dates', () => {
+    const { request } = validateDayStart({ ...dayStart('dc-test-valid', 'plow-truck-01', 'user-demo-001'), completedAt: '2026-01-15T06:30:00Z' });
+
+    expect(request?.date).toBeInstanceOf(Date);
+    expect(request?.completedAt).toEqual(new Date('2026-01-15T06:30:00Z'));
+    expect(request?.items[0]?.category).toBe('vehicle');
+  });
+
+  it('requires a category on each item', () => {
+    const body = dayStart('dc-test-category', 'plow-truck-01', 'user-demo-001');
+    body.items = [{ id: 'lights', label: 'Belysning fungerar', checked: true, required: true }];
+
+    expect(validateDayStart(body).request).toBeUndefined();
+  });
+
+  it('leaves out fields that are not part of the request', () => {
+    const { request } = validateDayStart({ ...dayStart('dc-test-extra', 'plow-truck-01', 'user-demo-001'), allPassed: false });
+
+    expect(request).not.toHaveProperty('allPassed');
+  });
+});
+
+describe('validateDaySummary', () => {
+  it('builds the request with parsed dates', () => {
+    const { request } = validateDaySummary(daySummary('sum-test-valid', 'plow-truck-01', 'user-demo-001'));
+
+    expect(request?.startTime).toBeInstanceOf(Date);
+    expect(request?.endTime).toBeInstanceOf(Date);
+  });
+
+  it('requires the work time counts', () => {
+    const body = daySummary('sum-test-counts', 'plow-truck-01', 'user-demo-001');
+    delete body.totalWorkTime;
+
+    expect(validateDaySummary(body).errors).toContain('totalWorkTime must be a non-negative number');
+  });
+});
+
+describe('recordDayStart', () => {
+  it('does not replace a check of another company with the same id', () => {
+    const own = validateDayStart(dayStart('dc-test-shared-id', 'plow-truck-01', 'user-demo-001')).request!;
+    const foreign = validateDayStart(dayStart('dc-test-shared-id', 'kust-plow-01', 'user-kust-driver-001')).request!;
+
+    expect('check' in recordDayStart(own, DEMO_COMPANY.id)).toBe(true);
+    const outcome = recordDayStart(foreign, DEMO_SUBSIDIARY.id);
+
+    expect('error' in outcome && outcome.error.code).toBe('DUPLICATE_ID');
+    expect(getDailyChecks({ resourceId: 'plow-truck-01' }).some(c => c.id === 'dc-test-shared-id')).toBe(true);
+  });
+});
+
+describe('recordDaySummary', () => {
+  it('does not update a shift of another company closed by the same summary id', () => {
+    const own = validateDaySummary(daySummary('sum-test-shared-id', 'plow-truck-01', 'user-demo-001')).request!;
+    const foreign = validateDaySummary(daySummary('sum-test-shared-id', 'kust-plow-01', 'user-kust-driver-001')).request!;
+
+    expect('shift' in recordDaySummary(own, DEMO_COMPANY.id)).toBe(true);
+    const outcome = recordDaySummary(foreign, DEMO_SUBSIDIARY.id);
+
+    expect('error' in outcome && outcome.error.code).toBe('DUPLICATE_ID');
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * SYLON Daily Checks & Shifts
+ * Stores pre-trip checks and shifts reported from the field app
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  ApiError,
+  DailyCheck,
+  DayStartChecklistItem,
+  DayStartRequest,
+  DaySummaryRequest,
+  Resource,
+  Shift,
+  SkippedDailyCheck,
+} from '@sylon/shared';
+import { allResources, getResourceById } from '../../data/resources.js';
+import { allJobs } from '../../data/jobs.js';
+import { getHistory } from '../gps/history.js';
+
+export interface DayStartResult {
+  check: DailyCheck;
+  shift: Shift;
+  // Set when a failed required item took the resource out of service
+  flaggedResource?: Resource;
+  failedRequiredItems: string[];
+}
+
+// A shift as stored, with the day summary that closed it
+export interface StoredShift {
+  shift: Shift;
+  daySummaryId?: string;
+}
+
+const dailyChecks: DailyCheck[] = [];
+const shifts: Shift[] = [];
+// Shift closed by each day summary, so retried syncs update the same shift
+const shiftIdsBySummary: Map<string, string> = new Map();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function requiredString(body: Record<string, unknown>, field: string, errors: string[]): string {
+  const value = body[field];
+  if (typeof value !== 'string' || value.length === 0) {
+    errors.push(`${field} is required`);
+    return '';
+  }
+  return value;
+}
+
+function optionalString(body: Record<string, unknown>, field: string, errors: string[]): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    errors.push(`${field} must be a string`);
+    return undefined;
+  }
+  return value;
+}
+
+function nonNegativeNumber(body: Record<string, unknown>, field: string, errors: string[]): number {
+  const value = body[field];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    errors.push(`${field} must be a non-negative number`);
+    return 0;
+  }
+  return value;
+}
+
+function optionalNonNegativeNumber(body: Record<string, unknown>, field: string, errors: string[]): number | undefined {
+  return body[field] === undefined || body[field] === null ? undefined : nonNegativeNumber(body, field, errors);
+}
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return startOfDay(a).getTime() === startOfDay(b).getTime();
+}
+
+function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+}
+
+function shiftOf(date: Date): DailyCheck['shift'] {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 13) return 'morning';
+  if (hour >= 13 && hour < 21) return 'evening';
+  return 'night';
+}
+
+// Fields shared by the day start and the day summary
+function validateCommon(
+  body: Record<string, unknown>,
+  errors: string[]
+): Pick<DayStartRequest, 'id' | 'date' | 'resourceId' | 'operatorId' | 'notes'> {
+  const date = parseDate(body.date);
+  if (!date) {
+    errors.push('date must be a valid date');
+  }
+  return {
+    id: requiredString(body, 'id', errors),
+    date: date ?? new Date(NaN),
+    resourceId: requiredString(body, 'resourceId', errors),
+    operatorId: requiredString(body, 'operatorId', errors),
+    notes: optionalString(body, 'notes', errors),
+  };
+}
+
+function parseChecklistItem(value: unknown, index: number, errors: string[]): DayStartChecklistItem | undefined {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.label !== 'string' ||
+      typeof value.checked !== 'boolean' || typeof value.required !== 'boolean' ||
+      typeof value.category !== 'string' || value.category.length === 0) {
+    errors.push(`items[${index}] must have id, label, checked, required and category`);
+    return undefined;
+  }
+  return { id: value.id, label: value.label, checked: value.checked, required: value.required, category: value.category };
+}
+
+// Validate a day_start checklist from the field app
+export function validateDayStart(body: unknown): { request?: DayStartRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const common = validateCommon(body, errors);
+
+  const items: DayStartChecklistItem[] = [];
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    errors.push('items must be a non-empty array');
+  } else {
+    body.items.forEach((value: unknown, index) => {
+      const item = parseChecklistItem(value, index, errors);
+      if (item) items.push(item);
+    });
+  }
+  const fuelLevel = body.fuelLevel;
+  if (typeof fuelLevel !== 'number' || !(fuelLevel >= 0 && fuelLevel <= 100)) {
+    errors.push('fuelLevel must be a number between 0 and 100');
+  }
+  const completedAt = body.completedAt === undefined || body.completedAt === null ? undefined : parseDate(body.completedAt);
+  if (body.completedAt !== undefined && body.completedAt !== null && !completedAt) {
+    errors.push('completedAt must be a valid date');
+  }
+  const odometerReading = optionalNonNegativeNumber(body, 'odometerReading', errors);
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    request: { ...common, items, fuelLevel: fuelLevel as number, odometerReading, completedAt },
+    errors,
+  };
+}
+
+// Validate a day_summary from the field app
+export function validateDaySummary(body: unknown): { request?: DaySummaryRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const common = validateCommon(body, errors);
+
+  const startTime = parseDate(body.startTime);
+  const endTime = parseDate(body.endTime);
+  if (!startTime || !endTime) {
+    errors.push('startTime and endTime must be valid dates');
+  } else if (startTime > endTime) {
+    errors.push('startTime must be before endTime');
+  }
+  const defectsReported = body.defectsReported ?? [];
+  if (!Array.isArray(defectsReported) || defectsReported.some(d => typeof d !== 'string')) {
+    errors.push('defectsReported must be an array of strings');
+  }
+  const counts = {
+    totalWorkTime: nonNegativeNumber(body, 'totalWorkTime', errors),
+    breakTime: nonNegativeNumber(body, 'breakTime', errors),
+    completedJobs: nonNegativeNumber(body, 'completedJobs', errors),
+    totalDistance: optionalNonNegativeNumber(body, 'totalDistance', errors),
+    fuelUsed: optionalNonNegativeNumber(body, 'fuelUsed', errors),
+    endOdometer: optionalNonNegativeNumber(body, 'endOdometer', errors),
+    machineHours: optionalNonNegativeNumber(body, 'machineHours', errors),
+  };
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    request: {
+      ...common,
+      ...counts,
+      startTime: startTime as Date,
+      endTime: endTime as Date,
+      defectsReported: defectsReported as string[],
+    },
+    errors,
+  };
+}
+
+function findOpenShift(resourceId: string, operatorId: string, day: Date): Shift | undefined {
+  return shifts.find(s =>
+    s.resourceId === resourceId &&
+    s.operatorId === operatorId &&
+    s.status === 'active' &&
+    isSameDay(s.timeRange.start, day)
+  );
+}
+
+function companyOf(check: DailyCheck): string | undefined {
+  return getResourceById(check.resourceId)?.companyId;
+}
+
+/**
+ * Record a completed pre-trip check and open the operator's shift.
+ * A failed required item puts the resource in maintenance so it is flagged for the garage.
+ */
+export function recordDayStart(request: DayStartRequest, companyId: string): DayStartResult | { error: ApiError } {
+  const checkedAt = request.completedAt ?? request.date;
+  const failedRequiredItems = request.items.filter(i => i.required && !i.checked).map(i => i.label);
+
+  // Retried syncs replace the earlier copy. Check ids are stored globally, so
+  // another company's check with the same id is not replaced.
+  const existingIndex = dailyChecks.findIndex(c => c.id === request.id);
+  if (existingIndex !== -1 && companyOf(dailyChecks[existingIndex]!) !== companyId) {
+    return { error: { code: 'DUPLICATE_ID', message: `Daily check id ${request.id} is already in use` } };
+  }
+  const check: DailyCheck = {
+    id: request.id,
+    resourceId: request.resourceId,
+    operatorId: request.operatorId,
+    checkDate: checkedAt,
+    shift: shiftOf(checkedAt),
+    items: request.items.map(item => ({
+      category: item.category,
+      item: item.label,
+      passed: item.checked,
+      issue: item.required && !item.checked ? 'Required item not approved' : undefined,
+    })),
+    allPassed: failedRequiredItems.length === 0,
+    issuesFound: failedRequiredItems.length,
+    notes: request.notes,
+    createdAt: existingIndex === -1 ? new Date() : dailyChecks[existingIndex]!.createdAt,
+    updatedAt: new Date(),
+  };
+  if (existingIndex === -1) {
+    dailyChecks.push(check);
+  } else {
+    dailyChecks[existingIndex] = check;
+  }
+
+  let shift = findOpenShift(request.resourceId, request.operatorId, checkedAt);
+  if (!shift) {
+    shift = {
+      id: `shift-${uuidv4()}`,
+      operatorId: request.operatorId,
+      resourceId: request.resourceId,
+      timeRange: { start: checkedAt, end: checkedAt },
+      breaks: [],
+      status: 'active',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    shifts.push(shift);
+  }
+
+  const resource = getResourceById(request.resourceId);
+  if (resource) {
+    resource.fuelStatus.currentLevel = request.fuelLevel;
+  }
+
+  let flaggedResource: Resource | undefined;
+  if (resource && failedRequiredItems.length > 0 && resource.status !== 'maintenance') {
+    resource.status = 'maintenance';
+    resource.updatedAt = new Date();
+    resource.updatedBy = 'daily-check';
+    flaggedResource = resource;
+  }
+
+  return { check, shift, flaggedResource, failedRequiredItems };
+}
+
+// Close the operator's shift from the end-of-day summary
+export function recordDaySummary(request: DaySummaryRequest, companyId: string): { shift: Shift } | { error: ApiError } {
+  const start = request.startTime;
+  const end = request.endTime;
+
+  // Summary ids are global too, so a retry only updates a shift of the same company
+  const closedShiftId = shiftIdsBySummary.get(request.id);
+  const closedShift = shifts.find(s => s.id === closedShiftId);
+  if (closedShift && getResourceById(closedShift.resourceId)?.companyId !== companyId) {
+    return { error: { code: 'DUPLICATE_ID', message: `Day summary id ${request.id} is already in use` } };
+  }
+  const existing = closedShift ?? findOpenShift(request.resourceId, request.operatorId, start);
+  const shift: Shift = existing ?? {
+    id: `shift-${uuidv4()}`,
+    operatorId: request.operatorId,
+    resourceId: request.resourceId,
+    timeRange: { start, end },
+    breaks: [],
+    status: 'completed',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  shift.timeRange = { start: shift.timeRange.start < start ? shift.timeRange.start : start, end };
+  shift.status = 'completed';
+  shift.updatedAt = new Date();
+  if (!existing) {
+    shifts.push(shift);
+  }
+  shiftIdsBySummary.set(request.id, shift.id);
+
+  return { shift };
+}
+
+export function getDailyChecks(filter: { date?: Date; resourceId?: string; operatorId?: string } = {}): DailyCheck[] {
+  return dailyChecks
+    .filter(c => !filter.date || isSameDay(c.checkDate, filter.date))
+    .filter(c => !filter.resourceId || c.resourceId === filter.resourceId)
+    .filter(c => !filter.operatorId || c.operatorId === filter.operatorId)
+    .sort((a, b) => b.checkDate.getTime() - a.checkDate.getTime());
+}
+
+export function getShifts(filter: { date?: Date; resourceId?: string; operatorId?: string } = {}): Shift[] {
+  return shifts
+    .filter(s => !filter.date || isSameDay(s.timeRange.start, filter.date))
+    .filter(s => !filter.resourceId || s.resourceId === filter.resourceId)
+    .filter(s => !filter.operatorId || s.operatorId === filter.operatorId)
+    .sort((a, b) => b.timeRange.start.getTime() - a.timeRange.start.getTime());
+}
+
+// Replace the checks with those stored in the database
+export function loadDailyChecks(stored: DailyCheck[]): void {
+  dailyChecks.splice(0, dailyChecks.length, ...stored);
+}
+
+// Replace the shifts with those stored in the database, remembering which summary closed each
+export function loadShifts(stored: StoredShift[]): void {
+  shifts.splice(0, shifts.length, ...stored.map(s => s.shift));
+  shiftIdsBySummary.clear();
+  for (const { shift, daySummaryId } of stored) {
+    if (daySummaryId) shiftIdsBySummary.set(daySummaryId, shift.id);
+  }
+}
+
+/**
+ * Find resources that were in use on a day without a pre-trip check.
+ * Use is shown by a shift, an active job assignment (today only) or device GPS.
+ */
+export function getSkippedChecks(day: Date = new Date()): SkippedDailyCheck[] {
+  const date = toDateString(day);
+  const from = startOfDay(day);
+  const to = new Date(from.getTime() + 24 * 60 * 60 * 1000 - 1);
+  const checked = new Set(getDailyChecks({ date: day }).map(c => c.resourceId));
+  const skipped: SkippedDailyCheck[] = [];
+
+  for (const resource of allResources) {
+    if (checked.has(resource.id)) continue;
+
+    const shift = getShifts({ date: day, resourceId: resource.id }).at(-1);
+    if (shift) {
+      skipped.push({ resourceId: resource.id, operatorId: shift.operatorId, date, evidence: 'shift', firstSeenAt: shift.timeRange.start });
+      continue;
+    }
+
+    const devicePoint = getHistory(resource.id, from, to).find(p => p.source === 'device');
+    if (devicePoint) {
+      skipped.push({ resourceId: resource.id, operatorId: resource.assignedOperatorId, date, evidence: 'gps', firstSeenAt: devicePoint.position.timestamp });
+      continue;
+    }
+
+    const activeToday = isSameDay(day, new Date()) && allJobs.some(job =>
+      job.status === 'in_progress' &&
+      job.assignedResources.some(a => a.resourceId === resource.id && a.status !== 'released')
+    );
+    if (activeToday) {
+      skipped.push({ resourceId: resource.id, operatorId: resource.assignedOperatorId, date, evidence: 'job' });
+    }
+  }
+
+  return skipped;
+}
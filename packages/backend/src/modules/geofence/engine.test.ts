@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DEMO_COMPANY, DEMO_QUARRY_NORTH } from '@sylon/shared';
+import { allSites } from '../../data/sites.js';
+import { evaluatePosition, getActiveFences } from './engine.js';
+
+const SUBSIDIARY_RESOURCE = 'kust-plow-01';
+const DEMO_RESOURCE = 'haul-truck-02';
+
+function positionAt(latitude: number, longitude: number, timestamp: string) {
+  return { latitude, longitude, timestamp: new Date(timestamp) };
+}
+
+describe('getActiveFences', () => {
+  it('includes the site fences of the resource company', () => {
+    const keys = getActiveFences(DEMO_RESOURCE).map(f => f.key);
+    expect(keys).toContain('site:site-quarry-north');
+  });
+
+  it('leaves out the sites of other companies', () => {
+    const demoSiteKeys = allSites.filter(s => s.companyId === DEMO_COMPANY.id).map(s => `site:${s.id}`);
+    const keys = getActiveFences(SUBSIDIARY_RESOURCE).map(f => f.key);
+    expect(keys.filter(key => demoSiteKeys.includes(key))).toEqual([]);
+  });
+
+  it('has no fences for unknown resources', () => {
+    expect(getActiveFences('no-such-resource')).toEqual([]);
+  });
+});
+
+describe('evaluatePosition', () => {
+  const outside = positionAt(DEMO_QUARRY_NORTH.latitude + 0.05, DEMO_QUARRY_NORTH.longitude, '2025-01-14T08:00:00Z');
+  const inside = positionAt(DEMO_QUARRY_NORTH.latitude, DEMO_QUARRY_NORTH.longitude, '2025-01-14T08:05:00Z');
+
+  it('reports entering a site of the resource company', () => {
+    evaluatePosition(DEMO_RESOURCE, outside);
+    const transitions = evaluatePosition(DEMO_RESOURCE, inside);
+    expect(transitions.map(t => [t.fence.key, t.action])).toContainEqual(['site:site-quarry-north', 'enter']);
+  });
+
+  it('reports nothing when a resource drives into another company site', () => {
+    evaluatePosition(SUBSIDIARY_RESOURCE, outside);
+    const transitions = evaluatePosition(SUBSIDIARY_RESOURCE, inside);
+    expect(transitions.filter(t => t.fence.kind === 'site')).toEqual([]);
+  });
+});
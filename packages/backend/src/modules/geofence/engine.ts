@@ -0,0 +1,200 @@
+/**
+ * SYLON Geofence Engine
+ * Evaluates resource positions against site and job geofences
+ */
+
+import type { Coordinates, GeoFence, GeoPosition, WebSocketEvent } from '@sylon/shared';
+import { calculateDistance, isPointInPolygon } from '@sylon/shared';
+import { allSites } from '../../data/sites.js';
+import { allJobs } from '../../data/jobs.js';
+import { getResourceById } from '../../data/resources.js';
+
+// A resource must move this far outside a fence before it counts as having left.
+// Prevents a vehicle parked on the boundary from flapping between enter and exit.
+const EXIT_HYSTERESIS_METERS = 25;
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Job statuses for which the job location geofence is evaluated
+const ACTIVE_JOB_STATUSES = ['assigned', 'in_progress', 'paused'];
+
+export type GeofenceAction = 'enter' | 'exit';
+
+export interface ActiveFence {
+  key: string;
+  kind: 'site' | 'job';
+  entityId: string;
+  fence: GeoFence;
+}
+
+export interface GeofenceTransition {
+  fence: ActiveFence;
+  resourceId: string;
+  action: GeofenceAction;
+  position: GeoPosition;
+}
+
+// Inside/outside state per resource and fence key
+const fenceStates: Map<string, Map<string, boolean>> = new Map();
+const lastEvaluatedAt: Map<string, number> = new Map();
+
+// Distance in meters from a point to a segment, using a local flat projection
+function distanceToSegment(point: Coordinates, start: Coordinates, end: Coordinates): number {
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos((point.latitude * Math.PI) / 180);
+  const px = (point.longitude - start.longitude) * metersPerDegreeLon;
+  const py = (point.latitude - start.latitude) * METERS_PER_DEGREE_LAT;
+  const ex = (end.longitude - start.longitude) * metersPerDegreeLon;
+  const ey = (end.latitude - start.latitude) * METERS_PER_DEGREE_LAT;
+
+  const lengthSquared = ex * ex + ey * ey;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (px * ex + py * ey) / lengthSquared));
+  const dx = px - t * ex;
+  const dy = py - t * ey;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * Signed distance in meters from a point to the fence boundary.
+ * Negative inside the fence, positive outside.
+ */
+export function signedDistanceToFence(point: Coordinates, fence: GeoFence): number | undefined {
+  if (fence.type === 'circle') {
+    if (!fence.center || fence.radius === undefined) return undefined;
+    return calculateDistance(point, fence.center) * 1000 - fence.radius;
+  }
+
+  const vertices = fence.vertices ?? [];
+  if (vertices.length < 3) return undefined;
+
+  let edgeDistance = Infinity;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    edgeDistance = Math.min(edgeDistance, distanceToSegment(point, vertices[j]!, vertices[i]!));
+  }
+  return isPointInPolygon(point, vertices) ? -edgeDistance : edgeDistance;
+}
+
+// Collect the fences that apply to a resource: its company's site fences plus its active job locations
+export function getActiveFences(resourceId: string): ActiveFence[] {
+  const resource = getResourceById(resourceId);
+  if (!resource) return [];
+
+  const fences: ActiveFence[] = [];
+
+  for (const site of allSites) {
+    if (site.companyId === resource.companyId && site.geofence && site.status !== 'closed') {
+      fences.push({ key: `site:${site.id}`, kind: 'site', entityId: site.id, fence: site.geofence });
+    }
+  }
+
+  for (const job of allJobs) {
+    const geofence = job.location.geofence;
+    if (job.companyId !== resource.companyId || !geofence || !ACTIVE_JOB_STATUSES.includes(job.status)) continue;
+
+    const assigned = job.assignedResources.some(
+      a => a.resourceId === resourceId && (a.status === 'assigned' || a.status === 'active')
+    );
+    if (!assigned) continue;
+
+    fences.push({
+      key: `job:${job.id}`,
+      kind: 'job',
+      entityId: job.id,
+      fence: {
+        id: `gf-${job.id}`,
+        name: job.location.name,
+        type: 'circle',
+        center: geofence.coordinates,
+        radius: geofence.radius,
+        alertOnEnter: true,
+        alertOnExit: true,
+      },
+    });
+  }
+
+  return fences;
+}
+
+/**
+ * Evaluate a position against all applicable fences and return enter/exit transitions.
+ * The first position seen for a resource only establishes its state.
+ */
+export function evaluatePosition(resourceId: string, position: GeoPosition): GeofenceTransition[] {
+  const time = position.timestamp.getTime();
+  const lastTime = lastEvaluatedAt.get(resourceId);
+  // Late readings from offline backfill must not rewind the fence state
+  if (lastTime !== undefined && time < lastTime) {
+    return [];
+  }
+  lastEvaluatedAt.set(resourceId, time);
+
+  let states = fenceStates.get(resourceId);
+  if (!states) {
+    states = new Map();
+    fenceStates.set(resourceId, states);
+  }
+
+  const transitions: GeofenceTransition[] = [];
+  const fences = getActiveFences(resourceId);
+  const activeKeys = new Set(fences.map(f => f.key));
+
+  for (const activeFence of fences) {
+    const distance = signedDistanceToFence(position, activeFence.fence);
+    if (distance === undefined) continue;
+
+    const wasInside = states.get(activeFence.key);
+    if (wasInside === undefined) {
+      states.set(activeFence.key, distance <= 0);
+      continue;
+    }
+
+    if (!wasInside && distance <= 0) {
+      states.set(activeFence.key, true);
+      transitions.push({ fence: activeFence, resourceId, action: 'enter', position });
+    } else if (wasInside && distance > EXIT_HYSTERESIS_METERS) {
+      states.set(activeFence.key, false);
+      transitions.push({ fence: activeFence, resourceId, action: 'exit', position });
+    }
+  }
+
+  // Forget fences that no longer apply, e.g. completed jobs
+  for (const key of states.keys()) {
+    if (!activeKeys.has(key)) {
+      states.delete(key);
+    }
+  }
+
+  return transitions;
+}
+
+// Check whether a resource is currently inside a fence
+export function isInsideFence(resourceId: string, fenceKey: string): boolean {
+  return fenceStates.get(resourceId)?.get(fenceKey) ?? false;
+}
+
+// Convert a transition into the WebSocket events broadcast to clients
+export function transitionToEvents(transition: GeofenceTransition): WebSocketEvent[] {
+  const { fence, resourceId, action } = transition;
+  const events: WebSocketEvent[] = [];
+
+  if (fence.kind === 'site') {
+    events.push({
+      type: 'SITE_VISIT',
+      data: { siteId: fence.entityId, resourceId, action },
+    });
+  }
+
+  const shouldAlert = action === 'enter' ? fence.fence.alertOnEnter : fence.fence.alertOnExit;
+  if (shouldAlert) {
+    const resourceName = getResourceById(resourceId)?.name ?? resourceId;
+    events.push({
+      type: 'ALERT',
+      data: {
+        type: `geofence_${action}`,
+        message: `${resourceName} ${action === 'enter' ? 'entered' : 'left'} ${fence.fence.name}`,
+        severity: 'info',
+      },
+    });
+  }
+
+  return events;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { getHistory, getHistoryStart, HISTORY_RETENTION_MS, recordPosition, type PositionSource } from './history.js';
+import { buildTrack } from './track.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function record(resourceId: string, time: number, source: PositionSource = 'device'): void {
+  recordPosition(resourceId, {
+    position: { latitude: 59.3, longitude: 18.0, timestamp: new Date(time) },
+    source,
+  });
+}
+
+describe('getHistoryStart', () => {
+  it('starts at the retention period', () => {
+    const before = Date.now();
+    const start = getHistoryStart('history-test-retained').getTime();
+
+    expect(start).toBeGreaterThanOrEqual(before - HISTORY_RETENTION_MS);
+    expect(start).toBeLessThanOrEqual(Date.now() - HISTORY_RETENTION_MS);
+  });
+
+  it('starts after the points dropped by the point cap', () => {
+    const first = Date.now() - HOUR_MS;
+    for (let i = 0; i <= 20000; i++) {
+      record('history-test-capped', first + i * 100);
+    }
+
+    expect(getHistory('history-test-capped')).toHaveLength(20000);
+    expect(getHistoryStart('history-test-capped').getTime()).toBe(first + 1);
+  });
+});
+
+describe('simulated history', () => {
+  it('keeps a simulated point every 10 seconds for the whole retention period', () => {
+    const last = Date.now();
+    const first = last - HISTORY_RETENTION_MS + HOUR_MS;
+    for (let time = first; time <= last; time += 2000) {
+      record('history-test-simulated', time, 'simulation');
+    }
+
+    const points = getHistory('history-test-simulated');
+
+    expect(points[0]!.position.timestamp.getTime()).toBe(first);
+    expect(points).toHaveLength(Math.floor((last - first) / 10_000) + 1);
+    expect(getHistoryStart('history-test-simulated').getTime()).toBeLessThanOrEqual(first);
+  });
+
+  it('gives a resource that has reported from a device only its device readings', () => {
+    const first = Date.now() - HOUR_MS;
+    record('history-test-mixed', first, 'simulation');
+    record('history-test-mixed', first + 1000);
+
+    expect(getHistory('history-test-mixed').map(p => p.source)).toEqual(['device']);
+  });
+});
+
+describe('buildTrack', () => {
+  it('cuts a window reaching back before the kept history', () => {
+    const first = Date.now() - HOUR_MS;
+    for (let i = 0; i <= 20000; i++) {
+      record('history-test-track', first + i * 100);
+    }
+
+    const track = buildTrack('history-test-track', new Date(first - HOUR_MS), new Date(), 0);
+
+    expect(track.from).toEqual(getHistoryStart('history-test-track'));
+    expect(track.originalPointCount).toBe(20000);
+  });
+});
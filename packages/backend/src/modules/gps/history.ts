@@ -0,0 +1,179 @@
+/**
+ * SYLON GPS Position History
+ * Time-ordered position history per resource, fed by device readings and the simulation.
+ * Simulated points are kept apart, so they never push device readings out of the point cap.
+ */
+
+import type { GeoPosition, GpsReading } from '@sylon/shared';
+
+export type PositionSource = 'device' | 'simulation';
+
+export interface HistoryPoint {
+  position: GeoPosition;
+  source: PositionSource;
+  readingId?: string;
+  engineOn?: boolean;
+}
+
+// Keep one day of history and cap the number of device points per resource
+export const HISTORY_RETENTION_MS = 24 * 60 * 60 * 1000;
+const MAX_POINTS_PER_RESOURCE = 20000;
+// The simulation moves every 2 seconds; a point every 10 seconds is kept, 8640 points a day
+const SIMULATION_SAMPLE_MS = 10 * 1000;
+
+export type PositionListener = (resourceId: string, point: HistoryPoint) => void;
+
+const historyByResource: Map<string, HistoryPoint[]> = new Map();
+const simulatedByResource: Map<string, HistoryPoint[]> = new Map();
+const latestDevicePositions: Map<string, GeoPosition> = new Map();
+// Time of the newest point dropped to keep within the point cap, per resource
+const cappedUntil: Map<string, number> = new Map();
+const positionListeners: Set<PositionListener> = new Set();
+
+// Find the index where a point with the given timestamp should be inserted
+function findInsertIndex(points: HistoryPoint[], time: number): number {
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (points[mid]!.position.timestamp.getTime() <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function prune(resourceId: string, points: HistoryPoint[]): void {
+  const cutoff = Date.now() - HISTORY_RETENTION_MS;
+  let stale = 0;
+  while (stale < points.length && points[stale]!.position.timestamp.getTime() < cutoff) {
+    stale++;
+  }
+  const overflow = points.length - stale - MAX_POINTS_PER_RESOURCE;
+  const toRemove = stale + Math.max(0, overflow);
+  if (overflow > 0) {
+    cappedUntil.set(resourceId, points[toRemove - 1]!.position.timestamp.getTime());
+  }
+  if (toRemove > 0) {
+    points.splice(0, toRemove);
+  }
+}
+
+// Check if a point already exists for the resource at exactly this timestamp
+export function hasPositionAt(resourceId: string, timestamp: Date): boolean {
+  const points = historyByResource.get(resourceId);
+  if (!points || points.length === 0) return false;
+  const index = findInsertIndex(points, timestamp.getTime()) - 1;
+  return index >= 0 && points[index]!.position.timestamp.getTime() === timestamp.getTime();
+}
+
+// Simulated points arrive in order; only one per sample interval is kept
+function recordSimulatedPoint(resourceId: string, point: HistoryPoint): void {
+  let points = simulatedByResource.get(resourceId);
+  if (!points) {
+    points = [];
+    simulatedByResource.set(resourceId, points);
+  }
+
+  const last = points.at(-1);
+  if (last && point.position.timestamp.getTime() - last.position.timestamp.getTime() < SIMULATION_SAMPLE_MS) {
+    return;
+  }
+  points.push(point);
+
+  const cutoff = Date.now() - HISTORY_RETENTION_MS;
+  const stale = points.findIndex(p => p.position.timestamp.getTime() >= cutoff);
+  points.splice(0, stale === -1 ? points.length : stale);
+}
+
+// Record a position, keeping history sorted even when readings arrive out of order
+export function recordPosition(resourceId: string, point: HistoryPoint): void {
+  if (point.source === 'simulation') {
+    recordSimulatedPoint(resourceId, point);
+    positionListeners.forEach(listener => listener(resourceId, point));
+    return;
+  }
+
+  let points = historyByResource.get(resourceId);
+  if (!points) {
+    points = [];
+    historyByResource.set(resourceId, points);
+  }
+
+  const time = point.position.timestamp.getTime();
+  const index = findInsertIndex(points, time);
+  points.splice(index, 0, point);
+  prune(resourceId, points);
+
+  const latest = latestDevicePositions.get(resourceId);
+  if (!latest || latest.timestamp.getTime() <= time) {
+    latestDevicePositions.set(resourceId, point.position);
+  }
+
+  positionListeners.forEach(listener => listener(resourceId, point));
+}
+
+// Load stored device readings, e.g. at startup, without notifying listeners
+export function loadHistory(readings: GpsReading[]): void {
+  for (const reading of readings) {
+    if (hasPositionAt(reading.resourceId, reading.position.timestamp)) continue;
+
+    let points = historyByResource.get(reading.resourceId);
+    if (!points) {
+      points = [];
+      historyByResource.set(reading.resourceId, points);
+    }
+    const time = reading.position.timestamp.getTime();
+    points.splice(findInsertIndex(points, time), 0, {
+      position: reading.position,
+      source: 'device',
+      readingId: reading.id,
+      engineOn: reading.engineOn,
+    });
+    prune(reading.resourceId, points);
+
+    const latest = latestDevicePositions.get(reading.resourceId);
+    if (!latest || latest.timestamp.getTime() <= time) {
+      latestDevicePositions.set(reading.resourceId, reading.position);
+    }
+  }
+}
+
+// Subscribe to recorded positions, e.g. for geofence evaluation
+export function onPositionRecorded(listener: PositionListener): () => void {
+  positionListeners.add(listener);
+  return () => positionListeners.delete(listener);
+}
+
+/**
+ * Get history for a resource, optionally limited to a time window. Resources
+ * that have reported from a device get their device readings, others the simulation.
+ */
+export function getHistory(resourceId: string, from?: Date, to?: Date): HistoryPoint[] {
+  const points = (hasDevicePositions(resourceId) ? historyByResource.get(resourceId) : simulatedByResource.get(resourceId)) ?? [];
+  const start = from ? findInsertIndex(points, from.getTime() - 1) : 0;
+  const end = to ? findInsertIndex(points, to.getTime()) : points.length;
+  return points.slice(start, end);
+}
+
+/**
+ * Start of the history kept for a resource: the retention period, or later
+ * when older device points were dropped to stay within the point cap
+ */
+export function getHistoryStart(resourceId: string): Date {
+  const retainedFrom = Date.now() - HISTORY_RETENTION_MS;
+  const capped = hasDevicePositions(resourceId) ? cappedUntil.get(resourceId) : undefined;
+  return new Date(capped !== undefined ? Math.max(retainedFrom, capped + 1) : retainedFrom);
+}
+
+// Get the most recent position reported by a real device
+export function getLatestDevicePosition(resourceId: string): GeoPosition | undefined {
+  return latestDevicePositions.get(resourceId);
+}
+
+// Check if a resource has ever reported from a real device
+export function hasDevicePositions(resourceId: string): boolean {
+  return latestDevicePositions.has(resourceId);
+}
@@ -0,0 +1,182 @@
+/**
+ * SYLON GPS Ingestion
+ * Validates and stores GPS batches reported by field devices
+ */
+
+import type { GpsBatch, GpsReading, GeoPosition, GpsBatchResult } from '@sylon/shared';
+import { hasPositionAt, recordPosition } from './history.js';
+
+// Allow some clock skew between devices and the server
+const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000;
+// How long reading ids are remembered for replay detection
+const SEEN_READING_TTL_MS = 24 * 60 * 60 * 1000;
+
+const seenReadingIds: Map<string, number> = new Map();
+
+export interface GpsBatchValidationResult {
+  batch?: GpsBatch;
+  errors: string[];
+}
+
+interface ReadingValidationResult {
+  reading?: GpsReading;
+  reason?: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function parsePosition(value: unknown): GeoPosition | string {
+  if (!isRecord(value)) {
+    return 'position is required';
+  }
+  const { latitude, longitude } = value;
+  if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+    return 'position.latitude must be a number between -90 and 90';
+  }
+  if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+    return 'position.longitude must be a number between -180 and 180';
+  }
+  const timestamp = parseDate(value.timestamp);
+  if (!timestamp) {
+    return 'position.timestamp must be a valid date';
+  }
+  if (timestamp.getTime() > Date.now() + MAX_FUTURE_SKEW_MS) {
+    return 'position.timestamp is in the future';
+  }
+
+  return {
+    latitude,
+    longitude,
+    timestamp,
+    altitude: optionalNumber(value.altitude),
+    accuracy: optionalNumber(value.accuracy),
+    speed: optionalNumber(value.speed),
+    heading: optionalNumber(value.heading),
+  };
+}
+
+function parseReading(value: unknown, resourceId: string): ReadingValidationResult {
+  if (!isRecord(value)) {
+    return { reason: 'reading must be an object' };
+  }
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    return { reason: 'id is required' };
+  }
+  if (value.resourceId !== undefined && value.resourceId !== resourceId) {
+    return { reason: 'resourceId does not match batch resourceId' };
+  }
+  if (value.engineOn !== undefined && typeof value.engineOn !== 'boolean') {
+    return { reason: 'engineOn must be a boolean' };
+  }
+  const position = parsePosition(value.position);
+  if (typeof position === 'string') {
+    return { reason: position };
+  }
+
+  return {
+    reading: {
+      id: value.id,
+      resourceId,
+      position,
+      engineOn: value.engineOn as boolean | undefined,
+      fuelLevel: optionalNumber(value.fuelLevel),
+      odometerKm: optionalNumber(value.odometerKm),
+      engineHours: optionalNumber(value.engineHours),
+    },
+  };
+}
+
+// Validate the envelope of a GPS batch. Individual readings are validated during ingestion.
+export function validateGpsBatch(body: unknown): GpsBatchValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be a GPS batch object'] };
+  }
+  if (typeof body.resourceId !== 'string' || body.resourceId.length === 0) {
+    errors.push('resourceId is required');
+  }
+  if (!Array.isArray(body.readings)) {
+    errors.push('readings must be an array');
+  }
+  const batchedAt = parseDate(body.batchedAt);
+  if (!batchedAt) {
+    errors.push('batchedAt must be a valid date');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    batch: {
+      resourceId: body.resourceId as string,
+      readings: body.readings as GpsReading[],
+      batchedAt: batchedAt as Date,
+    },
+    errors,
+  };
+}
+
+function pruneSeenReadings(): void {
+  const cutoff = Date.now() - SEEN_READING_TTL_MS;
+  for (const [id, seenAt] of seenReadingIds) {
+    if (seenAt >= cutoff) break;
+    seenReadingIds.delete(id);
+  }
+}
+
+// Store the readings of a validated batch, skipping replays and invalid readings.
+// The accepted readings are returned for persistence.
+export function ingestGpsBatch(batch: GpsBatch): { result: GpsBatchResult; accepted: GpsReading[] } {
+  const accepted: GpsReading[] = [];
+  const result: GpsBatchResult = {
+    resourceId: batch.resourceId,
+    accepted: 0,
+    duplicates: 0,
+    rejected: [],
+    syncedAt: new Date(),
+  };
+
+  pruneSeenReadings();
+
+  batch.readings.forEach((raw, index) => {
+    const { reading, reason } = parseReading(raw, batch.resourceId);
+    if (!reading) {
+      result.rejected.push({ index, reason: reason ?? 'invalid reading' });
+      return;
+    }
+
+    // A replayed batch may carry the same ids, or regenerated ids for the same fix
+    if (seenReadingIds.has(reading.id) || hasPositionAt(batch.resourceId, reading.position.timestamp)) {
+      result.duplicates++;
+      return;
+    }
+
+    seenReadingIds.set(reading.id, Date.now());
+    recordPosition(batch.resourceId, {
+      position: reading.position,
+      source: 'device',
+      readingId: reading.id,
+      engineOn: reading.engineOn,
+    });
+    accepted.push(reading);
+    result.accepted++;
+  });
+
+  return { result, accepted };
+}
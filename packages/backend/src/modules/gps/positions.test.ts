@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { GeoPosition } from '@sylon/shared';
+import { recordPosition } from './history.js';
+import { mergeDevicePositions } from './positions.js';
+
+const MINUTE_MS = 60 * 1000;
+
+function position(latitude: number, time: number): GeoPosition {
+  return { latitude, longitude: 18.0, timestamp: new Date(time) };
+}
+
+describe('mergeDevicePositions', () => {
+  it('prefers a device that reported recently', () => {
+    const device = position(59.1, Date.now() - MINUTE_MS);
+    recordPosition('positions-test-live', { position: device, source: 'device' });
+
+    const merged = mergeDevicePositions(new Map([['positions-test-live', position(59.9, Date.now())]]));
+
+    expect(merged.get('positions-test-live')).toEqual(device);
+  });
+
+  it('falls back to the simulation when the device has gone quiet', () => {
+    recordPosition('positions-test-quiet', { position: position(59.1, Date.now() - 10 * MINUTE_MS), source: 'device' });
+    const simulated = position(59.9, Date.now());
+
+    const merged = mergeDevicePositions(new Map([['positions-test-quiet', simulated]]));
+
+    expect(merged.get('positions-test-quiet')).toEqual(simulated);
+  });
+});
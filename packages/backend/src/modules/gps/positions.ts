@@ -0,0 +1,49 @@
+/**
+ * SYLON Live Positions
+ * Merges real device positions with simulated positions
+ */
+
+import type { GeoPosition } from '@sylon/shared';
+import { getAllPositions, getResourcePosition } from './simulation.js';
+import { getLatestDevicePosition, hasDevicePositions, recordPosition } from './history.js';
+
+// A device that has not reported for this long hands its resource back to the simulation
+const DEVICE_POSITION_TIMEOUT_MS = 5 * 60 * 1000;
+
+// The latest device position, unless the device has gone quiet
+function getLiveDevicePosition(resourceId: string): GeoPosition | undefined {
+  const position = getLatestDevicePosition(resourceId);
+  if (!position || Date.now() - position.timestamp.getTime() > DEVICE_POSITION_TIMEOUT_MS) {
+    return undefined;
+  }
+  return position;
+}
+
+// Get current position for a resource, preferring live device data over the simulation
+export function getCurrentPosition(resourceId: string): GeoPosition | undefined {
+  return getLiveDevicePosition(resourceId) ?? getResourcePosition(resourceId);
+}
+
+// Overlay live device positions on a map of simulated positions
+export function mergeDevicePositions(simulated: Map<string, GeoPosition>): Map<string, GeoPosition> {
+  const positions = new Map<string, GeoPosition>();
+  simulated.forEach((position, resourceId) => {
+    positions.set(resourceId, getLiveDevicePosition(resourceId) ?? position);
+  });
+  return positions;
+}
+
+// Get current positions for all resources
+export function getCurrentPositions(): Map<string, GeoPosition> {
+  return mergeDevicePositions(getAllPositions());
+}
+
+// Record simulated positions in the history for resources without a real device.
+// A quiet device may still sync readings it kept offline, so its history stays device-only.
+export function recordSimulatedPositions(simulated: Map<string, GeoPosition>): void {
+  simulated.forEach((position, resourceId) => {
+    if (!hasDevicePositions(resourceId)) {
+      recordPosition(resourceId, { position, source: 'simulation' });
+    }
+  });
+}
@@ -0,0 +1,165 @@
+/**
+ * SYLON GPS Track Builder
+ * Builds simplified tracks with stop detection from the position history
+ */
+
+import type { Coordinates, GeoPosition, ResourceTrack, TrackStop } from '@sylon/shared';
+import { calculateDistance } from '@sylon/shared';
+import { getHistory, getHistoryStart } from './history.js';
+
+export interface StopDetectionOptions {
+  radius: number; // meters
+  minDuration: number; // seconds
+}
+
+const DEFAULT_STOP_OPTIONS: StopDetectionOptions = {
+  radius: 30,
+  minDuration: 180,
+};
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Distance in meters from a point to a segment, using a local flat projection
+function perpendicularDistance(point: Coordinates, start: Coordinates, end: Coordinates): number {
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos((start.latitude * Math.PI) / 180);
+  const px = (point.longitude - start.longitude) * metersPerDegreeLon;
+  const py = (point.latitude - start.latitude) * METERS_PER_DEGREE_LAT;
+  const ex = (end.longitude - start.longitude) * metersPerDegreeLon;
+  const ey = (end.latitude - start.latitude) * METERS_PER_DEGREE_LAT;
+
+  const lengthSquared = ex * ex + ey * ey;
+  if (lengthSquared === 0) {
+    return Math.sqrt(px * px + py * py);
+  }
+
+  const t = Math.max(0, Math.min(1, (px * ex + py * ey) / lengthSquared));
+  const dx = px - t * ex;
+  const dy = py - t * ey;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * Simplify a track with the Ramer-Douglas-Peucker algorithm.
+ * Tolerance is the max deviation in meters from the original path.
+ */
+export function simplifyTrack(points: GeoPosition[], tolerance: number): GeoPosition[] {
+  if (points.length <= 2 || tolerance <= 0) {
+    return [...points];
+  }
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to avoid deep recursion on long tracks
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = perpendicularDistance(points[i]!, points[first]!, points[last]!);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Detect stops: periods where the resource stayed within a radius
+ * for at least the minimum duration.
+ */
+export function detectStops(
+  points: GeoPosition[],
+  options: StopDetectionOptions = DEFAULT_STOP_OPTIONS
+): TrackStop[] {
+  const stops: TrackStop[] = [];
+  const radiusKm = options.radius / 1000;
+  let i = 0;
+
+  while (i < points.length) {
+    const anchor = points[i]!;
+    let j = i + 1;
+    while (j < points.length && calculateDistance(anchor, points[j]!) <= radiusKm) {
+      j++;
+    }
+
+    const last = points[j - 1]!;
+    const duration = (last.timestamp.getTime() - anchor.timestamp.getTime()) / 1000;
+
+    if (duration >= options.minDuration) {
+      const cluster = points.slice(i, j);
+      stops.push({
+        coordinates: {
+          latitude: cluster.reduce((sum, p) => sum + p.latitude, 0) / cluster.length,
+          longitude: cluster.reduce((sum, p) => sum + p.longitude, 0) / cluster.length,
+        },
+        arrivedAt: anchor.timestamp,
+        departedAt: last.timestamp,
+        duration: Math.round(duration),
+      });
+      i = j;
+    } else {
+      i++;
+    }
+  }
+
+  return stops;
+}
+
+// Total distance along a track in km
+export function calculateTrackDistance(points: GeoPosition[]): number {
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) {
+    distance += calculateDistance(points[i - 1]!, points[i]!);
+  }
+  return distance;
+}
+
+/**
+ * Build a track for a resource within a time window from the kept history. A window
+ * reaching back before the kept history is cut to it, and the track's from says where it starts.
+ */
+export function buildTrack(
+  resourceId: string,
+  from: Date,
+  to: Date,
+  tolerance: number,
+  stopOptions: StopDetectionOptions = DEFAULT_STOP_OPTIONS
+): ResourceTrack {
+  const historyStart = getHistoryStart(resourceId);
+  const start = from < historyStart ? historyStart : from;
+  const points = getHistory(resourceId, start, to).map(p => p.position);
+  return buildTrackFromPositions(resourceId, start, to, points, tolerance, stopOptions);
+}
+
+// Build a track from time-ordered positions, such as the stored readings of a device
+export function buildTrackFromPositions(
+  resourceId: string,
+  from: Date,
+  to: Date,
+  points: GeoPosition[],
+  tolerance: number,
+  stopOptions: StopDetectionOptions = DEFAULT_STOP_OPTIONS
+): ResourceTrack {
+  return {
+    resourceId,
+    from,
+    to,
+    tolerance,
+    points: simplifyTrack(points, tolerance),
+    stops: detectStops(points, stopOptions),
+    distance: Math.round(calculateTrackDistance(points) * 100) / 100,
+    originalPointCount: points.length,
+  };
+}
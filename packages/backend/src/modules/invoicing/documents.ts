@@ -0,0 +1,122 @@
+/**
+ * SYLON Invoice Documents
+ * The parties, references and codes that the PDF and e-invoice exports of a
+ * generated invoice share
+ */
+
+import type { Address, ApiError, Company, InvoiceData, Job } from '@sylon/shared';
+import { getWorkOrderById } from '../../data/work-orders.js';
+import { getCustomerById } from '../../data/customers.js';
+
+export interface InvoiceBuyer {
+  id?: string;
+  name: string;
+  organizationNumber?: string;
+  address?: Address;
+  email?: string;
+}
+
+// A generated invoice with everything needed to print or send it
+export interface InvoiceDocument {
+  job: Job;
+  invoice: InvoiceData & { invoiceNumber: string };
+  seller: Company;
+  buyer: InvoiceBuyer;
+  orderNumber?: string;
+  issueDate: Date;
+  dueDate?: Date;
+}
+
+const COUNTRY_CODES: Record<string, string> = {
+  sverige: 'SE',
+  sweden: 'SE',
+  norge: 'NO',
+  norway: 'NO',
+  finland: 'FI',
+  danmark: 'DK',
+  denmark: 'DK',
+};
+
+// UN/ECE Recommendation 20 codes for the units used on line items
+const UNIT_CODES: Record<string, string> = {
+  tim: 'HUR',
+  h: 'HUR',
+  st: 'C62',
+  ton: 'TNE',
+  m3: 'MTQ',
+  kg: 'KGM',
+};
+
+// ISO 3166 code of an address country written out in Swedish or English, undefined when unknown
+export function countryCode(country: string | undefined): string | undefined {
+  if (!country) return undefined;
+  if (/^[A-Z]{2}$/.test(country)) return country;
+  return COUNTRY_CODES[country.trim().toLowerCase()];
+}
+
+export function unitCode(unit: string): string {
+  return UNIT_CODES[unit.toLowerCase()] ?? 'C62';
+}
+
+// "556123-4567" as the ten digits used by the 0007 identifier scheme
+export function organizationDigits(organizationNumber: string): string {
+  return organizationNumber.replace(/\D/g, '');
+}
+
+// Swedish VAT numbers are the organization number between SE and 01
+export function vatNumber(organizationNumber: string): string {
+  return `SE${organizationDigits(organizationNumber)}01`;
+}
+
+// Calendar date in the company's time zone, as YYYY-MM-DD
+export function isoDate(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('sv-SE', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+// The invoiced customer's billing details; invoices without a customer go to the job's location
+function invoiceBuyer(job: Job, invoice: InvoiceData): InvoiceBuyer {
+  const customer = invoice.customerId ? getCustomerById(invoice.customerId) : undefined;
+  if (!customer || customer.companyId !== job.companyId) {
+    return { id: invoice.customerId, name: job.location.name };
+  }
+  return {
+    id: customer.customerNumber,
+    name: customer.name,
+    organizationNumber: customer.organizationNumber,
+    address: customer.billingAddress,
+    email: customer.invoiceEmail,
+  };
+}
+
+/**
+ * Collect what an export of a job's invoice needs. Drafts cannot be exported,
+ * as they have no invoice number and may still change.
+ */
+export function prepareInvoiceDocument(job: Job, company: Company): { document: InvoiceDocument } | { error: ApiError } {
+  const invoice = job.invoiceData;
+  if (job.invoiceStatus === 'pending' || job.invoiceStatus === 'draft' || !invoice?.invoiceNumber) {
+    return {
+      error: {
+        code: 'INVOICE_NOT_GENERATED',
+        message: 'Only generated invoices can be exported',
+        details: { status: job.invoiceStatus },
+      },
+    };
+  }
+
+  // Only the company's own work orders are referenced
+  const workOrder = invoice.workOrderId ? getWorkOrderById(invoice.workOrderId) : undefined;
+
+  return {
+    document: {
+      job,
+      invoice: { ...invoice, invoiceNumber: invoice.invoiceNumber },
+      seller: company,
+      buyer: invoiceBuyer(job, invoice),
+      orderNumber: workOrder?.companyId === job.companyId ? workOrder.orderNumber : undefined,
+      // Read back from the database, the dates are strings
+      issueDate: new Date(invoice.generatedAt),
+      dueDate: invoice.dueDate ? new Date(invoice.dueDate) : undefined,
+    },
+  };
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { Company, InvoiceData, Job, JobMaterial, TimeEntry, TimeEntryType } from '@sylon/shared';
+import { DEMO_COMPANY } from '@sylon/shared';
+import { getCompanyById } from '../../data/companies.js';
+import { allJobs } from '../../data/jobs.js';
+import { findRateCard } from '../../data/rate-cards.js';
+import { buildInvoice } from './invoices.js';
+
+const company: Company = getCompanyById(DEMO_COMPANY.id)!;
+
+// Jobs on the demo work orders, which decide the contract type
+const CALL_OUT_JOB = 'job-plow-001';
+const FIXED_JOB = 'job-haul-001';
+
+let entries = 0;
+
+function timeEntry(hours: number, type: TimeEntryType = 'work', approved = true): TimeEntry {
+  const start = new Date('2026-01-15T07:00:00Z');
+  return {
+    id: `time-invoice-${++entries}`,
+    jobId: 'job',
+    resourceId: 'plow-truck-01',
+    operatorId: 'user-demo-001',
+    type,
+    timeRange: { start, end: new Date(start.getTime() + hours * 60 * 60 * 1000) },
+    approved,
+    createdAt: start,
+    updatedAt: start,
+    version: 1,
+  };
+}
+
+// Ten tons of sand from Bergtäkt Södra, listed at 95 SEK per ton
+const SAND: JobMaterial = {
+  materialId: 'mat-s-001',
+  name: 'Sand 0-4 mm',
+  type: 'sand',
+  quantity: 10,
+  unit: 'ton',
+  sourceId: 'site-quarry-south',
+};
+
+// A copy of a demo job under the given id, with only the given time entries and materials
+function job(id: string, customerId: string | undefined, timeEntries: TimeEntry[], materials: JobMaterial[] = []): Job {
+  return {
+    ...allJobs[0]!,
+    id,
+    customerId,
+    timeEntries,
+    materials,
+    machineHours: undefined,
+    assignedResources: [{ resourceId: 'plow-truck-01', assignedAt: new Date(), status: 'assigned' }],
+  };
+}
+
+function invoice(target: Job): InvoiceData {
+  const built = buildInvoice(target, company);
+  if ('error' in built) throw new Error(built.error.message);
+  return built.invoice;
+}
+
+function lines(data: InvoiceData): [string, number, number, number][] {
+  return data.lineItems.map(item => [item.description, item.quantity, item.unitPrice, item.total]);
+}
+
+describe('rate card selection', () => {
+  it("prefers the customer's own card for the contract type over the company default", () => {
+    expect(findRateCard(DEMO_COMPANY.id, 'call_out', 'customer-trafikverket')?.id).toBe('rate-trafikverket-call-out');
+    expect(findRateCard(DEMO_COMPANY.id, 'call_out', 'customer-sundsvall')?.id).toBe('rate-call-out');
+    expect(findRateCard(DEMO_COMPANY.id, 'hourly')?.id).toBe('rate-hourly');
+  });
+
+  it('takes the contract type from the work order, and bills hourly without one', () => {
+    expect(buildInvoice(job(CALL_OUT_JOB, 'customer-trafikverket', []), company))
+      .toMatchObject({ invoice: { contractType: 'call_out', workOrderId: 'wo-001' }, rateCard: { id: 'rate-trafikverket-call-out' } });
+    expect(buildInvoice(job('job-invoice-hourly', 'customer-trafikverket', []), company))
+      .toMatchObject({ invoice: { contractType: 'hourly', workOrderId: undefined }, rateCard: { id: 'rate-hourly' } });
+  });
+});
+
+describe('buildInvoice', () => {
+  it('bills approved time and machine hours at the card rates, leaving out breaks and unapproved time', () => {
+    const data = invoice(job('job-invoice-hourly', 'customer-sundsvall', [
+      timeEntry(2),
+      timeEntry(0.5, 'travel'),
+      timeEntry(0.5, 'break'),
+      timeEntry(3, 'work', false),
+    ]));
+
+    expect(lines(data)).toEqual([
+      ['Arbetstid', 2, 650, 1300],
+      ['Restid', 0.5, 450, 225],
+      ['Plogbil', 2.5, 1250, 3125],
+    ]);
+    expect(data).toMatchObject({ totalHours: 2.5, subtotal: 4650, vatAmount: 1162.5, totalAmount: 5812.5 });
+    expect(data.warnings).toEqual(['1 time entries are not approved and not billed']);
+  });
+
+  it('adds the call-out fee and tops labor up to the minimum hours of a call-out', () => {
+    const data = invoice(job(CALL_OUT_JOB, 'customer-trafikverket', [timeEntry(1)]));
+
+    expect(lines(data)).toEqual([
+      ['Utryckningsavgift', 1, 1200, 1200],
+      ['Arbetstid', 1, 700, 700],
+      ['Minimidebitering', 2, 700, 1400],
+      ['Plogbil', 1, 1150, 1150],
+    ]);
+    expect(data).toMatchObject({ totalHours: 1, subtotal: 4450, vatAmount: 1112.5, totalAmount: 5562.5 });
+  });
+
+  it('bills no minimum once a call-out reaches the minimum hours', () => {
+    const data = invoice(job(CALL_OUT_JOB, 'customer-trafikverket', [timeEntry(3.5)]));
+
+    expect(data.lineItems.map(item => item.description)).not.toContain('Minimidebitering');
+    expect(data.subtotal).toBe(1200 + 3.5 * 700 + 3.5 * 1150);
+  });
+
+  it('replaces labor and equipment with the fixed price and bills materials on top with the markup', () => {
+    const data = invoice(job(FIXED_JOB, 'customer-norra-kajen', [timeEntry(4)], [SAND]));
+
+    // Norra Kajen's card has a 10 % markup
+    expect(lines(data)).toEqual([
+      ['Fast pris enligt arbetsorder AO-2024-003', 1, 48000, 48000],
+      ['Sand 0-4 mm (Bergtäkt Södra)', 10, 104.5, 1045],
+    ]);
+    expect(data).toMatchObject({ totalHours: 4, totalMaterials: 1045, subtotal: 49045, totalAmount: 61306.25 });
+  });
+
+  it("adds the card's material markup and skips materials without a price", () => {
+    const data = invoice(job('job-invoice-hourly', 'customer-sundsvall', [], [
+      SAND,
+      { ...SAND, materialId: 'mat-unknown', name: 'Okänt material' },
+    ]));
+
+    expect(lines(data)).toEqual([['Sand 0-4 mm (Bergtäkt Södra)', 10, 109.25, 1092.5]]);
+    expect(data.warnings).toEqual(['No price for Okänt material at Bergtäkt Södra; it is not billed']);
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * SYLON Invoicing
+ * Builds job invoices from approved time, machine hours and materials priced by
+ * the customer's rate card, and moves them through draft, generated, sent and paid.
+ */
+
+import type {
+  ApiError,
+  Company,
+  ContractType,
+  InvoiceData,
+  InvoiceLineItem,
+  InvoiceStatus,
+  Job,
+  RateCard,
+  ResourceType,
+  TimeEntry,
+  TimeEntryType,
+  UpdateInvoiceStatusRequest,
+} from '@sylon/shared';
+import { INVOICE_STATUS_TRANSITIONS, RESOURCE_TYPE_LABELS, canTransitionInvoice } from '@sylon/shared';
+import { allJobs } from '../../data/jobs.js';
+import { getResourceById } from '../../data/resources.js';
+import { getSiteById } from '../../data/sites.js';
+import { findRateCard } from '../../data/rate-cards.js';
+import { getWorkOrderForJob, isWithinValidity } from '../../data/work-orders.js';
+import { findSiteMaterial } from '../jobs/material-loads.js';
+
+// Swedish standard VAT rate
+export const VAT_RATE = 0.25;
+
+const INVOICE_STATUSES = Object.keys(INVOICE_STATUS_TRANSITIONS) as InvoiceStatus[];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Breaks are logged but never billed
+export const NON_BILLABLE_TYPES: TimeEntryType[] = ['break'];
+
+const TIME_ENTRY_LABELS: Record<TimeEntryType, string> = {
+  work: 'Arbetstid',
+  travel: 'Restid',
+  break: 'Rast',
+  maintenance: 'Underhåll',
+  waiting: 'Väntetid',
+  loading: 'Lastning',
+  unloading: 'Lossning',
+};
+
+const CONTRACT_TYPE_LABELS: Record<ContractType, string> = {
+  fixed: 'fast pris',
+  hourly: 'löpande räkning',
+  call_out: 'utryckning',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Amounts in öre/cent, hours in hundredths
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function entryHours(entry: TimeEntry): number {
+  const start = new Date(entry.timeRange.start).getTime();
+  const end = new Date(entry.timeRange.end).getTime();
+  return Math.max(0, end - start) / HOUR_MS;
+}
+
+function lineItem(
+  category: InvoiceLineItem['category'],
+  description: string,
+  quantity: number,
+  unit: string,
+  unitPrice: number
+): InvoiceLineItem {
+  const rounded = round(quantity);
+  return { description, quantity: rounded, unit, unitPrice, total: round(rounded * unitPrice), category };
+}
+
+function billableEntries(job: Job): TimeEntry[] {
+  return job.timeEntries.filter(e => e.approved && !NON_BILLABLE_TYPES.includes(e.type));
+}
+
+// Labor per time entry type, at the card's rate for that type
+function laborItems(job: Job, card: RateCard): InvoiceLineItem[] {
+  const hoursByType = new Map<TimeEntryType, number>();
+  for (const entry of billableEntries(job)) {
+    hoursByType.set(entry.type, (hoursByType.get(entry.type) ?? 0) + entryHours(entry));
+  }
+
+  return [...hoursByType].map(([type, hours]) =>
+    lineItem('labor', TIME_ENTRY_LABELS[type], hours, 'tim', card.laborRates?.[type] ?? card.laborRate)
+  );
+}
+
+/**
+ * Machine hours per resource. The job's recorded machine hours are shared by its
+ * resources in proportion to their approved time; without a recorded total, each
+ * resource's approved time is its machine time.
+ */
+function machineHoursByResource(job: Job): Map<string, number> {
+  const hours = new Map<string, number>();
+  for (const entry of billableEntries(job)) {
+    hours.set(entry.resourceId, (hours.get(entry.resourceId) ?? 0) + entryHours(entry));
+  }
+  if (job.machineHours === undefined) return hours;
+
+  const logged = [...hours.values()].reduce((sum, h) => sum + h, 0);
+  if (logged > 0) {
+    for (const [resourceId, h] of hours) {
+      hours.set(resourceId, job.machineHours * h / logged);
+    }
+    return hours;
+  }
+
+  const resourceIds = [...new Set(job.assignedResources.map(a => a.resourceId))];
+  for (const resourceId of resourceIds) {
+    hours.set(resourceId, job.machineHours / resourceIds.length);
+  }
+  return hours;
+}
+
+function equipmentItems(job: Job, card: RateCard, warnings: string[]): InvoiceLineItem[] {
+  const hoursByType = new Map<ResourceType, number>();
+  for (const [resourceId, hours] of machineHoursByResource(job)) {
+    const resource = getResourceById(resourceId);
+    if (!resource || resource.companyId !== job.companyId) {
+      warnings.push(`Resource ${resourceId} no longer exists; its machine hours are not billed`);
+      continue;
+    }
+    hoursByType.set(resource.type, (hoursByType.get(resource.type) ?? 0) + hours);
+  }
+
+  const items: InvoiceLineItem[] = [];
+  for (const [type, hours] of hoursByType) {
+    const rate = card.equipmentRates[type];
+    if (rate === undefined) {
+      warnings.push(`Rate card ${card.name} has no rate for ${type}`);
+      continue;
+    }
+    if (hours > 0) {
+      items.push(lineItem('equipment', RESOURCE_TYPE_LABELS[type] ?? type, hours, 'tim', rate));
+    }
+  }
+  return items;
+}
+
+// Materials at their source site's price, plus the card's markup
+function materialItems(job: Job, card: RateCard, warnings: string[]): InvoiceLineItem[] {
+  const markup = 1 + (card.materialMarkup ?? 0) / 100;
+  const items: InvoiceLineItem[] = [];
+
+  for (const material of job.materials ?? []) {
+    const site = material.sourceId ? getSiteById(material.sourceId) : undefined;
+    const price = site ? findSiteMaterial(site, material.materialId)?.pricePerUnit : undefined;
+    if (price === undefined) {
+      warnings.push(`No price for ${material.name}${site ? ` at ${site.name}` : ''}; it is not billed`);
+      continue;
+    }
+    const description = site ? `${material.name} (${site.name})` : material.name;
+    items.push(lineItem('material', description, material.quantity, material.unit, round(price * markup)));
+  }
+  return items;
+}
+
+/**
+ * Build the invoice for a job from its approved time entries, machine hours and
+ * materials. The contract type comes from the job's work order, hourly without one.
+ */
+export function buildInvoice(
+  job: Job,
+  company: Company
+): { invoice: InvoiceData; rateCard: RateCard } | { error: ApiError } {
+  // Only a work order of the job's own company decides how it is invoiced
+  const listed = getWorkOrderForJob(job.id);
+  const workOrder = listed?.companyId === job.companyId ? listed : undefined;
+  const customerId = job.customerId ?? workOrder?.customerId;
+  const contractType = workOrder?.contractType ?? 'hourly';
+
+  const card = findRateCard(job.companyId, contractType, customerId);
+  if (!card) {
+    return {
+      error: {
+        code: 'NO_RATE_CARD',
+        message: `No rate card for ${contractType} contracts`,
+        details: { contractType, customerId },
+      },
+    };
+  }
+
+  const warnings: string[] = [];
+  const unapproved = job.timeEntries.filter(e => !e.approved).length;
+  if (unapproved > 0) {
+    warnings.push(`${unapproved} time entries are not approved and not billed`);
+  }
+  if (workOrder && !isWithinValidity(workOrder, new Date(job.actualTime?.end ?? job.scheduledTime.start))) {
+    warnings.push(`The job was done outside the validity of work order ${workOrder.orderNumber}`);
+  }
+
+  const labor = laborItems(job, card);
+  const totalHours = round(labor.reduce((sum, item) => sum + item.quantity, 0));
+  const lineItems: InvoiceLineItem[] = [];
+
+  if (contractType === 'fixed') {
+    // The fixed price covers labor and equipment; materials are billed on top
+    if (card.fixedPrice === undefined) {
+      warnings.push(`Rate card ${card.name} has no fixed price`);
+    } else {
+      const reference = workOrder ? ` enligt arbetsorder ${workOrder.orderNumber}` : '';
+      lineItems.push(lineItem('other', `Fast pris${reference}`, 1, 'st', card.fixedPrice));
+    }
+  } else {
+    if (contractType === 'call_out' && card.callOutFee !== undefined) {
+      lineItems.push(lineItem('other', 'Utryckningsavgift', 1, 'st', card.callOutFee));
+    }
+    lineItems.push(...labor);
+    if (contractType === 'call_out' && card.minimumHours !== undefined && totalHours < card.minimumHours) {
+      lineItems.push(lineItem('labor', 'Minimidebitering', card.minimumHours - totalHours, 'tim', card.laborRate));
+    }
+    lineItems.push(...equipmentItems(job, card, warnings));
+  }
+
+  const materials = materialItems(job, card, warnings);
+  lineItems.push(...materials);
+
+  const subtotal = round(lineItems.reduce((sum, item) => sum + item.total, 0));
+  const vatAmount = round(subtotal * VAT_RATE);
+
+  return {
+    invoice: {
+      generatedAt: new Date(),
+      customerId,
+      workOrderId: workOrder?.id,
+      contractType,
+      rateCardId: card.id,
+      lineItems,
+      totalHours,
+      totalMaterials: round(materials.reduce((sum, item) => sum + item.total, 0)),
+      subtotal,
+      vatRate: VAT_RATE,
+      vatAmount,
+      totalAmount: round(subtotal + vatAmount),
+      currency: company.settings.currency,
+      notes: `${job.jobNumber} ${job.title}, ${CONTRACT_TYPE_LABELS[contractType]}`,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    },
+    rateCard: card,
+  };
+}
+
+// Invoices are only changed from the office, so the job version that field app
+// edits are checked against is left alone
+function touch(job: Job): void {
+  job.updatedAt = new Date();
+}
+
+/**
+ * Build or rebuild the draft invoice of a completed job, e.g. after more time
+ * entries were approved. Invoices that were generated are locked.
+ */
+export function draftInvoice(job: Job, company: Company): { job: Job } | { error: ApiError } {
+  if (job.status !== 'completed') {
+    return { error: { code: 'INVALID_TRANSITION', message: 'Only completed jobs are invoiced' } };
+  }
+  if (job.invoiceStatus !== 'pending' && job.invoiceStatus !== 'draft') {
+    return {
+      error: { code: 'INVOICE_LOCKED', message: `The invoice is already ${job.invoiceStatus}` },
+    };
+  }
+
+  const built = buildInvoice(job, company);
+  if ('error' in built) return built;
+
+  job.invoiceData = built.invoice;
+  job.invoiceStatus = 'draft';
+  touch(job);
+  return { job };
+}
+
+// Next invoice number of the company, numbered per year: 2025-0001, 2025-0002, ...
+function nextInvoiceNumber(companyId: string, now: Date): string {
+  const prefix = `${now.getFullYear()}-`;
+  let last = 0;
+  for (const job of allJobs) {
+    const number = job.invoiceData?.invoiceNumber;
+    if (job.companyId !== companyId || !number?.startsWith(prefix)) continue;
+    last = Math.max(last, Number(number.slice(prefix.length)) || 0);
+  }
+  return `${prefix}${String(last + 1).padStart(4, '0')}`;
+}
+
+export function validateInvoiceStatusUpdate(body: unknown): { request?: UpdateInvoiceStatusRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+  if (typeof body.status !== 'string' || !INVOICE_STATUSES.includes(body.status as InvoiceStatus)) {
+    return { errors: [`status must be one of: ${INVOICE_STATUSES.join(', ')}`] };
+  }
+  return { request: { status: body.status as InvoiceStatus }, errors: [] };
+}
+
+/**
+ * Move a job's invoice to a new status. Generating rebuilds the draft from the
+ * job's current data one last time, then numbers it and sets its due date.
+ */
+export function transitionInvoice(
+  job: Job,
+  request: UpdateInvoiceStatusRequest,
+  company: Company
+): { job: Job } | { error: ApiError } {
+  const from = job.invoiceStatus;
+  const to = request.status;
+
+  // Retried requests are accepted as no-ops
+  if (from === to) {
+    return { job };
+  }
+
+  if (!canTransitionInvoice(from, to)) {
+    return {
+      error: {
+        code: 'INVALID_TRANSITION',
+        message: `Invoice cannot change status from ${from} to ${to}`,
+        details: { from, to, allowed: INVOICE_STATUS_TRANSITIONS[from] },
+      },
+    };
+  }
+
+  const now = new Date();
+  if (to === 'generated') {
+    const built = buildInvoice(job, company);
+    if ('error' in built) return built;
+
+    job.invoiceData = {
+      ...built.invoice,
+      invoiceNumber: nextInvoiceNumber(job.companyId, now),
+      generatedAt: now,
+      dueDate: new Date(now.getTime() + built.rateCard.paymentTermsDays * DAY_MS),
+    };
+  } else if (job.invoiceData) {
+    if (to === 'sent') job.invoiceData.sentAt = now;
+    if (to === 'paid') job.invoiceData.paidAt = now;
+  }
+
+  job.invoiceStatus = to;
+  touch(job);
+  return { job };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { InvoiceLineItem } from '@sylon/shared';
+import { DEMO_COMPANY } from '@sylon/shared';
+import { getCompanyById } from '../../data/companies.js';
+import { allJobs } from '../../data/jobs.js';
+import type { InvoiceDocument } from './documents.js';
+import { renderInvoicePdf } from './pdf.js';
+
+function invoiceDocument(lineCount: number): InvoiceDocument {
+  const lineItems: InvoiceLineItem[] = Array.from({ length: lineCount }, (_, i) => ({
+    description: `Maskintimmar hjullastare ${i + 1}`,
+    quantity: 1.5,
+    unit: 'tim',
+    unitPrice: 980,
+    total: 1470,
+    category: 'equipment',
+  }));
+  const subtotal = lineCount * 1470;
+  return {
+    job: allJobs[0]!,
+    invoice: {
+      invoiceNumber: 'F-2026-0042',
+      generatedAt: new Date('2026-01-15T09:00:00Z'),
+      contractType: 'hourly',
+      lineItems,
+      totalHours: lineCount * 1.5,
+      totalMaterials: 0,
+      subtotal,
+      vatRate: 0.25,
+      vatAmount: subtotal * 0.25,
+      totalAmount: subtotal * 1.25,
+      currency: 'SEK',
+    },
+    seller: getCompanyById(DEMO_COMPANY.id)!,
+    buyer: { name: 'Sundsvalls kommun', organizationNumber: '212000-2411' },
+    issueDate: new Date('2026-01-15T09:00:00Z'),
+    dueDate: new Date('2026-02-14T09:00:00Z'),
+  };
+}
+
+function expectPdf(pdf: Buffer): void {
+  expect(pdf.subarray(0, 5).toString('latin1')).toBe('%PDF-');
+  expect(pdf.toString('latin1').trimEnd().endsWith('%%EOF')).toBe(true);
+}
+
+describe('renderInvoicePdf', () => {
+  it('renders a complete PDF', async () => {
+    expectPdf(await renderInvoicePdf(invoiceDocument(2)));
+  });
+
+  it('renders line items running over several pages', async () => {
+    expectPdf(await renderInvoicePdf(invoiceDocument(80)));
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * SYLON Invoice PDF
+ * Printable A4 invoices in Swedish for generated job invoices
+ */
+
+import PDFDocument from 'pdfkit';
+import type { InvoiceLineItem } from '@sylon/shared';
+import { isoDate, vatNumber, type InvoiceDocument } from './documents.js';
+
+const MARGIN = 50;
+const PAGE_BOTTOM = 760;
+const ROW_GAP = 4;
+
+// Left edges and widths of the line item columns
+const COLUMNS = {
+  description: { x: MARGIN, width: 220 },
+  quantity: { x: 275, width: 55 },
+  unit: { x: 340, width: 40 },
+  unitPrice: { x: 385, width: 75 },
+  total: { x: 465, width: 80 },
+};
+
+interface Formatters {
+  money: (value: number) => string;
+  number: (value: number) => string;
+  date: (value: Date) => string;
+}
+
+// Standard PDF fonts cannot draw the narrow spaces some locales group digits with
+function printable(value: string): string {
+  return value.replace(/[\u2009\u202F]/g, ' ').replace(/\u2212/g, '-');
+}
+
+function createFormatters(document: InvoiceDocument): Formatters {
+  const { locale, timezone } = document.seller.settings;
+  const money = new Intl.NumberFormat(locale, { style: 'currency', currency: document.invoice.currency });
+  const number = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+  return {
+    money: value => printable(money.format(value)),
+    number: value => printable(number.format(value)),
+    date: value => isoDate(value, timezone),
+  };
+}
+
+function writeHeader(pdf: PDFKit.PDFDocument, document: InvoiceDocument, format: Formatters): void {
+  const { seller, buyer, invoice, job } = document;
+
+  pdf.font('Helvetica-Bold').fontSize(16).text(seller.name, MARGIN, MARGIN, { width: 280 });
+  pdf.font('Helvetica').fontSize(9)
+    .text(seller.address.street)
+    .text(`${seller.address.postalCode} ${seller.address.city}`);
+
+  pdf.font('Helvetica-Bold').fontSize(20).text('FAKTURA', 345, MARGIN, { width: 200, align: 'right' });
+
+  const details: [string, string | undefined][] = [
+    ['Fakturanummer', invoice.invoiceNumber],
+    ['Fakturadatum', format.date(document.issueDate)],
+    ['Förfallodatum', document.dueDate ? format.date(document.dueDate) : undefined],
+    ['Er referens', job.customerReference],
+    ['Arbetsorder', document.orderNumber],
+    ['Jobb', job.jobNumber],
+  ];
+  let y = MARGIN + 32;
+  for (const [label, value] of details) {
+    if (!value) continue;
+    pdf.font('Helvetica').fontSize(9).text(label, 345, y, { width: 95 });
+    pdf.font('Helvetica-Bold').text(value, 440, y, { width: 105, align: 'right' });
+    y += 14;
+  }
+
+  const buyerTop = MARGIN + 70;
+  pdf.font('Helvetica').fontSize(8).fillColor('#666666').text('KUND', MARGIN, buyerTop);
+  pdf.fillColor('#000000').font('Helvetica-Bold').fontSize(10).text(buyer.name, { width: 250 });
+  pdf.font('Helvetica').fontSize(9);
+  if (buyer.address) {
+    pdf.text(buyer.address.street).text(`${buyer.address.postalCode} ${buyer.address.city}`);
+  }
+  if (buyer.organizationNumber) {
+    pdf.text(`Org.nr ${buyer.organizationNumber}`);
+  }
+
+  pdf.y = Math.max(pdf.y, y) + 24;
+}
+
+function writeRow(
+  pdf: PDFKit.PDFDocument,
+  cells: Record<keyof typeof COLUMNS, string>,
+  font: string
+): void {
+  const top = pdf.y;
+  pdf.font(font).fontSize(9);
+  const height = pdf.heightOfString(cells.description, { width: COLUMNS.description.width });
+
+  for (const [column, text] of Object.entries(cells) as [keyof typeof COLUMNS, string][]) {
+    const { x, width } = COLUMNS[column];
+    const align = column === 'description' || column === 'unit' ? 'left' : 'right';
+    pdf.text(text, x, top, { width, align });
+  }
+  pdf.x = MARGIN;
+  pdf.y = top + height + ROW_GAP;
+}
+
+function writeRule(pdf: PDFKit.PDFDocument): void {
+  pdf.moveTo(MARGIN, pdf.y).lineTo(pdf.page.width - MARGIN, pdf.y).lineWidth(0.5).stroke('#999999');
+  pdf.y += ROW_GAP;
+}
+
+function writeTableHeader(pdf: PDFKit.PDFDocument): void {
+  writeRow(pdf, { description: 'Beskrivning', quantity: 'Antal', unit: 'Enhet', unitPrice: 'À-pris', total: 'Belopp' }, 'Helvetica-Bold');
+  writeRule(pdf);
+}
+
+function writeLineItems(pdf: PDFKit.PDFDocument, items: InvoiceLineItem[], format: Formatters): void {
+  writeTableHeader(pdf);
+  for (const item of items) {
+    if (pdf.y > PAGE_BOTTOM - 40) {
+      pdf.addPage();
+      writeTableHeader(pdf);
+    }
+    writeRow(pdf, {
+      description: item.description,
+      quantity: format.number(item.quantity),
+      unit: item.unit,
+      unitPrice: format.money(item.unitPrice),
+      total: format.money(item.total),
+    }, 'Helvetica');
+  }
+  writeRule(pdf);
+}
+
+function writeTotals(pdf: PDFKit.PDFDocument, document: InvoiceDocument, format: Formatters): void {
+  const { invoice } = document;
+  if (pdf.y > PAGE_BOTTOM - 80) pdf.addPage();
+
+  const totals: [string, string, boolean][] = [
+    ['Summa exkl. moms', format.money(invoice.subtotal), false],
+    [`Moms ${format.number(invoice.vatRate * 100)} %`, format.money(invoice.vatAmount), false],
+    ['Att betala', format.money(invoice.totalAmount), true],
+  ];
+  for (const [label, value, emphasized] of totals) {
+    const top = pdf.y;
+    pdf.font(emphasized ? 'Helvetica-Bold' : 'Helvetica').fontSize(emphasized ? 11 : 9);
+    pdf.text(label, 345, top, { width: 120 });
+    pdf.text(value, COLUMNS.total.x - 40, top, { width: COLUMNS.total.width + 40, align: 'right' });
+    pdf.y = top + (emphasized ? 16 : 13);
+  }
+
+  if (invoice.notes) {
+    pdf.moveDown().font('Helvetica').fontSize(9).text(invoice.notes, MARGIN, pdf.y, { width: 495 });
+  }
+}
+
+// Seller details at the bottom of every page, as Swedish invoices must show them
+function writeFooters(pdf: PDFKit.PDFDocument, document: InvoiceDocument): void {
+  const { seller } = document;
+  const lines = [
+    `${seller.name} · ${seller.address.street}, ${seller.address.postalCode} ${seller.address.city}`,
+    `Org.nr ${seller.organizationNumber} · Momsreg.nr ${vatNumber(seller.organizationNumber)} · Godkänd för F-skatt`,
+    [seller.contact.phone, seller.contact.email, seller.contact.website].filter(Boolean).join(' · '),
+  ];
+
+  const range = pdf.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    pdf.switchToPage(index);
+    // Text below the bottom margin would otherwise start a new page
+    const bottom = pdf.page.margins.bottom;
+    pdf.page.margins.bottom = 0;
+    pdf.font('Helvetica').fontSize(7).fillColor('#666666');
+    lines.forEach((line, i) => {
+      pdf.text(line, MARGIN, pdf.page.height - 48 + i * 10, { width: pdf.page.width - 2 * MARGIN, align: 'center' });
+    });
+    pdf.text(`Sida ${index - range.start + 1} av ${range.count}`, MARGIN, pdf.page.height - 48 - 14, {
+      width: pdf.page.width - 2 * MARGIN,
+      align: 'right',
+    });
+    pdf.fillColor('#000000');
+    pdf.page.margins.bottom = bottom;
+  }
+}
+
+export function renderInvoicePdf(document: InvoiceDocument): Promise<Buffer> {
+  const format = createFormatters(document);
+  const pdf = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    info: {
+      Title: `Faktura ${document.invoice.invoiceNumber}`,
+      Author: document.seller.name,
+      CreationDate: document.issueDate,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+  });
+
+  writeHeader(pdf, document, format);
+  writeLineItems(pdf, document.invoice.lineItems, format);
+  writeTotals(pdf, document, format);
+  writeFooters(pdf, document);
+  pdf.end();
+
+  return done;
+}
@@ -0,0 +1,130 @@
+/**
+ * SYLON Rate Cards
+ * Validation of the prices invoices are built from, per customer and contract type
+ */
+
+import type { ContractType, CreateRateCardRequest, RateCard, ResourceType } from '@sylon/shared';
+import { RESOURCE_TYPE_LABELS } from '@sylon/shared';
+import { getRateCardsByCompany } from '../../data/rate-cards.js';
+import { getCustomerById } from '../../data/customers.js';
+import { TIME_ENTRY_TYPES } from '../jobs/sub-resources.js';
+
+export const CONTRACT_TYPES: ContractType[] = ['fixed', 'hourly', 'call_out'];
+const RESOURCE_TYPES = Object.keys(RESOURCE_TYPE_LABELS) as ResourceType[];
+const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPrice(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function optionalPrice(body: Record<string, unknown>, field: string, errors: string[]): number | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (!isPrice(value)) {
+    errors.push(`${field} must be a non-negative number`);
+    return undefined;
+  }
+  return value;
+}
+
+// A map of prices keyed by one of the allowed keys
+function priceMap<K extends string>(value: unknown, field: string, keys: K[], errors: string[]): Partial<Record<K, number>> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    errors.push(`${field} must be an object`);
+    return undefined;
+  }
+
+  const prices: Partial<Record<K, number>> = {};
+  for (const [key, price] of Object.entries(value)) {
+    if (!keys.includes(key as K)) {
+      errors.push(`${field}.${key} is not one of: ${keys.join(', ')}`);
+    } else if (!isPrice(price)) {
+      errors.push(`${field}.${key} must be a non-negative number`);
+    } else {
+      prices[key as K] = price;
+    }
+  }
+  return prices;
+}
+
+/**
+ * Validate a rate card, or an update merged onto the current card. A company has
+ * one card per contract type and customer, plus one default per contract type.
+ */
+export function validateRateCard(
+  body: unknown,
+  companyId: string,
+  current?: RateCard
+): { request?: CreateRateCardRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const merged: Record<string, unknown> = { paymentTermsDays: DEFAULT_PAYMENT_TERMS_DAYS, ...current, ...body };
+  const errors: string[] = [];
+
+  const { name, customerId, contractType, laborRate, paymentTermsDays } = merged;
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    errors.push('name is required');
+  }
+  if (customerId !== undefined && customerId !== null) {
+    if (typeof customerId !== 'string' || customerId.length === 0) {
+      errors.push('customerId must be a non-empty string');
+    } else if (getCustomerById(customerId)?.companyId !== companyId) {
+      errors.push(`Customer ${customerId} not found`);
+    }
+  }
+  if (typeof contractType !== 'string' || !CONTRACT_TYPES.includes(contractType as ContractType)) {
+    errors.push(`contractType must be one of: ${CONTRACT_TYPES.join(', ')}`);
+  }
+  if (!isPrice(laborRate)) {
+    errors.push('laborRate must be a non-negative number');
+  }
+  if (typeof paymentTermsDays !== 'number' || !Number.isInteger(paymentTermsDays) || paymentTermsDays < 0) {
+    errors.push('paymentTermsDays must be a non-negative whole number');
+  }
+
+  const request = {
+    laborRates: priceMap(merged.laborRates, 'laborRates', TIME_ENTRY_TYPES, errors),
+    equipmentRates: priceMap(merged.equipmentRates, 'equipmentRates', RESOURCE_TYPES, errors) ?? {},
+    materialMarkup: optionalPrice(merged, 'materialMarkup', errors),
+    fixedPrice: optionalPrice(merged, 'fixedPrice', errors),
+    callOutFee: optionalPrice(merged, 'callOutFee', errors),
+    minimumHours: optionalPrice(merged, 'minimumHours', errors),
+  };
+  if (contractType === 'fixed' && request.fixedPrice === undefined) {
+    errors.push('fixedPrice is required for fixed contracts');
+  }
+  if (contractType === 'call_out' && request.callOutFee === undefined) {
+    errors.push('callOutFee is required for call_out contracts');
+  }
+
+  const customer = typeof customerId === 'string' ? customerId : undefined;
+  const duplicate = getRateCardsByCompany(companyId).find(r =>
+    r.id !== current?.id && r.contractType === contractType && r.customerId === customer
+  );
+  if (duplicate) {
+    errors.push(`Rate card ${duplicate.name} already covers ${String(contractType)} contracts${customer ? ` for ${customer}` : ''}`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    request: {
+      name: (name as string).trim(),
+      customerId: customer,
+      contractType: contractType as ContractType,
+      laborRate: laborRate as number,
+      paymentTermsDays: paymentTermsDays as number,
+      ...request,
+    },
+    errors,
+  };
+}
@@ -0,0 +1,175 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { DOMParser, type Element } from '@xmldom/xmldom';
+import { validateXML } from 'xmllint-wasm';
+import type { InvoiceLineItem } from '@sylon/shared';
+import { DEMO_COMPANY } from '@sylon/shared';
+import { getCompanyById } from '../../data/companies.js';
+import { allJobs } from '../../data/jobs.js';
+import type { InvoiceDocument } from './documents.js';
+import { renderInvoiceUbl } from './ubl.js';
+
+// The xsd directory of the OASIS UBL 2.1 distribution, holding maindoc/ and common/
+const UBL_XSD_DIR = process.env.UBL_XSD_DIR;
+
+const CBC = 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2';
+const CAC = 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2';
+
+function invoiceDocument(overrides: Partial<InvoiceDocument> = {}): InvoiceDocument {
+  const lineItems: InvoiceLineItem[] = [
+    { description: 'Arbetstid', quantity: 2.5, unit: 'tim', unitPrice: 650, total: 1625, category: 'labor' },
+    { description: 'Bergkross 0-16 & makadam', quantity: 12, unit: 'ton', unitPrice: 189.5, total: 2274, category: 'material' },
+  ];
+  return {
+    job: { ...allJobs[0]!, customerReference: undefined },
+    invoice: {
+      invoiceNumber: 'F-2026-0042',
+      generatedAt: new Date('2026-01-15T09:00:00Z'),
+      contractType: 'hourly',
+      lineItems,
+      totalHours: 2.5,
+      totalMaterials: 2274,
+      subtotal: 3899,
+      vatRate: 0.25,
+      vatAmount: 974.75,
+      totalAmount: 4873.75,
+      currency: 'SEK',
+    },
+    seller: getCompanyById(DEMO_COMPANY.id)!,
+    buyer: {
+      id: 'K-1001',
+      name: 'Sundsvalls kommun',
+      organizationNumber: '212000-2411',
+      address: { street: 'Norrmalmsgatan 4', postalCode: '851 85', city: 'Sundsvall', country: 'Sverige' },
+    },
+    issueDate: new Date('2026-01-15T09:00:00Z'),
+    dueDate: new Date('2026-02-14T09:00:00Z'),
+    ...overrides,
+  };
+}
+
+function render(document: InvoiceDocument): string {
+  const rendered = renderInvoiceUbl(document);
+  if ('error' in rendered) throw new Error(rendered.error.message);
+  return rendered.xml;
+}
+
+function parse(xml: string): Element {
+  return new DOMParser().parseFromString(xml, 'text/xml').documentElement!;
+}
+
+function child(parent: Element, namespace: string, name: string): Element | undefined {
+  return Array.from(parent.childNodes).find(
+    (node): node is Element => node.nodeType === node.ELEMENT_NODE && node.namespaceURI === namespace && node.localName === name
+  );
+}
+
+function path(parent: Element, ...names: string[]): Element | undefined {
+  return names.reduce<Element | undefined>((node, name) => {
+    const [prefix, localName] = name.split(':') as [string, string];
+    return node && child(node, prefix === 'cac' ? CAC : CBC, localName);
+  }, parent);
+}
+
+function amount(parent: Element, ...names: string[]): number {
+  return Number(path(parent, ...names)?.textContent);
+}
+
+describe('renderInvoiceUbl', () => {
+  it('names the PEPPOL BIS Billing 3.0 specification and profile', () => {
+    const invoice = parse(render(invoiceDocument()));
+
+    expect(path(invoice, 'cbc:CustomizationID')?.textContent).toBe(
+      'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0'
+    );
+    expect(path(invoice, 'cbc:ProfileID')?.textContent).toBe('urn:fdc:peppol.eu:2017:poacc:billing:01:1.0');
+  });
+
+  it('addresses both parties by organization number', () => {
+    const invoice = parse(render(invoiceDocument()));
+    const supplier = path(invoice, 'cac:AccountingSupplierParty', 'cac:Party', 'cbc:EndpointID');
+    const customer = path(invoice, 'cac:AccountingCustomerParty', 'cac:Party', 'cbc:EndpointID');
+
+    expect(supplier?.textContent).toBe('5561234567');
+    expect(supplier?.getAttribute('schemeID')).toBe('0007');
+    expect(customer?.textContent).toBe('2120002411');
+    expect(customer?.getAttribute('schemeID')).toBe('0007');
+  });
+
+  it('rejects a buyer without an organization number to address', () => {
+    const document = invoiceDocument();
+    document.buyer = { ...document.buyer, organizationNumber: undefined };
+    const rendered = renderInvoiceUbl(document);
+
+    expect('error' in rendered && rendered.error.code).toBe('EINVOICE_INCOMPLETE');
+  });
+
+  it('rejects an address in an unknown country', () => {
+    const document = invoiceDocument();
+    document.buyer = { ...document.buyer, address: { ...document.buyer.address!, country: 'Atlantis' } };
+    const rendered = renderInvoiceUbl(document);
+
+    expect('error' in rendered && rendered.error.details).toEqual({
+      errors: ["Unknown country in the buyer's address: Atlantis"],
+    });
+  });
+
+  it('uses the job number as buyer reference when there is no other reference', () => {
+    const document = invoiceDocument();
+    const invoice = parse(render(document));
+
+    expect(path(invoice, 'cbc:BuyerReference')?.textContent).toBe(document.job.jobNumber);
+    expect(path(invoice, 'cac:OrderReference')).toBeUndefined();
+  });
+
+  it('refers to the work order instead of the job number', () => {
+    const invoice = parse(render(invoiceDocument({ orderNumber: 'AO-2026-014' })));
+
+    expect(path(invoice, 'cac:OrderReference', 'cbc:ID')?.textContent).toBe('AO-2026-014');
+    expect(path(invoice, 'cbc:BuyerReference')).toBeUndefined();
+  });
+
+  it("keeps the customer's reference next to the work order", () => {
+    const document = invoiceDocument({ orderNumber: 'AO-2026-014' });
+    document.job.customerReference = 'Projekt 4711';
+    const invoice = parse(render(document));
+
+    expect(path(invoice, 'cbc:BuyerReference')?.textContent).toBe('Projekt 4711');
+    expect(path(invoice, 'cac:OrderReference', 'cbc:ID')?.textContent).toBe('AO-2026-014');
+  });
+
+  it('adds up the totals from the invoice lines', () => {
+    const invoice = parse(render(invoiceDocument()));
+    const lines = Array.from(invoice.getElementsByTagNameNS(CAC, 'InvoiceLine'));
+    const lineTotal = lines.reduce((sum, line) => sum + amount(line, 'cbc:LineExtensionAmount'), 0);
+    const taxAmount = amount(invoice, 'cac:TaxTotal', 'cbc:TaxAmount');
+
+    expect(lines).toHaveLength(2);
+    expect(amount(invoice, 'cac:LegalMonetaryTotal', 'cbc:LineExtensionAmount')).toBe(lineTotal);
+    expect(amount(invoice, 'cac:LegalMonetaryTotal', 'cbc:TaxExclusiveAmount')).toBe(lineTotal);
+    expect(amount(invoice, 'cac:TaxTotal', 'cac:TaxSubtotal', 'cbc:TaxableAmount')).toBe(lineTotal);
+    expect(amount(invoice, 'cac:TaxTotal', 'cac:TaxSubtotal', 'cbc:TaxAmount')).toBe(taxAmount);
+    expect(amount(invoice, 'cac:LegalMonetaryTotal', 'cbc:TaxInclusiveAmount')).toBe(lineTotal + taxAmount);
+    expect(amount(invoice, 'cac:LegalMonetaryTotal', 'cbc:PayableAmount')).toBe(lineTotal + taxAmount);
+  });
+});
+
+describe.skipIf(!UBL_XSD_DIR)('renderInvoiceUbl against the UBL 2.1 schema', () => {
+  it('renders a valid UBL invoice', async () => {
+    const schemaFiles = readdirSync(UBL_XSD_DIR!, { recursive: true, encoding: 'utf8' })
+      .filter(file => file.endsWith('.xsd'))
+      .map(file => ({ fileName: file.split('\\').join('/'), contents: readFileSync(join(UBL_XSD_DIR!, file), 'utf8') }));
+    const schema = schemaFiles.find(file => file.fileName === 'maindoc/UBL-Invoice-2.1.xsd');
+    expect(schema).toBeDefined();
+
+    const result = await validateXML({
+      xml: { fileName: 'invoice.xml', contents: render(invoiceDocument({ orderNumber: 'AO-2026-014' })) },
+      schema: schema!,
+      preload: schemaFiles.filter(file => file !== schema),
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+  }, 60_000);
+});
@@ -0,0 +1,257 @@
+/**
+ * SYLON E-invoices
+ * Generated invoices as PEPPOL BIS Billing 3.0 UBL invoices, the format used
+ * for Swedish e-invoicing (Svefaktura's successor)
+ */
+
+import type { ApiError, InvoiceLineItem } from '@sylon/shared';
+import {
+  countryCode,
+  isoDate,
+  organizationDigits,
+  unitCode,
+  vatNumber,
+  type InvoiceBuyer,
+  type InvoiceDocument,
+} from './documents.js';
+
+const CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0';
+const PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+
+// Commercial invoice (UNCL1001)
+const INVOICE_TYPE_CODE = '380';
+// Swedish organization numbers (ISO 6523 ICD)
+const ORGANIZATION_SCHEME = '0007';
+// Standard rated VAT (UNCL5305). Every line uses it, so invoices with reverse
+// charge, exempt or zero rated lines cannot be exported yet.
+const STANDARD_VAT_CATEGORY = 'S';
+
+const NAMESPACES = {
+  xmlns: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+  'xmlns:cac': 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+  'xmlns:cbc': 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+};
+
+interface XmlElement {
+  name: string;
+  attributes?: Record<string, string>;
+  content: string | (XmlElement | undefined)[];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Optional elements are passed as undefined and left out
+function element(
+  name: string,
+  content: string | number | (XmlElement | undefined)[],
+  attributes?: Record<string, string>
+): XmlElement {
+  return { name, attributes, content: typeof content === 'number' ? String(content) : content };
+}
+
+function optional(name: string, value: string | undefined, attributes?: Record<string, string>): XmlElement | undefined {
+  return value ? element(name, value, attributes) : undefined;
+}
+
+function render(node: XmlElement, depth = 0): string {
+  const indent = '  '.repeat(depth);
+  const attributes = Object.entries(node.attributes ?? {})
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+
+  if (typeof node.content === 'string') {
+    return `${indent}<${node.name}${attributes}>${escapeXml(node.content)}</${node.name}>`;
+  }
+  const children = node.content.filter((child): child is XmlElement => child !== undefined);
+  return [
+    `${indent}<${node.name}${attributes}>`,
+    ...children.map(child => render(child, depth + 1)),
+    `${indent}</${node.name}>`,
+  ].join('\n');
+}
+
+function amount(name: string, value: number, currency: string): XmlElement {
+  return element(name, value.toFixed(2), { currencyID: currency });
+}
+
+function percent(vatRate: number): string {
+  return String(Math.round(vatRate * 10000) / 100);
+}
+
+// Party data that PEPPOL requires but a job's customer may lack
+interface PeppolParties {
+  sellerCountry: string;
+  buyerCountry: string;
+  // The buyer's electronic address (BT-49), its organization number
+  buyerEndpoint: string;
+}
+
+function peppolParties(document: InvoiceDocument): { parties: PeppolParties } | { errors: string[] } {
+  const { seller, buyer } = document;
+  const sellerCountry = countryCode(seller.address.country);
+  const buyerCountry = countryCode(buyer.address?.country);
+  const errors: string[] = [];
+
+  if (!sellerCountry) {
+    errors.push(`Unknown country in the seller's address: ${seller.address.country}`);
+  }
+  if (!buyerCountry) {
+    errors.push(buyer.address ? `Unknown country in the buyer's address: ${buyer.address.country}` : `${buyer.name} has no billing address`);
+  }
+  if (!buyer.organizationNumber) {
+    errors.push(`${buyer.name} has no organization number to address the e-invoice to`);
+  }
+  if (!sellerCountry || !buyerCountry || !buyer.organizationNumber) return { errors };
+
+  return { parties: { sellerCountry, buyerCountry, buyerEndpoint: organizationDigits(buyer.organizationNumber) } };
+}
+
+function vatScheme(): XmlElement {
+  return element('cac:TaxScheme', [element('cbc:ID', 'VAT')]);
+}
+
+function postalAddress(address: InvoiceBuyer['address'], country: string): XmlElement {
+  return element('cac:PostalAddress', [
+    optional('cbc:StreetName', address?.street),
+    optional('cbc:CityName', address?.city),
+    optional('cbc:PostalZone', address?.postalCode),
+    element('cac:Country', [element('cbc:IdentificationCode', country)]),
+  ]);
+}
+
+function supplierParty(document: InvoiceDocument, parties: PeppolParties): XmlElement {
+  const { seller } = document;
+  const organizationNumber = organizationDigits(seller.organizationNumber);
+  return element('cac:AccountingSupplierParty', [
+    element('cac:Party', [
+      element('cbc:EndpointID', organizationNumber, { schemeID: ORGANIZATION_SCHEME }),
+      element('cac:PartyName', [element('cbc:Name', seller.name)]),
+      postalAddress(seller.address, parties.sellerCountry),
+      element('cac:PartyTaxScheme', [
+        element('cbc:CompanyID', vatNumber(seller.organizationNumber)),
+        vatScheme(),
+      ]),
+      element('cac:PartyLegalEntity', [
+        element('cbc:RegistrationName', seller.name),
+        element('cbc:CompanyID', organizationNumber, { schemeID: ORGANIZATION_SCHEME }),
+        element('cbc:CompanyLegalForm', 'Godkänd för F-skatt'),
+      ]),
+      element('cac:Contact', [
+        optional('cbc:Telephone', seller.contact.phone),
+        optional('cbc:ElectronicMail', seller.contact.email),
+      ]),
+    ]),
+  ]);
+}
+
+function customerParty(buyer: InvoiceBuyer, parties: PeppolParties): XmlElement {
+  return element('cac:AccountingCustomerParty', [
+    element('cac:Party', [
+      element('cbc:EndpointID', parties.buyerEndpoint, { schemeID: ORGANIZATION_SCHEME }),
+      buyer.id ? element('cac:PartyIdentification', [element('cbc:ID', buyer.id)]) : undefined,
+      element('cac:PartyName', [element('cbc:Name', buyer.name)]),
+      postalAddress(buyer.address, parties.buyerCountry),
+      element('cac:PartyLegalEntity', [
+        element('cbc:RegistrationName', buyer.name),
+        element('cbc:CompanyID', parties.buyerEndpoint, { schemeID: ORGANIZATION_SCHEME }),
+      ]),
+      buyer.email ? element('cac:Contact', [element('cbc:ElectronicMail', buyer.email)]) : undefined,
+    ]),
+  ]);
+}
+
+function taxCategory(name: string, vatRate: number): XmlElement {
+  return element(name, [
+    element('cbc:ID', STANDARD_VAT_CATEGORY),
+    element('cbc:Percent', percent(vatRate)),
+    vatScheme(),
+  ]);
+}
+
+function invoiceLine(item: InvoiceLineItem, index: number, vatRate: number, currency: string): XmlElement {
+  return element('cac:InvoiceLine', [
+    element('cbc:ID', index + 1),
+    element('cbc:InvoicedQuantity', item.quantity, { unitCode: unitCode(item.unit) }),
+    amount('cbc:LineExtensionAmount', item.total, currency),
+    element('cac:Item', [
+      element('cbc:Name', item.description),
+      taxCategory('cac:ClassifiedTaxCategory', vatRate),
+    ]),
+    element('cac:Price', [amount('cbc:PriceAmount', item.unitPrice, currency)]),
+  ]);
+}
+
+function paymentTerms(document: InvoiceDocument): XmlElement | undefined {
+  if (!document.dueDate) return undefined;
+  const days = Math.round((document.dueDate.getTime() - document.issueDate.getTime()) / (24 * 60 * 60 * 1000));
+  return element('cac:PaymentTerms', [element('cbc:Note', `${days} dagar netto`)]);
+}
+
+/**
+ * Render a generated invoice as a PEPPOL BIS Billing 3.0 invoice. Every line
+ * carries standard rated Swedish VAT. PEPPOL needs a buyer reference or an
+ * order reference, so the job number stands in when the job has neither.
+ * Invoices to buyers without an organization number or with an unknown
+ * country are rejected, as PEPPOL cannot deliver them.
+ */
+export function renderInvoiceUbl(document: InvoiceDocument): { xml: string } | { error: ApiError } {
+  const checked = peppolParties(document);
+  if ('errors' in checked) {
+    return {
+      error: {
+        code: 'EINVOICE_INCOMPLETE',
+        message: 'The invoice lacks data that PEPPOL requires',
+        details: { errors: checked.errors },
+      },
+    };
+  }
+
+  const { parties } = checked;
+  const { invoice, job, seller } = document;
+  const currency = invoice.currency;
+  const timeZone = seller.settings.timezone;
+  const buyerReference = job.customerReference ?? (document.orderNumber ? undefined : job.jobNumber);
+
+  const root = element('Invoice', [
+    element('cbc:CustomizationID', CUSTOMIZATION_ID),
+    element('cbc:ProfileID', PROFILE_ID),
+    element('cbc:ID', invoice.invoiceNumber),
+    element('cbc:IssueDate', isoDate(document.issueDate, timeZone)),
+    document.dueDate ? element('cbc:DueDate', isoDate(document.dueDate, timeZone)) : undefined,
+    element('cbc:InvoiceTypeCode', INVOICE_TYPE_CODE),
+    optional('cbc:Note', invoice.notes),
+    element('cbc:DocumentCurrencyCode', currency),
+    optional('cbc:BuyerReference', buyerReference),
+    document.orderNumber ? element('cac:OrderReference', [element('cbc:ID', document.orderNumber)]) : undefined,
+    supplierParty(document, parties),
+    customerParty(document.buyer, parties),
+    job.actualTime?.end
+      ? element('cac:Delivery', [element('cbc:ActualDeliveryDate', isoDate(new Date(job.actualTime.end), timeZone))])
+      : undefined,
+    paymentTerms(document),
+    element('cac:TaxTotal', [
+      amount('cbc:TaxAmount', invoice.vatAmount, currency),
+      element('cac:TaxSubtotal', [
+        amount('cbc:TaxableAmount', invoice.subtotal, currency),
+        amount('cbc:TaxAmount', invoice.vatAmount, currency),
+        taxCategory('cac:TaxCategory', invoice.vatRate),
+      ]),
+    ]),
+    element('cac:LegalMonetaryTotal', [
+      amount('cbc:LineExtensionAmount', invoice.subtotal, currency),
+      amount('cbc:TaxExclusiveAmount', invoice.subtotal, currency),
+      amount('cbc:TaxInclusiveAmount', invoice.totalAmount, currency),
+      amount('cbc:PayableAmount', invoice.totalAmount, currency),
+    ]),
+    ...invoice.lineItems.map((item, index) => invoiceLine(item, index, invoice.vatRate, currency)),
+  ], NAMESPACES);
+
+  return { xml: `<?xml version="1.0" encoding="UTF-8"?>\n${render(root)}\n` };
+}
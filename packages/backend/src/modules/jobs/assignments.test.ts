@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Job } from '@sylon/shared';
+import { getJobById } from '../../data/jobs.js';
+import { getResourceById } from '../../data/resources.js';
+import { assignInitialResources, validateInitialAssignments } from './assignments.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A new job three days ahead, clear of the demo jobs and of the resources' next service
+function newJob(): Job {
+  const start = new Date(Date.now() + 72 * HOUR_MS);
+  return {
+    ...structuredClone(getJobById('job-exc-001')!),
+    id: 'job-assignment-test',
+    status: 'scheduled',
+    assignedResources: [],
+    statusHistory: [],
+    materials: undefined,
+    scheduledTime: { start, end: new Date(start.getTime() + HOUR_MS) },
+  };
+}
+
+afterEach(() => {
+  for (const id of ['loader-01', 'excavator-01', 'excavator-02']) {
+    const resource = getResourceById(id)!;
+    resource.assignedJobId = undefined;
+    resource.status = 'available';
+  }
+});
+
+describe('validateInitialAssignments', () => {
+  it('accepts resource ids and assignments', () => {
+    const { requests } = validateInitialAssignments(['loader-01', { resourceId: 'excavator-01', operatorId: 'user-demo-001', status: 'active' }]);
+
+    expect(requests).toEqual([
+      { resourceId: 'loader-01', operatorId: undefined },
+      { resourceId: 'excavator-01', operatorId: 'user-demo-001' },
+    ]);
+  });
+
+  it('treats a missing list as no resources', () => {
+    expect(validateInitialAssignments(undefined).requests).toEqual([]);
+  });
+
+  it.each([
+    ['a non-array', 'loader-01'],
+    ['an item without resourceId', [{ assignedAt: new Date() }]],
+    ['a number', [42]],
+  ])('rejects %s', (_case, value) => {
+    const { requests, errors } = validateInitialAssignments(value);
+
+    expect(requests).toBeUndefined();
+    expect(errors).not.toHaveLength(0);
+  });
+});
+
+describe('assignInitialResources', () => {
+  it('assigns every resource and moves the job to assigned', () => {
+    const job = newJob();
+    const outcome = assignInitialResources(job, [{ resourceId: 'loader-01' }, { resourceId: 'excavator-01' }], 'user-supervisor-001');
+
+    expect('assignments' in outcome).toBe(true);
+    expect(job.status).toBe('assigned');
+    expect(job.assignedResources.map(a => a.resourceId)).toEqual(['loader-01', 'excavator-01']);
+    expect(getResourceById('loader-01')!.assignedJobId).toBe(job.id);
+  });
+
+  it('hands back the assigned resources when one cannot take the job', () => {
+    getResourceById('excavator-02')!.status = 'maintenance';
+    const job = newJob();
+    const outcome = assignInitialResources(job, [{ resourceId: 'loader-01' }, { resourceId: 'excavator-02' }], 'user-supervisor-001');
+
+    expect('error' in outcome && outcome.error.code).toBe('RESOURCE_UNAVAILABLE');
+    expect(getResourceById('loader-01')!.assignedJobId).toBeUndefined();
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * SYLON Job Assignments
+ * Assigns and releases resources with availability, schedule and capacity checks
+ */
+
+import type {
+  ApiError,
+  CreateJobAssignmentRequest,
+  Job,
+  JobAssignmentResult,
+  JobResourceAssignment,
+  JobStatus,
+  Resource,
+} from '@sylon/shared';
+import { allJobs } from '../../data/jobs.js';
+import { getResourceById } from '../../data/resources.js';
+import { transitionJob } from './state-machine.js';
+
+const FINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+// Conversion of load units to a base unit per dimension
+const UNIT_FACTORS: Record<string, { dimension: 'mass' | 'volume'; factor: number }> = {
+  kg: { dimension: 'mass', factor: 0.001 },
+  ton: { dimension: 'mass', factor: 1 },
+  liter: { dimension: 'volume', factor: 0.001 },
+  m3: { dimension: 'volume', factor: 1 },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Validate the body of an assignment request
+export function validateAssignment(body: unknown): { request?: CreateJobAssignmentRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { resourceId, operatorId } = body;
+
+  if (typeof resourceId !== 'string' || resourceId.length === 0) {
+    errors.push('resourceId is required');
+  }
+  if (operatorId !== undefined && (typeof operatorId !== 'string' || operatorId.length === 0)) {
+    errors.push('operatorId must be a non-empty string');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    request: {
+      resourceId: resourceId as string,
+      operatorId: operatorId as string | undefined,
+    },
+    errors,
+  };
+}
+
+/**
+ * Validate the resources given when a job is created, as resource ids or as
+ * assignments with a resourceId and an optional operatorId
+ */
+export function validateInitialAssignments(value: unknown): { requests?: CreateJobAssignmentRequest[]; errors: string[] } {
+  if (value === undefined) {
+    return { requests: [], errors: [] };
+  }
+  if (!Array.isArray(value)) {
+    return { errors: ['assignedResources must be an array'] };
+  }
+
+  const errors: string[] = [];
+  const requests: CreateJobAssignmentRequest[] = [];
+  value.forEach((item: unknown, index) => {
+    const { request, errors: itemErrors } = validateAssignment(typeof item === 'string' ? { resourceId: item } : item);
+    if (request) {
+      requests.push(request);
+    } else {
+      errors.push(...itemErrors.map(error => `assignedResources[${index}]: ${error}`));
+    }
+  });
+
+  return errors.length > 0 ? { errors } : { requests, errors };
+}
+
+function overlaps(a: Job['scheduledTime'], b: Job['scheduledTime']): boolean {
+  return new Date(a.start) < new Date(b.end) && new Date(b.start) < new Date(a.end);
+}
+
+// Open jobs holding the resource during the job's scheduled time
+export function findScheduleConflicts(resourceId: string, job: Job): Job[] {
+  return allJobs.filter(other =>
+    other.id !== job.id &&
+    !FINAL_STATUSES.includes(other.status) &&
+    other.assignedResources.some(a => a.resourceId === resourceId && a.status !== 'released') &&
+    overlaps(other.scheduledTime, job.scheduledTime)
+  );
+}
+
+// Why a resource cannot be booked for the job, if anything
+function checkAvailability(resource: Resource, job: Job): ApiError | undefined {
+  if (resource.status === 'maintenance') {
+    return {
+      code: 'RESOURCE_UNAVAILABLE',
+      message: `${resource.name} is in maintenance`,
+      details: { resourceId: resource.id, status: resource.status },
+    };
+  }
+
+  // Service that is overdue now or falls due before the job starts
+  const dueBy = Math.max(Date.now(), new Date(job.scheduledTime.start).getTime());
+  if (new Date(resource.nextService).getTime() <= dueBy) {
+    return {
+      code: 'RESOURCE_UNAVAILABLE',
+      message: `${resource.name} is due for service`,
+      details: { resourceId: resource.id, nextService: resource.nextService },
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Check that the resource can carry the job's materials. Materials in units that
+ * cannot be compared with the resource's capacity are skipped.
+ */
+function checkCapacity(
+  resource: Resource,
+  job: Job
+): { trips: { materialId: string; trips: number }[] } | { error: ApiError } {
+  const capacityUnit = UNIT_FACTORS[resource.capacity.unit];
+  const trips: { materialId: string; trips: number }[] = [];
+
+  for (const material of job.materials ?? []) {
+    const materialUnit = UNIT_FACTORS[material.unit];
+    if (!materialUnit || !capacityUnit) continue;
+
+    if (materialUnit.dimension !== capacityUnit.dimension || resource.capacity.maxLoad <= 0) {
+      return {
+        error: {
+          code: 'INSUFFICIENT_CAPACITY',
+          message: `${resource.name} cannot carry ${material.name}`,
+          details: {
+            resourceId: resource.id,
+            materialId: material.materialId,
+            capacity: resource.capacity,
+            required: { quantity: material.quantity, unit: material.unit },
+          },
+        },
+      };
+    }
+
+    const quantity = material.quantity * materialUnit.factor;
+    const maxLoad = resource.capacity.maxLoad * capacityUnit.factor;
+    trips.push({ materialId: material.materialId, trips: Math.ceil(quantity / maxLoad) });
+  }
+
+  return { trips };
+}
+
+/**
+ * Assign a resource to a job. Re-assigning a resource that is already on the job
+ * returns the existing assignment. A scheduled job moves to assigned.
+ */
+export function assignResource(
+  job: Job,
+  request: CreateJobAssignmentRequest
+): { result: JobAssignmentResult; created: boolean } | { error: ApiError } {
+  if (FINAL_STATUSES.includes(job.status)) {
+    return { error: { code: 'JOB_CLOSED', message: `Job is ${job.status}` } };
+  }
+
+  const resource = getResourceById(request.resourceId);
+  if (!resource) {
+    return { error: { code: 'NOT_FOUND', message: 'Resource not found' } };
+  }
+
+  const existing = job.assignedResources.find(a => a.resourceId === resource.id);
+  if (existing && existing.status !== 'released') {
+    return { result: { job, assignment: existing }, created: false };
+  }
+
+  const unavailable = checkAvailability(resource, job);
+  if (unavailable) {
+    return { error: unavailable };
+  }
+
+  const conflicts = findScheduleConflicts(resource.id, job);
+  if (conflicts.length > 0) {
+    return {
+      error: {
+        code: 'SCHEDULE_CONFLICT',
+        message: `${resource.name} is already booked during the scheduled time`,
+        details: {
+          resourceId: resource.id,
+          conflicts: conflicts.map(c => ({ jobId: c.id, jobNumber: c.jobNumber, scheduledTime: c.scheduledTime })),
+        },
+      },
+    };
+  }
+
+  const capacity = checkCapacity(resource, job);
+  if ('error' in capacity) {
+    return capacity;
+  }
+
+  const now = new Date();
+  const started = job.status === 'in_progress' || job.status === 'paused';
+  const assignment: JobResourceAssignment = existing ?? { resourceId: resource.id, assignedAt: now, status: 'assigned' };
+  assignment.operatorId = request.operatorId ?? resource.assignedOperatorId;
+  assignment.assignedAt = now;
+  assignment.startedAt = started ? now : undefined;
+  assignment.completedAt = undefined;
+  assignment.status = started ? 'active' : 'assigned';
+  if (!existing) {
+    job.assignedResources.push(assignment);
+  }
+
+  if (job.status === 'scheduled') {
+    transitionJob(job, { status: 'assigned', changedBy: request.assignedBy, notes: `Assigned ${resource.name}` });
+  }
+  job.updatedAt = now;
+  job.version += 1;
+  resource.assignedJobId = job.id;
+
+  return {
+    result: {
+      job,
+      assignment,
+      estimatedTrips: capacity.trips.length > 0 ? capacity.trips : undefined,
+    },
+    created: true,
+  };
+}
+
+/**
+ * Assign the resources given when a job is created, each with the checks of
+ * assignResource. On the first error the resources already assigned are
+ * handed back and the error is returned, so the job can be discarded.
+ */
+export function assignInitialResources(
+  job: Job,
+  requests: CreateJobAssignmentRequest[],
+  assignedBy: string
+): { assignments: JobResourceAssignment[] } | { error: ApiError } {
+  const previous = new Map<Resource, string | undefined>();
+
+  for (const request of requests) {
+    const resource = getResourceById(request.resourceId);
+    if (resource && !previous.has(resource)) {
+      previous.set(resource, resource.assignedJobId);
+    }
+
+    const outcome = assignResource(job, { ...request, assignedBy });
+    if ('error' in outcome) {
+      for (const [changed, assignedJobId] of previous) {
+        changed.assignedJobId = assignedJobId;
+      }
+      return outcome;
+    }
+  }
+
+  return { assignments: job.assignedResources };
+}
+
+/**
+ * Release a resource from a job. An assigned job without any remaining
+ * resources moves back to scheduled.
+ */
+export function releaseResource(
+  job: Job,
+  resourceId: string,
+  releasedBy?: string
+): { result: JobAssignmentResult } | { error: ApiError } {
+  const assignment = job.assignedResources.find(a => a.resourceId === resourceId && a.status !== 'released');
+  if (!assignment) {
+    return { error: { code: 'NOT_FOUND', message: 'Resource is not assigned to this job' } };
+  }
+
+  assignment.status = 'released';
+  assignment.completedAt = new Date();
+  job.updatedAt = new Date();
+  job.version += 1;
+
+  if (job.status === 'assigned' && job.assignedResources.every(a => a.status === 'released')) {
+    transitionJob(job, { status: 'scheduled', changedBy: releasedBy, notes: 'All resources released' });
+  }
+
+  const resource = getResourceById(resourceId);
+  if (resource?.assignedJobId === job.id) {
+    resource.assignedJobId = undefined;
+  }
+
+  return { result: { job, assignment } };
+}
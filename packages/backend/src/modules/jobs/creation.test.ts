@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { getWorkOrderById } from '../../data/work-orders.js';
+import { checkWorkOrderFit, validateCreateJob } from './creation.js';
+
+function newJob(): Record<string, unknown> {
+  return {
+    type: 'gravel_transport',
+    title: 'Grus till Norra kajen',
+    location: { name: 'Norra kajen', coordinates: { latitude: 62.39, longitude: 17.32 } },
+    scheduledTime: { start: '2026-01-15T07:00:00Z', end: '2026-01-15T11:00:00Z' },
+  };
+}
+
+describe('validateCreateJob', () => {
+  it('builds the job from the request fields only', () => {
+    const { request } = validateCreateJob({
+      ...newJob(),
+      status: 'completed',
+      actualTime: { start: '2026-01-15T07:00:00Z', end: '2026-01-15T07:00:00Z' },
+      machineHours: 400,
+      materials: [{ materialId: 'm-1', quantity: 1000 }],
+    });
+
+    expect(request).toEqual({
+      type: 'gravel_transport',
+      title: 'Grus till Norra kajen',
+      description: '',
+      priority: 'normal',
+      location: { name: 'Norra kajen', coordinates: { latitude: 62.39, longitude: 17.32 } },
+      scheduledTime: { start: new Date('2026-01-15T07:00:00Z'), end: new Date('2026-01-15T11:00:00Z') },
+      estimatedDuration: 240,
+    });
+  });
+
+  it('requires a scheduled time', () => {
+    const body = newJob();
+    delete body.scheduledTime;
+
+    expect(validateCreateJob(body).errors).toContain('scheduledTime must have a start and an end date');
+  });
+
+  it('rejects a scheduled time ending before it starts', () => {
+    const body = { ...newJob(), scheduledTime: { start: '2026-01-15T11:00:00Z', end: '2026-01-15T07:00:00Z' } };
+
+    expect(validateCreateJob(body).errors).toContain('scheduledTime.end must be after scheduledTime.start');
+  });
+
+  it('rejects unknown job types and coordinates out of range', () => {
+    const body = { ...newJob(), type: 'teleport', location: { name: 'X', coordinates: { latitude: 95, longitude: 17 } } };
+
+    expect(validateCreateJob(body).errors).toEqual([
+      expect.stringContaining('type must be one of'),
+      'location.coordinates.latitude must be a number between -90 and 90',
+    ]);
+  });
+});
+
+describe('checkWorkOrderFit', () => {
+  it('rejects a job of another customer than the work order', () => {
+    const workOrder = getWorkOrderById('wo-002')!;
+    const { request } = validateCreateJob({ ...newJob(), customerId: 'customer-trafikverket' });
+
+    expect(checkWorkOrderFit(request!, workOrder)).toEqual([`Work order ${workOrder.orderNumber} belongs to another customer`]);
+  });
+
+  it('rejects a job scheduled before the work order is valid', () => {
+    const workOrder = getWorkOrderById('wo-002')!;
+    const { request } = validateCreateJob({
+      ...newJob(),
+      scheduledTime: { start: '2023-06-01T07:00:00Z', end: '2023-06-01T11:00:00Z' },
+    });
+
+    expect(checkWorkOrderFit(request!, workOrder)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * SYLON Job Creation
+ * Validation of new jobs. Status, assignments, reports, materials and invoices
+ * have their own endpoints and are never taken from the create request.
+ */
+
+import type { Coordinates, JobLocation, JobPriority, JobType, TimeRange, WorkOrder } from '@sylon/shared';
+import { isWithinValidity } from '../../data/work-orders.js';
+
+export interface NewJobRequest {
+  jobNumber?: string;
+  type: JobType;
+  title: string;
+  description: string;
+  priority: JobPriority;
+  location: JobLocation;
+  scheduledTime: TimeRange;
+  estimatedDuration: number;
+  customerId?: string;
+  customerReference?: string;
+  workOrderId?: string;
+}
+
+const JOB_TYPES: JobType[] = [
+  'snow_plowing',
+  'salting',
+  'gravel_transport',
+  'excavation',
+  'loading',
+  'material_delivery',
+  'site_preparation',
+  'demolition',
+  'maintenance',
+];
+
+const JOB_PRIORITIES: JobPriority[] = ['low', 'normal', 'high', 'urgent'];
+
+// Work orders that no longer take new jobs
+const CLOSED_WORK_ORDER_STATUSES: WorkOrder['status'][] = ['completed', 'invoiced'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function requiredString(body: Record<string, unknown>, field: string, errors: string[]): string {
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    errors.push(`${field} is required`);
+    return '';
+  }
+  return value.trim();
+}
+
+function optionalString(body: Record<string, unknown>, field: string, errors: string[]): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    errors.push(`${field} must be a string`);
+    return undefined;
+  }
+  return value.trim() || undefined;
+}
+
+function parseCoordinates(value: unknown, field: string, errors: string[]): Coordinates | undefined {
+  if (!isRecord(value)) {
+    errors.push(`${field} must have a latitude and a longitude`);
+    return undefined;
+  }
+  const { latitude, longitude } = value;
+  if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+    errors.push(`${field}.latitude must be a number between -90 and 90`);
+    return undefined;
+  }
+  if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+    errors.push(`${field}.longitude must be a number between -180 and 180`);
+    return undefined;
+  }
+  return { latitude, longitude };
+}
+
+function parseLocation(value: unknown, errors: string[]): JobLocation | undefined {
+  if (!isRecord(value)) {
+    errors.push('location is required');
+    return undefined;
+  }
+  const name = requiredString(value, 'name', errors);
+  const address = optionalString(value, 'address', errors);
+  const siteId = optionalString(value, 'siteId', errors);
+  const coordinates = parseCoordinates(value.coordinates, 'location.coordinates', errors);
+
+  let geofence: JobLocation['geofence'];
+  if (value.geofence !== undefined && value.geofence !== null) {
+    const fence = isRecord(value.geofence) ? value.geofence : {};
+    const center = parseCoordinates(fence.coordinates, 'location.geofence.coordinates', errors);
+    if (typeof fence.radius !== 'number' || fence.radius <= 0) {
+      errors.push('location.geofence.radius must be a positive number of meters');
+    } else if (center) {
+      geofence = { radius: fence.radius, coordinates: center };
+    }
+  }
+
+  return coordinates ? { name, address, coordinates, siteId, geofence } : undefined;
+}
+
+function parseScheduledTime(value: unknown, errors: string[]): TimeRange | undefined {
+  const start = isRecord(value) ? parseDate(value.start) : undefined;
+  const end = isRecord(value) ? parseDate(value.end) : undefined;
+  if (!start || !end) {
+    errors.push('scheduledTime must have a start and an end date');
+    return undefined;
+  }
+  if (end <= start) {
+    errors.push('scheduledTime.end must be after scheduledTime.start');
+    return undefined;
+  }
+  return { start, end };
+}
+
+/**
+ * Validate a new job and build it field by field. Fields outside the request,
+ * such as actual times, machine hours and materials, are left out.
+ */
+export function validateCreateJob(body: unknown): { request?: NewJobRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { type, priority, estimatedDuration } = body;
+
+  if (typeof type !== 'string' || !JOB_TYPES.includes(type as JobType)) {
+    errors.push(`type must be one of: ${JOB_TYPES.join(', ')}`);
+  }
+  if (priority !== undefined && (typeof priority !== 'string' || !JOB_PRIORITIES.includes(priority as JobPriority))) {
+    errors.push(`priority must be one of: ${JOB_PRIORITIES.join(', ')}`);
+  }
+  if (estimatedDuration !== undefined && (typeof estimatedDuration !== 'number' || estimatedDuration <= 0)) {
+    errors.push('estimatedDuration must be a positive number of minutes');
+  }
+
+  const jobNumber = optionalString(body, 'jobNumber', errors);
+  const title = requiredString(body, 'title', errors);
+  const description = optionalString(body, 'description', errors) ?? '';
+  const location = parseLocation(body.location, errors);
+  const scheduledTime = parseScheduledTime(body.scheduledTime, errors);
+  const customerId = optionalString(body, 'customerId', errors);
+  const customerReference = optionalString(body, 'customerReference', errors);
+  const workOrderId = optionalString(body, 'workOrderId', errors);
+
+  if (errors.length > 0 || !location || !scheduledTime) {
+    return { errors };
+  }
+
+  return {
+    request: {
+      jobNumber,
+      type: type as JobType,
+      title,
+      description,
+      priority: (priority as JobPriority | undefined) ?? 'normal',
+      location,
+      scheduledTime,
+      estimatedDuration: (estimatedDuration as number | undefined) ??
+        Math.round((scheduledTime.end.getTime() - scheduledTime.start.getTime()) / 60000),
+      customerId,
+      customerReference,
+      workOrderId,
+    },
+    errors,
+  };
+}
+
+// Reasons a new job cannot go on a work order of its company, as for the jobs of a saved work order
+export function checkWorkOrderFit(request: NewJobRequest, workOrder: WorkOrder): string[] {
+  const errors: string[] = [];
+  if (CLOSED_WORK_ORDER_STATUSES.includes(workOrder.status)) {
+    errors.push(`Work order ${workOrder.orderNumber} is ${workOrder.status}`);
+  }
+  if (request.customerId && request.customerId !== workOrder.customerId) {
+    errors.push(`Work order ${workOrder.orderNumber} belongs to another customer`);
+  }
+  if (!isWithinValidity(workOrder, request.scheduledTime.start)) {
+    errors.push(`The job is scheduled outside the validity of work order ${workOrder.orderNumber}`);
+  }
+  return errors;
+}
@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { Job, SiteMaterial } from '@sylon/shared';
+import { DEMO_SUBSIDIARY } from '@sylon/shared';
+import { getJobById } from '../../data/jobs.js';
+import { getSiteById } from '../../data/sites.js';
+import { getStock, recordOpeningBalance } from '../sites/ledger.js';
+import { recordMaterialLoad } from './material-loads.js';
+
+const SOURCE_SITE = 'site-quarry-north';
+
+let material: SiteMaterial;
+
+function copyOfJob(id: string, companyId?: string): Job {
+  const job = structuredClone(getJobById(id)!);
+  job.materials = [];
+  return companyId ? { ...job, companyId } : job;
+}
+
+beforeAll(() => {
+  material = getSiteById(SOURCE_SITE)!.materials![0]!;
+  recordOpeningBalance(SOURCE_SITE, material);
+});
+
+describe('recordMaterialLoad', () => {
+  it('books a load out of a site of the job company', () => {
+    const before = getStock(SOURCE_SITE, material.id)!;
+    const outcome = recordMaterialLoad(copyOfJob('job-haul-001'), {
+      id: 'load-same-company',
+      materialId: material.id,
+      quantity: 10,
+      type: 'load',
+      sourceId: SOURCE_SITE,
+    });
+
+    expect('result' in outcome).toBe(true);
+    expect(getStock(SOURCE_SITE, material.id)).toBe(before - 10);
+  });
+
+  it('returns the booked result for a retried load', () => {
+    const request = { id: 'load-retried', materialId: material.id, quantity: 5, type: 'load' as const, sourceId: SOURCE_SITE };
+    const first = recordMaterialLoad(copyOfJob('job-haul-001'), request);
+    const before = getStock(SOURCE_SITE, material.id);
+    const retried = recordMaterialLoad(copyOfJob('job-haul-001'), request);
+
+    expect(retried).toEqual({ result: (first as { result: unknown }).result, duplicate: true });
+    expect(getStock(SOURCE_SITE, material.id)).toBe(before);
+  });
+
+  it('does not treat a load id of another company as a retry', () => {
+    const request = { id: 'load-shared-id', materialId: material.id, quantity: 5, type: 'load' as const, sourceId: SOURCE_SITE };
+    recordMaterialLoad(copyOfJob('job-haul-001'), request);
+    const outcome = recordMaterialLoad(copyOfJob('job-haul-001', DEMO_SUBSIDIARY.id), request);
+
+    expect(outcome).not.toHaveProperty('duplicate');
+  });
+
+  it('does not take stock out of another company site named as source', () => {
+    const before = getStock(SOURCE_SITE, material.id);
+    const outcome = recordMaterialLoad(copyOfJob('job-haul-001', DEMO_SUBSIDIARY.id), {
+      id: 'load-other-company',
+      materialId: material.id,
+      quantity: 10,
+      type: 'load',
+      sourceId: SOURCE_SITE,
+    });
+
+    expect('error' in outcome).toBe(true);
+    expect(getStock(SOURCE_SITE, material.id)).toBe(before);
+  });
+
+  it('does not take stock out of another company site on the job material', () => {
+    const job = copyOfJob('job-haul-001', DEMO_SUBSIDIARY.id);
+    job.materials = [{ materialId: material.id, name: material.name, type: material.category, quantity: 10, unit: material.unit, sourceId: SOURCE_SITE }];
+    const before = getStock(SOURCE_SITE, material.id);
+    const outcome = recordMaterialLoad(job, { id: 'load-job-material', materialId: material.id, quantity: 10, type: 'load' });
+
+    expect('error' in outcome).toBe(true);
+    expect(getStock(SOURCE_SITE, material.id)).toBe(before);
+  });
+
+  it('does not pick another company site when no source is given', () => {
+    const outcome = recordMaterialLoad(copyOfJob('job-haul-001', DEMO_SUBSIDIARY.id), {
+      id: 'load-no-source',
+      materialId: material.id,
+      quantity: 10,
+      type: 'load',
+    });
+
+    expect(outcome).toEqual({ error: expect.objectContaining({ code: 'VALIDATION_ERROR' }) });
+  });
+
+  it('rejects another company site as destination', () => {
+    const outcome = recordMaterialLoad(copyOfJob('job-haul-001', DEMO_SUBSIDIARY.id), {
+      id: 'load-destination',
+      materialId: material.id,
+      quantity: 10,
+      type: 'unload',
+      destinationId: SOURCE_SITE,
+    });
+
+    expect(outcome).toEqual({ error: expect.objectContaining({ code: 'NOT_FOUND' }) });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * SYLON Job Material Loads
+ * Links loads and unloads reported from the field to job materials and site stock
+ */
+
+import type {
+  CreateMaterialLoadRequest,
+  Job,
+  JobMaterial,
+  MaterialLoadResult,
+  MaterialTransaction,
+  Site,
+  SiteMaterial,
+} from '@sylon/shared';
+import { MATERIALS } from '@sylon/shared';
+import { allSites, getSiteById } from '../../data/sites.js';
+import { getResourceById } from '../../data/resources.js';
+import { isInsideFence } from '../geofence/engine.js';
+import { getAllTransactions, recordTransaction, type LedgerError } from '../sites/ledger.js';
+
+export interface MaterialLoadValidationResult {
+  request?: CreateMaterialLoadRequest;
+  errors: string[];
+}
+
+// A processed load as stored; its transactions are kept in the ledger
+export interface StoredMaterialLoad {
+  id: string;
+  companyId: string;
+  jobId: string;
+  jobMaterial: JobMaterial;
+  transactionIds: string[];
+  processedAt: Date;
+}
+
+// Results by company and load id, so retried syncs are not booked twice.
+// Load ids are chosen by the field app and only unique within a company.
+const processedLoads: Map<string, MaterialLoadResult> = new Map();
+
+function processedLoadKey(companyId: string, loadId: string): string {
+  return `${companyId}:${loadId}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(body: Record<string, unknown>, field: string, errors: string[]): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' || value.length === 0) {
+    errors.push(`${field} must be a non-empty string`);
+    return undefined;
+  }
+  return value;
+}
+
+// Validate the shape of a load entry sent by the field app
+export function validateMaterialLoad(body: unknown): MaterialLoadValidationResult {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { id, materialId, quantity, type, weight } = body;
+
+  if (typeof id !== 'string' || id.length === 0) {
+    errors.push('id is required');
+  }
+  if (typeof materialId !== 'string' || materialId.length === 0) {
+    errors.push('materialId is required');
+  }
+  if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0) {
+    errors.push('quantity must be a positive number');
+  }
+  if (type !== 'load' && type !== 'unload') {
+    errors.push("type must be 'load' or 'unload'");
+  }
+  if (weight !== undefined && (typeof weight !== 'number' || weight < 0)) {
+    errors.push('weight must be a non-negative number');
+  }
+
+  const request = {
+    materialName: optionalString(body, 'materialName', errors),
+    unit: optionalString(body, 'unit', errors),
+    resourceId: optionalString(body, 'resourceId', errors),
+    sourceId: optionalString(body, 'sourceId', errors),
+    destinationId: optionalString(body, 'destinationId', errors),
+    weighticketNumber: optionalString(body, 'weighticketNumber', errors),
+    timestamp: optionalString(body, 'timestamp', errors),
+  };
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    request: {
+      id: id as string,
+      materialId: materialId as string,
+      quantity: quantity as number,
+      type: type as 'load' | 'unload',
+      weight: weight as number | undefined,
+      ...request,
+    },
+    errors,
+  };
+}
+
+/**
+ * Find the site material for a reported material id. The field app reports ids from
+ * the shared material catalog, which are matched to site materials by code.
+ */
+export function findSiteMaterial(site: Site, materialId: string): SiteMaterial | undefined {
+  const byId = site.materials?.find(m => m.id === materialId);
+  if (byId) return byId;
+
+  const catalogCode = MATERIALS.find(m => m.id === materialId)?.code;
+  if (!catalogCode) return undefined;
+  return site.materials?.find(m => m.code === catalogCode || m.code.startsWith(`${catalogCode}-`));
+}
+
+// Sites of other companies are treated as unknown
+function companySite(siteId: string, companyId: string): Site | undefined {
+  const site = getSiteById(siteId);
+  return site?.companyId === companyId ? site : undefined;
+}
+
+// Pick the site a load was taken from, among the job company's sites
+function resolveSourceSite(job: Job, request: CreateMaterialLoadRequest, jobMaterial?: JobMaterial): Site | undefined {
+  const explicitId = request.sourceId ?? jobMaterial?.sourceId;
+  if (explicitId) return companySite(explicitId, job.companyId);
+
+  const stocking = allSites.filter(site => site.companyId === job.companyId && findSiteMaterial(site, request.materialId));
+  if (request.resourceId) {
+    const current = stocking.find(site => isInsideFence(request.resourceId!, `site:${site.id}`));
+    if (current) return current;
+  }
+  return stocking.length === 1 ? stocking[0] : undefined;
+}
+
+function findJobMaterial(job: Job, request: CreateMaterialLoadRequest): JobMaterial | undefined {
+  const catalogCode = MATERIALS.find(m => m.id === request.materialId)?.code;
+  return job.materials?.find(m =>
+    m.materialId === request.materialId ||
+    (catalogCode !== undefined && MATERIALS.find(c => c.id === m.materialId)?.code === catalogCode)
+  );
+}
+
+/**
+ * Record a load or unload for a job. Loads are booked out of the source site,
+ * unloads are booked into the destination site when it stocks the material.
+ */
+export function recordMaterialLoad(
+  job: Job,
+  request: CreateMaterialLoadRequest
+): { result: MaterialLoadResult; duplicate: boolean } | { error: LedgerError } {
+  const existing = processedLoads.get(processedLoadKey(job.companyId, request.id));
+  if (existing) {
+    return { result: existing, duplicate: true };
+  }
+
+  if (request.resourceId && getResourceById(request.resourceId)?.companyId !== job.companyId) {
+    return { error: { code: 'NOT_FOUND', message: 'Resource not found' } };
+  }
+  if (request.destinationId && !companySite(request.destinationId, job.companyId)) {
+    return { error: { code: 'NOT_FOUND', message: 'Destination site not found' } };
+  }
+
+  let jobMaterial = findJobMaterial(job, request);
+  const transactions: MaterialTransaction[] = [];
+
+  if (request.type === 'load') {
+    const source = resolveSourceSite(job, request, jobMaterial);
+    if (!source) {
+      return { error: { code: 'VALIDATION_ERROR', message: 'Could not determine the source site for the load' } };
+    }
+
+    const siteMaterial = findSiteMaterial(source, request.materialId);
+    if (!siteMaterial) {
+      return { error: { code: 'NOT_FOUND', message: `Material is not stocked at ${source.name}` } };
+    }
+
+    const booked = recordTransaction(source.id, {
+      materialId: siteMaterial.id,
+      type: 'out',
+      quantity: request.quantity,
+      unit: request.unit,
+      resourceId: request.resourceId,
+      jobId: job.id,
+      destinationSiteId: request.destinationId ?? jobMaterial?.destinationId,
+      weighticketNumber: request.weighticketNumber,
+      notes: `Load ${request.id}`,
+    });
+    if ('error' in booked) {
+      return booked;
+    }
+    transactions.push(booked.transaction);
+
+    if (!jobMaterial) {
+      jobMaterial = {
+        materialId: request.materialId,
+        name: request.materialName ?? siteMaterial.name,
+        type: siteMaterial.category,
+        quantity: request.quantity,
+        unit: siteMaterial.unit,
+        sourceId: source.id,
+        destinationId: request.destinationId,
+      };
+      job.materials = [...(job.materials ?? []), jobMaterial];
+    }
+    jobMaterial.sourceId = jobMaterial.sourceId ?? source.id;
+    jobMaterial.loaded = true;
+  } else {
+    if (!jobMaterial) {
+      return { error: { code: 'VALIDATION_ERROR', message: 'Material has not been loaded for this job' } };
+    }
+
+    const destinationId = request.destinationId ?? jobMaterial.destinationId;
+    const destination = destinationId ? companySite(destinationId, job.companyId) : undefined;
+    const siteMaterial = destination ? findSiteMaterial(destination, request.materialId) : undefined;
+
+    // Deliveries to customer locations that are not sites only update the job
+    if (destination && siteMaterial) {
+      const booked = recordTransaction(destination.id, {
+        materialId: siteMaterial.id,
+        type: 'in',
+        quantity: request.quantity,
+        unit: request.unit,
+        resourceId: request.resourceId,
+        jobId: job.id,
+        weighticketNumber: request.weighticketNumber,
+        notes: `Unload ${request.id}`,
+      });
+      if ('error' in booked) {
+        return booked;
+      }
+      transactions.push(booked.transaction);
+    }
+
+    jobMaterial.destinationId = destinationId;
+    jobMaterial.delivered = true;
+  }
+
+  job.updatedAt = new Date();
+  job.version += 1;
+
+  const result: MaterialLoadResult = { loadId: request.id, jobMaterial, transactions };
+  processedLoads.set(processedLoadKey(job.companyId, request.id), result);
+  return { result, duplicate: false };
+}
+
+export function toStoredMaterialLoad(job: Job, result: MaterialLoadResult): StoredMaterialLoad {
+  return {
+    id: result.loadId,
+    companyId: job.companyId,
+    jobId: job.id,
+    jobMaterial: result.jobMaterial,
+    transactionIds: result.transactions.map(t => t.id),
+    processedAt: new Date(),
+  };
+}
+
+// Restore the processed loads from the database. The ledger must be loaded first.
+export function loadMaterialLoads(stored: StoredMaterialLoad[]): void {
+  const transactionsById = new Map(getAllTransactions().map(t => [t.id, t]));
+  processedLoads.clear();
+  for (const load of stored) {
+    processedLoads.set(processedLoadKey(load.companyId, load.id), {
+      loadId: load.id,
+      jobMaterial: load.jobMaterial,
+      transactions: load.transactionIds
+        .map(id => transactionsById.get(id))
+        .filter((t): t is MaterialTransaction => t !== undefined),
+    });
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { Job, JobStatus } from '@sylon/shared';
+import { allJobs } from '../../data/jobs.js';
+import { transitionJob, validateStatusUpdate } from './state-machine.js';
+
+// A copy of a demo job in the given status, with one resource assigned and no history
+function job(status: JobStatus, resourceIds: string[] = ['plow-truck-01']): Job {
+  return {
+    ...allJobs[0]!,
+    status,
+    actualTime: undefined,
+    statusHistory: [],
+    assignedResources: resourceIds.map(resourceId => ({ resourceId, assignedAt: new Date(), status: 'assigned' })),
+    version: 1,
+  };
+}
+
+function minutesFromNow(minutes: number): string {
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString();
+}
+
+describe('transitionJob', () => {
+  it('rejects moves outside the transition table', () => {
+    const outcome = transitionJob(job('scheduled'), { status: 'completed' });
+
+    expect(outcome).toEqual({ error: expect.objectContaining({ code: 'INVALID_TRANSITION' }) });
+  });
+
+  it('accepts the current status again as a no-op', () => {
+    const target = job('in_progress');
+
+    const outcome = transitionJob(target, { status: 'in_progress' });
+
+    expect(outcome).toEqual({ job: target, releasedResourceIds: [] });
+    expect(target.version).toBe(1);
+  });
+
+  it('does not assign a job without an assigned resource', () => {
+    const outcome = transitionJob(job('scheduled', []), { status: 'assigned' });
+
+    expect(outcome).toEqual({ error: expect.objectContaining({ code: 'INVALID_TRANSITION' }) });
+  });
+
+  it('leaves the actual end unset until the job finishes', () => {
+    const target = job('assigned');
+    const startedAt = minutesFromNow(-60);
+    const completedAt = minutesFromNow(-10);
+
+    transitionJob(target, { status: 'in_progress', timestamp: startedAt });
+
+    expect(target.actualTime).toEqual({ start: new Date(startedAt) });
+    expect(target.assignedResources[0]!.status).toBe('active');
+
+    const outcome = transitionJob(target, { status: 'completed', timestamp: completedAt });
+
+    expect(target.actualTime).toEqual({ start: new Date(startedAt), end: new Date(completedAt) });
+    expect(outcome).toMatchObject({ releasedResourceIds: ['plow-truck-01'] });
+    expect(target.statusHistory!.map(t => t.to)).toEqual(['in_progress', 'completed']);
+  });
+
+  it('rejects a timestamp before the last status change', () => {
+    const target = job('assigned');
+    transitionJob(target, { status: 'in_progress', timestamp: minutesFromNow(-30) });
+
+    const outcome = transitionJob(target, { status: 'paused', timestamp: minutesFromNow(-45) });
+
+    expect(outcome).toEqual({ error: expect.objectContaining({ code: 'VALIDATION_ERROR' }) });
+    expect(target.status).toBe('in_progress');
+  });
+
+  it('rejects a timestamp in the future beyond the clock skew', () => {
+    const target = job('assigned');
+
+    expect(transitionJob(target, { status: 'in_progress', timestamp: minutesFromNow(1) })).not.toHaveProperty('error');
+    expect(transitionJob(target, { status: 'paused', timestamp: minutesFromNow(10) }))
+      .toEqual({ error: expect.objectContaining({ code: 'VALIDATION_ERROR' }) });
+  });
+});
+
+describe('validateStatusUpdate', () => {
+  it('rejects unknown statuses and malformed timestamps', () => {
+    const { errors } = validateStatusUpdate({ status: 'lost', timestamp: 'yesterday' });
+
+    expect(errors).toEqual([expect.stringContaining('status must be one of'), 'timestamp must be a valid date']);
+  });
+});
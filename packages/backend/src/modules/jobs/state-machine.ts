@@ -0,0 +1,161 @@
+/**
+ * SYLON Job State Machine
+ * Enforces job status transitions and keeps timing and assignments in step
+ */
+
+import type { ApiError, Job, JobStatus, JobStatusTransition, UpdateJobStatusRequest } from '@sylon/shared';
+import { JOB_STATUS_TRANSITIONS, canTransitionJob } from '@sylon/shared';
+import { parseBaseVersion } from './versioning.js';
+
+export interface JobTransitionResult {
+  job: Job;
+  // Missing when the job already had the requested status
+  transition?: JobStatusTransition;
+  // Resources whose assignment was released by this transition
+  releasedResourceIds: string[];
+}
+
+const JOB_STATUSES = Object.keys(JOB_STATUS_TRANSITIONS) as JobStatus[];
+const FINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+// How far ahead of the server clock a client's timestamp may be
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Validate the body of a status update
+export function validateStatusUpdate(body: unknown): { request?: UpdateJobStatusRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { status, changedBy, notes, timestamp } = body;
+
+  if (typeof status !== 'string' || !JOB_STATUSES.includes(status as JobStatus)) {
+    errors.push(`status must be one of: ${JOB_STATUSES.join(', ')}`);
+  }
+  if (changedBy !== undefined && (typeof changedBy !== 'string' || changedBy.length === 0)) {
+    errors.push('changedBy must be a non-empty string');
+  }
+  if (notes !== undefined && typeof notes !== 'string') {
+    errors.push('notes must be a string');
+  }
+  if (timestamp !== undefined && (typeof timestamp !== 'string' || Number.isNaN(new Date(timestamp).getTime()))) {
+    errors.push('timestamp must be a valid date');
+  }
+  const baseVersion = parseBaseVersion(body, errors);
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    request: {
+      status: status as JobStatus,
+      changedBy: changedBy as string | undefined,
+      notes: notes as string | undefined,
+      timestamp: timestamp as string | undefined,
+      baseVersion,
+    },
+    errors,
+  };
+}
+
+// A client's time of change may not precede the job's last change, nor lie in the future
+function checkChangedAt(job: Job, changedAt: Date): ApiError | undefined {
+  const lastChangedAt = job.statusHistory?.at(-1)?.changedAt;
+  if (lastChangedAt && changedAt < new Date(lastChangedAt)) {
+    return {
+      code: 'VALIDATION_ERROR',
+      message: 'timestamp is before the last status change of the job',
+      details: { timestamp: changedAt, lastChangedAt },
+    };
+  }
+  if (changedAt.getTime() > Date.now() + CLOCK_SKEW_MS) {
+    return {
+      code: 'VALIDATION_ERROR',
+      message: 'timestamp is in the future',
+      details: { timestamp: changedAt },
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Move a job to a new status. Starting the job sets the actual start time and
+ * activates its assignments; finishing it sets the actual end time and releases them.
+ * A client timestamp dates the change, as long as it keeps the history in order.
+ */
+export function transitionJob(job: Job, request: UpdateJobStatusRequest): JobTransitionResult | { error: ApiError } {
+  const from = job.status;
+  const to = request.status;
+
+  // Retried requests from offline clients are accepted as no-ops
+  if (from === to) {
+    return { job, releasedResourceIds: [] };
+  }
+
+  if (!canTransitionJob(from, to)) {
+    return {
+      error: {
+        code: 'INVALID_TRANSITION',
+        message: `Job cannot change status from ${from} to ${to}`,
+        details: { from, to, allowed: JOB_STATUS_TRANSITIONS[from] },
+      },
+    };
+  }
+
+  if (to === 'assigned' && !job.assignedResources.some(a => a.status !== 'released')) {
+    return {
+      error: {
+        code: 'INVALID_TRANSITION',
+        message: 'Job cannot be assigned without an assigned resource',
+        details: { from, to },
+      },
+    };
+  }
+
+  const changedAt = request.timestamp ? new Date(request.timestamp) : new Date();
+  const timestampError = request.timestamp ? checkChangedAt(job, changedAt) : undefined;
+  if (timestampError) {
+    return { error: timestampError };
+  }
+
+  const changedBy = request.changedBy ?? 'api';
+  const releasedResourceIds: string[] = [];
+
+  if (to === 'in_progress') {
+    job.actualTime = job.actualTime ?? { start: changedAt };
+    for (const assignment of job.assignedResources) {
+      if (assignment.status === 'assigned') {
+        assignment.status = 'active';
+        assignment.startedAt = changedAt;
+      }
+    }
+  }
+
+  if (FINAL_STATUSES.includes(to)) {
+    if (job.actualTime) {
+      job.actualTime.end = changedAt;
+    }
+    for (const assignment of job.assignedResources) {
+      if (assignment.status !== 'released') {
+        assignment.status = 'released';
+        assignment.completedAt = changedAt;
+        releasedResourceIds.push(assignment.resourceId);
+      }
+    }
+  }
+
+  const transition: JobStatusTransition = { from, to, changedBy, changedAt, notes: request.notes };
+  job.statusHistory = [...(job.statusHistory ?? []), transition];
+  job.status = to;
+  job.updatedAt = new Date();
+  job.version += 1;
+  job.updatedBy = changedBy;
+
+  return { job, transition, releasedResourceIds };
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import type { Job } from '@sylon/shared';
+import { allJobs } from '../../data/jobs.js';
+import { TIME_ENTRY_TYPES, createSubResource, deleteSubResource, getReporter, updateSubResource } from './sub-resources.js';
+
+// A copy of a demo job with no reports, so tests do not see each other's items
+function job(): Job {
+  return { ...allJobs[0]!, timeEntries: [], photos: [], deviations: [], notes: [], version: 1 };
+}
+
+function timeEntry(resourceId: string): Record<string, unknown> {
+  return {
+    resourceId,
+    operatorId: 'user-demo-001',
+    type: 'work',
+    timeRange: { start: '2026-01-15T07:00:00Z', end: '2026-01-15T09:00:00Z' },
+  };
+}
+
+describe('createSubResource', () => {
+  it('rejects a resource of another company as unknown', () => {
+    const target = job();
+
+    const { created, errors } = createSubResource(target, 'timeEntries', timeEntry('kust-plow-01'));
+
+    expect(created).toBe(false);
+    expect(errors).toEqual(['Unknown resource: kust-plow-01']);
+    expect(target.timeEntries).toHaveLength(0);
+  });
+
+  it('rejects a deviation on a resource of another company', () => {
+    const { errors } = createSubResource(job(), 'deviations', {
+      resourceId: 'kust-plow-01',
+      reportedBy: 'user-demo-001',
+      type: 'damage',
+      severity: 'warning',
+      title: 'Skadad skylt',
+      description: 'Påkörd skylt vid infarten',
+    });
+
+    expect(errors).toEqual(['Unknown resource: kust-plow-01']);
+  });
+
+  it("accepts the company's own resource", () => {
+    const { created } = createSubResource(job(), 'timeEntries', timeEntry('plow-truck-01'));
+
+    expect(created).toBe(true);
+  });
+
+  it('lists every invalid field of a time entry', () => {
+    const { errors } = createSubResource(job(), 'timeEntries', {
+      resourceId: 'plow-truck-01',
+      type: 'lunch',
+      timeRange: { start: '2026-01-15T09:00:00Z', end: '2026-01-15T07:00:00Z' },
+    });
+
+    expect(errors).toEqual([
+      'operatorId is required',
+      `type must be one of: ${TIME_ENTRY_TYPES.join(', ')}`,
+      'timeRange start must be before end',
+    ]);
+  });
+
+  it('rejects coordinates out of range and a photo for an unknown deviation', () => {
+    const { errors } = createSubResource(job(), 'photos', {
+      operatorId: 'user-demo-001',
+      deviationId: 'dev-missing',
+      coordinates: { latitude: 95, longitude: 17.3 },
+      filename: 'skylt.jpg',
+      url: '/api/blobs/skylt.jpg',
+      mimeType: 'image/jpeg',
+    });
+
+    expect(errors).toEqual(['Unknown deviation: dev-missing', 'coordinates must have a valid latitude and longitude']);
+  });
+
+  it('returns the existing item for a repeated client id', () => {
+    const target = job();
+    const first = createSubResource(target, 'notes', { id: 'note-client-1', authorId: 'user-demo-001', content: 'Halt' });
+    const retry = createSubResource(target, 'notes', { id: 'note-client-1', authorId: 'user-demo-001', content: 'Halt' });
+
+    expect(first.created).toBe(true);
+    expect(retry).toEqual({ item: first.item, created: false, errors: [] });
+    expect(target.notes).toHaveLength(1);
+    expect(target.version).toBe(2);
+  });
+});
+
+describe('updateSubResource', () => {
+  it('validates the changed fields and leaves the item as it was', () => {
+    const target = job();
+    const { item } = createSubResource(target, 'notes', { authorId: 'user-demo-001', content: 'Halt' });
+
+    const { errors } = updateSubResource(target, 'notes', item!.id, { content: '', isInternal: 'yes' });
+
+    expect(errors).toEqual(['content is required', 'isInternal must be a boolean']);
+    expect(target.notes[0]).toMatchObject({ content: 'Halt', version: 1 });
+  });
+
+  it('hands back a change made on an outdated version instead of applying it', () => {
+    const target = job();
+    const { item } = createSubResource(target, 'notes', { authorId: 'user-demo-001', content: 'Halt' });
+    updateSubResource(target, 'notes', item!.id, { content: 'Sandat', baseVersion: 1 });
+
+    const { conflict, errors } = updateSubResource(target, 'notes', item!.id, { content: 'Plogat', baseVersion: 1 });
+
+    expect(errors).toEqual([]);
+    expect(conflict).toMatchObject({ baseVersion: 1, currentVersion: 2, fields: [{ field: 'content', clientValue: 'Plogat', serverValue: 'Sandat' }] });
+    expect(target.notes[0]).toMatchObject({ content: 'Sandat', version: 2 });
+  });
+
+  it('reports an unknown item without errors, so the route can answer 404', () => {
+    expect(updateSubResource(job(), 'notes', 'note-missing', { content: 'Halt' })).toEqual({ errors: [] });
+  });
+
+  it('resolves a deviation and opens it again', () => {
+    const target = job();
+    const { item } = createSubResource(target, 'deviations', {
+      reportedBy: 'user-demo-001',
+      type: 'damage',
+      severity: 'warning',
+      title: 'Skadad skylt',
+      description: 'Påkörd skylt vid infarten',
+    });
+
+    updateSubResource(target, 'deviations', item!.id, { resolved: true, resolvedBy: 'user-supervisor-001', resolution: 'Bytt' });
+
+    expect(target.deviations[0]).toMatchObject({ resolved: true, resolvedBy: 'user-supervisor-001', resolution: 'Bytt' });
+
+    updateSubResource(target, 'deviations', item!.id, { resolved: false });
+
+    expect(target.deviations[0]).toMatchObject({ resolved: false, resolvedBy: undefined, resolution: undefined });
+  });
+});
+
+describe('deleteSubResource', () => {
+  it("removes a photo from its deviation's photos", () => {
+    const target = job();
+    const deviation = createSubResource(target, 'deviations', {
+      reportedBy: 'user-demo-001',
+      type: 'damage',
+      severity: 'info',
+      title: 'Skadad skylt',
+      description: 'Påkörd skylt vid infarten',
+    }).item!;
+    const photo = createSubResource(target, 'photos', {
+      operatorId: 'user-demo-001',
+      deviationId: deviation.id,
+      filename: 'skylt.jpg',
+      url: '/api/blobs/skylt.jpg',
+      mimeType: 'image/jpeg',
+    }).item!;
+
+    expect(target.deviations[0]!.photos).toEqual([photo.id]);
+    expect(getReporter('photos', photo)).toBe('user-demo-001');
+
+    expect(deleteSubResource(target, 'photos', photo.id)).toBe(photo);
+    expect(target.deviations[0]!.photos).toEqual([]);
+  });
+});
@@ -0,0 +1,424 @@
+/**
+ * SYLON Job Sub-Resources
+ * Validation and storage for time entries, photos, deviations and notes on jobs
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Coordinates,
+  Deviation,
+  DeviationSeverity,
+  DeviationType,
+  Job,
+  JobNote,
+  JobPhoto,
+  SyncConflict,
+  TimeEntry,
+  TimeEntryType,
+  VersionedEntityType,
+} from '@sylon/shared';
+import { getResourceById } from '../../data/resources.js';
+import { findConflict, parseBaseVersion } from './versioning.js';
+
+export interface JobSubResourceTypes {
+  timeEntries: TimeEntry;
+  photos: JobPhoto;
+  deviations: Deviation;
+  notes: JobNote;
+}
+
+export type JobSubResourceKey = keyof JobSubResourceTypes;
+
+interface SubResourceSpec<K extends JobSubResourceKey> {
+  path: string;
+  name: string;
+  idPrefix: string;
+  entityType: VersionedEntityType;
+  // The field naming the user who reports the item
+  reporterField: string;
+  // Build the fields of a new item from a request body
+  create: (body: Record<string, unknown>, job: Job, errors: string[]) => Omit<JobSubResourceTypes[K], 'id' | 'jobId' | 'createdAt' | 'updatedAt' | 'version'> | undefined;
+  // Validate a partial update against the existing item
+  update: (body: Record<string, unknown>, existing: JobSubResourceTypes[K], errors: string[]) => Partial<JobSubResourceTypes[K]>;
+}
+
+export const TIME_ENTRY_TYPES: TimeEntryType[] = ['work', 'travel', 'break', 'maintenance', 'waiting', 'loading', 'unloading'];
+const PHOTO_CATEGORIES: JobPhoto['category'][] = ['before', 'during', 'after', 'damage', 'other'];
+const DEVIATION_TYPES: DeviationType[] = ['delay', 'damage', 'safety_issue', 'equipment_failure', 'weather', 'access_issue', 'material_shortage', 'other'];
+const DEVIATION_SEVERITIES: DeviationSeverity[] = ['info', 'warning', 'error', 'critical'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requiredString(body: Record<string, unknown>, field: string, errors: string[]): string {
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    errors.push(`${field} is required`);
+    return '';
+  }
+  return value;
+}
+
+function optionalString(body: Record<string, unknown>, field: string, errors: string[]): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    errors.push(`${field} must be a string`);
+    return undefined;
+  }
+  return value;
+}
+
+function oneOf<T extends string>(body: Record<string, unknown>, field: string, allowed: T[], errors: string[], fallback?: T): T {
+  const value = body[field] ?? fallback;
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    errors.push(`${field} must be one of: ${allowed.join(', ')}`);
+    return allowed[0]!;
+  }
+  return value as T;
+}
+
+function parseCoordinates(value: unknown, errors: string[]): Coordinates | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value) || typeof value.latitude !== 'number' || typeof value.longitude !== 'number' ||
+      Math.abs(value.latitude) > 90 || Math.abs(value.longitude) > 180) {
+    errors.push('coordinates must have a valid latitude and longitude');
+    return undefined;
+  }
+  return {
+    latitude: value.latitude,
+    longitude: value.longitude,
+    accuracy: typeof value.accuracy === 'number' ? value.accuracy : undefined,
+  };
+}
+
+function parseTimeRange(value: unknown, errors: string[]): TimeEntry['timeRange'] {
+  const start = isRecord(value) ? new Date(value.start as string) : new Date(NaN);
+  const end = isRecord(value) ? new Date(value.end as string) : new Date(NaN);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    errors.push('timeRange must have a valid start and end');
+  } else if (start >= end) {
+    errors.push('timeRange start must be before end');
+  }
+  return { start, end };
+}
+
+// Resources of other companies are reported as unknown
+function checkResource(resourceId: string | undefined, companyId: string, errors: string[]): void {
+  if (resourceId && getResourceById(resourceId)?.companyId !== companyId) {
+    errors.push(`Unknown resource: ${resourceId}`);
+  }
+}
+
+function optionalDate(body: Record<string, unknown>, field: string, errors: string[]): Date | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  const date = new Date(value as string);
+  if (typeof value !== 'string' || Number.isNaN(date.getTime())) {
+    errors.push(`${field} must be a valid date`);
+    return undefined;
+  }
+  return date;
+}
+
+// ============================================
+// SPECS
+// ============================================
+
+const timeEntrySpec: SubResourceSpec<'timeEntries'> = {
+  path: 'time-entries',
+  name: 'Time entry',
+  idPrefix: 'te',
+  entityType: 'time_entry',
+  reporterField: 'operatorId',
+  create: (body, job, errors) => {
+    const resourceId = requiredString(body, 'resourceId', errors);
+    checkResource(resourceId, job.companyId, errors);
+    return {
+      resourceId,
+      operatorId: requiredString(body, 'operatorId', errors),
+      type: oneOf(body, 'type', TIME_ENTRY_TYPES, errors),
+      timeRange: parseTimeRange(body.timeRange, errors),
+      description: optionalString(body, 'description', errors),
+      approved: false,
+    };
+  },
+  update: (body, _existing, errors) => {
+    const updates: Partial<TimeEntry> = {};
+    if (body.type !== undefined) updates.type = oneOf(body, 'type', TIME_ENTRY_TYPES, errors);
+    if (body.timeRange !== undefined) updates.timeRange = parseTimeRange(body.timeRange, errors);
+    if (body.description !== undefined) updates.description = optionalString(body, 'description', errors);
+    // A corrected rejected entry goes back to the supervisor's queue; the comment is kept
+    if (Object.keys(updates).length > 0) {
+      updates.rejectedBy = undefined;
+      updates.rejectedAt = undefined;
+    }
+    if (body.approved !== undefined) {
+      if (typeof body.approved !== 'boolean') {
+        errors.push('approved must be a boolean');
+      } else {
+        // The route sets approvedBy to the approving user
+        updates.approved = body.approved;
+        updates.approvedBy = body.approved ? optionalString(body, 'approvedBy', errors) : undefined;
+        updates.approvedAt = body.approved ? new Date() : undefined;
+        if (body.approved) {
+          updates.rejectedBy = undefined;
+          updates.rejectedAt = undefined;
+        }
+      }
+    }
+    return updates;
+  },
+};
+
+const photoSpec: SubResourceSpec<'photos'> = {
+  path: 'photos',
+  name: 'Photo',
+  idPrefix: 'photo',
+  entityType: 'photo',
+  reporterField: 'operatorId',
+  // Uploaded image data has already been stored and replaced by its URLs, see modules/photos
+  create: (body, job, errors) => {
+    const resourceId = optionalString(body, 'resourceId', errors);
+    checkResource(resourceId, job.companyId, errors);
+    const deviationId = optionalString(body, 'deviationId', errors);
+    if (deviationId && !job.deviations.some(d => d.id === deviationId)) {
+      errors.push(`Unknown deviation: ${deviationId}`);
+    }
+
+    const url = requiredString(body, 'url', errors);
+    return {
+      resourceId,
+      operatorId: requiredString(body, 'operatorId', errors),
+      coordinates: parseCoordinates(body.coordinates, errors),
+      takenAt: optionalDate(body, 'takenAt', errors),
+      deviationId,
+      caption: optionalString(body, 'caption', errors),
+      category: oneOf(body, 'category', PHOTO_CATEGORIES, errors, 'other'),
+      filename: requiredString(body, 'filename', errors),
+      url,
+      thumbnailUrl: optionalString(body, 'thumbnailUrl', errors) ?? url,
+      mimeType: requiredString(body, 'mimeType', errors),
+      size: typeof body.size === 'number' && body.size >= 0 ? body.size : 0,
+    };
+  },
+  update: (body, _existing, errors) => {
+    const updates: Partial<JobPhoto> = {};
+    if (body.caption !== undefined) updates.caption = optionalString(body, 'caption', errors);
+    if (body.category !== undefined) updates.category = oneOf(body, 'category', PHOTO_CATEGORIES, errors);
+    return updates;
+  },
+};
+
+const deviationSpec: SubResourceSpec<'deviations'> = {
+  path: 'deviations',
+  name: 'Deviation',
+  idPrefix: 'dev',
+  entityType: 'deviation',
+  reporterField: 'reportedBy',
+  create: (body, job, errors) => {
+    const resourceId = optionalString(body, 'resourceId', errors);
+    checkResource(resourceId, job.companyId, errors);
+    const photos = body.photos ?? [];
+    if (!Array.isArray(photos) || photos.some(p => typeof p !== 'string')) {
+      errors.push('photos must be an array of strings');
+    }
+    return {
+      resourceId,
+      reportedBy: requiredString(body, 'reportedBy', errors),
+      type: oneOf(body, 'type', DEVIATION_TYPES, errors),
+      severity: oneOf(body, 'severity', DEVIATION_SEVERITIES, errors),
+      title: requiredString(body, 'title', errors),
+      description: requiredString(body, 'description', errors),
+      coordinates: parseCoordinates(body.coordinates, errors),
+      photos: Array.isArray(photos) ? photos as string[] : [],
+      resolved: false,
+    };
+  },
+  update: (body, existing, errors) => {
+    const updates: Partial<Deviation> = {};
+    if (body.severity !== undefined) updates.severity = oneOf(body, 'severity', DEVIATION_SEVERITIES, errors);
+    if (body.title !== undefined) updates.title = requiredString(body, 'title', errors);
+    if (body.description !== undefined) updates.description = requiredString(body, 'description', errors);
+    if (body.resolved !== undefined) {
+      if (typeof body.resolved !== 'boolean') {
+        errors.push('resolved must be a boolean');
+      } else if (body.resolved && !existing.resolved) {
+        updates.resolved = true;
+        // The route sets resolvedBy to the resolving user
+        updates.resolvedBy = requiredString(body, 'resolvedBy', errors);
+        updates.resolvedAt = new Date();
+        updates.resolution = optionalString(body, 'resolution', errors);
+      } else if (!body.resolved) {
+        updates.resolved = false;
+        updates.resolvedBy = undefined;
+        updates.resolvedAt = undefined;
+        updates.resolution = undefined;
+      }
+    }
+    return updates;
+  },
+};
+
+const noteSpec: SubResourceSpec<'notes'> = {
+  path: 'notes',
+  name: 'Note',
+  idPrefix: 'note',
+  entityType: 'note',
+  reporterField: 'authorId',
+  create: (body, _job, errors) => ({
+    authorId: requiredString(body, 'authorId', errors),
+    content: requiredString(body, 'content', errors),
+    isInternal: typeof body.isInternal === 'boolean' ? body.isInternal : false,
+  }),
+  update: (body, _existing, errors) => {
+    const updates: Partial<JobNote> = {};
+    if (body.content !== undefined) updates.content = requiredString(body, 'content', errors);
+    if (body.isInternal !== undefined) {
+      if (typeof body.isInternal !== 'boolean') {
+        errors.push('isInternal must be a boolean');
+      } else {
+        updates.isInternal = body.isInternal;
+      }
+    }
+    return updates;
+  },
+};
+
+export const JOB_SUB_RESOURCES: { [K in JobSubResourceKey]: SubResourceSpec<K> } = {
+  timeEntries: timeEntrySpec,
+  photos: photoSpec,
+  deviations: deviationSpec,
+  notes: noteSpec,
+};
+
+export const JOB_SUB_RESOURCE_KEYS = Object.keys(JOB_SUB_RESOURCES) as JobSubResourceKey[];
+
+// ============================================
+// OPERATIONS
+// ============================================
+
+function collectionOf<K extends JobSubResourceKey>(job: Job, key: K): JobSubResourceTypes[K][] {
+  return job[key] as JobSubResourceTypes[K][];
+}
+
+// A photo taken for a deviation is listed on it too
+function linkPhotoToDeviation(job: Job, photo: JobPhoto): void {
+  const deviation = photo.deviationId ? job.deviations.find(d => d.id === photo.deviationId) : undefined;
+  if (deviation && !deviation.photos.includes(photo.id)) {
+    deviation.photos.push(photo.id);
+  }
+}
+
+export function listSubResources<K extends JobSubResourceKey>(job: Job, key: K): JobSubResourceTypes[K][] {
+  return collectionOf(job, key);
+}
+
+export function getSubResource<K extends JobSubResourceKey>(job: Job, key: K, id: string): JobSubResourceTypes[K] | undefined {
+  return collectionOf(job, key).find(item => item.id === id);
+}
+
+// The user named by the item's reporter field
+export function getReporter<K extends JobSubResourceKey>(key: K, item: JobSubResourceTypes[K]): unknown {
+  return (item as unknown as Record<string, unknown>)[JOB_SUB_RESOURCES[key].reporterField];
+}
+
+/**
+ * Create an item on a job. A client-supplied id makes the call idempotent,
+ * so retried syncs return the existing item.
+ */
+export function createSubResource<K extends JobSubResourceKey>(
+  job: Job,
+  key: K,
+  body: unknown
+): { item?: JobSubResourceTypes[K]; created: boolean; errors: string[] } {
+  if (!isRecord(body)) {
+    return { created: false, errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const clientId = optionalString(body, 'id', errors);
+  if (clientId) {
+    const existing = getSubResource(job, key, clientId);
+    if (existing) return { item: existing, created: false, errors };
+  }
+
+  const spec = JOB_SUB_RESOURCES[key] as SubResourceSpec<K>;
+  const fields = spec.create(body, job, errors);
+  if (!fields || errors.length > 0) {
+    return { created: false, errors };
+  }
+
+  const now = new Date();
+  const item = {
+    ...fields,
+    id: clientId ?? `${spec.idPrefix}-${uuidv4()}`,
+    jobId: job.id,
+    createdAt: now,
+    updatedAt: now,
+    version: 1,
+  } as JobSubResourceTypes[K];
+
+  collectionOf(job, key).push(item);
+  if (key === 'photos') {
+    linkPhotoToDeviation(job, item as JobPhoto);
+  }
+  job.updatedAt = now;
+  job.version += 1;
+  return { item, created: true, errors };
+}
+
+/**
+ * Update an item on a job. With a baseVersion older than the item's version,
+ * changed fields are reported as a conflict instead of being written.
+ */
+export function updateSubResource<K extends JobSubResourceKey>(
+  job: Job,
+  key: K,
+  id: string,
+  body: unknown
+): { item?: JobSubResourceTypes[K]; conflict?: SyncConflict; errors: string[] } {
+  const existing = getSubResource(job, key, id);
+  if (!existing) {
+    return { errors: [] };
+  }
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const spec = JOB_SUB_RESOURCES[key] as SubResourceSpec<K>;
+  const baseVersion = parseBaseVersion(body, errors);
+  const updates = spec.update(body, existing, errors);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const conflict = findConflict(spec.entityType, existing, job.id, baseVersion, updates as Record<string, unknown>);
+  if (conflict) {
+    return { conflict, errors };
+  }
+
+  Object.assign(existing, updates, { updatedAt: new Date(), version: existing.version + 1 });
+  job.updatedAt = new Date();
+  job.version += 1;
+  return { item: existing, errors };
+}
+
+export function deleteSubResource<K extends JobSubResourceKey>(job: Job, key: K, id: string): JobSubResourceTypes[K] | undefined {
+  const collection = collectionOf(job, key);
+  const index = collection.findIndex(item => item.id === id);
+  if (index === -1) return undefined;
+
+  const [removed] = collection.splice(index, 1);
+  if (key === 'photos') {
+    for (const deviation of job.deviations) {
+      deviation.photos = deviation.photos.filter(photoId => photoId !== id);
+    }
+  }
+  job.updatedAt = new Date();
+  job.version += 1;
+  return removed;
+}
+
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { conflictError, findConflict, parseBaseVersion } from './versioning.js';
+
+// A note as stored, now at version 3
+const note = { id: 'note-1', authorId: 'user-demo-001', content: 'Sandat', isInternal: false, version: 3 };
+
+describe('parseBaseVersion', () => {
+  it('reads a positive integer and allows it to be left out', () => {
+    const errors: string[] = [];
+
+    expect(parseBaseVersion({ baseVersion: 2 }, errors)).toBe(2);
+    expect(parseBaseVersion({}, errors)).toBeUndefined();
+    expect(parseBaseVersion({ baseVersion: null }, errors)).toBeUndefined();
+    expect(errors).toEqual([]);
+  });
+
+  it.each([0, -1, 1.5, '2'])('rejects %j', (baseVersion) => {
+    const errors: string[] = [];
+
+    expect(parseBaseVersion({ baseVersion }, errors)).toBeUndefined();
+    expect(errors).toEqual(['baseVersion must be a positive integer']);
+  });
+});
+
+describe('findConflict', () => {
+  it('accepts writes based on the current version or without a base version', () => {
+    expect(findConflict('note', note, 'job-1', 3, { content: 'Halt' })).toBeUndefined();
+    expect(findConflict('note', note, 'job-1', undefined, { content: 'Halt' })).toBeUndefined();
+  });
+
+  it('accepts an outdated write that changes nothing, such as a retried sync', () => {
+    expect(findConflict('note', note, 'job-1', 2, { content: 'Sandat', isInternal: undefined, baseVersion: 2 })).toBeUndefined();
+  });
+
+  it('lists the fields an outdated write would change', () => {
+    const conflict = findConflict('note', note, 'job-1', 2, { content: 'Halt', isInternal: false, baseVersion: 2 });
+
+    expect(conflict).toEqual({
+      entityType: 'note',
+      entityId: 'note-1',
+      jobId: 'job-1',
+      baseVersion: 2,
+      currentVersion: 3,
+      fields: [{ field: 'content', clientValue: 'Halt', serverValue: 'Sandat' }],
+      current: note,
+    });
+    expect(conflictError(conflict!)).toMatchObject({
+      code: 'VERSION_CONFLICT',
+      message: 'note note-1 was changed since version 2',
+    });
+  });
+
+  it('compares nested values by content', () => {
+    const entry = { id: 'time-1', timeRange: { start: '2026-01-15T07:00:00Z', end: '2026-01-15T09:00:00Z' }, version: 2 };
+
+    expect(findConflict('time_entry', entry, 'job-1', 1, { timeRange: { ...entry.timeRange } })).toBeUndefined();
+    expect(findConflict('time_entry', entry, 'job-1', 1, { timeRange: { ...entry.timeRange, end: '2026-01-15T10:00:00Z' } })?.fields)
+      .toEqual([{ field: 'timeRange', clientValue: { ...entry.timeRange, end: '2026-01-15T10:00:00Z' }, serverValue: entry.timeRange }]);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * SYLON Job Versioning
+ * Optimistic concurrency for jobs and their sub-entities. Writes may name the
+ * version they were based on; if it is outdated and the write would change a
+ * field, the write is rejected with a structured conflict instead of overwriting.
+ */
+
+import type { ApiError, FieldConflict, SyncConflict, VersionedEntityType } from '@sylon/shared';
+
+// Fields that are never compared, as they describe the write rather than the entity
+const IGNORED_FIELDS = ['baseVersion', 'changedBy', 'timestamp', 'id'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function parseBaseVersion(body: unknown, errors: string[]): number | undefined {
+  const value = isRecord(body) ? body.baseVersion : undefined;
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    errors.push('baseVersion must be a positive integer');
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Compare a write against the stored entity. A write based on the current version,
+ * or one that changes nothing (such as a retried sync), never conflicts.
+ */
+export function findConflict<T extends { id: string; version: number }>(
+  entityType: VersionedEntityType,
+  entity: T,
+  jobId: string,
+  baseVersion: number | undefined,
+  changes: Record<string, unknown>
+): SyncConflict | undefined {
+  if (baseVersion === undefined || baseVersion === entity.version) return undefined;
+
+  const stored = entity as unknown as Record<string, unknown>;
+  const fields: FieldConflict[] = Object.entries(changes)
+    .filter(([field, value]) => !IGNORED_FIELDS.includes(field) && value !== undefined && !sameValue(value, stored[field]))
+    .map(([field, value]) => ({ field, clientValue: value, serverValue: stored[field] }));
+
+  if (fields.length === 0) return undefined;
+
+  return {
+    entityType,
+    entityId: entity.id,
+    jobId,
+    baseVersion,
+    currentVersion: entity.version,
+    fields,
+    current: entity as unknown as SyncConflict['current'],
+  };
+}
+
+export function conflictError(conflict: SyncConflict): ApiError {
+  return {
+    code: 'VERSION_CONFLICT',
+    message: `${conflict.entityType} ${conflict.entityId} was changed since version ${conflict.baseVersion}`,
+    details: { ...conflict },
+  };
+}
@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import sharp from 'sharp';
+import type { Job } from '@sylon/shared';
+import { DEMO_SUBSIDIARY } from '@sylon/shared';
+import { getJobById } from '../../data/jobs.js';
+
+// The blob store reads BLOB_DIR when it is first imported
+let blobDir: string;
+let processing: typeof import('./processing.js');
+
+function copyOfJob(id: string, companyId?: string): Job {
+  const job = structuredClone(getJobById(id)!);
+  return companyId ? { ...job, companyId } : job;
+}
+
+async function dataUrl(color: string): Promise<string> {
+  const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: color } }).png().toBuffer();
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+beforeAll(async () => {
+  blobDir = await mkdtemp(path.join(tmpdir(), 'sylon-photos-'));
+  process.env.BLOB_DIR = blobDir;
+  processing = await import('./processing.js');
+});
+
+afterAll(async () => {
+  await rm(blobDir, { recursive: true, force: true });
+});
+
+describe('preparePhoto', () => {
+  it('keeps the files of photos with the same id apart per company and job', async () => {
+    const own = copyOfJob('job-plow-001');
+    const otherJob = copyOfJob('job-plow-002');
+    const otherCompany = copyOfJob('job-plow-001', DEMO_SUBSIDIARY.id);
+
+    const prepared = await Promise.all([own, otherJob, otherCompany].map(async (job, index) =>
+      processing.preparePhoto(job, { id: 'photo-shared-id', photo: await dataUrl(['#f00', '#0f0', '#00f'][index]!) }, 'user-demo-001')
+    ));
+    expect(prepared.map(p => p.errors)).toEqual([[], [], []]);
+
+    const sizes = await Promise.all([own, otherJob, otherCompany].map(job => processing.readPhotoOriginal(job, 'photo-shared-id')));
+    expect(sizes.map(data => data?.length)).toEqual(prepared.map(p => (p.body as { size: number }).size));
+    expect(new Set(sizes.map(data => data?.toString('base64'))).size).toBe(3);
+  });
+
+  it('reports the stored photo so its files can be deleted', async () => {
+    const job = copyOfJob('job-haul-001');
+    const prepared = await processing.preparePhoto(job, { id: 'photo-not-created', photo: await dataUrl('#fff') }, 'user-demo-001');
+    expect(prepared.storedPhotoId).toBe('photo-not-created');
+
+    await processing.deletePhotoFiles(job, prepared.storedPhotoId!);
+    expect(await processing.readPhotoOriginal(job, 'photo-not-created')).toBeUndefined();
+    expect(await processing.readPhotoThumbnail(job, 'photo-not-created')).toBeUndefined();
+  });
+
+  it('stores nothing for a photo request without image data', async () => {
+    const prepared = await processing.preparePhoto(copyOfJob('job-haul-001'), { url: 'https://example.com/a.jpg' }, 'user-demo-001');
+    expect(prepared.storedPhotoId).toBeUndefined();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * SYLON Photo Processing
+ * Stores job photos in the blob store with a thumbnail, and stamps them with
+ * the time and GPS position from their EXIF data.
+ */
+
+import sharp from 'sharp';
+import exifr from 'exifr';
+import { v4 as uuidv4 } from 'uuid';
+import type { Coordinates, Job } from '@sylon/shared';
+import { deleteBlob, putBlob, readBlob } from '../storage/blob-store.js';
+import { readUpload } from './uploads.js';
+
+// Longest side of a thumbnail, in pixels
+const THUMBNAIL_SIZE = 320;
+const THUMBNAIL_QUALITY = 70;
+
+// Photo ids name their files in the blob store
+const PHOTO_ID_PATTERN = /^[\w-]+$/;
+
+export interface PhotoMetadata {
+  takenAt?: Date;
+  coordinates?: Coordinates;
+}
+
+// A photo request with its image data stored, and the upload it came from
+export interface PreparedPhoto {
+  body: unknown;
+  uploadId?: string;
+  // Set when files were stored, so they can be deleted if the photo is not created
+  storedPhotoId?: string;
+  errors: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Photo ids are chosen by the client and only unique within a job, so files are kept per company and job
+function photoKey(job: Job, photoId: string): string {
+  return `photos/${job.companyId}/${job.id}/${photoId}`;
+}
+
+function originalKey(job: Job, photoId: string): string {
+  return `${photoKey(job, photoId)}/original`;
+}
+
+function thumbnailKey(job: Job, photoId: string): string {
+  return `${photoKey(job, photoId)}/thumbnail`;
+}
+
+// Parse a data URL such as "data:image/jpeg;base64,..." into its type and bytes
+function parseDataUrl(value: string): { mimeType: string; data: Buffer } | undefined {
+  const match = /^data:([\w.+-]+\/[\w.+-]+);base64,(.+)$/s.exec(value);
+  if (!match) return undefined;
+  return { mimeType: match[1]!, data: Buffer.from(match[2]!, 'base64') };
+}
+
+// EXIF capture time and position; photos without EXIF, such as PNGs, have neither
+async function readMetadata(data: Buffer): Promise<PhotoMetadata> {
+  try {
+    const exif = await exifr.parse(data, { tiff: true, exif: true, gps: true });
+    if (!exif) return {};
+
+    const taken = exif.DateTimeOriginal ?? exif.CreateDate;
+    const { latitude, longitude } = exif;
+    return {
+      takenAt: taken instanceof Date && !Number.isNaN(taken.getTime()) ? taken : undefined,
+      coordinates: typeof latitude === 'number' && typeof longitude === 'number' &&
+        Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180
+        ? { latitude, longitude }
+        : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+// Thumbnail turned upright by its EXIF orientation, as EXIF is not kept
+async function createThumbnail(data: Buffer): Promise<Buffer> {
+  return sharp(data)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: THUMBNAIL_QUALITY })
+    .toBuffer();
+}
+
+/**
+ * Turn a photo request carrying image data, either a completed `uploadId` or an
+ * inline base64 `photo`, into one referencing the stored files. Requests for
+ * photos the job already has, or that reference a URL, are returned unchanged.
+ */
+export async function preparePhoto(
+  job: Job,
+  body: unknown,
+  userId: string
+): Promise<PreparedPhoto> {
+  if (!isRecord(body)) return { body, errors: [] };
+
+  const id = typeof body.id === 'string' && body.id.length > 0 ? body.id : `photo-${uuidv4()}`;
+  if (job.photos.some(p => p.id === id)) return { body, errors: [] };
+  if (!PHOTO_ID_PATTERN.test(id)) {
+    return { body, errors: ['id may only contain letters, digits, - and _'] };
+  }
+
+  let image: { mimeType: string; data: Buffer; filename?: string };
+  let uploadId: string | undefined;
+  if (typeof body.uploadId === 'string') {
+    const upload = await readUpload(body.uploadId, userId);
+    if (!upload) {
+      return { body, errors: [`Upload ${body.uploadId} is unknown or not complete`] };
+    }
+    image = { ...upload.session, data: upload.data };
+    uploadId = body.uploadId;
+  } else if (typeof body.photo === 'string') {
+    const content = parseDataUrl(body.photo);
+    if (!content) {
+      return { body, errors: ['photo must be a base64 data URL'] };
+    }
+    image = content;
+  } else {
+    return { body, errors: [] };
+  }
+
+  let thumbnail: Buffer;
+  try {
+    thumbnail = await createThumbnail(image.data);
+  } catch {
+    return { body, errors: ['photo must be a readable JPEG, PNG or WebP image'] };
+  }
+  const metadata = await readMetadata(image.data);
+
+  await putBlob(originalKey(job, id), image.data);
+  await putBlob(thumbnailKey(job, id), thumbnail);
+
+  const { photo: _photo, uploadId: _uploadId, ...rest } = body;
+  const extension = image.mimeType.split('/')[1] ?? 'bin';
+  return {
+    body: {
+      ...rest,
+      id,
+      filename: typeof body.filename === 'string' ? body.filename : image.filename ?? `photo.${extension}`,
+      url: `/api/jobs/${job.id}/photos/${id}/content`,
+      thumbnailUrl: `/api/jobs/${job.id}/photos/${id}/thumbnail`,
+      mimeType: image.mimeType,
+      size: image.data.length,
+      // The camera's position when the photo was taken beats the device's when it was queued
+      coordinates: metadata.coordinates ?? body.coordinates,
+      takenAt: metadata.takenAt?.toISOString(),
+    },
+    uploadId,
+    storedPhotoId: id,
+    errors: [],
+  };
+}
+
+export async function readPhotoOriginal(job: Job, photoId: string): Promise<Buffer | undefined> {
+  return readBlob(originalKey(job, photoId));
+}
+
+export async function readPhotoThumbnail(job: Job, photoId: string): Promise<Buffer | undefined> {
+  return readBlob(thumbnailKey(job, photoId));
+}
+
+export async function deletePhotoFiles(job: Job, photoId: string): Promise<void> {
+  await deleteBlob(photoKey(job, photoId));
+}
@@ -0,0 +1,153 @@
+/**
+ * SYLON Chunked Uploads
+ * Resumable uploads of large files such as photos. A client opens an upload
+ * with the file's size, then sends chunks in order. After a dropped connection
+ * it reads the upload's offset and continues from there.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { CreateUploadRequest, UploadSession } from '@sylon/shared';
+import { appendBlob, deleteBlob, readBlob } from '../storage/blob-store.js';
+
+// Photos only; these are the formats the thumbnail generator reads
+export const UPLOAD_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const MAX_UPLOAD_SIZE = 25 * 1024 * 1024;
+export const UPLOAD_CHUNK_SIZE = 512 * 1024;
+export const MAX_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Unfinished or unused uploads are dropped after a day
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// An upload with the user who opened it, as stored
+export interface Upload extends UploadSession {
+  userId: string;
+}
+
+const uploads: Map<string, Upload> = new Map();
+
+// Uploads with a chunk being written; a concurrent chunk would land at the wrong offset
+const writing: Set<string> = new Set();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function blobKey(id: string): string {
+  return `uploads/${id}`;
+}
+
+function toSession(upload: Upload): UploadSession {
+  const { userId: _userId, ...session } = upload;
+  return session;
+}
+
+async function pruneExpiredUploads(now: Date): Promise<void> {
+  for (const upload of uploads.values()) {
+    if (upload.expiresAt <= now) {
+      await discardUpload(upload.id);
+    }
+  }
+}
+
+export function validateUploadRequest(body: unknown): { request?: CreateUploadRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { filename, mimeType, size } = body;
+  if (typeof filename !== 'string' || filename.trim().length === 0) {
+    errors.push('filename is required');
+  }
+  if (typeof mimeType !== 'string' || !UPLOAD_MIME_TYPES.includes(mimeType)) {
+    errors.push(`mimeType must be one of: ${UPLOAD_MIME_TYPES.join(', ')}`);
+  }
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < 1 || size > MAX_UPLOAD_SIZE) {
+    errors.push(`size must be between 1 and ${MAX_UPLOAD_SIZE} bytes`);
+  }
+
+  if (errors.length > 0) return { errors };
+  return { request: { filename: filename as string, mimeType: mimeType as string, size: size as number }, errors };
+}
+
+export async function createUpload(request: CreateUploadRequest, userId: string): Promise<UploadSession> {
+  const now = new Date();
+  await pruneExpiredUploads(now);
+
+  const upload: Upload = {
+    id: `upload-${uuidv4()}`,
+    filename: request.filename,
+    mimeType: request.mimeType,
+    size: request.size,
+    offset: 0,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    complete: false,
+    expiresAt: new Date(now.getTime() + UPLOAD_TTL_MS),
+    userId,
+  };
+  uploads.set(upload.id, upload);
+  return toSession(upload);
+}
+
+// Uploads are only visible to the user who opened them
+export function getUpload(id: string, userId: string): UploadSession | undefined {
+  const upload = uploads.get(id);
+  return upload && upload.userId === userId ? toSession(upload) : undefined;
+}
+
+/**
+ * Append a chunk at the given offset. A chunk for another offset is rejected
+ * with the current offset, so a client that lost a response can realign.
+ */
+export async function appendChunk(
+  id: string,
+  userId: string,
+  offset: number,
+  chunk: Buffer
+): Promise<{ session?: UploadSession; expectedOffset?: number; errors: string[] }> {
+  const upload = uploads.get(id);
+  if (!upload || upload.userId !== userId) {
+    return { errors: [] };
+  }
+  if (offset !== upload.offset || writing.has(id)) {
+    return { session: toSession(upload), expectedOffset: upload.offset, errors: [] };
+  }
+  if (chunk.length === 0) {
+    return { errors: ['Chunk must not be empty'] };
+  }
+  if (upload.offset + chunk.length > upload.size) {
+    return { errors: [`Chunk ends past the upload size of ${upload.size} bytes`] };
+  }
+
+  writing.add(id);
+  try {
+    // The file is the source of truth for the offset, should an append have partly failed
+    upload.offset = await appendBlob(blobKey(id), chunk);
+    upload.complete = upload.offset === upload.size;
+  } finally {
+    writing.delete(id);
+  }
+  return { session: toSession(upload), errors: [] };
+}
+
+// Content of a completed upload
+export async function readUpload(id: string, userId: string): Promise<{ session: UploadSession; data: Buffer } | undefined> {
+  const upload = uploads.get(id);
+  if (!upload || upload.userId !== userId || !upload.complete) return undefined;
+
+  const data = await readBlob(blobKey(id));
+  return data && data.length === upload.size ? { session: toSession(upload), data } : undefined;
+}
+
+export async function discardUpload(id: string): Promise<void> {
+  uploads.delete(id);
+  await deleteBlob(blobKey(id));
+}
+
+// Replace the uploads with those stored in the database; expired ones are pruned on the next upload
+export function loadUploads(stored: Upload[]): void {
+  uploads.clear();
+  for (const upload of stored) {
+    uploads.set(upload.id, upload);
+  }
+}
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { DEMO_COMPANY, DEMO_SUBSIDIARY, type WebSocketEvent } from '@sylon/shared';
+import type { AccessTokenClaims } from '../auth/tokens.js';
+import { addClient, broadcastEvent, closeSessionClients, getClientCount, handleClientMessage, removeClient } from './hub.js';
+
+function fakeSocket() {
+  return { readyState: WebSocket.OPEN, send: vi.fn(), close: vi.fn() };
+}
+
+function connect(sid: string, exp: number, resuming = false) {
+  const ws = fakeSocket();
+  const claims: AccessTokenClaims = { sub: 'user-admin-001', cid: DEMO_COMPANY.id, role: 'admin', sid, iat: 0, exp };
+  addClient(ws as unknown as WebSocket, claims, { resuming, positionFormat: 'none' });
+  return ws;
+}
+
+const inAnHour = () => Math.floor(Date.now() / 1000) + 60 * 60;
+
+// Messages sent to a fake socket, oldest first
+function received(ws: ReturnType<typeof fakeSocket>): { type: string; data?: Record<string, unknown>; seq?: number }[] {
+  return ws.send.mock.calls.map(([message]) => JSON.parse(message as string));
+}
+
+function alert(message: string): WebSocketEvent {
+  return { type: 'ALERT', data: { type: 'test', message, severity: 'info' } };
+}
+
+// The epoch and last sequence number a client saw before it disconnected
+function lastSeen(): { epoch: string; seq: number } {
+  const ws = connect('session-probe', inAnHour());
+  const welcome = received(ws).find(m => m.type === 'WELCOME')!;
+  removeClient(ws as unknown as WebSocket);
+  return welcome.data as { epoch: string; seq: number };
+}
+
+function resumeWith(ws: ReturnType<typeof fakeSocket>, epoch: string, lastSeq: number): void {
+  handleClientMessage(ws as unknown as WebSocket, JSON.stringify({ type: 'RESUME', epoch, lastSeq }));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('realtime hub', () => {
+  it('closes the connections of an ended session', () => {
+    const ended = connect('session-ended', inAnHour());
+    const other = connect('session-other', inAnHour());
+    const before = getClientCount();
+
+    closeSessionClients('session-ended');
+
+    expect(ended.close).toHaveBeenCalledWith(4401, 'Session ended');
+    expect(other.close).not.toHaveBeenCalled();
+    expect(getClientCount()).toBe(before - 1);
+  });
+
+  it('closes a connection whose access token expired instead of sending to it', () => {
+    const expired = connect('session-expired', Math.floor(Date.now() / 1000) - 1);
+    expired.send.mockClear();
+
+    broadcastEvent({ companyId: DEMO_COMPANY.id }, { type: 'ALERT', data: { type: 'test', message: 'test', severity: 'info' } });
+
+    expect(expired.close).toHaveBeenCalledWith(4401, 'Access token expired');
+    expect(expired.send).not.toHaveBeenCalled();
+  });
+});
+
+describe('resuming after a reconnect', () => {
+  it('holds live events back and replays the missed ones of its company in order', () => {
+    const { epoch, seq } = lastSeen();
+    broadcastEvent({ companyId: DEMO_COMPANY.id }, alert('first'));
+    broadcastEvent({ companyId: DEMO_SUBSIDIARY.id }, alert('other company'));
+    const ws = connect('session-resume', inAnHour(), true);
+    broadcastEvent({ companyId: DEMO_COMPANY.id }, alert('second'));
+
+    expect(received(ws).map(m => m.type)).toEqual(['WELCOME', 'SUBSCRIBED']);
+
+    resumeWith(ws, epoch, seq);
+
+    const replayed = received(ws).slice(2);
+    expect(replayed.map(m => m.data?.message ?? m.type)).toEqual(['first', 'second', 'RESUMED']);
+    expect(replayed[0]!.seq).toBe(seq + 1);
+    expect(replayed[1]!.seq).toBe(seq + 3);
+    expect(replayed[2]!.data).toEqual({ replayed: 2, seq: seq + 3 });
+
+    broadcastEvent({ companyId: DEMO_COMPANY.id }, alert('live'));
+
+    expect(received(ws).at(-1)).toMatchObject({ type: 'ALERT', seq: seq + 4 });
+  });
+
+  it('asks a client of an earlier server run to resync', () => {
+    const { seq } = lastSeen();
+    const ws = connect('session-restarted', inAnHour(), true);
+
+    resumeWith(ws, 'epoch-of-another-run', seq);
+
+    expect(received(ws).at(-1)).toMatchObject({ type: 'RESYNC_REQUIRED' });
+  });
+
+  it('asks for a resync when the missed events are no longer buffered', () => {
+    const { epoch, seq } = lastSeen();
+    for (let i = 0; i < 1001; i++) {
+      broadcastEvent({ companyId: DEMO_SUBSIDIARY.id }, alert(`event ${i}`));
+    }
+    const ws = connect('session-far-behind', inAnHour(), true);
+
+    resumeWith(ws, epoch, seq);
+
+    expect(received(ws).at(-1)).toEqual({ type: 'RESYNC_REQUIRED', data: { epoch, seq: seq + 1001 } });
+  });
+
+  it('asks for a resync when the client does not resume in time', () => {
+    vi.useFakeTimers();
+    const ws = connect('session-silent', inAnHour(), true);
+
+    vi.advanceTimersByTime(10 * 1000);
+
+    expect(received(ws).at(-1)).toMatchObject({ type: 'RESYNC_REQUIRED' });
+  });
+});
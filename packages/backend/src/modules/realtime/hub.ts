@@ -0,0 +1,448 @@
+/**
+ * SYLON Realtime Hub
+ * Authenticated WebSocket clients and their topic subscriptions. Events and
+ * positions are only delivered to clients subscribed to a matching topic.
+ * Events are numbered and buffered so reconnecting clients can catch up.
+ */
+
+import { randomUUID } from 'crypto';
+import { WebSocket } from 'ws';
+import type { GeoBounds, GeoPosition, Job, PositionFormat, Resource, SequencedEvent, SubscriptionTopic, WebSocketEvent, WebSocketReply } from '@sylon/shared';
+import { getResourceById } from '../../data/resources.js';
+import { getJobById } from '../../data/jobs.js';
+import { getSiteById } from '../../data/sites.js';
+import { getCurrentPosition, getCurrentPositions } from '../gps/positions.js';
+import { isInsideFence } from '../geofence/engine.js';
+import { canAccessJob, canAccessResource, canAccessSite, getOwnResourceIds, isFieldUser } from '../auth/authorization.js';
+import type { AccessTokenClaims } from '../auth/tokens.js';
+import { createPositionStream, encodePositionUpdates, type PositionStream, type PositionUpdate } from './position-stream.js';
+
+// What an event concerns, matched against the topics of each client
+export interface EventScope {
+  companyId: string;
+  resourceIds?: string[];
+  jobId?: string;
+  siteId?: string;
+}
+
+interface RealtimeClient {
+  claims: AccessTokenClaims;
+  topics: Map<string, SubscriptionTopic>;
+  positions: PositionStream;
+  // Reconnected clients get no events until they resume or the hold times out
+  resumeTimer?: NodeJS.Timeout;
+}
+
+interface BufferedEvent {
+  seq: number;
+  scope: EventScope;
+  message: string;
+}
+
+export interface ConnectionOptions {
+  resuming: boolean;
+  positionFormat: PositionFormat;
+}
+
+// Identifies this server run; sequence numbers start over with it
+const EPOCH = randomUUID();
+
+// Events kept for replay to reconnecting clients
+const REPLAY_BUFFER_SIZE = 1000;
+
+const RESUME_TIMEOUT_MS = 10 * 1000;
+
+// Same code as a connection refused for its token, so clients reconnect with a fresh one
+const AUTH_CLOSE_CODE = 4401;
+
+const clients: Map<WebSocket, RealtimeClient> = new Map();
+const replayBuffer: BufferedEvent[] = [];
+let sequence = 0;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function topicKey(topic: SubscriptionTopic): string {
+  switch (topic.type) {
+    case 'company': return 'company';
+    case 'resource': return `resource:${topic.resourceId}`;
+    case 'job': return `job:${topic.jobId}`;
+    case 'site': return `site:${topic.siteId}`;
+    case 'viewport': {
+      const { north, south, east, west } = topic.bounds;
+      return `viewport:${north},${south},${east},${west}`;
+    }
+  }
+}
+
+function isInBounds(position: GeoPosition, bounds: GeoBounds): boolean {
+  return position.latitude <= bounds.north && position.latitude >= bounds.south &&
+    position.longitude <= bounds.east && position.longitude >= bounds.west;
+}
+
+function parseBounds(value: unknown, errors: string[]): GeoBounds | undefined {
+  if (!isRecord(value)) {
+    errors.push('viewport topics need bounds');
+    return undefined;
+  }
+  const { north, south, east, west } = value;
+  if (![north, south, east, west].every(v => typeof v === 'number' && Number.isFinite(v))) {
+    errors.push('bounds must have numeric north, south, east and west');
+    return undefined;
+  }
+  const bounds = { north, south, east, west } as GeoBounds;
+  if (bounds.south > bounds.north || bounds.west > bounds.east) {
+    errors.push('bounds south must not exceed north, and west must not exceed east');
+    return undefined;
+  }
+  return bounds;
+}
+
+export function validateTopics(value: unknown): { topics?: SubscriptionTopic[]; errors: string[] } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { errors: ['topics must be a non-empty array'] };
+  }
+
+  const errors: string[] = [];
+  const topics: SubscriptionTopic[] = [];
+
+  for (const item of value) {
+    if (!isRecord(item)) {
+      errors.push('Each topic must be an object');
+      continue;
+    }
+    switch (item.type) {
+      case 'company':
+        topics.push({ type: 'company' });
+        break;
+      case 'resource':
+      case 'job':
+      case 'site': {
+        const idField = `${item.type}Id`;
+        const id = item[idField];
+        if (typeof id !== 'string' || id === '') errors.push(`${item.type} topics need ${idField}`);
+        else topics.push({ type: item.type, [idField]: id } as SubscriptionTopic);
+        break;
+      }
+      case 'viewport': {
+        const bounds = parseBounds(item.bounds, errors);
+        if (bounds) topics.push({ type: 'viewport', bounds });
+        break;
+      }
+      default:
+        errors.push('type must be one of: company, resource, job, site, viewport');
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return { topics, errors };
+}
+
+// Topics follow the same access rules as the REST API
+function canSubscribe(claims: AccessTokenClaims, topic: SubscriptionTopic): boolean {
+  switch (topic.type) {
+    case 'company': {
+      return !isFieldUser(claims);
+    }
+    case 'resource': {
+      const resource = getResourceById(topic.resourceId);
+      return resource !== undefined && canAccessResource(claims, resource);
+    }
+    case 'job': {
+      const job = getJobById(topic.jobId);
+      return job !== undefined && canAccessJob(claims, job);
+    }
+    case 'site': {
+      const site = getSiteById(topic.siteId);
+      return site !== undefined && canAccessSite(claims, site);
+    }
+    case 'viewport': {
+      return true;
+    }
+  }
+}
+
+// Office users follow their company, field users their own resources
+function defaultTopics(claims: AccessTokenClaims): SubscriptionTopic[] {
+  if (!isFieldUser(claims)) return [{ type: 'company' }];
+  return [...getOwnResourceIds(claims)].map(resourceId => ({ type: 'resource', resourceId }));
+}
+
+function send(ws: WebSocket, message: WebSocketReply | { type: string; data: unknown }): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function sendSubscriptions(ws: WebSocket, client: RealtimeClient): void {
+  send(ws, { type: 'SUBSCRIBED', data: { topics: [...client.topics.values()] } });
+}
+
+// Whether a client should get the position of a resource
+function followsResource(client: RealtimeClient, resource: Resource, position: GeoPosition | undefined): boolean {
+  if (!canAccessResource(client.claims, resource)) return false;
+
+  for (const topic of client.topics.values()) {
+    switch (topic.type) {
+      case 'company':
+        return true;
+      case 'resource':
+        if (topic.resourceId === resource.id) return true;
+        break;
+      case 'job':
+        if (getJobById(topic.jobId)?.assignedResources.some(a => a.resourceId === resource.id && a.status !== 'released')) return true;
+        break;
+      case 'site':
+        if (isInsideFence(resource.id, `site:${topic.siteId}`)) return true;
+        break;
+      case 'viewport':
+        if (position && isInBounds(position, topic.bounds)) return true;
+        break;
+    }
+  }
+  return false;
+}
+
+function matchesScope(client: RealtimeClient, scope: EventScope): boolean {
+  const { claims } = client;
+  if (claims.cid !== scope.companyId) return false;
+
+  const resources = (scope.resourceIds ?? [])
+    .map(id => getResourceById(id))
+    .filter((r): r is Resource => r !== undefined);
+
+  // Field users only hear about their own resources and jobs
+  if (isFieldUser(claims)) {
+    const job = scope.jobId ? getJobById(scope.jobId) : undefined;
+    const concernsOwn = resources.some(r => canAccessResource(claims, r)) || (job !== undefined && canAccessJob(claims, job));
+    if (!concernsOwn) return false;
+  }
+
+  for (const topic of client.topics.values()) {
+    switch (topic.type) {
+      case 'company':
+        return true;
+      case 'resource':
+        if (scope.resourceIds?.includes(topic.resourceId)) return true;
+        break;
+      case 'job':
+        if (scope.jobId === topic.jobId) return true;
+        break;
+      case 'site':
+        if (scope.siteId === topic.siteId) return true;
+        break;
+      case 'viewport':
+        if (resources.some(r => {
+          const position = getCurrentPosition(r.id);
+          return position !== undefined && canAccessResource(claims, r) && isInBounds(position, topic.bounds);
+        })) return true;
+        break;
+    }
+  }
+  return false;
+}
+
+function positionUpdatesFor(client: RealtimeClient, positions: Map<string, GeoPosition>): PositionUpdate[] {
+  const updates: PositionUpdate[] = [];
+  positions.forEach((position, resourceId) => {
+    const resource = getResourceById(resourceId);
+    if (resource && followsResource(client, resource, position)) {
+      updates.push({ resourceId, position });
+    }
+  });
+  return updates;
+}
+
+function sendInitialPositions(ws: WebSocket, client: RealtimeClient): void {
+  if (client.positions.format === 'none') return;
+  send(ws, { type: 'INITIAL_POSITIONS', data: positionUpdatesFor(client, getCurrentPositions()) });
+}
+
+function endResumeHold(client: RealtimeClient): void {
+  clearTimeout(client.resumeTimer);
+  client.resumeTimer = undefined;
+}
+
+/**
+ * Register a connected client. With resuming set, events are held back until the
+ * client sends RESUME, so replayed and live events cannot arrive out of order.
+ */
+export function addClient(ws: WebSocket, claims: AccessTokenClaims, { resuming, positionFormat }: ConnectionOptions): void {
+  const client: RealtimeClient = { claims, topics: new Map(), positions: createPositionStream(positionFormat) };
+  for (const topic of defaultTopics(claims)) {
+    client.topics.set(topicKey(topic), topic);
+  }
+  if (resuming) {
+    client.resumeTimer = setTimeout(() => {
+      endResumeHold(client);
+      send(ws, { type: 'RESYNC_REQUIRED', data: { epoch: EPOCH, seq: sequence } });
+    }, RESUME_TIMEOUT_MS);
+  }
+  clients.set(ws, client);
+
+  send(ws, { type: 'WELCOME', data: { epoch: EPOCH, seq: sequence } });
+  sendSubscriptions(ws, client);
+  sendInitialPositions(ws, client);
+}
+
+export function removeClient(ws: WebSocket): void {
+  const client = clients.get(ws);
+  if (client) endResumeHold(client);
+  clients.delete(ws);
+}
+
+function closeClient(ws: WebSocket, reason: string): void {
+  removeClient(ws);
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.close(AUTH_CLOSE_CODE, reason);
+  }
+}
+
+// Close the connections of a session that was logged out or revoked
+export function closeSessionClients(sessionId: string): void {
+  clients.forEach((client, ws) => {
+    if (client.claims.sid === sessionId) closeClient(ws, 'Session ended');
+  });
+}
+
+// The access token is only checked on connect, so expiry is checked before sending
+function closeExpiredClients(now: number): void {
+  clients.forEach((client, ws) => {
+    if (client.claims.exp * 1000 <= now) closeClient(ws, 'Access token expired');
+  });
+}
+
+// Replay the events the client missed, or tell it to reload when they are no longer buffered
+function resume(ws: WebSocket, client: RealtimeClient, epoch: string, lastSeq: number): void {
+  endResumeHold(client);
+
+  const oldestSeq = replayBuffer[0]?.seq ?? sequence + 1;
+  if (epoch !== EPOCH || lastSeq > sequence || lastSeq < oldestSeq - 1) {
+    send(ws, { type: 'RESYNC_REQUIRED', data: { epoch: EPOCH, seq: sequence } });
+    return;
+  }
+
+  let replayed = 0;
+  for (const entry of replayBuffer) {
+    if (entry.seq > lastSeq && matchesScope(client, entry.scope)) {
+      ws.send(entry.message);
+      replayed++;
+    }
+  }
+  send(ws, { type: 'RESUMED', data: { replayed, seq: sequence } });
+}
+
+export function getClientCount(): number {
+  return clients.size;
+}
+
+/**
+ * Handle a SUBSCRIBE or UNSUBSCRIBE message. A subscription is all or nothing:
+ * one topic the user may not access rejects the whole message.
+ */
+export function handleClientMessage(ws: WebSocket, raw: string): void {
+  const client = clients.get(ws);
+  if (!client) return;
+
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    send(ws, { type: 'ERROR', data: { code: 'INVALID_MESSAGE', message: 'Messages must be JSON' } });
+    return;
+  }
+
+  if (isRecord(message) && message.type === 'RESUME') {
+    const { epoch, lastSeq } = message;
+    if (typeof epoch !== 'string' || !Number.isInteger(lastSeq) || (lastSeq as number) < 0) {
+      send(ws, { type: 'ERROR', data: { code: 'VALIDATION_ERROR', message: 'RESUME needs epoch and a non-negative integer lastSeq' } });
+      return;
+    }
+    resume(ws, client, epoch, lastSeq as number);
+    return;
+  }
+
+  if (!isRecord(message) || (message.type !== 'SUBSCRIBE' && message.type !== 'UNSUBSCRIBE')) {
+    send(ws, { type: 'ERROR', data: { code: 'INVALID_MESSAGE', message: 'type must be SUBSCRIBE, UNSUBSCRIBE or RESUME' } });
+    return;
+  }
+
+  const { topics, errors } = validateTopics(message.topics);
+  if (!topics) {
+    send(ws, { type: 'ERROR', data: { code: 'VALIDATION_ERROR', message: 'Invalid topics', details: { errors } } });
+    return;
+  }
+
+  if (message.type === 'UNSUBSCRIBE') {
+    topics.forEach(topic => client.topics.delete(topicKey(topic)));
+    sendSubscriptions(ws, client);
+    return;
+  }
+
+  const denied = topics.filter(topic => !canSubscribe(client.claims, topic));
+  if (denied.length > 0) {
+    send(ws, { type: 'ERROR', data: { code: 'FORBIDDEN', message: 'Not allowed to subscribe to these topics', details: { topics: denied } } });
+    return;
+  }
+
+  topics.forEach(topic => client.topics.set(topicKey(topic), topic));
+  sendSubscriptions(ws, client);
+  // Positions of newly followed resources are sent right away
+  sendInitialPositions(ws, client);
+}
+
+export function broadcastEvent(scope: EventScope, event: WebSocketEvent): void {
+  const seq = ++sequence;
+  const message = JSON.stringify({ ...event, seq } satisfies SequencedEvent);
+
+  replayBuffer.push({ seq, scope, message });
+  if (replayBuffer.length > REPLAY_BUFFER_SIZE) {
+    replayBuffer.shift();
+  }
+
+  closeExpiredClients(Date.now());
+  clients.forEach((client, ws) => {
+    if (ws.readyState === WebSocket.OPEN && !client.resumeTimer && matchesScope(client, scope)) {
+      ws.send(message);
+    }
+  });
+}
+
+// Send each client the changed positions of the resources it follows
+export function broadcastPositions(positions: Map<string, GeoPosition>): void {
+  const now = Date.now();
+  closeExpiredClients(now);
+  clients.forEach((client, ws) => {
+    if (ws.readyState !== WebSocket.OPEN) return;
+    const message = encodePositionUpdates(client.positions, positionUpdatesFor(client, positions), now);
+    if (message !== null) {
+      ws.send(message);
+    }
+  });
+}
+
+export function closeAllClients(code: number, reason: string): void {
+  clients.forEach((client, ws) => {
+    endResumeHold(client);
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.close(code, reason);
+    }
+  });
+  clients.clear();
+}
+
+export function jobScope(job: Job): EventScope {
+  return {
+    companyId: job.companyId,
+    jobId: job.id,
+    resourceIds: job.assignedResources.map(a => a.resourceId),
+    siteId: job.location.siteId,
+  };
+}
+
+export function resourceScope(companyId: string, resourceId: string): EventScope {
+  return { companyId, resourceIds: [resourceId] };
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import type { GeoPosition, PositionFrame } from '@sylon/shared';
+import { applyPositionFrame, decodePositionFrame, type PositionSlots } from '@sylon/shared';
+import { createPositionStream, encodePositionUpdates, type PositionStream, type PositionUpdate } from './position-stream.js';
+
+const START = Date.parse('2026-01-15T07:00:00Z');
+
+function at(resourceId: string, latitude: number, longitude: number, time: number, speed = 40, heading = 90): PositionUpdate {
+  return { resourceId, position: { latitude, longitude, speed, heading, timestamp: new Date(time) } };
+}
+
+// Decode a binary message the way a client does
+function decodeBinary(message: string | Buffer | null): PositionFrame {
+  if (!Buffer.isBuffer(message)) throw new Error('Expected a binary frame');
+  const bytes = message.buffer.slice(message.byteOffset, message.byteOffset + message.byteLength);
+  return decodePositionFrame(bytes as ArrayBuffer);
+}
+
+function decodeDelta(message: string | Buffer | null): PositionFrame {
+  if (typeof message !== 'string') throw new Error('Expected a JSON frame');
+  const parsed = JSON.parse(message) as { type: string; data: PositionFrame };
+  expect(parsed.type).toBe('POSITION_DELTA');
+  return parsed.data;
+}
+
+function expectPosition(actual: GeoPosition, expected: GeoPosition): void {
+  expect(actual.latitude).toBeCloseTo(expected.latitude, 5);
+  expect(actual.longitude).toBeCloseTo(expected.longitude, 5);
+  expect(actual.speed).toBeCloseTo(expected.speed ?? 0, 1);
+  expect(actual.heading).toBe(expected.heading);
+  expect(actual.timestamp).toEqual(expected.timestamp);
+}
+
+describe('binary position frames', () => {
+  it('decode to the positions that were sent, first as keyframes and then as deltas', () => {
+    const stream = createPositionStream('binary');
+    const slots: PositionSlots = new Map();
+    const first = [at('plow-truck-01', 62.39129, 17.30686, START), at('salt-truck-01', 62.4, 17.3, START - 3000)];
+    const second = [at('plow-truck-01', 62.39229, 17.30786, START + 2000, 52.3, 45), first[1]!];
+
+    const keyframes = decodeBinary(encodePositionUpdates(stream, first, START));
+    const received = applyPositionFrame(slots, keyframes);
+
+    expect(keyframes.keyframes).toHaveLength(2);
+    expect(keyframes.deltas).toHaveLength(0);
+    received.forEach((update, i) => {
+      expect(update.resourceId).toBe(first[i]!.resourceId);
+      expectPosition(update.position, first[i]!.position);
+    });
+
+    const deltas = decodeBinary(encodePositionUpdates(stream, second, START + 2000));
+
+    // The salt truck stood still and is left out
+    expect(deltas.keyframes).toHaveLength(0);
+    expect(deltas.deltas).toHaveLength(1);
+    const [moved] = applyPositionFrame(slots, deltas);
+    expect(moved!.resourceId).toBe('plow-truck-01');
+    expectPosition(moved!.position, second[0]!.position);
+  });
+
+  it('carry the same frame as the JSON delta format', () => {
+    const binary = createPositionStream('binary');
+    const delta = createPositionStream('delta');
+    const ticks = [
+      [at('plow-truck-01', 62.39129, 17.30686, START), at('salt-truck-01', 62.4, 17.3, START)],
+      [at('plow-truck-01', 62.39179, 17.30586, START + 2000, 35, 270), at('salt-truck-01', 62.4002, 17.3, START + 2000, 20, 0)],
+    ];
+
+    for (const [i, updates] of ticks.entries()) {
+      const now = START + i * 2000;
+      expect(decodeBinary(encodePositionUpdates(binary, updates, now)))
+        .toEqual(decodeDelta(encodePositionUpdates(delta, updates, now)));
+    }
+  });
+});
+
+describe('encodePositionUpdates', () => {
+  function send(stream: PositionStream, updates: PositionUpdate[], now: number): PositionFrame {
+    return decodeDelta(encodePositionUpdates(stream, updates, now));
+  }
+
+  it('sends a keyframe when the move is too large for a delta', () => {
+    const stream = createPositionStream('delta');
+    send(stream, [at('plow-truck-01', 62.39, 17.3, START)], START);
+
+    const frame = send(stream, [at('plow-truck-01', 62.8, 17.3, START + 2000)], START + 2000);
+
+    expect(frame.keyframes).toEqual([[0, 'plow-truck-01', 6280000, 1730000, 400, 90, 0]]);
+    expect(frame.deltas).toHaveLength(0);
+  });
+
+  it('resends a stationary resource after a while and keeps its slot when it is followed again', () => {
+    const stream = createPositionStream('delta');
+    const truck = at('plow-truck-01', 62.39, 17.3, START, 0);
+    const loader = at('wheel-loader-01', 62.41, 17.31, START, 0);
+    send(stream, [truck, loader], START);
+
+    expect(encodePositionUpdates(stream, [truck, loader], START + 10_000)).toBeNull();
+    expect(send(stream, [truck, loader], START + 30_000).deltas.map(([slot]) => slot)).toEqual([0, 1]);
+
+    // Unfollowed, the loader gets a keyframe in its old slot when it comes back
+    expect(encodePositionUpdates(stream, [truck], START + 32_000)).toBeNull();
+    const frame = send(stream, [truck, loader], START + 34_000);
+
+    expect(frame.keyframes.map(([slot, resourceId]) => [slot, resourceId])).toEqual([[1, 'wheel-loader-01']]);
+  });
+
+  it('sends full positions in the full format and nothing in the none format', () => {
+    const update = at('plow-truck-01', 62.39, 17.3, START);
+
+    expect(JSON.parse(encodePositionUpdates(createPositionStream('full'), [update], START) as string))
+      .toEqual({ type: 'POSITION_UPDATE', data: [{ ...update, position: { ...update.position, timestamp: new Date(START).toISOString() } }] });
+    expect(encodePositionUpdates(createPositionStream('none'), [update], START)).toBeNull();
+  });
+});
+
+describe('decodePositionFrame', () => {
+  it('rejects a frame of another version', () => {
+    const bytes = new Uint8Array(13);
+    bytes[0] = 2;
+
+    expect(() => decodePositionFrame(bytes.buffer)).toThrow('Unsupported position frame');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * SYLON Position Stream
+ * Per-connection position state. Only resources that moved, changed speed or
+ * have not been refreshed for a while are sent, as full positions, quantized
+ * deltas or binary frames depending on the format the client chose.
+ */
+
+import type { GeoPosition, PositionDelta, PositionFormat, PositionFrame, PositionKeyframe, QuantizedPosition } from '@sylon/shared';
+import { MAX_COORDINATE_DELTA, calculateDistance, dequantizePosition, encodePositionFrame, quantizePosition } from '@sylon/shared';
+
+// Resources that moved less than this since the last update count as stationary
+export const STATIONARY_THRESHOLD_METERS = 5;
+
+// Speed changes below this (in 0.1 km/h) do not count as a change on their own
+const SPEED_THRESHOLD = 10;
+
+// Stationary resources are still resent this often, so their timestamps stay current
+const STATIONARY_REFRESH_MS = 30 * 1000;
+
+const POSITION_FORMATS: PositionFormat[] = ['full', 'delta', 'binary', 'none'];
+
+export interface PositionUpdate {
+  resourceId: string;
+  position: GeoPosition;
+}
+
+interface SentPosition {
+  position: QuantizedPosition;
+  sentAt: number;
+}
+
+export interface PositionStream {
+  format: PositionFormat;
+  // Slots stay assigned for the lifetime of the connection
+  slots: Map<string, number>;
+  // Last position sent per resource the client currently follows
+  sent: Map<string, SentPosition>;
+}
+
+export function isPositionFormat(value: string): value is PositionFormat {
+  return (POSITION_FORMATS as string[]).includes(value);
+}
+
+export function createPositionStream(format: PositionFormat): PositionStream {
+  return { format, slots: new Map(), sent: new Map() };
+}
+
+function hasChanged(previous: SentPosition, position: QuantizedPosition, now: number): boolean {
+  if (now - previous.sentAt >= STATIONARY_REFRESH_MS) return true;
+  if (Math.abs(position.speed - previous.position.speed) >= SPEED_THRESHOLD) return true;
+
+  const timestamp = new Date(now);
+  const meters = calculateDistance(
+    dequantizePosition(previous.position, timestamp),
+    dequantizePosition(position, timestamp)
+  ) * 1000;
+  return meters >= STATIONARY_THRESHOLD_METERS;
+}
+
+function slotFor(stream: PositionStream, resourceId: string): number {
+  let slot = stream.slots.get(resourceId);
+  if (slot === undefined) {
+    slot = stream.slots.size;
+    stream.slots.set(resourceId, slot);
+  }
+  return slot;
+}
+
+/**
+ * Record which of the followed positions the client needs and build the frame for them.
+ * Resources missing from updates are no longer followed and get a keyframe when they return.
+ */
+function collectChanges(
+  stream: PositionStream,
+  updates: PositionUpdate[],
+  now: number
+): { changed: PositionUpdate[]; frame: PositionFrame } {
+  const changed: PositionUpdate[] = [];
+  const frame: PositionFrame = { time: now, keyframes: [], deltas: [] };
+  const followed = new Set(updates.map(u => u.resourceId));
+
+  for (const resourceId of stream.sent.keys()) {
+    if (!followed.has(resourceId)) stream.sent.delete(resourceId);
+  }
+
+  for (const update of updates) {
+    const position = quantizePosition(update.position);
+    const previous = stream.sent.get(update.resourceId);
+    if (previous && !hasChanged(previous, position, now)) continue;
+
+    const slot = slotFor(stream, update.resourceId);
+    const age = Math.max(0, Math.round((now - new Date(update.position.timestamp).getTime()) / 1000));
+    const dLat = previous ? position.lat - previous.position.lat : 0;
+    const dLng = previous ? position.lng - previous.position.lng : 0;
+
+    if (previous && Math.abs(dLat) <= MAX_COORDINATE_DELTA && Math.abs(dLng) <= MAX_COORDINATE_DELTA) {
+      frame.deltas.push([slot, dLat, dLng, position.speed, position.heading, age] satisfies PositionDelta);
+    } else {
+      frame.keyframes.push([slot, update.resourceId, position.lat, position.lng, position.speed, position.heading, age] satisfies PositionKeyframe);
+    }
+
+    stream.sent.set(update.resourceId, { position, sentAt: now });
+    changed.push(update);
+  }
+
+  return { changed, frame };
+}
+
+// The message to send for this tick, or null when nothing the client follows changed
+export function encodePositionUpdates(
+  stream: PositionStream,
+  updates: PositionUpdate[],
+  now: number = Date.now()
+): string | Buffer | null {
+  if (stream.format === 'none') return null;
+
+  const { changed, frame } = collectChanges(stream, updates, now);
+  if (changed.length === 0) return null;
+
+  switch (stream.format) {
+    case 'full':
+      return JSON.stringify({ type: 'POSITION_UPDATE', data: changed });
+    case 'delta':
+      return JSON.stringify({ type: 'POSITION_DELTA', data: frame });
+    case 'binary':
+      return Buffer.from(encodePositionFrame(frame));
+  }
+}
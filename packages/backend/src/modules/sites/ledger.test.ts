@@ -0,0 +1,46 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { SiteMaterial } from '@sylon/shared';
+import { DEMO_SUBSIDIARY } from '@sylon/shared';
+import { allJobs, getJobById } from '../../data/jobs.js';
+import { allSites, getSiteById } from '../../data/sites.js';
+import { getStock, recordOpeningBalance, recordTransaction } from './ledger.js';
+
+const SITE_ID = 'site-quarry-north';
+const FOREIGN_SITE = 'kust-test-dump';
+const FOREIGN_JOB = 'kust-test-job';
+
+let material: SiteMaterial;
+
+beforeAll(() => {
+  material = getSiteById(SITE_ID)!.materials![0]!;
+  recordOpeningBalance(SITE_ID, material);
+  allSites.push({ ...structuredClone(getSiteById('site-snow-dump')!), id: FOREIGN_SITE, companyId: DEMO_SUBSIDIARY.id });
+  allJobs.push({ ...structuredClone(getJobById('job-haul-001')!), id: FOREIGN_JOB, companyId: DEMO_SUBSIDIARY.id });
+});
+
+afterAll(() => {
+  allSites.splice(allSites.findIndex(s => s.id === FOREIGN_SITE), 1);
+  allJobs.splice(allJobs.findIndex(j => j.id === FOREIGN_JOB), 1);
+});
+
+describe('recordTransaction', () => {
+  it('books a delivery by a resource of the site company', () => {
+    const before = getStock(SITE_ID, material.id)!;
+    const result = recordTransaction(SITE_ID, { materialId: material.id, type: 'in', quantity: 5, resourceId: 'haul-truck-01' });
+
+    expect('transaction' in result).toBe(true);
+    expect(getStock(SITE_ID, material.id)).toBe(before + 5);
+  });
+
+  it.each([
+    ['resourceId', { resourceId: 'kust-haul-01' }, 'Resource not found'],
+    ['destinationSiteId', { destinationSiteId: FOREIGN_SITE }, 'Destination site not found'],
+    ['jobId', { jobId: FOREIGN_JOB }, 'Job not found'],
+  ])('rejects a %s of another company', (_field, reference, message) => {
+    const before = getStock(SITE_ID, material.id);
+    const result = recordTransaction(SITE_ID, { materialId: material.id, type: 'out', quantity: 1, ...reference });
+
+    expect(result).toEqual({ error: { code: 'NOT_FOUND', message } });
+    expect(getStock(SITE_ID, material.id)).toBe(before);
+  });
+});
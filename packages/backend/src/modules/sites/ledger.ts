@@ -0,0 +1,245 @@
+/**
+ * SYLON Material Ledger
+ * Append-only material transactions that drive site stock levels and availability
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { CreateMaterialTransactionRequest, MaterialTransaction, SiteMaterial } from '@sylon/shared';
+import { allSites, getSiteById } from '../../data/sites.js';
+import { getResourceById } from '../../data/resources.js';
+import { getJobById } from '../../data/jobs.js';
+
+export type LedgerErrorCode = 'NOT_FOUND' | 'VALIDATION_ERROR' | 'INSUFFICIENT_STOCK';
+
+export interface LedgerError {
+  code: LedgerErrorCode;
+  message: string;
+}
+
+export interface TransactionValidationResult {
+  request?: CreateMaterialTransactionRequest;
+  errors: string[];
+}
+
+export interface TransactionFilter {
+  materialId?: string;
+  jobId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+const OPENING_BALANCE_NOTE = 'Opening balance';
+
+const transactions: MaterialTransaction[] = [];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(body: Record<string, unknown>, field: string, errors: string[]): string | undefined {
+  const value = body[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.length === 0) {
+    errors.push(`${field} must be a non-empty string`);
+    return undefined;
+  }
+  return value;
+}
+
+// Avoid floating point drift when summing fractional tons
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Validate the shape of a transaction request body
+export function validateTransaction(body: unknown): TransactionValidationResult {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { materialId, type, quantity } = body;
+
+  if (typeof materialId !== 'string' || materialId.length === 0) {
+    errors.push('materialId is required');
+  }
+  if (type !== 'in' && type !== 'out') {
+    errors.push("type must be 'in' or 'out'");
+  }
+  if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0) {
+    errors.push('quantity must be a positive number');
+  }
+
+  const request = {
+    unit: optionalString(body, 'unit', errors),
+    resourceId: optionalString(body, 'resourceId', errors),
+    operatorId: optionalString(body, 'operatorId', errors),
+    jobId: optionalString(body, 'jobId', errors),
+    destinationSiteId: optionalString(body, 'destinationSiteId', errors),
+    notes: optionalString(body, 'notes', errors),
+    weighticketNumber: optionalString(body, 'weighticketNumber', errors),
+  };
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    request: {
+      materialId: materialId as string,
+      type: type as 'in' | 'out',
+      quantity: quantity as number,
+      ...request,
+    },
+    errors,
+  };
+}
+
+// Current stock from the ledger, or undefined if the material has no transactions
+export function getStock(siteId: string, materialId: string): number | undefined {
+  let stock: number | undefined;
+  for (const t of transactions) {
+    if (t.siteId !== siteId || t.materialId !== materialId) continue;
+    stock = (stock ?? 0) + (t.type === 'in' ? t.quantity : -t.quantity);
+  }
+  return stock === undefined ? undefined : roundQuantity(stock);
+}
+
+// Availability from stock level. Seasonal is set by hand and left alone.
+export function calculateAvailability(material: SiteMaterial, stock: number): SiteMaterial['availability'] {
+  if (material.availability === 'seasonal') return 'seasonal';
+  if (stock <= 0) return 'out_of_stock';
+  if (material.minStock !== undefined && stock <= material.minStock) return 'low';
+  return 'available';
+}
+
+// Recompute currentStock and availability for a material from its ledger
+export function refreshMaterialStock(siteId: string, materialId: string): SiteMaterial | undefined {
+  const site = getSiteById(siteId);
+  const material = site?.materials?.find(m => m.id === materialId);
+  if (!site || !material) return undefined;
+
+  const stock = getStock(siteId, materialId);
+  if (stock === undefined) return material;
+
+  material.currentStock = stock;
+  material.availability = calculateAvailability(material, stock);
+  site.updatedAt = new Date();
+  return material;
+}
+
+function appendTransaction(siteId: string, request: CreateMaterialTransactionRequest, unit: string): MaterialTransaction {
+  const now = new Date();
+  const transaction: MaterialTransaction = {
+    id: `txn-${uuidv4()}`,
+    siteId,
+    materialId: request.materialId,
+    type: request.type,
+    quantity: request.quantity,
+    unit,
+    resourceId: request.resourceId,
+    operatorId: request.operatorId,
+    jobId: request.jobId,
+    destinationSiteId: request.destinationSiteId,
+    notes: request.notes,
+    weighticketNumber: request.weighticketNumber,
+    createdAt: now,
+    updatedAt: now,
+  };
+  transactions.push(transaction);
+  return transaction;
+}
+
+/**
+ * Record a movement against a site's material stock.
+ * Outgoing movements may not take stock below zero.
+ */
+export function recordTransaction(
+  siteId: string,
+  request: CreateMaterialTransactionRequest
+): { transaction: MaterialTransaction; material: SiteMaterial } | { error: LedgerError } {
+  const site = getSiteById(siteId);
+  if (!site) {
+    return { error: { code: 'NOT_FOUND', message: 'Site not found' } };
+  }
+
+  const material = site.materials?.find(m => m.id === request.materialId);
+  if (!material) {
+    return { error: { code: 'NOT_FOUND', message: 'Material not found' } };
+  }
+
+  if (request.unit !== undefined && request.unit !== material.unit) {
+    return { error: { code: 'VALIDATION_ERROR', message: `unit must match the material unit (${material.unit})` } };
+  }
+  // Resources, jobs and destinations of other companies are reported as not found
+  if (request.resourceId && getResourceById(request.resourceId)?.companyId !== site.companyId) {
+    return { error: { code: 'NOT_FOUND', message: 'Resource not found' } };
+  }
+  if (request.jobId && getJobById(request.jobId)?.companyId !== site.companyId) {
+    return { error: { code: 'NOT_FOUND', message: 'Job not found' } };
+  }
+  if (request.destinationSiteId && getSiteById(request.destinationSiteId)?.companyId !== site.companyId) {
+    return { error: { code: 'NOT_FOUND', message: 'Destination site not found' } };
+  }
+
+  if (request.type === 'out') {
+    const stock = getStock(siteId, material.id) ?? 0;
+    if (request.quantity > stock) {
+      return {
+        error: {
+          code: 'INSUFFICIENT_STOCK',
+          message: `Only ${stock} ${material.unit} of ${material.name} in stock`,
+        },
+      };
+    }
+  }
+
+  const transaction = appendTransaction(siteId, request, material.unit);
+  refreshMaterialStock(siteId, material.id);
+  return { transaction, material };
+}
+
+// Book the initial stock of a new material as an opening balance
+export function recordOpeningBalance(siteId: string, material: SiteMaterial): MaterialTransaction | undefined {
+  if (material.currentStock === undefined || material.currentStock <= 0) return undefined;
+  const transaction = appendTransaction(
+    siteId,
+    { materialId: material.id, type: 'in', quantity: material.currentStock, notes: OPENING_BALANCE_NOTE },
+    material.unit
+  );
+  refreshMaterialStock(siteId, material.id);
+  return transaction;
+}
+
+// Get transactions for a site, newest first
+export function getTransactions(siteId: string, filter: TransactionFilter = {}): MaterialTransaction[] {
+  return transactions
+    .filter(t => t.siteId === siteId)
+    .filter(t => !filter.materialId || t.materialId === filter.materialId)
+    .filter(t => !filter.jobId || t.jobId === filter.jobId)
+    .filter(t => !filter.from || t.createdAt >= filter.from)
+    .filter(t => !filter.to || t.createdAt <= filter.to)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+// Get every transaction in the order it was recorded
+export function getAllTransactions(): MaterialTransaction[] {
+  return [...transactions];
+}
+
+// Replace the ledger with stored transactions and recompute stock from them
+export function loadTransactions(stored: MaterialTransaction[]): void {
+  transactions.splice(0, transactions.length, ...stored);
+  for (const site of allSites) {
+    for (const material of site.materials ?? []) {
+      refreshMaterialStock(site.id, material.id);
+    }
+  }
+}
+
+// Seed opening balances from the demo stock levels
+for (const site of allSites) {
+  for (const material of site.materials ?? []) {
+    recordOpeningBalance(site.id, material);
+  }
+}
@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DEMO_QUARRY_NORTH } from '@sylon/shared';
+import { getSiteById } from '../../data/sites.js';
+import { evaluatePosition, type ActiveFence, type GeofenceAction } from '../geofence/engine.js';
+import { calculateTrafficStats, getSiteVisits, handleGeofenceTransition } from './visits.js';
+
+const SITE_ID = 'site-quarry-north';
+
+function transition(action: GeofenceAction, timestamp: string) {
+  const site = getSiteById(SITE_ID)!;
+  const fence: ActiveFence = { key: `site:${SITE_ID}`, kind: 'site', entityId: SITE_ID, fence: site.geofence! };
+  return {
+    fence,
+    resourceId: 'haul-truck-03',
+    action,
+    position: { ...DEMO_QUARRY_NORTH, timestamp: new Date(timestamp) },
+  };
+}
+
+beforeAll(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-01-15T12:00:00Z'));
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe('calculateTrafficStats', () => {
+  it('counts days and hours in the company time zone', () => {
+    // 00:30 on 15 January in Stockholm, still 14 January in UTC
+    handleGeofenceTransition(transition('enter', '2025-01-14T23:30:00Z'));
+    handleGeofenceTransition(transition('exit', '2025-01-14T23:50:00Z'));
+
+    const stats = calculateTrafficStats(SITE_ID, new Date('2025-01-15T12:00:00Z'));
+    expect(stats.date).toBe('2025-01-15');
+    expect(stats.totalVisits).toBe(1);
+    expect(stats.peakHour).toBe('00:00');
+
+    expect(calculateTrafficStats(SITE_ID, new Date('2025-01-14T12:00:00Z')).totalVisits).toBe(0);
+  });
+});
+
+describe('site visits across companies', () => {
+  it('records no visits for a resource of another company', () => {
+    const resourceId = 'kust-haul-01';
+    const before = getSiteVisits(SITE_ID).length;
+    const far = { latitude: DEMO_QUARRY_NORTH.latitude + 0.05, longitude: DEMO_QUARRY_NORTH.longitude };
+
+    const transitions = [
+      ...evaluatePosition(resourceId, { ...far, timestamp: new Date('2025-01-15T08:00:00Z') }),
+      ...evaluatePosition(resourceId, { ...DEMO_QUARRY_NORTH, timestamp: new Date('2025-01-15T08:05:00Z') }),
+      ...evaluatePosition(resourceId, { ...far, timestamp: new Date('2025-01-15T08:30:00Z') }),
+    ];
+    transitions.forEach(handleGeofenceTransition);
+
+    expect(getSiteVisits(SITE_ID).length).toBe(before);
+  });
+});
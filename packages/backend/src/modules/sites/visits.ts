@@ -0,0 +1,227 @@
+/**
+ * SYLON Site Visits
+ * Records site visits from geofence transitions and rolls them up into traffic statistics
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { GeoPosition, Site, SiteVisit, TrafficStats } from '@sylon/shared';
+import { calculateDistance } from '@sylon/shared';
+import { getSiteById } from '../../data/sites.js';
+import { getResourceById } from '../../data/resources.js';
+import { getJobsByResource } from '../../data/jobs.js';
+import { getCompanyById } from '../../data/companies.js';
+import { getHistory } from '../gps/history.js';
+import { isoDate } from '../invoicing/documents.js';
+import type { GeofenceTransition } from '../geofence/engine.js';
+
+// Visits shorter than this are drive-throughs and are not recorded
+const MIN_VISIT_DURATION_MS = 60 * 1000;
+// Below this speed (km/h) a resource counts as standing still
+const STATIONARY_SPEED_KMH = 2;
+// Keep a week of visits in memory
+export const VISIT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A visit opened, closed or dropped by a geofence transition
+export interface VisitChange {
+  visit: SiteVisit;
+  // Drive-throughs are dropped when they leave
+  dropped: boolean;
+}
+
+const visits: SiteVisit[] = [];
+// Open visit id per resource and site
+const openVisits: Map<string, string> = new Map();
+
+function openVisitKey(siteId: string, resourceId: string): string {
+  return `${siteId}:${resourceId}`;
+}
+
+// Infer what the resource is doing at the site from site and resource type
+function inferVisitType(site: Site, resourceId: string): SiteVisit['type'] {
+  const resource = getResourceById(resourceId);
+  if (site.type === 'garage') {
+    return resource?.status === 'maintenance' ? 'service' : 'parking';
+  }
+  if (!resource || resource.type === 'wheel_loader' || resource.type === 'excavator') {
+    return 'other';
+  }
+  if (site.type === 'quarry' || site.type === 'depot' || site.type === 'asphalt_plant') {
+    return 'loading';
+  }
+  if (site.type === 'snow_dump' || site.type === 'project_area' || site.type === 'customer_site') {
+    return 'unloading';
+  }
+  return 'other';
+}
+
+// Speed in km/h for each point, derived from consecutive positions when the device did not report one
+function speedsOf(points: GeoPosition[]): number[] {
+  return points.map((point, i) => {
+    if (point.speed !== undefined) return point.speed;
+    const prev = points[i - 1];
+    if (!prev) return 0;
+    const hours = (point.timestamp.getTime() - prev.timestamp.getTime()) / 3600000;
+    return hours > 0 ? calculateDistance(prev, point) / hours : 0;
+  });
+}
+
+/**
+ * Calculate wait time in minutes for a visit. All stationary time counts as waiting,
+ * except the longest stationary stretch which is taken to be the loading or unloading itself.
+ */
+export function calculateWaitTime(resourceId: string, arrivedAt: Date, departedAt: Date): number {
+  const points = getHistory(resourceId, arrivedAt, departedAt).map(p => p.position);
+  const speeds = speedsOf(points);
+
+  const stretches: number[] = [];
+  let current = 0;
+  for (let i = 1; i < points.length; i++) {
+    const duration = points[i]!.timestamp.getTime() - points[i - 1]!.timestamp.getTime();
+    if (speeds[i]! < STATIONARY_SPEED_KMH && speeds[i - 1]! < STATIONARY_SPEED_KMH) {
+      current += duration;
+    } else if (current > 0) {
+      stretches.push(current);
+      current = 0;
+    }
+  }
+  if (current > 0) stretches.push(current);
+
+  const total = stretches.reduce((sum, d) => sum + d, 0);
+  const longest = stretches.length > 0 ? Math.max(...stretches) : 0;
+  return Math.round((total - longest) / 60000);
+}
+
+function pruneVisits(): void {
+  const cutoff = Date.now() - VISIT_RETENTION_MS;
+  while (visits.length > 0 && visits[0]!.arrivedAt.getTime() < cutoff && visits[0]!.departedAt) {
+    visits.shift();
+  }
+}
+
+function openVisit(site: Site, resourceId: string, arrivedAt: Date): SiteVisit {
+  const resource = getResourceById(resourceId);
+  const job = getJobsByResource(resourceId).find(j => j.status === 'in_progress' || j.status === 'assigned');
+
+  const visit: SiteVisit = {
+    id: `visit-${uuidv4()}`,
+    siteId: site.id,
+    resourceId,
+    operatorId: resource?.assignedOperatorId,
+    jobId: job?.id,
+    arrivedAt,
+    type: inferVisitType(site, resourceId),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  visits.push(visit);
+  openVisits.set(openVisitKey(site.id, resourceId), visit.id);
+  return visit;
+}
+
+function closeVisit(site: Site, resourceId: string, departedAt: Date): VisitChange | undefined {
+  const key = openVisitKey(site.id, resourceId);
+  const visitId = openVisits.get(key);
+  openVisits.delete(key);
+
+  const index = visits.findIndex(v => v.id === visitId);
+  const visit = visits[index];
+  if (!visit) return undefined;
+
+  if (departedAt.getTime() - visit.arrivedAt.getTime() < MIN_VISIT_DURATION_MS) {
+    visits.splice(index, 1);
+    return { visit, dropped: true };
+  }
+
+  visit.departedAt = departedAt;
+  visit.waitTime = calculateWaitTime(resourceId, visit.arrivedAt, departedAt);
+  visit.updatedAt = new Date();
+  return { visit, dropped: false };
+}
+
+// Open or close a visit for a site geofence transition
+export function handleGeofenceTransition(transition: GeofenceTransition): VisitChange | undefined {
+  if (transition.fence.kind !== 'site') return undefined;
+
+  const site = getSiteById(transition.fence.entityId);
+  if (!site) return undefined;
+
+  const change = transition.action === 'enter'
+    ? { visit: openVisit(site, transition.resourceId, transition.position.timestamp), dropped: false }
+    : closeVisit(site, transition.resourceId, transition.position.timestamp);
+
+  pruneVisits();
+  site.trafficStats = calculateTrafficStats(site.id);
+  return change;
+}
+
+// Replace the visits with those stored in the database; visits without a departure are still open
+export function loadVisits(stored: SiteVisit[]): void {
+  visits.splice(0, visits.length, ...[...stored].sort((a, b) => a.arrivedAt.getTime() - b.arrivedAt.getTime()));
+  openVisits.clear();
+  for (const visit of visits) {
+    if (!visit.departedAt) openVisits.set(openVisitKey(visit.siteId, visit.resourceId), visit.id);
+  }
+  pruneVisits();
+}
+
+// Get visits for a site, newest first
+export function getSiteVisits(siteId: string, from?: Date, to?: Date): SiteVisit[] {
+  return visits
+    .filter(v => v.siteId === siteId)
+    .filter(v => !from || v.arrivedAt >= from)
+    .filter(v => !to || v.arrivedAt <= to)
+    .sort((a, b) => b.arrivedAt.getTime() - a.arrivedAt.getTime());
+}
+
+// Hour of the day, 0-23, in the given time zone
+function hourOf(date: Date, timeZone: string): number {
+  return Number(new Intl.DateTimeFormat('sv-SE', { timeZone, hour: '2-digit', hourCycle: 'h23' }).format(date));
+}
+
+/**
+ * Roll up a day of visits into traffic statistics. Days and peak hours are
+ * those of the site company's time zone, not the server's.
+ */
+export function calculateTrafficStats(siteId: string, day: Date = new Date()): TrafficStats {
+  const site = getSiteById(siteId);
+  const timeZone = (site && getCompanyById(site.companyId)?.settings.timezone) ?? 'UTC';
+  const date = isoDate(day, timeZone);
+  const dayVisits = getSiteVisits(siteId, new Date(day.getTime() - DAY_MS), new Date(day.getTime() + DAY_MS))
+    .filter(v => isoDate(v.arrivedAt, timeZone) === date);
+
+  const arrivalsByHour = new Map<number, number>();
+  const byResourceType = new Map<string, number>();
+  for (const visit of dayVisits) {
+    const hour = hourOf(visit.arrivedAt, timeZone);
+    arrivalsByHour.set(hour, (arrivalsByHour.get(hour) ?? 0) + 1);
+    const type = getResourceById(visit.resourceId)?.type ?? 'unknown';
+    byResourceType.set(type, (byResourceType.get(type) ?? 0) + 1);
+  }
+
+  let peakHour: string | undefined;
+  let peakCount = 0;
+  arrivalsByHour.forEach((count, hour) => {
+    if (count > peakCount) {
+      peakCount = count;
+      peakHour = `${hour.toString().padStart(2, '0')}:00`;
+    }
+  });
+
+  const waitTimes = dayVisits
+    .map(v => v.waitTime)
+    .filter((w): w is number => w !== undefined);
+
+  return {
+    date,
+    totalVisits: dayVisits.length,
+    totalLoads: dayVisits.filter(v => v.type === 'loading').length,
+    totalUnloads: dayVisits.filter(v => v.type === 'unloading').length,
+    peakHour,
+    averageWaitTime: waitTimes.length > 0
+      ? Math.round(waitTimes.reduce((sum, w) => sum + w, 0) / waitTimes.length)
+      : undefined,
+    byResourceType: Array.from(byResourceType.entries()).map(([type, count]) => ({ type, count })),
+  };
+}
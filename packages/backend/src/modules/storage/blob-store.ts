@@ -0,0 +1,55 @@
+/**
+ * SYLON Blob Store
+ * File-backed storage for uploaded binaries such as photos and their thumbnails.
+ * Blobs are files under BLOB_DIR (default data/blobs), named by a slash-separated key.
+ */
+
+import { appendFile, mkdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const BLOB_DIR = path.resolve(process.env.BLOB_DIR ?? 'data/blobs');
+
+// Keys are ids joined by slashes, which keeps every blob inside BLOB_DIR
+const KEY_PATTERN = /^[\w-]+(\/[\w.-]+)*$/;
+
+function blobPath(key: string): string {
+  if (!KEY_PATTERN.test(key) || key.split('/').some(part => part === '..')) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+  return path.join(BLOB_DIR, ...key.split('/'));
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+// Write a blob, replacing any previous content in one step
+export async function putBlob(key: string, data: Buffer): Promise<void> {
+  const file = blobPath(key);
+  await mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  await writeFile(temporary, data);
+  await rename(temporary, file);
+}
+
+// Append to a blob, creating it if needed; returns the new size
+export async function appendBlob(key: string, data: Buffer): Promise<number> {
+  const file = blobPath(key);
+  await mkdir(path.dirname(file), { recursive: true });
+  await appendFile(file, data);
+  return (await stat(file)).size;
+}
+
+export async function readBlob(key: string): Promise<Buffer | undefined> {
+  try {
+    return await readFile(blobPath(key));
+  } catch (error) {
+    if (isNotFound(error)) return undefined;
+    throw error;
+  }
+}
+
+// Delete a blob, or every blob under a key prefix
+export async function deleteBlob(key: string): Promise<void> {
+  await rm(blobPath(key), { recursive: true, force: true });
+}
@@ -0,0 +1,72 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { Shift, TimeEntry } from '@sylon/shared';
+import { DEMO_COMPANY } from '@sylon/shared';
+import { getCompanyById } from '../../data/companies.js';
+import { getJobById } from '../../data/jobs.js';
+import { loadShifts } from '../garage/daily-checks.js';
+import { getApprovalQueue, ownTimeEntryError } from './approval.js';
+
+const OPERATOR = 'user-demo-001';
+const SUPERVISOR = 'user-supervisor-001';
+
+const entry: TimeEntry = {
+  id: 'entry-approval-test',
+  jobId: 'job-plow-001',
+  resourceId: 'plow-truck-01',
+  operatorId: OPERATOR,
+  type: 'work',
+  timeRange: { start: new Date('2025-01-15T06:00:00Z'), end: new Date('2025-01-15T09:00:00Z') },
+  approved: false,
+  createdAt: new Date('2025-01-15T09:00:00Z'),
+  updatedAt: new Date('2025-01-15T09:00:00Z'),
+  version: 1,
+};
+
+beforeAll(() => {
+  getJobById('job-plow-001')!.timeEntries.push(entry);
+});
+
+describe('ownTimeEntryError', () => {
+  it('lets a supervisor review the hours of an operator', () => {
+    expect(ownTimeEntryError(entry, SUPERVISOR, { approved: true })).toBeUndefined();
+  });
+
+  it('rejects reviewing your own hours', () => {
+    expect(ownTimeEntryError(entry, OPERATOR, { approved: true })).toEqual(expect.objectContaining({ code: 'OWN_TIME_ENTRY' }));
+  });
+
+  it('rejects approving hours moved to yourself in the same change', () => {
+    expect(ownTimeEntryError(entry, SUPERVISOR, { approved: true, operatorId: SUPERVISOR })).toEqual(
+      expect.objectContaining({ code: 'OWN_TIME_ENTRY' })
+    );
+  });
+});
+
+describe('getApprovalQueue', () => {
+  const now = new Date('2025-01-16T12:00:00Z');
+
+  function anomaliesOfEntry() {
+    const groups = getApprovalQueue(getCompanyById(DEMO_COMPANY.id)!, { operatorId: OPERATOR }, now);
+    return groups.flatMap(g => g.items).find(i => i.entry.id === entry.id)?.anomalies.map(a => a.type);
+  }
+
+  it('flags hours outside any shift', () => {
+    loadShifts([]);
+    expect(anomaliesOfEntry()).toContain('outside_shift');
+  });
+
+  it('uses the shifts loaded from the database', () => {
+    const shift: Shift = {
+      id: 'shift-approval-test',
+      operatorId: OPERATOR,
+      resourceId: 'plow-truck-01',
+      timeRange: { start: new Date('2025-01-15T05:30:00Z'), end: new Date('2025-01-15T14:00:00Z') },
+      breaks: [],
+      status: 'completed',
+      createdAt: new Date('2025-01-15T05:30:00Z'),
+      updatedAt: new Date('2025-01-15T14:00:00Z'),
+    };
+    loadShifts([{ shift, daySummaryId: 'summary-approval-test' }]);
+    expect(anomaliesOfEntry()).not.toContain('outside_shift');
+  });
+});
@@ -0,0 +1,389 @@
+/**
+ * SYLON Time Approval
+ * Supervisor queue of unapproved time entries per operator and week, with the
+ * anomalies worth a second look, bulk review and the locks on approved time
+ */
+
+import type {
+  ApiError,
+  Company,
+  InvoiceStatus,
+  Job,
+  ReviewTimeEntriesRequest,
+  ReviewTimeEntriesResult,
+  Shift,
+  TimeApprovalGroup,
+  TimeApprovalItem,
+  TimeEntry,
+  TimeEntryAnomaly,
+} from '@sylon/shared';
+import { allJobs } from '../../data/jobs.js';
+import { getUserById } from '../../data/users.js';
+import { getShifts } from '../garage/daily-checks.js';
+import { NON_BILLABLE_TYPES, draftInvoice, entryHours } from '../invoicing/invoices.js';
+import { isoDate } from '../invoicing/documents.js';
+
+// Arbetstidslagen: a break after at most five hours of work
+const BREAK_REQUIRED_AFTER_HOURS = 5;
+const MIN_BREAK_MINUTES = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Hours on a numbered invoice can no longer be unapproved
+const LOCKED_INVOICE_STATUSES: InvoiceStatus[] = ['generated', 'sent', 'paid'];
+
+// Fields the operator reports; approved entries keep them as approved
+const REPORTED_FIELDS = ['type', 'timeRange', 'description'];
+
+const REVIEW_DECISIONS: ReviewTimeEntriesRequest['decision'][] = ['approve', 'reject'];
+
+interface CompanyEntry {
+  job: Job;
+  entry: TimeEntry;
+  start: number;
+  end: number;
+  date: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function clockTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('sv-SE', { timeZone, hour: '2-digit', minute: '2-digit' }).format(date);
+}
+
+// ISO 8601 week of a calendar date: weeks start on Monday and belong to the year of their Thursday
+export function isoWeek(date: string): { week: string; weekStart: string } {
+  const day = new Date(`${date}T00:00:00Z`);
+  const monday = new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+  const thursday = new Date(monday.getTime() + 3 * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / DAY_MS / 7) + 1;
+  return { week: `${year}-W${String(week).padStart(2, '0')}`, weekStart: monday.toISOString().slice(0, 10) };
+}
+
+export function operatorName(operatorId: string): string {
+  const user = getUserById(operatorId);
+  return user ? `${user.firstName} ${user.lastName}` : operatorId;
+}
+
+function companyEntries(companyId: string, timeZone: string): CompanyEntry[] {
+  return allJobs
+    .filter(job => job.companyId === companyId)
+    .flatMap(job => job.timeEntries.map(entry => {
+      const start = new Date(entry.timeRange.start);
+      return { job, entry, start: start.getTime(), end: new Date(entry.timeRange.end).getTime(), date: isoDate(start, timeZone) };
+    }));
+}
+
+// An active shift has not been closed yet and runs until now
+function shiftEnd(shift: Shift, now: Date): number {
+  return shift.status === 'active' ? now.getTime() : new Date(shift.timeRange.end).getTime();
+}
+
+function overlapAnomalies(entries: CompanyEntry[], anomalies: Map<string, TimeEntryAnomaly[]>): void {
+  const sorted = [...entries].sort((a, b) => a.start - b.start);
+  for (const [index, current] of sorted.entries()) {
+    const related = sorted
+      .filter((other, otherIndex) => otherIndex !== index && other.start < current.end && current.start < other.end)
+      .map(other => other.entry.id);
+    if (related.length > 0) {
+      anomalies.get(current.entry.id)?.push({
+        type: 'overlap',
+        message: `Overlaps ${related.length} other time ${related.length === 1 ? 'entry' : 'entries'} of the operator`,
+        relatedEntryIds: related,
+      });
+    }
+  }
+}
+
+function shiftAnomalies(
+  entries: CompanyEntry[],
+  shifts: Shift[],
+  timeZone: string,
+  now: Date,
+  anomalies: Map<string, TimeEntryAnomaly[]>
+): void {
+  for (const { entry, start, end } of entries) {
+    const covering = shifts.find(s => start >= new Date(s.timeRange.start).getTime() && end <= shiftEnd(s, now));
+    if (covering) continue;
+    const overlapping = shifts.find(s => start < shiftEnd(s, now) && new Date(s.timeRange.start).getTime() < end);
+    anomalies.get(entry.id)?.push({
+      type: 'outside_shift',
+      message: overlapping
+        ? `Extends outside the shift ${clockTime(new Date(overlapping.timeRange.start), timeZone)}–${overlapping.status === 'active' ? 'ongoing' : clockTime(new Date(overlapping.timeRange.end), timeZone)}`
+        : 'No shift recorded for the time of the entry',
+    });
+  }
+}
+
+// Days with more than five hours of work and less than half an hour of break,
+// counting break entries and the breaks reported on the day's shifts
+function breakAnomalies(
+  entries: CompanyEntry[],
+  shifts: Shift[],
+  timeZone: string,
+  anomalies: Map<string, TimeEntryAnomaly[]>
+): void {
+  const days = new Map<string, CompanyEntry[]>();
+  for (const item of entries) {
+    days.set(item.date, [...(days.get(item.date) ?? []), item]);
+  }
+
+  for (const [date, dayEntries] of days) {
+    const work = dayEntries.filter(item => !NON_BILLABLE_TYPES.includes(item.entry.type));
+    const workHours = work.reduce((sum, item) => sum + entryHours(item.entry), 0);
+    if (workHours <= BREAK_REQUIRED_AFTER_HOURS) continue;
+
+    const shiftBreaks = shifts
+      .filter(s => isoDate(new Date(s.timeRange.start), timeZone) === date)
+      .flatMap(s => s.breaks);
+    const breakMs = dayEntries
+      .filter(item => item.entry.type === 'break')
+      .reduce((sum, item) => sum + Math.max(0, item.end - item.start), 0) +
+      shiftBreaks.reduce((sum, b) => sum + Math.max(0, new Date(b.end).getTime() - new Date(b.start).getTime()), 0);
+    if (breakMs >= MIN_BREAK_MINUTES * MINUTE_MS) continue;
+
+    for (const item of work) {
+      anomalies.get(item.entry.id)?.push({
+        type: 'missing_break',
+        message: `${round(workHours)} h of work on ${date} with ${Math.round(breakMs / MINUTE_MS)} min of break`,
+      });
+    }
+  }
+}
+
+/**
+ * Anomalies of an operator's entries. All of the operator's entries are checked
+ * against each other, approved ones included, but only the given ones are keyed.
+ */
+function findAnomalies(
+  operatorEntries: CompanyEntry[],
+  timeZone: string,
+  now: Date
+): Map<string, TimeEntryAnomaly[]> {
+  const anomalies = new Map(operatorEntries.map(item => [item.entry.id, [] as TimeEntryAnomaly[]]));
+  const operatorId = operatorEntries[0]?.entry.operatorId;
+  const shifts = operatorId ? getShifts({ operatorId }).filter(s => s.status !== 'cancelled') : [];
+
+  overlapAnomalies(operatorEntries, anomalies);
+  shiftAnomalies(operatorEntries, shifts, timeZone, now, anomalies);
+  breakAnomalies(operatorEntries, shifts, timeZone, anomalies);
+  return anomalies;
+}
+
+/**
+ * Unapproved time entries of the company grouped per operator and ISO week,
+ * oldest week first. Rejected entries stay in the queue until they are
+ * corrected or approved.
+ */
+export function getApprovalQueue(
+  company: Company,
+  filter: { week?: string; operatorId?: string } = {},
+  now: Date = new Date()
+): TimeApprovalGroup[] {
+  const timeZone = company.settings.timezone;
+  const byOperator = new Map<string, CompanyEntry[]>();
+  for (const item of companyEntries(company.id, timeZone)) {
+    if (filter.operatorId && item.entry.operatorId !== filter.operatorId) continue;
+    byOperator.set(item.entry.operatorId, [...(byOperator.get(item.entry.operatorId) ?? []), item]);
+  }
+
+  const groups = new Map<string, TimeApprovalGroup>();
+  for (const [operatorId, entries] of byOperator) {
+    const anomalies = findAnomalies(entries, timeZone, now);
+    for (const item of entries) {
+      if (item.entry.approved) continue;
+      const { week, weekStart } = isoWeek(item.date);
+      if (filter.week && week !== filter.week) continue;
+
+      const key = `${operatorId}:${week}`;
+      const group = groups.get(key) ?? {
+        operatorId,
+        operatorName: operatorName(operatorId),
+        week,
+        weekStart,
+        items: [],
+        totalHours: 0,
+        anomalyCount: 0,
+      };
+      const approvalItem: TimeApprovalItem = {
+        entry: item.entry,
+        jobNumber: item.job.jobNumber,
+        jobTitle: item.job.title,
+        hours: round(entryHours(item.entry)),
+        anomalies: anomalies.get(item.entry.id) ?? [],
+      };
+      group.items.push(approvalItem);
+      if (!NON_BILLABLE_TYPES.includes(item.entry.type)) group.totalHours += approvalItem.hours;
+      group.anomalyCount += approvalItem.anomalies.length;
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups.values()]
+    .map(group => ({
+      ...group,
+      totalHours: round(group.totalHours),
+      items: group.items.sort((a, b) => new Date(a.entry.timeRange.start).getTime() - new Date(b.entry.timeRange.start).getTime()),
+    }))
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart) || a.operatorName.localeCompare(b.operatorName, 'sv'));
+}
+
+export function validateReview(body: unknown): { request?: ReviewTimeEntriesRequest; errors: string[] } {
+  if (!isRecord(body)) {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { entryIds, decision, comment } = body;
+  if (!Array.isArray(entryIds) || entryIds.length === 0 || !entryIds.every(id => typeof id === 'string')) {
+    errors.push('entryIds must be a non-empty array of time entry ids');
+  }
+  if (typeof decision !== 'string' || !REVIEW_DECISIONS.includes(decision as ReviewTimeEntriesRequest['decision'])) {
+    errors.push(`decision must be one of: ${REVIEW_DECISIONS.join(', ')}`);
+  }
+  if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+    errors.push('comment must be a string');
+  }
+  const trimmed = typeof comment === 'string' && comment.trim().length > 0 ? comment.trim() : undefined;
+  if (decision === 'reject' && !trimmed) {
+    errors.push('comment is required when rejecting time entries');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    request: {
+      entryIds: [...new Set(entryIds as string[])],
+      decision: decision as ReviewTimeEntriesRequest['decision'],
+      comment: trimmed,
+    },
+    errors,
+  };
+}
+
+// Operators never approve or reject their own hours, including hours the same change assigns to them
+export function ownTimeEntryError(entry: TimeEntry, reviewerId: string, body: Record<string, unknown> = {}): ApiError | undefined {
+  if (entry.operatorId !== reviewerId && body.operatorId !== reviewerId) return undefined;
+  return { code: 'OWN_TIME_ENTRY', message: 'Time entries are reviewed by someone other than the operator' };
+}
+
+/**
+ * Why a time entry may not be changed as the body asks, or deleted when there is
+ * no body. Approved entries are locked until they are unapproved, and entries on
+ * a numbered invoice stay approved.
+ */
+export function timeEntryLock(job: Job, entry: TimeEntry, body?: Record<string, unknown>): ApiError | undefined {
+  if (!entry.approved) return undefined;
+
+  if (!body) {
+    return { code: 'TIME_ENTRY_LOCKED', message: 'Approved time entries cannot be deleted' };
+  }
+  const reported = REPORTED_FIELDS.filter(field => body[field] !== undefined);
+  if (reported.length > 0) {
+    return {
+      code: 'TIME_ENTRY_LOCKED',
+      message: 'Approved time entries cannot be changed; unapprove the entry first',
+      details: { fields: reported },
+    };
+  }
+  if (body.approved === false && LOCKED_INVOICE_STATUSES.includes(job.invoiceStatus)) {
+    return {
+      code: 'TIME_ENTRY_LOCKED',
+      message: `The hours are on invoice ${job.invoiceData?.invoiceNumber ?? job.id}, which is already ${job.invoiceStatus}`,
+    };
+  }
+  return undefined;
+}
+
+// Rebuild the draft invoice of a job whose approved hours changed
+export function refreshDraftInvoice(job: Job, company: Company): void {
+  if (job.invoiceStatus === 'draft') {
+    draftInvoice(job, company);
+  }
+}
+
+function applyReview(job: Job, entry: TimeEntry, request: ReviewTimeEntriesRequest, reviewerId: string): void {
+  const now = new Date();
+  if (request.decision === 'approve') {
+    Object.assign(entry, {
+      approved: true,
+      approvedBy: reviewerId,
+      approvedAt: now,
+      rejectedBy: undefined,
+      rejectedAt: undefined,
+      reviewComment: request.comment ?? entry.reviewComment,
+    });
+  } else {
+    Object.assign(entry, {
+      approved: false,
+      approvedBy: undefined,
+      approvedAt: undefined,
+      rejectedBy: reviewerId,
+      rejectedAt: now,
+      reviewComment: request.comment,
+    });
+  }
+  // Field app edits made against the earlier version are reported as conflicts
+  entry.updatedAt = now;
+  entry.version += 1;
+  job.updatedAt = now;
+  job.version += 1;
+}
+
+/**
+ * Approve or reject time entries of the company. Each entry is reviewed on its
+ * own; entries that cannot be are reported as failed. Returns the changed jobs,
+ * whose draft invoices have been rebuilt, for saving.
+ */
+export function reviewTimeEntries(
+  request: ReviewTimeEntriesRequest,
+  company: Company,
+  reviewerId: string
+): { result: ReviewTimeEntriesResult; jobs: Job[] } {
+  const entries = new Map(companyEntries(company.id, company.settings.timezone).map(item => [item.entry.id, item]));
+  const result: ReviewTimeEntriesResult = { reviewed: [], failed: [] };
+  const jobs = new Set<Job>();
+
+  for (const entryId of request.entryIds) {
+    const found = entries.get(entryId);
+    if (!found) {
+      result.failed.push({ entryId, code: 'NOT_FOUND', message: 'Time entry not found' });
+      continue;
+    }
+    const { job, entry } = found;
+    const ownEntry = ownTimeEntryError(entry, reviewerId);
+    if (ownEntry) {
+      result.failed.push({ entryId, code: ownEntry.code, message: ownEntry.message });
+      continue;
+    }
+    // Approving twice leaves the first approval in place
+    if (request.decision === 'approve' && entry.approved) {
+      result.reviewed.push(entry);
+      continue;
+    }
+    const lock = request.decision === 'reject' ? timeEntryLock(job, entry, { approved: false }) : undefined;
+    if (lock) {
+      result.failed.push({ entryId, code: lock.code, message: lock.message });
+      continue;
+    }
+
+    applyReview(job, entry, request, reviewerId);
+    result.reviewed.push(entry);
+    jobs.add(job);
+  }
+
+  for (const job of jobs) {
+    refreshDraftInvoice(job, company);
+  }
+  return { result, jobs: [...jobs] };
+}
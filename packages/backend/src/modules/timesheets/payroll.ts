@@ -0,0 +1,78 @@
+/**
+ * SYLON Payroll
+ * Approved hours per operator, day and entry type for the payroll export
+ */
+
+import type { Company, PayrollLine, PayrollReport } from '@sylon/shared';
+import { allJobs } from '../../data/jobs.js';
+import { NON_BILLABLE_TYPES, entryHours } from '../invoicing/invoices.js';
+import { isoDate } from '../invoicing/documents.js';
+import { operatorName } from './approval.js';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function validatePayrollPeriod(query: Record<string, unknown>): { period?: { from: string; to: string }; errors: string[] } {
+  const errors: string[] = [];
+  const { from, to } = query;
+  for (const [field, value] of [['from', from], ['to', to]] as const) {
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(new Date(value).getTime())) {
+      errors.push(`${field} must be a date as YYYY-MM-DD`);
+    }
+  }
+  if (errors.length === 0 && (to as string) < (from as string)) {
+    errors.push('to must not be before from');
+  }
+  return errors.length > 0 ? { errors } : { period: { from: from as string, to: to as string }, errors };
+}
+
+/**
+ * Approved hours of the company's operators between two dates, both included,
+ * by the day the entry started in the company's time zone. Only approved
+ * entries are paid; the ones still waiting are counted so the period can be
+ * held until they are reviewed.
+ */
+export function buildPayrollReport(company: Company, period: { from: string; to: string }): PayrollReport {
+  const timeZone = company.settings.timezone;
+  const lines = new Map<string, PayrollLine>();
+  let unapprovedEntries = 0;
+
+  for (const job of allJobs) {
+    if (job.companyId !== company.id) continue;
+    for (const entry of job.timeEntries) {
+      const date = isoDate(new Date(entry.timeRange.start), timeZone);
+      if (date < period.from || date > period.to || NON_BILLABLE_TYPES.includes(entry.type)) continue;
+      if (!entry.approved) {
+        unapprovedEntries += 1;
+        continue;
+      }
+
+      const key = `${entry.operatorId}:${date}:${entry.type}`;
+      const line = lines.get(key) ?? {
+        operatorId: entry.operatorId,
+        operatorName: operatorName(entry.operatorId),
+        date,
+        type: entry.type,
+        hours: 0,
+      };
+      line.hours += entryHours(entry);
+      lines.set(key, line);
+    }
+  }
+
+  const sorted = [...lines.values()]
+    .map(line => ({ ...line, hours: round(line.hours) }))
+    .sort((a, b) => a.operatorName.localeCompare(b.operatorName, 'sv') || a.date.localeCompare(b.date) || a.type.localeCompare(b.type));
+
+  const totals = new Map<string, PayrollReport['totals'][number]>();
+  for (const line of sorted) {
+    const total = totals.get(line.operatorId) ?? { operatorId: line.operatorId, operatorName: line.operatorName, hours: 0 };
+    total.hours = round(total.hours + line.hours);
+    totals.set(line.operatorId, total);
+  }
+
+  return { from: period.from, to: period.to, lines: sorted, totals: [...totals.values()], unapprovedEntries };
+}
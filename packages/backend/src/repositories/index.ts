@@ -0,0 +1,88 @@
+/**
+ * SYLON Repositories
+ * The data modules hold the working set the routes read from. With DATABASE_URL
+ * set, it is loaded from PostgreSQL at startup and every change is written through.
+ */
+
+import { allCompanies } from '../data/companies.js';
+import { allResources } from '../data/resources.js';
+import { allSites } from '../data/sites.js';
+import { allJobs } from '../data/jobs.js';
+import { allUsers } from '../data/users.js';
+import { allRateCards } from '../data/rate-cards.js';
+import { allCustomers } from '../data/customers.js';
+import { allWorkOrders } from '../data/work-orders.js';
+import { loadTransactions } from '../modules/sites/ledger.js';
+import { loadHistory } from '../modules/gps/history.js';
+import { loadRefreshTokens } from '../modules/auth/sessions.js';
+import { loadDailyChecks, loadShifts } from '../modules/garage/daily-checks.js';
+import { loadVisits, VISIT_RETENTION_MS } from '../modules/sites/visits.js';
+import { loadMaterialLoads } from '../modules/jobs/material-loads.js';
+import { loadUploads } from '../modules/photos/uploads.js';
+import { getPool, isDatabaseConfigured } from '../db/pool.js';
+import { runMigrations } from '../db/migrate.js';
+import { memoryRepositories } from './memory.js';
+import { createPostgresRepositories } from './postgres/index.js';
+import type { Repositories } from './types.js';
+
+// GPS readings loaded into the position history at startup
+const HISTORY_LOAD_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export let repositories: Repositories = memoryRepositories;
+
+/**
+ * Migrate the database, load its data into the working set and switch to the
+ * PostgreSQL repositories. Without DATABASE_URL nothing changes. Demo data is
+ * only loaded by `npm run db:seed`.
+ */
+export async function initRepositories(): Promise<void> {
+  if (!isDatabaseConfigured()) return;
+
+  const pool = getPool();
+  const applied = await runMigrations(pool);
+  if (applied.length > 0) {
+    console.log(`🗄️  Applied migrations: ${applied.join(', ')}`);
+  }
+
+  const postgres = createPostgresRepositories(pool);
+  const [
+    companies, resources, sites, jobs, rateCards, customers, workOrders, transactions, readings, users, refreshTokens,
+    dailyChecks, shifts, visits, materialLoads, uploads,
+  ] = await Promise.all([
+    postgres.companies.findAll(),
+    postgres.resources.findAll(),
+    postgres.sites.findAll(),
+    postgres.jobs.findAll(),
+    postgres.rateCards.findAll(),
+    postgres.customers.findAll(),
+    postgres.workOrders.findAll(),
+    postgres.materialTransactions.findAll(),
+    postgres.gpsReadings.findSince(new Date(Date.now() - HISTORY_LOAD_WINDOW_MS)),
+    postgres.users.findAll(),
+    postgres.refreshTokens.findUnexpired(),
+    postgres.dailyChecks.findAll(),
+    postgres.shifts.findAll(),
+    postgres.siteVisits.findSince(new Date(Date.now() - VISIT_RETENTION_MS)),
+    postgres.materialLoads.findAll(),
+    postgres.uploads.findAll(),
+  ]);
+
+  allCompanies.splice(0, allCompanies.length, ...companies);
+  allResources.splice(0, allResources.length, ...resources);
+  allSites.splice(0, allSites.length, ...sites);
+  allJobs.splice(0, allJobs.length, ...jobs);
+  allRateCards.splice(0, allRateCards.length, ...rateCards);
+  allCustomers.splice(0, allCustomers.length, ...customers);
+  allWorkOrders.splice(0, allWorkOrders.length, ...workOrders);
+  allUsers.splice(0, allUsers.length, ...users);
+  loadTransactions(transactions);
+  loadHistory(readings);
+  loadRefreshTokens(refreshTokens);
+  loadDailyChecks(dailyChecks);
+  loadShifts(shifts);
+  loadVisits(visits);
+  loadMaterialLoads(materialLoads);
+  loadUploads(uploads);
+
+  repositories = postgres;
+}
@@ -0,0 +1,90 @@
+/**
+ * SYLON In-Memory Repositories
+ * Used without a database. The data modules already hold every change,
+ * so saving is a no-op and nothing survives a restart.
+ */
+
+import { allCompanies } from '../data/companies.js';
+import { allResources } from '../data/resources.js';
+import { allSites } from '../data/sites.js';
+import { allJobs } from '../data/jobs.js';
+import { allUsers } from '../data/users.js';
+import { allRateCards } from '../data/rate-cards.js';
+import { allCustomers } from '../data/customers.js';
+import { allWorkOrders } from '../data/work-orders.js';
+import { getAllTransactions } from '../modules/sites/ledger.js';
+import type { Repositories } from './types.js';
+
+export const memoryRepositories: Repositories = {
+  companies: {
+    findAll: async () => allCompanies,
+    save: async () => {},
+  },
+  resources: {
+    findAll: async () => allResources,
+    save: async () => {},
+  },
+  sites: {
+    findAll: async () => allSites,
+    save: async () => {},
+  },
+  jobs: {
+    findAll: async () => allJobs,
+    save: async () => {},
+  },
+  rateCards: {
+    findAll: async () => allRateCards,
+    save: async () => {},
+    delete: async () => {},
+  },
+  customers: {
+    findAll: async () => allCustomers,
+    save: async () => {},
+    delete: async () => {},
+  },
+  workOrders: {
+    findAll: async () => allWorkOrders,
+    save: async () => {},
+    delete: async () => {},
+  },
+  materialTransactions: {
+    findAll: async () => getAllTransactions(),
+    append: async () => {},
+  },
+  gpsReadings: {
+    findSince: async () => [],
+    findByResource: async () => [],
+    append: async () => {},
+  },
+  users: {
+    findAll: async () => allUsers,
+    save: async () => {},
+  },
+  refreshTokens: {
+    findUnexpired: async () => [],
+    save: async () => {},
+  },
+  dailyChecks: {
+    findAll: async () => [],
+    save: async () => {},
+  },
+  shifts: {
+    findAll: async () => [],
+    save: async () => {},
+  },
+  siteVisits: {
+    findSince: async () => [],
+    save: async () => {},
+    delete: async () => {},
+  },
+  materialLoads: {
+    findAll: async () => [],
+    save: async () => {},
+  },
+  uploads: {
+    findAll: async () => [],
+    save: async () => {},
+    delete: async () => {},
+    deleteExpired: async () => {},
+  },
+};
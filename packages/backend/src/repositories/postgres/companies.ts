@@ -0,0 +1,84 @@
+/**
+ * SYLON PostgreSQL Company Repository
+ */
+
+import type { Company } from '@sylon/shared';
+import type { Database } from '../../db/pool.js';
+import type { CompanyRepository } from '../types.js';
+import { date, point, readPoint, selectPoint, str, upsertRow, type Row } from './sql.js';
+
+// TIME columns come back as HH:MM:SS
+function readTime(value: unknown): string | undefined {
+  return typeof value === 'string' ? value.slice(0, 5) : undefined;
+}
+
+function toRow(company: Company): Row {
+  return {
+    id: company.id,
+    name: company.name,
+    organization_number: company.organizationNumber,
+    address_street: company.address.street,
+    address_postal_code: company.address.postalCode,
+    address_city: company.address.city,
+    address_country: company.address.country,
+    address_location: point(company.address.coordinates),
+    contact_phone: company.contact.phone,
+    contact_email: company.contact.email,
+    contact_website: company.contact.website,
+    timezone: company.settings.timezone,
+    locale: company.settings.locale,
+    currency: company.settings.currency,
+    work_hours_start: company.settings.workingHours.start,
+    work_hours_end: company.settings.workingHours.end,
+    work_days: company.settings.workingHours.days,
+    created_at: company.createdAt,
+    updated_at: company.updatedAt,
+  };
+}
+
+function fromRow(row: Row): Company {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    organizationNumber: String(row.organization_number),
+    address: {
+      street: str(row.address_street) ?? '',
+      postalCode: str(row.address_postal_code) ?? '',
+      city: str(row.address_city) ?? '',
+      country: str(row.address_country) ?? 'Sverige',
+      coordinates: readPoint(row, 'location'),
+    },
+    contact: {
+      phone: str(row.contact_phone) ?? '',
+      email: str(row.contact_email) ?? '',
+      website: str(row.contact_website),
+    },
+    settings: {
+      timezone: str(row.timezone) ?? 'Europe/Stockholm',
+      locale: str(row.locale) ?? 'sv-SE',
+      currency: str(row.currency) ?? 'SEK',
+      workingHours: {
+        start: readTime(row.work_hours_start) ?? '06:00',
+        end: readTime(row.work_hours_end) ?? '18:00',
+        days: (row.work_days as number[] | null) ?? [1, 2, 3, 4, 5],
+      },
+    },
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+  };
+}
+
+export function createCompanyRepository(db: Database): CompanyRepository {
+  return {
+    async findAll() {
+      const result = await db.query(
+        `SELECT *, ${selectPoint('address_location', 'location')} FROM companies ORDER BY created_at, id`
+      );
+      return result.rows.map(fromRow);
+    },
+
+    async save(company) {
+      await upsertRow(db, 'companies', toRow(company));
+    },
+  };
+}
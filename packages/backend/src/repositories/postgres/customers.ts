@@ -0,0 +1,63 @@
+/**
+ * SYLON PostgreSQL Customer Repository
+ */
+
+import type { Customer } from '@sylon/shared';
+import type { Database } from '../../db/pool.js';
+import type { CustomerRepository } from '../types.js';
+import { date, json, str, upsertRow, type Row } from './sql.js';
+
+function toRow(customer: Customer): Row {
+  return {
+    id: customer.id,
+    company_id: customer.companyId,
+    customer_number: customer.customerNumber,
+    name: customer.name,
+    organization_number: customer.organizationNumber,
+    billing_address: json(customer.billingAddress),
+    invoice_email: customer.invoiceEmail,
+    contacts: json(customer.contacts),
+    is_active: customer.isActive,
+    notes: customer.notes,
+    created_at: customer.createdAt,
+    updated_at: customer.updatedAt,
+    created_by: customer.createdBy,
+    updated_by: customer.updatedBy,
+  };
+}
+
+function fromRow(row: Row): Customer {
+  return {
+    id: String(row.id),
+    companyId: String(row.company_id),
+    customerNumber: String(row.customer_number),
+    name: String(row.name),
+    organizationNumber: str(row.organization_number),
+    billingAddress: row.billing_address as Customer['billingAddress'],
+    invoiceEmail: str(row.invoice_email),
+    contacts: (row.contacts as Customer['contacts'] | null) ?? [],
+    isActive: Boolean(row.is_active),
+    notes: str(row.notes),
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+    createdBy: str(row.created_by) ?? 'system',
+    updatedBy: str(row.updated_by) ?? 'system',
+  };
+}
+
+export function createCustomerRepository(db: Database): CustomerRepository {
+  return {
+    async findAll() {
+      const result = await db.query('SELECT * FROM customers ORDER BY customer_number, id');
+      return result.rows.map(fromRow);
+    },
+
+    async save(customer) {
+      await upsertRow(db, 'customers', toRow(customer));
+    },
+
+    async delete(id) {
+      await db.query('DELETE FROM customers WHERE id = $1', [id]);
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * SYLON PostgreSQL Daily Check Repository
+ */
+
+import type { DailyCheck } from '@sylon/shared';
+import type { Database } from '../../db/pool.js';
+import type { DailyCheckRepository } from '../types.js';
+import { date, json, num, str, upsertRow, type Row } from './sql.js';
+
+function toRow(check: DailyCheck): Row {
+  return {
+    id: check.id,
+    resource_id: check.resourceId,
+    operator_id: check.operatorId,
+    check_date: check.checkDate,
+    shift: check.shift,
+    items: json(check.items),
+    all_passed: check.allPassed,
+    issues_found: check.issuesFound,
+    notes: check.notes,
+    signature_url: check.signature,
+    created_at: check.createdAt,
+    updated_at: check.updatedAt,
+  };
+}
+
+function fromRow(row: Row): DailyCheck {
+  return {
+    id: String(row.id),
+    resourceId: String(row.resource_id),
+    operatorId: String(row.operator_id),
+    garageId: str(row.garage_id),
+    checkDate: date(row.check_date) ?? new Date(0),
+    shift: row.shift as DailyCheck['shift'],
+    items: (row.items as DailyCheck['items'] | null) ?? [],
+    allPassed: row.all_passed !== false,
+    issuesFound: num(row.issues_found) ?? 0,
+    notes: str(row.notes),
+    signature: str(row.signature_url),
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+  };
+}
+
+export function createDailyCheckRepository(db: Database): DailyCheckRepository {
+  return {
+    async findAll() {
+      const result = await db.query('SELECT * FROM daily_checks ORDER BY check_date, id');
+      return result.rows.map(fromRow);
+    },
+
+    async save(check) {
+      await upsertRow(db, 'daily_checks', toRow(check));
+    },
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * SYLON PostgreSQL GPS Reading Repository
+ * Device readings. Inserting a reading also moves the resource (schema trigger).
+ */
+
+import type { GpsReading } from '@sylon/shared';
+import type { Database } from '../../db/pool.js';
+import type { GpsReadingRepository } from '../types.js';
+import { date, insertRows, json, num, point, readPoint, selectPoint, type Row } from './sql.js';
+
+function toRow(reading: GpsReading): Row {
+  return {
+    id: reading.id,
+    resource_id: reading.resourceId,
+    position: point(reading.position),
+    altitude: reading.position.altitude,
+    accuracy: reading.position.accuracy,
+    speed: reading.position.speed,
+    heading: reading.position.heading,
+    engine_on: reading.engineOn,
+    fuel_level: reading.fuelLevel,
+    odometer_km: reading.odometerKm,
+    engine_hours: reading.engineHours,
+    diagnostics: json(reading.diagnostics),
+    recorded_at: reading.position.timestamp,
+  };
+}
+
+function fromRow(row: Row): GpsReading {
+  return {
+    id: String(row.id),
+    resourceId: String(row.resource_id),
+    position: {
+      ...(readPoint(row, 'position') ?? { latitude: 0, longitude: 0 }),
+      altitude: num(row.altitude),
+      accuracy: num(row.accuracy),
+      speed: num(row.speed),
+      heading: num(row.heading),
+      timestamp: date(row.recorded_at) ?? new Date(0),
+    },
+    engineOn: typeof row.engine_on === 'boolean' ? row.engine_on : undefined,
+    fuelLevel: num(row.fuel_level),
+    odometerKm: num(row.odometer_km),
+    engineHours: num(row.engine_hours),
+    diagnostics: (row.diagnostics as GpsReading['diagnostics'] | null) ?? undefined,
+  };
+}
+
+export function createGpsReadingRepository(db: Database): GpsReadingRepository {
+  return {
+    async findSince(from) {
+      const result = await db.query(
+        `SELECT *, ${selectPoint('position', 'position')} FROM gps_readings
+         WHERE recorded_at >= $1 ORDER BY recorded_at`,
+        [from]
+      );
+      return result.rows.map(fromRow);
+    },
+
+    async findByResource(resourceId, from, to) {
+      const result = await db.query(
+        `SELECT *, ${selectPoint('position', 'position')} FROM gps_readings
+         WHERE resource_id = $1 AND recorded_at >= $2 AND recorded_at <= $3 ORDER BY recorded_at`,
+        [resourceId, from, to]
+      );
+      return result.rows.map(fromRow);
+    },
+
+    async append(readings) {
+      await insertRows(db, 'gps_readings', readings.map(toRow));
+    },
+  };
+}
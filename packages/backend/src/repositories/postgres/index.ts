@@ -0,0 +1,43 @@
+/**
+ * SYLON PostgreSQL Repositories
+ */
+
+import type { Database } from '../../db/pool.js';
+import type { Repositories } from '../types.js';
+import { createCompanyRepository } from './companies.js';
+import { createResourceRepository } from './resources.js';
+import { createSiteRepository } from './sites.js';
+import { createJobRepository } from './jobs.js';
+import { createRateCardRepository } from './rate-cards.js';
+import { createCustomerRepository } from './customers.js';
+import { createWorkOrderRepository } from './work-orders.js';
+import { createMaterialTransactionRepository } from './transactions.js';
+import { createGpsReadingRepository } from './gps-readings.js';
+import { createUserRepository } from './users.js';
+import { createRefreshTokenRepository } from './refresh-tokens.js';
+import { createDailyCheckRepository } from './daily-checks.js';
+import { createShiftRepository } from './shifts.js';
+import { createSiteVisitRepository } from './site-visits.js';
+import { createMaterialLoadRepository } from './material-loads.js';
+import { createUploadRepository } from './uploads.js';
+
+export function createPostgresRepositories(db: Database): Repositories {
+  return {
+    companies: createCompanyRepository(db),
+    resources: createResourceRepository(db),
+    sites: createSiteRepository(db),
+    jobs: createJobRepository(db),
+    rateCards: createRateCardRepository(db),
+    customers: createCustomerRepository(db),
+    workOrders: createWorkOrderRepository(db),
+    materialTransactions: createMaterialTransactionRepository(db),
+    gpsReadings: createGpsReadingRepository(db),
+    users: createUserRepository(db),
+    refreshTokens: createRefreshTokenRepository(db),
+    dailyChecks: createDailyCheckRepository(db),
+    shifts: createShiftRepository(db),
+    siteVisits: createSiteVisitRepository(db),
+    materialLoads: createMaterialLoadRepository(db),
+    uploads: createUploadRepository(db),
+  };
+}
@@ -0,0 +1,352 @@
+/**
+ * SYLON PostgreSQL Job Repository
+ * Jobs with their assignments, materials, time entries, photos, deviations and notes
+ */
+
+import type {
+  Deviation,
+  Job,
+  JobMaterial,
+  JobNote,
+  JobPhoto,
+  JobResourceAssignment,
+  JobStatusTransition,
+  TimeEntry,
+} from '@sylon/shared';
+import { withTransaction, type Database } from '../../db/pool.js';
+import type { JobRepository } from '../types.js';
+import { date, insertRows, json, num, point, readPoint, selectPoint, str, upsertRow, type Row } from './sql.js';
+
+// Child tables are rewritten on every save, in this order
+const CHILD_TABLES = ['job_assignments', 'job_materials', 'time_entries', 'job_photos', 'deviations', 'job_notes'];
+
+function toRow(job: Job): Row {
+  return {
+    id: job.id,
+    company_id: job.companyId,
+    job_number: job.jobNumber,
+    type: job.type,
+    title: job.title,
+    description: job.description,
+    priority: job.priority,
+    status: job.status,
+    location_name: job.location.name,
+    location: point(job.location.coordinates),
+    location_address: job.location.address,
+    site_id: job.location.siteId,
+    geofence_radius: job.location.geofence?.radius,
+    geofence_center: point(job.location.geofence?.coordinates),
+    route: json(job.route),
+    scheduled_start: job.scheduledTime.start,
+    scheduled_end: job.scheduledTime.end,
+    actual_start: job.actualTime?.start,
+    actual_end: job.actualTime?.end,
+    estimated_duration: job.estimatedDuration,
+    status_history: json(job.statusHistory ?? []),
+    customer_id: job.customerId,
+    customer_reference: job.customerReference,
+    machine_hours: job.machineHours,
+    fuel_consumed: job.fuelConsumed,
+    co2_emissions: job.co2Emissions,
+    distance_traveled: job.distanceTraveled,
+    invoice_status: job.invoiceStatus,
+    invoice_data: json(job.invoiceData),
+    created_at: job.createdAt,
+    updated_at: job.updatedAt,
+    created_by: job.createdBy,
+    updated_by: job.updatedBy,
+    version: job.version,
+  };
+}
+
+function childRows(job: Job): Record<string, Row[]> {
+  return {
+    job_assignments: job.assignedResources.map(a => ({
+      job_id: job.id,
+      resource_id: a.resourceId,
+      operator_id: a.operatorId,
+      assigned_at: a.assignedAt,
+      started_at: a.startedAt,
+      completed_at: a.completedAt,
+      status: a.status,
+    })),
+    job_materials: (job.materials ?? []).map(m => ({
+      job_id: job.id,
+      material_id: m.materialId,
+      material_name: m.name,
+      material_type: m.type,
+      quantity: m.quantity,
+      unit: m.unit,
+      source_site_id: m.sourceId,
+      destination_site_id: m.destinationId,
+      loaded: m.loaded ?? false,
+      delivered: m.delivered ?? false,
+    })),
+    time_entries: job.timeEntries.map(t => ({
+      id: t.id,
+      job_id: job.id,
+      resource_id: t.resourceId,
+      operator_id: t.operatorId,
+      type: t.type,
+      start_time: t.timeRange.start,
+      end_time: t.timeRange.end,
+      description: t.description,
+      approved: t.approved,
+      approved_by: t.approvedBy,
+      approved_at: t.approvedAt,
+      rejected_by: t.rejectedBy,
+      rejected_at: t.rejectedAt,
+      review_comment: t.reviewComment,
+      created_at: t.createdAt,
+      updated_at: t.updatedAt,
+      version: t.version,
+    })),
+    job_photos: job.photos.map(p => ({
+      id: p.id,
+      job_id: job.id,
+      resource_id: p.resourceId,
+      operator_id: p.operatorId,
+      filename: p.filename,
+      url: p.url,
+      thumbnail_url: p.thumbnailUrl,
+      mime_type: p.mimeType,
+      size: p.size,
+      location: point(p.coordinates),
+      taken_at: p.takenAt,
+      deviation_id: p.deviationId,
+      caption: p.caption,
+      category: p.category,
+      created_at: p.createdAt,
+      updated_at: p.updatedAt,
+      version: p.version,
+    })),
+    deviations: job.deviations.map(d => ({
+      id: d.id,
+      job_id: job.id,
+      resource_id: d.resourceId,
+      reported_by: d.reportedBy,
+      type: d.type,
+      severity: d.severity,
+      title: d.title,
+      description: d.description,
+      location: point(d.coordinates),
+      photos: d.photos,
+      resolved: d.resolved,
+      resolved_by: d.resolvedBy,
+      resolved_at: d.resolvedAt,
+      resolution: d.resolution,
+      created_at: d.createdAt,
+      updated_at: d.updatedAt,
+      version: d.version,
+    })),
+    job_notes: job.notes.map(n => ({
+      id: n.id,
+      job_id: job.id,
+      author_id: n.authorId,
+      content: n.content,
+      is_internal: n.isInternal,
+      created_at: n.createdAt,
+      updated_at: n.updatedAt,
+      version: n.version,
+    })),
+  };
+}
+
+function assignmentFromRow(row: Row): JobResourceAssignment {
+  return {
+    resourceId: String(row.resource_id),
+    operatorId: str(row.operator_id),
+    assignedAt: date(row.assigned_at) ?? new Date(0),
+    startedAt: date(row.started_at),
+    completedAt: date(row.completed_at),
+    status: row.status as JobResourceAssignment['status'],
+  };
+}
+
+function materialFromRow(row: Row): JobMaterial {
+  return {
+    materialId: str(row.material_id) ?? '',
+    name: str(row.material_name) ?? '',
+    type: str(row.material_type) ?? '',
+    quantity: num(row.quantity) ?? 0,
+    unit: String(row.unit),
+    sourceId: str(row.source_site_id),
+    destinationId: str(row.destination_site_id),
+    loaded: row.loaded === true,
+    delivered: row.delivered === true,
+  };
+}
+
+function timeEntryFromRow(row: Row): TimeEntry {
+  return {
+    id: String(row.id),
+    jobId: String(row.job_id),
+    resourceId: String(row.resource_id),
+    operatorId: String(row.operator_id),
+    type: row.type as TimeEntry['type'],
+    timeRange: { start: date(row.start_time) ?? new Date(0), end: date(row.end_time) ?? new Date(0) },
+    description: str(row.description),
+    approved: row.approved === true,
+    approvedBy: str(row.approved_by),
+    approvedAt: date(row.approved_at),
+    rejectedBy: str(row.rejected_by),
+    rejectedAt: date(row.rejected_at),
+    reviewComment: str(row.review_comment),
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+    version: num(row.version) ?? 1,
+  };
+}
+
+function photoFromRow(row: Row): JobPhoto {
+  return {
+    id: String(row.id),
+    jobId: String(row.job_id),
+    resourceId: str(row.resource_id),
+    operatorId: String(row.operator_id),
+    filename: String(row.filename),
+    url: String(row.url),
+    thumbnailUrl: str(row.thumbnail_url) ?? String(row.url),
+    mimeType: str(row.mime_type) ?? '',
+    size: num(row.size) ?? 0,
+    coordinates: readPoint(row, 'location'),
+    takenAt: date(row.taken_at),
+    deviationId: str(row.deviation_id),
+    caption: str(row.caption),
+    category: (str(row.category) ?? 'other') as JobPhoto['category'],
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+    version: num(row.version) ?? 1,
+  };
+}
+
+function deviationFromRow(row: Row): Deviation {
+  return {
+    id: String(row.id),
+    jobId: String(row.job_id),
+    resourceId: str(row.resource_id),
+    reportedBy: String(row.reported_by),
+    type: row.type as Deviation['type'],
+    severity: row.severity as Deviation['severity'],
+    title: String(row.title),
+    description: str(row.description) ?? '',
+    coordinates: readPoint(row, 'location'),
+    photos: (row.photos as string[] | null) ?? [],
+    resolved: row.resolved === true,
+    resolvedBy: str(row.resolved_by),
+    resolvedAt: date(row.resolved_at),
+    resolution: str(row.resolution),
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+    version: num(row.version) ?? 1,
+  };
+}
+
+function noteFromRow(row: Row): JobNote {
+  return {
+    id: String(row.id),
+    jobId: String(row.job_id),
+    authorId: String(row.author_id),
+    content: String(row.content),
+    isInternal: row.is_internal === true,
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+    version: num(row.version) ?? 1,
+  };
+}
+
+function fromRow(row: Row, children: Record<string, Row[]>): Job {
+  const coordinates = readPoint(row, 'location') ?? { latitude: 0, longitude: 0 };
+  const geofenceRadius = num(row.geofence_radius);
+  const statusHistory = (row.status_history as JobStatusTransition[] | null) ?? [];
+  const actualStart = date(row.actual_start);
+
+  return {
+    id: String(row.id),
+    companyId: String(row.company_id),
+    jobNumber: String(row.job_number),
+    type: row.type as Job['type'],
+    title: String(row.title),
+    description: str(row.description) ?? '',
+    priority: row.priority as Job['priority'],
+    status: row.status as Job['status'],
+    location: {
+      name: str(row.location_name) ?? '',
+      address: str(row.location_address),
+      coordinates,
+      siteId: str(row.site_id),
+      geofence: geofenceRadius === undefined ? undefined : {
+        radius: geofenceRadius,
+        coordinates: readPoint(row, 'geofence') ?? coordinates,
+      },
+    },
+    route: (row.route as Job['route'] | null) ?? undefined,
+    assignedResources: (children.job_assignments ?? []).map(assignmentFromRow),
+    scheduledTime: { start: date(row.scheduled_start) ?? new Date(0), end: date(row.scheduled_end) ?? new Date(0) },
+    actualTime: actualStart ? { start: actualStart, end: date(row.actual_end) } : undefined,
+    estimatedDuration: num(row.estimated_duration) ?? 0,
+    statusHistory: statusHistory.map(t => ({ ...t, changedAt: new Date(t.changedAt) })),
+    customerId: str(row.customer_id),
+    customerReference: str(row.customer_reference),
+    materials: children.job_materials?.map(materialFromRow),
+    timeEntries: (children.time_entries ?? []).map(timeEntryFromRow),
+    photos: (children.job_photos ?? []).map(photoFromRow),
+    deviations: (children.deviations ?? []).map(deviationFromRow),
+    notes: (children.job_notes ?? []).map(noteFromRow),
+    machineHours: num(row.machine_hours),
+    fuelConsumed: num(row.fuel_consumed),
+    co2Emissions: num(row.co2_emissions),
+    distanceTraveled: num(row.distance_traveled),
+    invoiceStatus: row.invoice_status as Job['invoiceStatus'],
+    invoiceData: (row.invoice_data as Job['invoiceData'] | null) ?? undefined,
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+    createdBy: str(row.created_by) ?? 'system',
+    updatedBy: str(row.updated_by) ?? 'system',
+    version: num(row.version) ?? 1,
+  };
+}
+
+// Point columns of each child table, read back as coordinates
+const CHILD_POINTS: Record<string, string> = {
+  job_photos: `, ${selectPoint('location', 'location')}`,
+  deviations: `, ${selectPoint('location', 'location')}`,
+};
+
+export function createJobRepository(db: Database): JobRepository {
+  return {
+    async findAll() {
+      const jobs = await db.query(
+        `SELECT *, ${selectPoint('location', 'location')}, ${selectPoint('geofence_center', 'geofence')}
+         FROM jobs ORDER BY created_at, id`
+      );
+
+      const childrenByJob = new Map<string, Record<string, Row[]>>();
+      for (const table of CHILD_TABLES) {
+        const order = table === 'job_assignments' ? 'assigned_at' : table === 'job_materials' ? 'material_id' : 'created_at';
+        const rows = await db.query(`SELECT *${CHILD_POINTS[table] ?? ''} FROM ${table} ORDER BY ${order}`);
+        for (const row of rows.rows) {
+          const children = childrenByJob.get(row.job_id) ?? {};
+          (children[table] ??= []).push(row);
+          childrenByJob.set(row.job_id, children);
+        }
+      }
+
+      return jobs.rows.map(row => fromRow(row, childrenByJob.get(row.id) ?? {}));
+    },
+
+    async save(job) {
+      await withTransaction(db, async client => {
+        await upsertRow(client, 'jobs', toRow(job));
+
+        const children = childRows(job);
+        for (const table of [...CHILD_TABLES].reverse()) {
+          await client.query(`DELETE FROM ${table} WHERE job_id = $1`, [job.id]);
+        }
+        for (const table of CHILD_TABLES) {
+          await insertRows(client, table, children[table] ?? []);
+        }
+      });
+    },
+  };
+}
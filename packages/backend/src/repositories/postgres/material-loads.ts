@@ -0,0 +1,45 @@
+/**
+ * SYLON PostgreSQL Material Load Repository
+ */
+
+import type { JobMaterial } from '@sylon/shared';
+import type { Database } from '../../db/pool.js';
+import type { StoredMaterialLoad } from '../../modules/jobs/material-loads.js';
+import type { MaterialLoadRepository } from '../types.js';
+import { date, insertRows, json, type Row } from './sql.js';
+
+function toRow(load: StoredMaterialLoad): Row {
+  return {
+    company_id: load.companyId,
+    id: load.id,
+    job_id: load.jobId,
+    job_material: json(load.jobMaterial),
+    transaction_ids: load.transactionIds,
+    processed_at: load.processedAt,
+  };
+}
+
+function fromRow(row: Row): StoredMaterialLoad {
+  return {
+    id: String(row.id),
+    companyId: String(row.company_id),
+    jobId: String(row.job_id),
+    jobMaterial: row.job_material as JobMaterial,
+    transactionIds: (row.transaction_ids as string[] | null) ?? [],
+    processedAt: date(row.processed_at) ?? new Date(0),
+  };
+}
+
+export function createMaterialLoadRepository(db: Database): MaterialLoadRepository {
+  return {
+    async findAll() {
+      const result = await db.query('SELECT * FROM processed_material_loads ORDER BY processed_at, id');
+      return result.rows.map(fromRow);
+    },
+
+    // A load is booked once, so a stored load is never replaced
+    async save(load) {
+      await insertRows(db, 'processed_material_loads', [toRow(load)]);
+    },
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * SYLON PostgreSQL Rate Card Repository
+ */
+
+import type { RateCard } from '@sylon/shared';
+import type { Database } from '../../db/pool.js';
+import type { RateCardRepository } from '../types.js';
+import { date, json, num, str, upsertRow, type Row } from './sql.js';
+
+function toRow(card: RateCard): Row {
+  return {
+    id: card.id,
+    company_id: card.companyId,
+    name: card.name,
+    customer_id: card.customerId,
+    contract_type: card.contractType,
+    labor_rate: card.laborRate,
+    labor_rates: json(card.laborRates),
+    equipment_rates: json(card.equipmentRates),
+    material_markup: card.materialMarkup,
+    fixed_price: card.fixedPrice,
+    call_out_fee: card.callOutFee,
+    minimum_hours: card.minimumHours,
+    payment_terms_days: card.paymentTermsDays,
+    created_at: card.createdAt,
+    updated_at: card.updatedAt,
+    created_by: card.createdBy,
+    updated_by: card.updatedBy,
+  };
+}
+
+function fromRow(row: Row): RateCard {
+  return {
+    id: String(row.id),
+    companyId: String(row.company_id),
+    name: String(row.name),
+    customerId: str(row.customer_id),
+    contractType: row.contract_type as RateCard['contractType'],
+    laborRate: num(row.labor_rate) ?? 0,
+    laborRates: (row.labor_rates as RateCard['laborRates'] | null) ?? undefined,
+    equipmentRates: (row.equipment_rates as RateCard['equipmentRates'] | null) ?? {},
+    materialMarkup: num(row.material_markup),
+    fixedPrice: num(row.fixed_price),
+    callOutFee: num(row.call_out_fee),
+    minimumHours: num(row.minimum_hours),
+    paymentTermsDays: num(row.payment_terms_days) ?? 30,
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+    createdBy: str(row.created_by) ?? 'system',
+    updatedBy: str(row.updated_by) ?? 'system',
+  };
+}
+
+export function createRateCardRepository(db: Database): RateCardRepository {
+  return {
+    async findAll() {
+      const result = await db.query('SELECT * FROM rate_cards ORDER BY created_at, id');
+      return result.rows.map(fromRow);
+    },
+
+    async save(card) {
+      await upsertRow(db, 'rate_cards', toRow(card));
+    },
+
+    async delete(id) {
+      await db.query('DELETE FROM rate_cards WHERE id = $1', [id]);
+    },
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * SYLON PostgreSQL Refresh Token Repository
+ */
+
+import type { Database } from '../../db/pool.js';
+import type { RefreshToken } from '../../modules/auth/sessions.js';
+import type { RefreshTokenRepository } from '../types.js';
+import { date, str, upsertRow, type Row } from './sql.js';
+
+function toRow(token: RefreshToken): Row {
+  return {
+    id: token.id,
+    user_id: token.userId,
+    session_id: token.sessionId,
+    device_id: token.deviceId,
+    token_hash: token.tokenHash,
+    expires_at: token.expiresAt,
+    created_at: token.createdAt,
+    revoked_at: token.revokedAt,
+    replaced_by: token.replacedBy,
+  };
+}
+
+function fromRow(row: Row): RefreshToken {
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    sessionId: String(row.session_id),
+    deviceId: str(row.device_id),
+    tokenHash: String(row.token_hash),
+    expiresAt: date(row.expires_at) ?? new Date(0),
+    createdAt: date(row.created_at) ?? new Date(0),
+    revokedAt: date(row.revoked_at),
+    replacedBy: str(row.replaced_by),
+  };
+}
+
+export function createRefreshTokenRepository(db: Database): RefreshTokenRepository {
+  return {
+    async findUnexpired() {
+      const result = await db.query('SELECT * FROM refresh_tokens WHERE expires_at > NOW() ORDER BY created_at');
+      return result.rows.map(fromRow);
+    },
+
+    async save(tokens) {
+      for (const token of tokens) {
+        await upsertRow(db, 'refresh_tokens', toRow(token));
+      }
+    },
+  };
+}
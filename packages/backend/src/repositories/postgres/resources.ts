@@ -0,0 +1,118 @@
+/**
+ * SYLON PostgreSQL Resource Repository
+ */
+
+import type { Resource } from '@sylon/shared';
+import type { Database } from '../../db/pool.js';
+import type { ResourceRepository } from '../types.js';
+import { date, num, point, readPoint, selectPoint, str, upsertRow, type Row } from './sql.js';
+
+function toRow(resource: Resource): Row {
+  return {
+    id: resource.id,
+    company_id: resource.companyId,
+    name: resource.name,
+    type: resource.type,
+    registration_number: resource.registrationNumber,
+    gps_device_id: resource.gpsDeviceId,
+    max_load: resource.capacity.maxLoad,
+    load_unit: resource.capacity.unit,
+    bucket_size: resource.capacity.bucketSize,
+    arm_reach: resource.capacity.armReach,
+    fuel_level: resource.fuelStatus.currentLevel,
+    tank_capacity: resource.fuelStatus.tankCapacity,
+    fuel_consumption: resource.fuelStatus.consumption,
+    last_refuel_at: resource.fuelStatus.lastRefuel,
+    last_service_at: resource.lastService,
+    next_service_at: resource.nextService,
+    operating_hours: resource.operatingHours,
+    status: resource.status,
+    current_position: point(resource.currentPosition),
+    current_speed: resource.currentPosition?.speed,
+    current_heading: resource.currentPosition?.heading,
+    position_updated_at: resource.currentPosition?.timestamp,
+    error_codes: resource.errorCodes,
+    manufacturer: resource.specifications.manufacturer,
+    model: resource.specifications.model,
+    year: resource.specifications.year,
+    engine_power: resource.specifications.enginePower,
+    weight: resource.specifications.weight,
+    length: resource.specifications.dimensions.length,
+    width: resource.specifications.dimensions.width,
+    height: resource.specifications.dimensions.height,
+    assigned_operator_id: resource.assignedOperatorId,
+    assigned_job_id: resource.assignedJobId,
+    created_at: resource.createdAt,
+    updated_at: resource.updatedAt,
+    created_by: resource.createdBy,
+    updated_by: resource.updatedBy,
+  };
+}
+
+function fromRow(row: Row): Resource {
+  const position = readPoint(row, 'position');
+  return {
+    id: String(row.id),
+    companyId: String(row.company_id),
+    name: String(row.name),
+    type: row.type as Resource['type'],
+    registrationNumber: String(row.registration_number),
+    gpsDeviceId: str(row.gps_device_id) ?? '',
+    capacity: {
+      maxLoad: num(row.max_load) ?? 0,
+      unit: (str(row.load_unit) ?? 'ton') as Resource['capacity']['unit'],
+      bucketSize: num(row.bucket_size),
+      armReach: num(row.arm_reach),
+    },
+    fuelStatus: {
+      currentLevel: num(row.fuel_level) ?? 0,
+      tankCapacity: num(row.tank_capacity) ?? 0,
+      consumption: num(row.fuel_consumption) ?? 0,
+      lastRefuel: date(row.last_refuel_at) ?? new Date(0),
+    },
+    lastService: date(row.last_service_at) ?? new Date(0),
+    nextService: date(row.next_service_at) ?? new Date(0),
+    status: row.status as Resource['status'],
+    currentPosition: position && {
+      ...position,
+      timestamp: date(row.position_updated_at) ?? new Date(0),
+      speed: num(row.current_speed),
+      heading: num(row.current_heading),
+    },
+    assignedOperatorId: str(row.assigned_operator_id),
+    assignedJobId: str(row.assigned_job_id),
+    errorCodes: (row.error_codes as string[] | null) ?? [],
+    operatingHours: num(row.operating_hours) ?? 0,
+    specifications: {
+      manufacturer: str(row.manufacturer) ?? 'Unknown',
+      model: str(row.model) ?? 'Unknown',
+      year: num(row.year) ?? 0,
+      enginePower: num(row.engine_power) ?? 0,
+      weight: num(row.weight) ?? 0,
+      dimensions: {
+        length: num(row.length) ?? 0,
+        width: num(row.width) ?? 0,
+        height: num(row.height) ?? 0,
+      },
+    },
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+    createdBy: str(row.created_by) ?? 'system',
+    updatedBy: str(row.updated_by) ?? 'system',
+  };
+}
+
+export function createResourceRepository(db: Database): ResourceRepository {
+  return {
+    async findAll() {
+      const result = await db.query(
+        `SELECT *, ${selectPoint('current_position', 'position')} FROM resources ORDER BY created_at, id`
+      );
+      return result.rows.map(fromRow);
+    },
+
+    async save(resource) {
+      await upsertRow(db, 'resources', toRow(resource));
+    },
+  };
+}
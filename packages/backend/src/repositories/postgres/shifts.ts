@@ -0,0 +1,55 @@
+/**
+ * SYLON PostgreSQL Shift Repository
+ */
+
+import type { Shift, TimeRange } from '@sylon/shared';
+import type { Database } from '../../db/pool.js';
+import type { StoredShift } from '../../modules/garage/daily-checks.js';
+import type { ShiftRepository } from '../types.js';
+import { date, json, str, upsertRow, type Row } from './sql.js';
+
+function toRow({ shift, daySummaryId }: StoredShift): Row {
+  return {
+    id: shift.id,
+    operator_id: shift.operatorId,
+    resource_id: shift.resourceId,
+    start_time: shift.timeRange.start,
+    end_time: shift.timeRange.end,
+    breaks: json(shift.breaks),
+    status: shift.status,
+    // Saves without a summary, such as a day start on an open shift, keep the stored one
+    ...(daySummaryId ? { day_summary_id: daySummaryId } : {}),
+    created_at: shift.createdAt,
+    updated_at: shift.updatedAt,
+  };
+}
+
+function fromRow(row: Row): StoredShift {
+  const breaks = (row.breaks as TimeRange[] | null) ?? [];
+  return {
+    shift: {
+      id: String(row.id),
+      operatorId: String(row.operator_id),
+      resourceId: String(row.resource_id),
+      timeRange: { start: date(row.start_time) ?? new Date(0), end: date(row.end_time) ?? new Date(0) },
+      breaks: breaks.map(b => ({ start: new Date(b.start), end: new Date(b.end) })),
+      status: row.status as Shift['status'],
+      createdAt: date(row.created_at) ?? new Date(0),
+      updatedAt: date(row.updated_at) ?? new Date(0),
+    },
+    daySummaryId: str(row.day_summary_id),
+  };
+}
+
+export function createShiftRepository(db: Database): ShiftRepository {
+  return {
+    async findAll() {
+      const result = await db.query('SELECT * FROM shifts ORDER BY start_time, id');
+      return result.rows.map(fromRow);
+    },
+
+    async save(stored) {
+      await upsertRow(db, 'shifts', toRow(stored));
+    },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * SYLON PostgreSQL Site Visit Repository
+ */
+
+import type { SiteVisit } from '@sylon/shared';
+import type { Database } from '../../db/pool.js';
+import type { SiteVisitRepository } from '../types.js';
+import { date, json, num, str, upsertRow, type Row } from './sql.js';
+
+function toRow(visit: SiteVisit): Row {
+  return {
+    id: visit.id,
+    site_id: visit.siteId,
+    resource_id: visit.resourceId,
+    operator_id: visit.operatorId,
+    job_id: visit.jobId,
+    type: visit.type,
+    arrived_at: visit.arrivedAt,
+    departed_at: visit.departedAt,
+    wait_time: visit.waitTime,
+    materials: json(visit.materials),
+    weighticket_number: visit.weighticketNumber,
+    notes: visit.notes,
+    created_at: visit.createdAt,
+    updated_at: visit.updatedAt,
+  };
+}
+
+function fromRow(row: Row): SiteVisit {
+  return {
+    id: String(row.id),
+    siteId: String(row.site_id),
+    resourceId: String(row.resource_id),
+    operatorId: str(row.operator_id),
+    jobId: str(row.job_id),
+    type: row.type as SiteVisit['type'],
+    arrivedAt: date(row.arrived_at) ?? new Date(0),
+    departedAt: date(row.departed_at),
+    waitTime: num(row.wait_time),
+    materials: (row.materials as SiteVisit['materials'] | null) ?? undefined,
+    weighticketNumber: str(row.weighticket_number),
+    notes: str(row.notes),
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+  };
+}
+
+export function createSiteVisitRepository(db: Database): SiteVisitRepository {
+  return {
+    async findSince(from) {
+      const result = await db.query('SELECT * FROM site_visits WHERE arrived_at >= $1 ORDER BY arrived_at, id', [from]);
+      return result.rows.map(fromRow);
+    },
+
+    async save(visit) {
+      await upsertRow(db, 'site_visits', toRow(visit));
+    },
+
+    async delete(id) {
+      await db.query('DELETE FROM site_visits WHERE id = $1', [id]);
+    },
+  };
+}
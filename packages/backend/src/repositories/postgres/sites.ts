@@ -0,0 +1,168 @@
+/**
+ * SYLON PostgreSQL Site Repository
+ * Sites and their materials
+ */
+
+import type { GeoFence, Site, SiteMaterial } from '@sylon/shared';
+import { withTransaction, type Database } from '../../db/pool.js';
+import type { SiteRepository } from '../types.js';
+import { date, json, num, point, polygon, readPoint, selectPoint, str, upsertRow, type Row } from './sql.js';
+
+// TIME columns come back as HH:MM:SS
+function readTime(value: unknown): string | undefined {
+  return typeof value === 'string' ? value.slice(0, 5) : undefined;
+}
+
+function toRow(site: Site): Row {
+  return {
+    id: site.id,
+    company_id: site.companyId,
+    name: site.name,
+    code: site.code,
+    type: site.type,
+    status: site.status,
+    description: site.description,
+    address: site.address,
+    location: point(site.coordinates),
+    geofence: polygon(site.geofence?.vertices),
+    geofence_radius: site.geofence?.radius,
+    geofence_definition: json(site.geofence),
+    hours_weekday_start: site.operatingHours.regular.start,
+    hours_weekday_end: site.operatingHours.regular.end,
+    hours_days: site.operatingHours.regular.days,
+    hours_exceptions: json(site.operatingHours.exceptions ?? []),
+    contact_name: site.contact?.name,
+    contact_phone: site.contact?.phone,
+    contact_email: site.contact?.email,
+    contact_role: site.contact?.role,
+    max_daily_visits: site.capacity?.maxDailyVisits,
+    max_concurrent_vehicles: site.capacity?.maxConcurrentVehicles,
+    loading_bays: site.capacity?.loadingBays,
+    unloading_areas: site.capacity?.unloadingAreas,
+    storage_capacity: site.capacity?.storageCapacity,
+    storage_unit: site.capacity?.storageUnit,
+    access_instructions: site.accessInstructions,
+    restrictions: site.restrictions,
+    created_at: site.createdAt,
+    updated_at: site.updatedAt,
+    created_by: site.createdBy,
+    updated_by: site.updatedBy,
+  };
+}
+
+function materialToRow(siteId: string, material: SiteMaterial): Row {
+  return {
+    id: material.id,
+    site_id: siteId,
+    name: material.name,
+    code: material.code,
+    category: material.category,
+    fraction: material.fraction,
+    description: material.description,
+    unit: material.unit,
+    price_per_unit: material.pricePerUnit,
+    current_stock: material.currentStock,
+    min_stock: material.minStock,
+    max_stock: material.maxStock,
+    availability: material.availability,
+    quality_grade: material.qualityGrade,
+    certifications: material.certifications,
+  };
+}
+
+function materialFromRow(row: Row): SiteMaterial {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    code: String(row.code),
+    category: row.category as SiteMaterial['category'],
+    fraction: str(row.fraction),
+    description: str(row.description),
+    unit: row.unit as SiteMaterial['unit'],
+    pricePerUnit: num(row.price_per_unit),
+    currentStock: num(row.current_stock),
+    minStock: num(row.min_stock),
+    maxStock: num(row.max_stock),
+    availability: row.availability as SiteMaterial['availability'],
+    qualityGrade: str(row.quality_grade),
+    certifications: (row.certifications as string[] | null) ?? undefined,
+  };
+}
+
+function fromRow(row: Row, materials: SiteMaterial[]): Site {
+  const hasCapacity = [
+    row.max_daily_visits, row.max_concurrent_vehicles, row.loading_bays,
+    row.unloading_areas, row.storage_capacity, row.storage_unit,
+  ].some(value => value !== null);
+
+  return {
+    id: String(row.id),
+    companyId: String(row.company_id),
+    name: String(row.name),
+    code: String(row.code),
+    type: row.type as Site['type'],
+    status: row.status as Site['status'],
+    description: str(row.description),
+    address: str(row.address) ?? '',
+    coordinates: readPoint(row, 'location') ?? { latitude: 0, longitude: 0 },
+    geofence: (row.geofence_definition as GeoFence | null) ?? undefined,
+    operatingHours: {
+      regular: {
+        start: readTime(row.hours_weekday_start) ?? '00:00',
+        end: readTime(row.hours_weekday_end) ?? '23:59',
+        days: (row.hours_days as number[] | null) ?? [1, 2, 3, 4, 5],
+      },
+      exceptions: row.hours_exceptions as Site['operatingHours']['exceptions'],
+    },
+    contact: row.contact_name ? {
+      name: String(row.contact_name),
+      phone: str(row.contact_phone) ?? '',
+      email: str(row.contact_email),
+      role: str(row.contact_role),
+    } : undefined,
+    materials: materials.length > 0 ? materials : undefined,
+    capacity: hasCapacity ? {
+      maxDailyVisits: num(row.max_daily_visits),
+      maxConcurrentVehicles: num(row.max_concurrent_vehicles),
+      loadingBays: num(row.loading_bays),
+      unloadingAreas: num(row.unloading_areas),
+      storageCapacity: num(row.storage_capacity),
+      storageUnit: str(row.storage_unit),
+    } : undefined,
+    accessInstructions: str(row.access_instructions),
+    restrictions: (row.restrictions as string[] | null) ?? undefined,
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+    createdBy: str(row.created_by) ?? 'system',
+    updatedBy: str(row.updated_by) ?? 'system',
+  };
+}
+
+export function createSiteRepository(db: Database): SiteRepository {
+  return {
+    async findAll() {
+      const sites = await db.query(`SELECT *, ${selectPoint('location', 'location')} FROM sites ORDER BY created_at, id`);
+      const materials = await db.query('SELECT * FROM materials ORDER BY created_at, id');
+
+      return sites.rows.map(row => fromRow(
+        row,
+        materials.rows.filter(m => m.site_id === row.id).map(materialFromRow)
+      ));
+    },
+
+    async save(site) {
+      await withTransaction(db, async client => {
+        await upsertRow(client, 'sites', toRow(site));
+
+        const materials = site.materials ?? [];
+        for (const material of materials) {
+          await upsertRow(client, 'materials', materialToRow(site.id, material));
+        }
+        await client.query(
+          'DELETE FROM materials WHERE site_id = $1 AND NOT (id = ANY($2::text[]))',
+          [site.id, materials.map(m => m.id)]
+        );
+      });
+    },
+  };
+}
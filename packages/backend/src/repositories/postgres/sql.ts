@@ -0,0 +1,97 @@
+/**
+ * SYLON PostgreSQL Helpers
+ * Row writing and value conversion shared by the PostgreSQL repositories
+ */
+
+import type { Coordinates } from '@sylon/shared';
+import type { Database } from '../../db/pool.js';
+
+// A PostGIS geography value written from well-known text
+export interface Geography {
+  wkt: string;
+}
+
+export type Row = Record<string, unknown>;
+
+function isGeography(value: unknown): value is Geography {
+  return typeof value === 'object' && value !== null && 'wkt' in value;
+}
+
+export function point(coordinates: Coordinates | undefined): Geography | null {
+  if (!coordinates) return null;
+  return { wkt: `SRID=4326;POINT(${coordinates.longitude} ${coordinates.latitude})` };
+}
+
+export function polygon(vertices: Coordinates[] | undefined): Geography | null {
+  if (!vertices || vertices.length < 3) return null;
+  // Rings must be closed
+  const ring = [...vertices, vertices[0]!].map(v => `${v.longitude} ${v.latitude}`).join(', ');
+  return { wkt: `SRID=4326;POLYGON((${ring}))` };
+}
+
+// SQL that reads a point column as latitude/longitude columns
+export function selectPoint(column: string, prefix: string): string {
+  return `ST_Y(${column}::geometry) AS ${prefix}_latitude, ST_X(${column}::geometry) AS ${prefix}_longitude`;
+}
+
+export function readPoint(row: Row, prefix: string): Coordinates | undefined {
+  const latitude = row[`${prefix}_latitude`];
+  const longitude = row[`${prefix}_longitude`];
+  if (latitude === null || latitude === undefined || longitude === null || longitude === undefined) {
+    return undefined;
+  }
+  return { latitude: Number(latitude), longitude: Number(longitude) };
+}
+
+// JSONB values are sent as text, since pg would turn arrays into PostgreSQL arrays
+export function json(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+// DECIMAL columns come back as strings
+export function num(value: unknown): number | undefined {
+  return value === null || value === undefined ? undefined : Number(value);
+}
+
+export function str(value: unknown): string | undefined {
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+export function date(value: unknown): Date | undefined {
+  return value === null || value === undefined ? undefined : new Date(value as string | Date);
+}
+
+// Convert undefined to null so optional fields clear their column
+function toParameter(value: unknown): unknown {
+  if (value === undefined) return null;
+  return isGeography(value) ? value.wkt : value;
+}
+
+function placeholders(row: Row): string[] {
+  return Object.keys(row).map((column, index) =>
+    isGeography(row[column]) ? `ST_GeogFromText($${index + 1})` : `$${index + 1}`
+  );
+}
+
+// Insert a row, updating every column when the id already exists
+export async function upsertRow(db: Database, table: string, row: Row): Promise<void> {
+  const columns = Object.keys(row);
+  const updates = columns.filter(c => c !== 'id').map(c => `${c} = EXCLUDED.${c}`);
+  await db.query(
+    `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders(row).join(', ')})
+     ON CONFLICT (id) DO UPDATE SET ${updates.join(', ')}`,
+    columns.map(c => toParameter(row[c]))
+  );
+}
+
+// Insert rows, skipping ids that are already stored
+export async function insertRows(db: Database, table: string, rows: Row[]): Promise<void> {
+  for (const row of rows) {
+    const columns = Object.keys(row);
+    await db.query(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders(row).join(', ')})
+       ON CONFLICT DO NOTHING`,
+      columns.map(c => toParameter(row[c]))
+    );
+  }
+}
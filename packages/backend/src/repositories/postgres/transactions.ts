@@ -0,0 +1,59 @@
+/**
+ * SYLON PostgreSQL Material Transaction Repository
+ */
+
+import type { MaterialTransaction } from '@sylon/shared';
+import type { Database } from '../../db/pool.js';
+import type { MaterialTransactionRepository } from '../types.js';
+import { date, insertRows, num, str, type Row } from './sql.js';
+
+function toRow(transaction: MaterialTransaction): Row {
+  return {
+    id: transaction.id,
+    site_id: transaction.siteId,
+    material_id: transaction.materialId,
+    type: transaction.type,
+    quantity: transaction.quantity,
+    unit: transaction.unit,
+    resource_id: transaction.resourceId,
+    operator_id: transaction.operatorId,
+    job_id: transaction.jobId,
+    destination_site_id: transaction.destinationSiteId,
+    notes: transaction.notes,
+    weighticket_number: transaction.weighticketNumber,
+    recorded_at: transaction.createdAt,
+  };
+}
+
+function fromRow(row: Row): MaterialTransaction {
+  const recordedAt = date(row.recorded_at) ?? new Date(0);
+  return {
+    id: String(row.id),
+    siteId: String(row.site_id),
+    materialId: String(row.material_id),
+    type: row.type as MaterialTransaction['type'],
+    quantity: num(row.quantity) ?? 0,
+    unit: String(row.unit),
+    resourceId: str(row.resource_id),
+    operatorId: str(row.operator_id),
+    jobId: str(row.job_id),
+    destinationSiteId: str(row.destination_site_id),
+    notes: str(row.notes),
+    weighticketNumber: str(row.weighticket_number),
+    createdAt: recordedAt,
+    updatedAt: recordedAt,
+  };
+}
+
+export function createMaterialTransactionRepository(db: Database): MaterialTransactionRepository {
+  return {
+    async findAll() {
+      const result = await db.query('SELECT * FROM material_transactions ORDER BY recorded_at, id');
+      return result.rows.map(fromRow);
+    },
+
+    async append(transactions) {
+      await insertRows(db, 'material_transactions', transactions.map(toRow));
+    },
+  };
+}
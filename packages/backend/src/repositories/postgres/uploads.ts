@@ -0,0 +1,58 @@
+/**
+ * SYLON PostgreSQL Upload Repository
+ */
+
+import type { Database } from '../../db/pool.js';
+import type { Upload } from '../../modules/photos/uploads.js';
+import type { UploadRepository } from '../types.js';
+import { date, num, upsertRow, type Row } from './sql.js';
+
+function toRow(upload: Upload): Row {
+  return {
+    id: upload.id,
+    user_id: upload.userId,
+    filename: upload.filename,
+    mime_type: upload.mimeType,
+    size: upload.size,
+    // OFFSET is a reserved word
+    received: upload.offset,
+    chunk_size: upload.chunkSize,
+    complete: upload.complete,
+    expires_at: upload.expiresAt,
+  };
+}
+
+function fromRow(row: Row): Upload {
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    filename: String(row.filename),
+    mimeType: String(row.mime_type),
+    size: num(row.size) ?? 0,
+    offset: num(row.received) ?? 0,
+    chunkSize: num(row.chunk_size) ?? 0,
+    complete: row.complete === true,
+    expiresAt: date(row.expires_at) ?? new Date(0),
+  };
+}
+
+export function createUploadRepository(db: Database): UploadRepository {
+  return {
+    async findAll() {
+      const result = await db.query('SELECT * FROM uploads ORDER BY expires_at, id');
+      return result.rows.map(fromRow);
+    },
+
+    async save(upload) {
+      await upsertRow(db, 'uploads', toRow(upload));
+    },
+
+    async delete(id) {
+      await db.query('DELETE FROM uploads WHERE id = $1', [id]);
+    },
+
+    async deleteExpired(now) {
+      await db.query('DELETE FROM uploads WHERE expires_at <= $1', [now]);
+    },
+  };
+}
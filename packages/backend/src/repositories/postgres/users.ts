@@ -0,0 +1,62 @@
+/**
+ * SYLON PostgreSQL User Repository
+ */
+
+import type { Database } from '../../db/pool.js';
+import type { UserAccount } from '../../data/users.js';
+import type { UserRepository } from '../types.js';
+import { date, json, str, upsertRow, type Row } from './sql.js';
+
+function toRow(user: UserAccount): Row {
+  return {
+    id: user.id,
+    company_id: user.companyId,
+    email: user.email,
+    password_hash: user.passwordHash,
+    first_name: user.firstName,
+    last_name: user.lastName,
+    phone: user.phone,
+    role: user.role,
+    is_active: user.isActive,
+    preferences: json(user.preferences),
+    last_login_at: user.lastLoginAt,
+    created_at: user.createdAt,
+    updated_at: user.updatedAt,
+  };
+}
+
+function fromRow(row: Row): UserAccount {
+  return {
+    id: String(row.id),
+    companyId: String(row.company_id),
+    email: String(row.email),
+    passwordHash: String(row.password_hash),
+    firstName: String(row.first_name),
+    lastName: String(row.last_name),
+    phone: str(row.phone) ?? '',
+    role: row.role as UserAccount['role'],
+    isActive: row.is_active !== false,
+    preferences: {
+      language: 'sv',
+      theme: 'system',
+      notifications: { email: true, push: true, sms: false },
+      ...(row.preferences as Partial<UserAccount['preferences']> | null),
+    },
+    lastLoginAt: date(row.last_login_at),
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+  };
+}
+
+export function createUserRepository(db: Database): UserRepository {
+  return {
+    async findAll() {
+      const result = await db.query('SELECT * FROM users ORDER BY created_at, id');
+      return result.rows.map(fromRow);
+    },
+
+    async save(user) {
+      await upsertRow(db, 'users', toRow(user));
+    },
+  };
+}
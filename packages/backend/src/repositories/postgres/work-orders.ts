@@ -0,0 +1,63 @@
+/**
+ * SYLON PostgreSQL Work Order Repository
+ */
+
+import type { WorkOrder } from '@sylon/shared';
+import type { Database } from '../../db/pool.js';
+import type { WorkOrderRepository } from '../types.js';
+import { date, str, upsertRow, type Row } from './sql.js';
+
+function toRow(workOrder: WorkOrder): Row {
+  return {
+    id: workOrder.id,
+    company_id: workOrder.companyId,
+    order_number: workOrder.orderNumber,
+    customer_id: workOrder.customerId,
+    job_ids: workOrder.jobs,
+    status: workOrder.status,
+    valid_from: workOrder.validFrom,
+    valid_to: workOrder.validTo,
+    contract_type: workOrder.contractType,
+    terms: workOrder.terms,
+    created_at: workOrder.createdAt,
+    updated_at: workOrder.updatedAt,
+    created_by: workOrder.createdBy,
+    updated_by: workOrder.updatedBy,
+  };
+}
+
+function fromRow(row: Row): WorkOrder {
+  return {
+    id: String(row.id),
+    companyId: String(row.company_id),
+    orderNumber: String(row.order_number),
+    customerId: String(row.customer_id),
+    jobs: (row.job_ids as string[] | null) ?? [],
+    status: row.status as WorkOrder['status'],
+    validFrom: date(row.valid_from) ?? new Date(0),
+    validTo: date(row.valid_to),
+    contractType: row.contract_type as WorkOrder['contractType'],
+    terms: str(row.terms),
+    createdAt: date(row.created_at) ?? new Date(0),
+    updatedAt: date(row.updated_at) ?? new Date(0),
+    createdBy: str(row.created_by) ?? 'system',
+    updatedBy: str(row.updated_by) ?? 'system',
+  };
+}
+
+export function createWorkOrderRepository(db: Database): WorkOrderRepository {
+  return {
+    async findAll() {
+      const result = await db.query('SELECT * FROM work_orders ORDER BY order_number, id');
+      return result.rows.map(fromRow);
+    },
+
+    async save(workOrder) {
+      await upsertRow(db, 'work_orders', toRow(workOrder));
+    },
+
+    async delete(id) {
+      await db.query('DELETE FROM work_orders WHERE id = $1', [id]);
+    },
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * SYLON Repository Types
+ * Persistence interfaces for the data the routes change
+ */
+
+import type {
+  Company,
+  Customer,
+  DailyCheck,
+  GpsReading,
+  Job,
+  MaterialTransaction,
+  RateCard,
+  Resource,
+  Site,
+  SiteVisit,
+  WorkOrder,
+} from '@sylon/shared';
+import type { UserAccount } from '../data/users.js';
+import type { RefreshToken } from '../modules/auth/sessions.js';
+import type { StoredShift } from '../modules/garage/daily-checks.js';
+import type { StoredMaterialLoad } from '../modules/jobs/material-loads.js';
+import type { Upload } from '../modules/photos/uploads.js';
+
+export interface CompanyRepository {
+  findAll(): Promise<Company[]>;
+  save(company: Company): Promise<void>;
+}
+
+export interface ResourceRepository {
+  findAll(): Promise<Resource[]>;
+  save(resource: Resource): Promise<void>;
+}
+
+// Sites are saved together with their materials
+export interface SiteRepository {
+  findAll(): Promise<Site[]>;
+  save(site: Site): Promise<void>;
+}
+
+// Jobs are saved together with assignments, materials, time entries, photos, deviations and notes
+export interface JobRepository {
+  findAll(): Promise<Job[]>;
+  save(job: Job): Promise<void>;
+}
+
+export interface RateCardRepository {
+  findAll(): Promise<RateCard[]>;
+  save(rateCard: RateCard): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface CustomerRepository {
+  findAll(): Promise<Customer[]>;
+  save(customer: Customer): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface WorkOrderRepository {
+  findAll(): Promise<WorkOrder[]>;
+  save(workOrder: WorkOrder): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface MaterialTransactionRepository {
+  findAll(): Promise<MaterialTransaction[]>;
+  append(transactions: MaterialTransaction[]): Promise<void>;
+}
+
+export interface GpsReadingRepository {
+  findSince(from: Date): Promise<GpsReading[]>;
+  findByResource(resourceId: string, from: Date, to: Date): Promise<GpsReading[]>;
+  append(readings: GpsReading[]): Promise<void>;
+}
+
+export interface UserRepository {
+  findAll(): Promise<UserAccount[]>;
+  save(user: UserAccount): Promise<void>;
+}
+
+export interface RefreshTokenRepository {
+  findUnexpired(): Promise<RefreshToken[]>;
+  save(tokens: RefreshToken[]): Promise<void>;
+}
+
+export interface DailyCheckRepository {
+  findAll(): Promise<DailyCheck[]>;
+  save(check: DailyCheck): Promise<void>;
+}
+
+export interface ShiftRepository {
+  findAll(): Promise<StoredShift[]>;
+  save(stored: StoredShift): Promise<void>;
+}
+
+export interface SiteVisitRepository {
+  findSince(from: Date): Promise<SiteVisit[]>;
+  save(visit: SiteVisit): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// Loads already booked, so a retried sync after a restart is not booked twice
+export interface MaterialLoadRepository {
+  findAll(): Promise<StoredMaterialLoad[]>;
+  save(load: StoredMaterialLoad): Promise<void>;
+}
+
+export interface UploadRepository {
+  findAll(): Promise<Upload[]>;
+  save(upload: Upload): Promise<void>;
+  delete(id: string): Promise<void>;
+  deleteExpired(now: Date): Promise<void>;
+}
+
+export interface Repositories {
+  companies: CompanyRepository;
+  resources: ResourceRepository;
+  sites: SiteRepository;
+  jobs: JobRepository;
+  rateCards: RateCardRepository;
+  customers: CustomerRepository;
+  workOrders: WorkOrderRepository;
+  materialTransactions: MaterialTransactionRepository;
+  gpsReadings: GpsReadingRepository;
+  users: UserRepository;
+  refreshTokens: RefreshTokenRepository;
+  dailyChecks: DailyCheckRepository;
+  shifts: ShiftRepository;
+  siteVisits: SiteVisitRepository;
+  materialLoads: MaterialLoadRepository;
+  uploads: UploadRepository;
+}
@@ -0,0 +1,187 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Customer, Job, RateCard, Resource, WorkOrder } from '@sylon/shared';
+import { startApiServer, type ApiServer } from './testing/api-server.js';
+
+// Demo company entities that users of the subsidiary must never reach
+const DEMO_JOB = 'job-plow-002';
+const DEMO_RESOURCE = 'plow-truck-01';
+const DEMO_SITE = 'site-quarry-north';
+const DEMO_CUSTOMER = 'customer-sundsvall';
+const DEMO_WORK_ORDER = 'wo-002';
+const DEMO_RATE_CARD = 'rate-hourly';
+
+let server: ApiServer;
+let demoAdmin: string;
+let kustAdmin: string;
+
+beforeAll(async () => {
+  server = await startApiServer();
+  demoAdmin = await server.login('admin@sylon.se');
+  kustAdmin = await server.login('admin@kust.sylon.se');
+}, 90_000);
+
+afterAll(async () => {
+  await server?.stop();
+});
+
+function newJob(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const start = Date.now() + 60 * 60 * 1000;
+  return {
+    type: 'salting',
+    title: 'Saltning av infarten',
+    location: { name: 'Infarten', coordinates: { latitude: 62.4, longitude: 17.3 } },
+    scheduledTime: { start: new Date(start).toISOString(), end: new Date(start + 2 * 60 * 60 * 1000).toISOString() },
+    ...overrides,
+  };
+}
+
+// Each endpoint is first checked with the owning company, so a 404 is not a broken route
+const READS = [
+  `/api/jobs/${DEMO_JOB}`,
+  `/api/jobs/${DEMO_JOB}/time-entries`,
+  `/api/jobs/${DEMO_JOB}/photos`,
+  `/api/jobs/${DEMO_JOB}/deviations`,
+  `/api/jobs/${DEMO_JOB}/notes`,
+  `/api/jobs/${DEMO_JOB}/invoice/preview`,
+  `/api/resources/${DEMO_RESOURCE}`,
+  `/api/resources/${DEMO_RESOURCE}/position`,
+  `/api/sites/${DEMO_SITE}`,
+  `/api/sites/${DEMO_SITE}/transactions`,
+  `/api/customers/${DEMO_CUSTOMER}`,
+  `/api/customers/${DEMO_CUSTOMER}/rate-cards`,
+  `/api/work-orders/${DEMO_WORK_ORDER}`,
+  `/api/work-orders/${DEMO_WORK_ORDER}/summary`,
+  `/api/rate-cards/${DEMO_RATE_CARD}`,
+];
+
+describe('reads of another company', () => {
+  it.each(READS)('GET %s is not found', async (path) => {
+    expect((await server.request(demoAdmin, 'GET', path)).status).toBe(200);
+    expect((await server.request(kustAdmin, 'GET', path)).status).toBe(404);
+  });
+
+  it('leaves the entities of another company out of lists', async () => {
+    const jobs = await server.request<Job[]>(kustAdmin, 'GET', '/api/jobs');
+    const resources = await server.request<Resource[]>(kustAdmin, 'GET', '/api/resources');
+    const customers = await server.request<Customer[]>(kustAdmin, 'GET', '/api/customers');
+    const workOrders = await server.request<WorkOrder[]>(kustAdmin, 'GET', '/api/work-orders');
+    const rateCards = await server.request<RateCard[]>(kustAdmin, 'GET', '/api/rate-cards');
+
+    expect(jobs.body.data!.some(j => j.id === DEMO_JOB)).toBe(false);
+    expect(resources.body.data!.some(r => r.id === DEMO_RESOURCE)).toBe(false);
+    expect(customers.body.data!.some(c => c.id === DEMO_CUSTOMER)).toBe(false);
+    expect(workOrders.body.data!.some(w => w.id === DEMO_WORK_ORDER)).toBe(false);
+    expect(rateCards.body.data!.some(r => r.id === DEMO_RATE_CARD)).toBe(false);
+  });
+});
+
+describe('writes to another company', () => {
+  it.each([
+    ['PATCH', `/api/jobs/${DEMO_JOB}/status`, { status: 'cancelled' }],
+    ['POST', `/api/jobs/${DEMO_JOB}/assignments`, { resourceId: 'kust-plow-01' }],
+    ['POST', `/api/jobs/${DEMO_JOB}/notes`, { authorId: 'user-kust-admin-001', content: 'Hej' }],
+    ['POST', `/api/jobs/${DEMO_JOB}/invoice`, undefined],
+    ['PATCH', `/api/jobs/${DEMO_JOB}/invoice/status`, { status: 'generated' }],
+    ['PATCH', `/api/customers/${DEMO_CUSTOMER}`, { name: 'Kapad kund' }],
+    ['DELETE', `/api/customers/${DEMO_CUSTOMER}`, undefined],
+    ['PATCH', `/api/work-orders/${DEMO_WORK_ORDER}`, { status: 'completed' }],
+    ['DELETE', `/api/work-orders/${DEMO_WORK_ORDER}`, undefined],
+    ['PATCH', `/api/rate-cards/${DEMO_RATE_CARD}`, { name: 'Kapat' }],
+    ['DELETE', `/api/rate-cards/${DEMO_RATE_CARD}`, undefined],
+  ])('%s %s is not found', async (method, path, body) => {
+    expect((await server.request(kustAdmin, method, path, body)).status).toBe(404);
+  });
+
+  it('leaves the entities unchanged', async () => {
+    const job = await server.request<Job>(demoAdmin, 'GET', `/api/jobs/${DEMO_JOB}`);
+    const customer = await server.request<Customer>(demoAdmin, 'GET', `/api/customers/${DEMO_CUSTOMER}`);
+
+    expect(job.body.data!.status).not.toBe('cancelled');
+    expect(job.body.data!.notes.some(n => n.authorId === 'user-kust-admin-001')).toBe(false);
+    expect(customer.body.data!.name).toBe('Sundsvalls kommun');
+  });
+});
+
+describe('references to another company', () => {
+  it.each([
+    ['resource', { assignedResources: [DEMO_RESOURCE] }],
+    ['site', { location: { name: 'Täkt', coordinates: { latitude: 62.4, longitude: 17.3 }, siteId: DEMO_SITE } }],
+    ['customer', { customerId: DEMO_CUSTOMER }],
+    ['work order', { workOrderId: DEMO_WORK_ORDER }],
+  ])('does not create a job with a %s of another company', async (_name, overrides) => {
+    expect((await server.request(kustAdmin, 'POST', '/api/jobs', newJob(overrides))).status).toBe(404);
+  });
+
+  it('does not add a job to a work order of another company', async () => {
+    const workOrder = await server.request<WorkOrder>(demoAdmin, 'GET', `/api/work-orders/${DEMO_WORK_ORDER}`);
+
+    expect(workOrder.body.data!.jobs).toHaveLength(3);
+  });
+
+  it('does not create a work order for a customer or job of another company', async () => {
+    const { status, body } = await server.request(kustAdmin, 'POST', '/api/work-orders', {
+      customerId: DEMO_CUSTOMER,
+      contractType: 'hourly',
+      validFrom: new Date().toISOString(),
+      jobs: [DEMO_JOB],
+    });
+
+    expect(status).toBe(400);
+    expect(body.error?.details?.errors).toEqual([`Customer ${DEMO_CUSTOMER} not found`, `Job ${DEMO_JOB} not found`]);
+  });
+
+  it("does not report time on another company's resource", async () => {
+    const created = await server.request<Job>(kustAdmin, 'POST', '/api/jobs', newJob());
+    const { status } = await server.request(kustAdmin, 'POST', `/api/jobs/${created.body.data!.id}/time-entries`, {
+      resourceId: DEMO_RESOURCE,
+      operatorId: 'user-kust-driver-001',
+      type: 'work',
+      timeRange: { start: '2026-01-15T07:00:00Z', end: '2026-01-15T09:00:00Z' },
+    });
+
+    expect(status).toBe(400);
+  });
+});
+
+describe('WebSocket topics of another company', () => {
+  it('refuses subscriptions to the jobs, resources and sites of another company', async () => {
+    const connection = await server.connect(kustAdmin);
+    try {
+      // The default subscriptions are confirmed on connect
+      await connection.waitFor(m => m.type === 'SUBSCRIBED');
+      for (const topic of [
+        { type: 'job', jobId: DEMO_JOB },
+        { type: 'resource', resourceId: DEMO_RESOURCE },
+        { type: 'site', siteId: DEMO_SITE },
+      ]) {
+        connection.messages.length = 0;
+        connection.send({ type: 'SUBSCRIBE', topics: [topic] });
+        const reply = await connection.waitFor(m => m.type === 'ERROR' || m.type === 'SUBSCRIBED');
+
+        expect(reply.type).toBe('ERROR');
+      }
+    } finally {
+      connection.close();
+    }
+  });
+
+  it("does not deliver another company's events", async () => {
+    const demo = await server.connect(demoAdmin);
+    const kust = await server.connect(kustAdmin);
+    try {
+      const created = await server.request<Job>(demoAdmin, 'POST', '/api/jobs', newJob());
+      const jobId = created.body.data!.id;
+      const isJobEvent = (m: { type: string; data?: unknown }) =>
+        m.type === 'JOB_STATUS_CHANGE' && (m.data as { jobId?: string }).jobId === jobId;
+
+      await demo.waitFor(isJobEvent);
+      // Give the hub time to send anything it would send to the other company
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      expect(kust.messages.some(isJobEvent)).toBe(false);
+    } finally {
+      demo.close();
+      kust.close();
+    }
+  });
+});
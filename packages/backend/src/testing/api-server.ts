@@ -0,0 +1,171 @@
+/**
+ * SYLON API Test Server
+ * Runs the backend in a child process with the in-memory demo data, for route
+ * tests that go through authentication, the routes and the WebSocket hub
+ */
+
+import { spawn } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { WebSocket } from 'ws';
+import type { ApiResponse, LoginResponse } from '@sylon/shared';
+
+const BACKEND_DIR = fileURLToPath(new URL('../..', import.meta.url));
+const STARTUP_TIMEOUT_MS = 60_000;
+
+export const DEMO_PASSWORD = 'demo1234';
+
+export interface ApiResult<T> {
+  status: number;
+  body: ApiResponse<T>;
+}
+
+export interface RealtimeMessage {
+  type: string;
+  data?: unknown;
+  seq?: number;
+}
+
+export interface ApiServer {
+  baseUrl: string;
+  login(email: string): Promise<string>;
+  request<T = unknown>(token: string, method: string, path: string, body?: unknown): Promise<ApiResult<T>>;
+  connect(token: string): Promise<RealtimeConnection>;
+  stop(): Promise<void>;
+}
+
+export interface RealtimeConnection {
+  messages: RealtimeMessage[];
+  send(message: unknown): void;
+  // Resolves with the first message, received or later, that matches
+  waitFor(match: (message: RealtimeMessage) => boolean, timeoutMs?: number): Promise<RealtimeMessage>;
+  close(): void;
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const address = server.address();
+      server.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+}
+
+async function waitUntilHealthy(baseUrl: string, exited: () => boolean): Promise<void> {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (exited()) throw new Error('The API server exited during startup');
+    try {
+      const response = await fetch(`${baseUrl}/api/health`);
+      if (response.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+  throw new Error('The API server did not start in time');
+}
+
+function openConnection(url: string): Promise<RealtimeConnection> {
+  const ws = new WebSocket(url);
+  const messages: RealtimeMessage[] = [];
+  const waiters = new Set<() => void>();
+
+  ws.on('message', (data) => {
+    messages.push(JSON.parse(data.toString()));
+    waiters.forEach(check => check());
+  });
+
+  const connection: RealtimeConnection = {
+    messages,
+    send: message => ws.send(JSON.stringify(message)),
+    waitFor: (match, timeoutMs = 5000) => new Promise((resolve, reject) => {
+      const check = () => {
+        const found = messages.find(match);
+        if (!found) return;
+        clearTimeout(timer);
+        waiters.delete(check);
+        resolve(found);
+      };
+      const timer = setTimeout(() => {
+        waiters.delete(check);
+        reject(new Error('No matching WebSocket message'));
+      }, timeoutMs);
+      waiters.add(check);
+      check();
+    }),
+    close: () => ws.close(),
+  };
+
+  return new Promise((resolve, reject) => {
+    ws.once('open', () => resolve(connection));
+    ws.once('error', reject);
+  });
+}
+
+/**
+ * Start the backend on a free port, without a database and with its blobs in
+ * a temporary directory. Call stop() when the tests are done.
+ */
+export async function startApiServer(): Promise<ApiServer> {
+  const port = await freePort();
+  const blobDir = mkdtempSync(join(tmpdir(), 'sylon-test-blobs-'));
+  const env: NodeJS.ProcessEnv = { ...process.env, PORT: String(port), BLOB_DIR: blobDir };
+  delete env.DATABASE_URL;
+
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], { cwd: BACKEND_DIR, env, stdio: 'ignore' });
+  let exited = false;
+  const exit = new Promise<void>(resolve => child.once('exit', () => {
+    exited = true;
+    resolve();
+  }));
+
+  const baseUrl = `http://localhost:${port}`;
+  const stop = async () => {
+    if (!exited) child.kill('SIGTERM');
+    await exit;
+    rmSync(blobDir, { recursive: true, force: true });
+  };
+
+  try {
+    await waitUntilHealthy(baseUrl, () => exited);
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+
+  const request = async <T>(token: string, method: string, path: string, body?: unknown): Promise<ApiResult<T>> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const text = await response.text();
+    const isJson = response.headers.get('content-type')?.includes('application/json');
+    return { status: response.status, body: isJson && text ? JSON.parse(text) : { success: response.ok } };
+  };
+
+  return {
+    baseUrl,
+    request,
+    login: async (email) => {
+      const { status, body } = await request<LoginResponse>('', 'POST', '/api/auth/login', {
+        email,
+        password: DEMO_PASSWORD,
+        deviceId: `test-${email}`,
+      });
+      if (status !== 200) throw new Error(`Login as ${email} failed with ${status}`);
+      return body.data!.accessToken;
+    },
+    connect: token => openConnection(`ws://localhost:${port}/ws?token=${encodeURIComponent(token)}&positions=none`),
+    stop,
+  };
+}
@@ -32,20 +32,24 @@ import {
   Package,
   ExternalLink,
   Truck,
+  Bell,
+  GitMerge,
 } from 'lucide-react';
-import { JOB_TYPE_LABELS } from '@sylon/shared';
-import type { Job, GeoPosition, DeviationType, DeviationSeverity } from '@sylon/shared';
+import { JOB_TYPE_LABELS, formatSwedishDateTime } from '@sylon/shared';
+import type { AppNotification, Job, GeoPosition, DeviationType, DeviationSeverity } from '@sylon/shared';
 import * as offlineStorage from './services/offline-storage';
-import { syncAll, fetchAndCacheJobs, isOnline } from './services/sync';
+import { syncAll, fetchAndCacheJobs, isOnline, describeSyncItem } from './services/sync';
 import { startTracking, stopTracking, onPositionUpdate } from './services/gps';
+import { startRealtime, stopRealtime, onJobsChanged, onNotification } from './services/realtime';
 import * as auth from './services/auth';
 import * as incidents from './services/incidents';
 import * as dailyWorkflow from './services/daily-workflow';
 import * as materials from './services/materials';
 import * as theme from './services/theme';
+import * as conflicts from './services/conflicts';
 import './styles/globals.css';
 
-type Screen = 'login' | 'day_start' | 'home' | 'jobs' | 'map' | 'profile' | 'job_details';
+type Screen = 'login' | 'day_start' | 'home' | 'jobs' | 'map' | 'profile' | 'job_details' | 'sync_errors';
 
 const App: React.FC = () => {
   // Auth state
@@ -67,6 +71,9 @@ const App: React.FC = () => {
   const [selectedJob, setSelectedJob] = useState<Job | null>(null);
   const [position, setPosition] = useState<GeoPosition | null>(null);
   const [loading, setLoading] = useState(true);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<offlineStorage.StoredConflict[]>([]);
+  const [deadLetters, setDeadLetters] = useState<offlineStorage.DeadLetterItem[]>([]);
   
   // Day workflow state
   const [, setDayStarted] = useState(false);
@@ -77,6 +84,8 @@ const App: React.FC = () => {
   const [showMaterialsModal, setShowMaterialsModal] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [showDayEndModal, setShowDayEndModal] = useState(false);
+  const [showNotificationsModal, setShowNotificationsModal] = useState(false);
+  const [showConflictsModal, setShowConflictsModal] = useState(false);
 
   // Refresh jobs from server
   const refreshJobs = useCallback(async () => {
@@ -97,6 +106,8 @@ const App: React.FC = () => {
       const result = await syncAll();
       const status = await offlineStorage.getSyncStatus();
       setSyncPending(status.pendingGps + status.pendingSync);
+      setSyncConflicts(await offlineStorage.getConflicts());
+      setDeadLetters(await offlineStorage.getDeadLetters());
       
       if (result.success) {
         await refreshJobs();
@@ -149,6 +160,10 @@ const App: React.FC = () => {
           }
         }
         
+        setNotifications(await offlineStorage.getNotifications());
+        setSyncConflicts(await offlineStorage.getConflicts());
+        setDeadLetters(await offlineStorage.getDeadLetters());
+        
         // Check sync status
         const status = await offlineStorage.getSyncStatus();
         setSyncPending(status.pendingGps + status.pendingSync);
@@ -181,6 +196,36 @@ const App: React.FC = () => {
     };
   }, [handleSync]);
 
+  // Pushed job changes for the assigned resource
+  const assignedResourceId = authState.isAuthenticated ? authState.user?.assignedResourceId : undefined;
+  useEffect(() => {
+    if (!assignedResourceId) return;
+    startRealtime(assignedResourceId);
+    return stopRealtime;
+  }, [assignedResourceId]);
+
+  useEffect(() => {
+    return onJobsChanged(async () => {
+      const cachedJobs = await offlineStorage.getJobs();
+      setJobs(cachedJobs);
+      
+      // The office may have paused or cancelled the active job
+      if (activeJob) {
+        const current = cachedJobs.find(j => j.id === activeJob.id);
+        if (current?.status !== 'in_progress') {
+          setActiveJob(null);
+          stopTracking();
+        }
+      }
+    });
+  }, [activeJob]);
+
+  useEffect(() => {
+    return onNotification(notification => {
+      setNotifications(prev => [notification, ...prev]);
+    });
+  }, []);
+
   // GPS position listener
   useEffect(() => {
     const unsubscribe = onPositionUpdate((pos) => {
@@ -230,6 +275,53 @@ const App: React.FC = () => {
     setJobs([]);
     setActiveJob(null);
     stopTracking();
+    await offlineStorage.clearNotifications();
+    setNotifications([]);
+  };
+
+  // Opening the notifications marks them as read
+  const handleOpenNotifications = async () => {
+    setShowNotificationsModal(true);
+    await offlineStorage.markNotificationsRead();
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+  };
+
+  // Resolve a conflict the sync could not settle by itself
+  const handleResolveConflict = async (conflictId: string, keepLocal: boolean) => {
+    if (keepLocal) {
+      await conflicts.keepLocalChange(conflictId);
+    } else {
+      await conflicts.acceptServerVersion(conflictId);
+    }
+
+    const remaining = await offlineStorage.getConflicts();
+    setSyncConflicts(remaining);
+    if (remaining.length === 0) setShowConflictsModal(false);
+
+    const cachedJobs = await offlineStorage.getJobs();
+    setJobs(cachedJobs);
+    setActiveJob(cachedJobs.find(j => j.status === 'in_progress') ?? null);
+
+    const status = await offlineStorage.getSyncStatus();
+    setSyncPending(status.pendingGps + status.pendingSync);
+    if (keepLocal && online) handleSync();
+  };
+
+  // Send dead sync items again, or drop them in favour of the server's data
+  const handleRetryDeadLetters = async (ids: string[]) => {
+    for (const id of ids) {
+      await offlineStorage.requeueDeadLetter(id);
+    }
+    setDeadLetters(await offlineStorage.getDeadLetters());
+    const status = await offlineStorage.getSyncStatus();
+    setSyncPending(status.pendingGps + status.pendingSync);
+    if (online) handleSync();
+  };
+
+  const handleDiscardDeadLetter = async (id: string) => {
+    await offlineStorage.discardDeadLetter(id);
+    setDeadLetters(await offlineStorage.getDeadLetters());
+    if (online) refreshJobs();
   };
 
   // Handle day start checklist
@@ -270,12 +362,17 @@ const App: React.FC = () => {
 
   // Start a job
   const handleStartJob = async (job: Job) => {
-    const updatedJob = { ...job, status: 'in_progress' as const, updatedAt: new Date() };
+    const updatedJob = { ...job, status: 'in_progress' as const, version: job.version + 1, updatedAt: new Date() };
     await offlineStorage.saveJob(updatedJob);
     setActiveJob(updatedJob);
     setJobs(prev => prev.map(j => j.id === job.id ? updatedJob : j));
     
-    await offlineStorage.queueSync('update', 'job', job.id, { status: 'in_progress' });
+    await offlineStorage.queueSync('update', 'job', job.id, {
+      status: 'in_progress',
+      changedBy: authState.user?.id,
+      timestamp: new Date().toISOString(),
+      baseVersion: job.version,
+    }, { status: job.status });
     
     if (job.assignedResources[0]?.resourceId) {
       startTracking(job.assignedResources[0].resourceId);
@@ -289,12 +386,17 @@ const App: React.FC = () => {
   const handlePauseJob = async () => {
     if (!activeJob) return;
     
-    const updatedJob = { ...activeJob, status: 'paused' as const, updatedAt: new Date() };
+    const updatedJob = { ...activeJob, status: 'paused' as const, version: activeJob.version + 1, updatedAt: new Date() };
     await offlineStorage.saveJob(updatedJob);
     setActiveJob(null);
     setJobs(prev => prev.map(j => j.id === activeJob.id ? updatedJob : j));
     
-    await offlineStorage.queueSync('update', 'job', activeJob.id, { status: 'paused' });
+    await offlineStorage.queueSync('update', 'job', activeJob.id, {
+      status: 'paused',
+      changedBy: authState.user?.id,
+      timestamp: new Date().toISOString(),
+      baseVersion: activeJob.version,
+    }, { status: activeJob.status });
     stopTracking();
     
     if (online) handleSync();
@@ -304,12 +406,17 @@ const App: React.FC = () => {
   const handleCompleteJob = async () => {
     if (!activeJob) return;
     
-    const updatedJob = { ...activeJob, status: 'completed' as const, updatedAt: new Date() };
+    const updatedJob = { ...activeJob, status: 'completed' as const, version: activeJob.version + 1, updatedAt: new Date() };
     await offlineStorage.saveJob(updatedJob);
     setActiveJob(null);
     setJobs(prev => prev.map(j => j.id === activeJob.id ? updatedJob : j));
     
-    await offlineStorage.queueSync('update', 'job', activeJob.id, { status: 'completed' });
+    await offlineStorage.queueSync('update', 'job', activeJob.id, {
+      status: 'completed',
+      changedBy: authState.user?.id,
+      timestamp: new Date().toISOString(),
+      baseVersion: activeJob.version,
+    }, { status: activeJob.status });
     stopTracking();
     
     if (online) handleSync();
@@ -321,7 +428,7 @@ const App: React.FC = () => {
     severity: DeviationSeverity,
     title: string,
     description: string,
-    photos: string[]
+    photos: incidents.CapturedPhoto[]
   ) => {
     await incidents.createIncident({
       type,
@@ -329,6 +436,8 @@ const App: React.FC = () => {
       title,
       description,
       jobId: activeJob?.id,
+      reportedBy: authState.user?.id ?? '',
+      resourceId: authState.user?.assignedResourceId,
     }, photos);
     
     setShowIncidentModal(false);
@@ -338,9 +447,12 @@ const App: React.FC = () => {
   // Handle photo capture
   const handleCapturePhoto = async () => {
     const photo = await incidents.capturePhoto();
-    if (photo && activeJob) {
-      await incidents.addJobPhoto(activeJob.id, photo);
+    if (!photo) return;
+    if (activeJob && authState.user) {
+      await incidents.addJobPhoto(activeJob.id, authState.user.id, photo);
       if (online) handleSync();
+    } else {
+      await incidents.discardPhoto(photo);
     }
   };
 
@@ -354,6 +466,7 @@ const App: React.FC = () => {
     
     await materials.createMaterialLoad({
       jobId: activeJob.id,
+      resourceId: authState.user?.assignedResourceId,
       materialId,
       quantity,
       type,
@@ -437,6 +550,18 @@ const App: React.FC = () => {
     );
   }
 
+  // Failed sync items
+  if (screen === 'sync_errors') {
+    return (
+      <SyncErrorsScreen
+        items={deadLetters}
+        onBack={() => setScreen('profile')}
+        onRetry={handleRetryDeadLetters}
+        onDiscard={handleDiscardDeadLetter}
+      />
+    );
+  }
+
   return (
     <div className="app">
       {/* Sync indicator */}
@@ -455,11 +580,37 @@ const App: React.FC = () => {
            screen === 'map' ? 'Karta' : 'Profil'}
         </h1>
         <div className="header-status">
+          <button className="notification-bell" onClick={handleOpenNotifications}>
+            <Bell size={20} />
+            {notifications.some(n => !n.read) && (
+              <span className="notification-count">{notifications.filter(n => !n.read).length}</span>
+            )}
+          </button>
           <div className={`status-dot ${online ? 'online' : 'offline'}`} />
           {online ? <Wifi size={16} /> : <WifiOff size={16} />}
         </div>
       </header>
 
+      {syncConflicts.length > 0 && (
+        <button className="conflict-banner" onClick={() => setShowConflictsModal(true)}>
+          <GitMerge size={16} />
+          <span>
+            {syncConflicts.length === 1 ? '1 konflikt' : `${syncConflicts.length} konflikter`} att lösa
+          </span>
+          <ChevronRight size={16} />
+        </button>
+      )}
+
+      {deadLetters.length > 0 && (
+        <button className="dead-letter-banner" onClick={() => setScreen('sync_errors')}>
+          <AlertTriangle size={16} />
+          <span>
+            {deadLetters.length === 1 ? '1 ändring' : `${deadLetters.length} ändringar`} kunde inte synkas
+          </span>
+          <ChevronRight size={16} />
+        </button>
+      )}
+
       {/* Main content */}
       <main className="main-content">
         {screen === 'home' && (
@@ -557,6 +708,21 @@ const App: React.FC = () => {
         />
       )}
 
+      {showNotificationsModal && (
+        <NotificationsModal
+          notifications={notifications}
+          onClose={() => setShowNotificationsModal(false)}
+        />
+      )}
+
+      {showConflictsModal && (
+        <ConflictsModal
+          conflicts={syncConflicts}
+          onResolve={handleResolveConflict}
+          onClose={() => setShowConflictsModal(false)}
+        />
+      )}
+
       {showDayEndModal && (
         <DayEndModal
           completedJobs={jobs.filter(j => j.status === 'completed').length}
@@ -637,7 +803,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
         
         {import.meta.env.DEV && (
           <p style={{ textAlign: 'center', color: 'var(--text-muted)', fontSize: 'var(--font-size-sm)', marginTop: 'var(--spacing-md)' }}>
-            Demo: använd &quot;demo@sylon.se&quot;
+            Demo: använd &quot;demo@sylon.se&quot; med lösenordet &quot;demo1234&quot;
           </p>
         )}
       </form>
@@ -1230,7 +1396,7 @@ interface IncidentModalProps {
     severity: DeviationSeverity,
     title: string,
     description: string,
-    photos: string[]
+    photos: incidents.CapturedPhoto[]
   ) => void;
 }
 
@@ -1239,7 +1405,7 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ onClose, onSubmit }) => {
   const [severity, setSeverity] = useState<DeviationSeverity>('warning');
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [photos, setPhotos] = useState<string[]>([]);
+  const [photos, setPhotos] = useState<incidents.CapturedPhoto[]>([]);
 
   const handleAddPhoto = async () => {
     const photo = await incidents.capturePhoto();
@@ -1248,17 +1414,28 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ onClose, onSubmit }) => {
     }
   };
 
+  const handleRemovePhoto = (photo: incidents.CapturedPhoto) => {
+    setPhotos(prev => prev.filter(p => p !== photo));
+    incidents.discardPhoto(photo).catch(console.error);
+  };
+
+  // Photos of a report that is not sent are removed from the device
+  const handleClose = () => {
+    photos.forEach(photo => incidents.discardPhoto(photo).catch(console.error));
+    onClose();
+  };
+
   const handleSubmit = () => {
     if (!title.trim()) return;
     onSubmit(type, severity, title, description, photos);
   };
 
   return (
-    <div className="modal-overlay" onClick={onClose}>
+    <div className="modal-overlay" onClick={handleClose}>
       <div className="modal-content" onClick={e => e.stopPropagation()}>
         <div className="modal-header">
           <h2>Rapportera avvikelse</h2>
-          <button className="modal-close" onClick={onClose}>
+          <button className="modal-close" onClick={handleClose}>
             <X size={24} />
           </button>
         </div>
@@ -1321,11 +1498,11 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ onClose, onSubmit }) => {
             <label className="form-label">Foton</label>
             <div className="photo-gallery">
               {photos.map((photo, index) => (
-                <div key={index} className="photo-thumbnail">
-                  <img src={photo} alt={`Foto ${index + 1}`} />
+                <div key={photo.blobId} className="photo-thumbnail">
+                  <img src={photo.previewUrl} alt={`Foto ${index + 1}`} />
                   <button
                     className="photo-remove"
-                    onClick={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                    onClick={() => handleRemovePhoto(photo)}
                   >
                     <X size={14} />
                   </button>
@@ -1340,7 +1517,7 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ onClose, onSubmit }) => {
         </div>
 
         <div className="modal-footer">
-          <button className="btn btn-secondary" style={{ flex: 1 }} onClick={onClose}>
+          <button className="btn btn-secondary" style={{ flex: 1 }} onClick={handleClose}>
             Avbryt
           </button>
           <button 
@@ -1555,6 +1732,174 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
   );
 };
 
+// ============================================
+// NOTIFICATIONS MODAL
+// ============================================
+
+interface NotificationsModalProps {
+  notifications: AppNotification[];
+  onClose: () => void;
+}
+
+const NotificationsModal: React.FC<NotificationsModalProps> = ({ notifications, onClose }) => {
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Notiser</h2>
+          <button className="modal-close" onClick={onClose}>
+            <X size={24} />
+          </button>
+        </div>
+        
+        <div className="modal-body">
+          {notifications.length === 0 ? (
+            <p style={{ color: 'var(--text-secondary)', textAlign: 'center' }}>Inga notiser</p>
+          ) : (
+            notifications.map(notification => (
+              <div key={notification.id} className="notification-item">
+                <span className="notification-title">{notification.title}</span>
+                <span className="notification-message">{notification.message}</span>
+                <span className="notification-time">{formatSwedishDateTime(new Date(notification.timestamp))}</span>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn btn-primary" style={{ flex: 1 }} onClick={onClose}>
+            Stäng
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ============================================
+// SYNC ERRORS SCREEN
+// ============================================
+
+interface SyncErrorsScreenProps {
+  items: offlineStorage.DeadLetterItem[];
+  onBack: () => void;
+  onRetry: (ids: string[]) => void;
+  onDiscard: (id: string) => void;
+}
+
+const SyncErrorsScreen: React.FC<SyncErrorsScreenProps> = ({ items, onBack, onRetry, onDiscard }) => {
+  return (
+    <div className="app">
+      <header className="header">
+        <button onClick={onBack} style={{ background: 'none', border: 'none', cursor: 'pointer' }}>
+          ← Tillbaka
+        </button>
+        <span className="badge badge-warning">{items.length} misslyckade</span>
+      </header>
+
+      <main className="main-content">
+        <h1 style={{ fontSize: 'var(--font-size-2xl)', marginBottom: 'var(--spacing-sm)' }}>Synkfel</h1>
+        <p style={{ color: 'var(--text-secondary)', marginBottom: 'var(--spacing-md)' }}>
+          Ändringar som inte kunde skickas till servern. Ändringar som väntar på dem skickas först när de har lösts.
+        </p>
+
+        {items.length === 0 ? (
+          <p style={{ color: 'var(--text-secondary)', textAlign: 'center' }}>Allt är synkat</p>
+        ) : (
+          <>
+            {items.map(({ id, item, reason, status, failedAt }) => (
+              <div key={id} className="card dead-letter-item">
+                <span className="dead-letter-title">{describeSyncItem(item)}</span>
+                <span className="dead-letter-reason">
+                  {reason === 'rejected'
+                    ? `Avvisad av servern${status ? ` (${status})` : ''}`
+                    : `Gav upp efter ${item.attempts} försök`}
+                </span>
+                {item.error && <span className="dead-letter-error">{item.error}</span>}
+                <span className="dead-letter-time">
+                  Skapad {formatSwedishDateTime(new Date(item.createdAt))} · Misslyckades {formatSwedishDateTime(new Date(failedAt))}
+                </span>
+                <div className="dead-letter-actions">
+                  <button className="btn btn-secondary" onClick={() => onDiscard(id)}>
+                    <X size={18} />
+                    Kasta
+                  </button>
+                  <button className="btn btn-primary" onClick={() => onRetry([id])}>
+                    <RefreshCw size={18} />
+                    Försök igen
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            <button className="btn btn-primary" onClick={() => onRetry(items.map(i => i.id))}>
+              <RefreshCw size={20} />
+              Försök alla igen
+            </button>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+// ============================================
+// CONFLICTS MODAL
+// ============================================
+
+interface ConflictsModalProps {
+  conflicts: offlineStorage.StoredConflict[];
+  onResolve: (conflictId: string, keepLocal: boolean) => void;
+  onClose: () => void;
+}
+
+const ConflictsModal: React.FC<ConflictsModalProps> = ({ conflicts: items, onResolve, onClose }) => {
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Konflikter</h2>
+          <button className="modal-close" onClick={onClose}>
+            <X size={24} />
+          </button>
+        </div>
+        
+        <div className="modal-body">
+          <p style={{ color: 'var(--text-secondary)', marginBottom: 'var(--spacing-md)' }}>
+            Ändringar som gjordes offline krockar med ändringar från kontoret.
+          </p>
+          {items.map(({ id, conflict }) => {
+            const job = conflict.entityType === 'job' ? conflict.current as Job : undefined;
+            return (
+              <div key={id} className="conflict-item">
+                <span className="conflict-title">
+                  {conflicts.describeEntity(conflict.entityType)}
+                  {job ? ` ${job.jobNumber} – ${job.title}` : ''}
+                </span>
+                {conflict.fields.map(field => (
+                  <div key={field.field} className="conflict-field">
+                    <span className="conflict-field-name">{conflicts.describeField(field.field)}</span>
+                    <span>Din ändring: <strong>{conflicts.describeValue(field.field, field.clientValue)}</strong></span>
+                    <span>Servern: <strong>{conflicts.describeValue(field.field, field.serverValue)}</strong></span>
+                  </div>
+                ))}
+                <div className="conflict-actions">
+                  <button className="btn btn-secondary" onClick={() => onResolve(id, false)}>
+                    Använd serverns
+                  </button>
+                  <button className="btn btn-primary" onClick={() => onResolve(id, true)}>
+                    Behåll min ändring
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // ============================================
 // DAY END MODAL
 // ============================================
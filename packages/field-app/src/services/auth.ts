@@ -3,20 +3,15 @@
  * Handles JWT token management and device-level login
  */
 
+import type { ApiResponse, AuthTokens, LoginResponse, SessionUser } from '@sylon/shared';
 import * as offlineStorage from './offline-storage';
 
 const API_BASE = 'http://localhost:3001/api';
 
-export interface AuthUser {
-  id: string;
-  email: string;
-  firstName: string;
-  lastName: string;
-  role: 'admin' | 'dispatcher' | 'supervisor' | 'operator' | 'driver';
-  companyId: string;
-  companyName: string;
-  assignedResourceId?: string;
-}
+// Refresh a little before the access token expires
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+export type AuthUser = SessionUser;
 
 export interface AuthState {
   isAuthenticated: boolean;
@@ -52,15 +47,15 @@ export async function getAuthState(): Promise<AuthState> {
     const stored = await offlineStorage.getSetting<AuthState>(AUTH_STORAGE_KEY);
     if (stored && stored.accessToken) {
       // Check if token is expired
-      if (stored.expiresAt && stored.expiresAt < Date.now()) {
+      if (stored.expiresAt && stored.expiresAt - REFRESH_MARGIN_MS < Date.now()) {
         // Token expired, try to refresh
         if (stored.refreshToken) {
-          const refreshed = await refreshTokens(stored.refreshToken);
+          const refreshed = await refreshTokens(stored);
           if (refreshed) {
             return refreshed;
           }
         }
-        // Refresh failed, clear auth
+        // Refresh rejected, clear auth
         await clearAuthState();
         return getDefaultAuthState();
       }
@@ -94,98 +89,84 @@ export async function clearAuthState(): Promise<void> {
 
 // Login
 export async function login(credentials: LoginCredentials): Promise<AuthState> {
-  // For demo purposes, accept any login with demo credentials
-  // In production, this would call the actual API
-  if (credentials.email === 'demo@sylon.se' || credentials.email === 'demo') {
-    const demoUser: AuthUser = {
-      id: 'user-demo-001',
-      email: 'demo@sylon.se',
-      firstName: 'Demo',
-      lastName: 'Förare',
-      role: 'driver',
-      companyId: 'demo-company-001',
-      companyName: 'SYLON Demo Contractors AB',
-      assignedResourceId: 'res-plow-1',
-    };
-
-    const state: AuthState = {
-      isAuthenticated: true,
-      user: demoUser,
-      accessToken: `demo-token-${Date.now()}`,
-      refreshToken: `demo-refresh-${Date.now()}`,
-      expiresAt: Date.now() + 24 * 60 * 60 * 1000, // 24 hours
-    };
-
-    await saveAuthState(state);
-    return state;
-  }
-
-  // Try actual API login
+  let response: Response;
   try {
-    const response = await fetch(`${API_BASE}/auth/login`, {
+    response = await fetch(`${API_BASE}/auth/login`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(credentials),
     });
-
-    if (response.ok) {
-      const data = await response.json();
-      const state: AuthState = {
-        isAuthenticated: true,
-        user: data.user,
-        accessToken: data.accessToken,
-        refreshToken: data.refreshToken,
-        expiresAt: Date.now() + (data.expiresIn || 3600) * 1000,
-      };
-      await saveAuthState(state);
-      return state;
-    }
   } catch (error) {
     console.error('Login API error:', error);
+    throw new Error('Kunde inte nå servern. Kontrollera anslutningen och försök igen.');
+  }
+
+  const result: ApiResponse<LoginResponse> = await response.json();
+  if (!response.ok || !result.data) {
+    throw new Error('Inloggning misslyckades. Kontrollera dina uppgifter.');
   }
 
-  throw new Error('Inloggning misslyckades. Kontrollera dina uppgifter.');
+  const state: AuthState = {
+    isAuthenticated: true,
+    user: result.data.user,
+    accessToken: result.data.accessToken,
+    refreshToken: result.data.refreshToken,
+    expiresAt: Date.now() + result.data.expiresIn * 1000,
+  };
+  await saveAuthState(state);
+  return state;
 }
 
-// Refresh tokens
-async function refreshTokens(refreshToken: string): Promise<AuthState | null> {
+/**
+ * Exchange the refresh token for a new token pair. Refresh tokens are single use
+ * and bound to this device. Returns null when the server rejects the token; when
+ * offline the stored state is kept so the app keeps working until it reconnects.
+ */
+async function refreshTokens(state: AuthState): Promise<AuthState | null> {
+  let response: Response;
   try {
-    const response = await fetch(`${API_BASE}/auth/refresh`, {
+    response = await fetch(`${API_BASE}/auth/refresh`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ refreshToken }),
+      body: JSON.stringify({ refreshToken: state.refreshToken, deviceId: getDeviceId() }),
     });
-
-    if (response.ok) {
-      const data = await response.json();
-      const currentState = await getAuthState();
-      const newState: AuthState = {
-        ...currentState,
-        accessToken: data.accessToken,
-        refreshToken: data.refreshToken || currentState.refreshToken,
-        expiresAt: Date.now() + (data.expiresIn || 3600) * 1000,
-      };
-      await saveAuthState(newState);
-      return newState;
-    }
   } catch (error) {
     console.error('Token refresh error:', error);
+    return state;
+  }
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const result: ApiResponse<AuthTokens> = await response.json();
+  if (!result.data) {
+    return null;
   }
-  return null;
+
+  const newState: AuthState = {
+    ...state,
+    accessToken: result.data.accessToken,
+    refreshToken: result.data.refreshToken,
+    expiresAt: Date.now() + result.data.expiresIn * 1000,
+  };
+  await saveAuthState(newState);
+  return newState;
 }
 
-// Logout
+// Logout, revoking the session on the server
 export async function logout(): Promise<void> {
-  const state = await getAuthState();
-  
-  if (state.accessToken) {
+  const stored = await offlineStorage.getSetting<AuthState>(AUTH_STORAGE_KEY);
+
+  if (stored?.accessToken || stored?.refreshToken) {
     try {
       await fetch(`${API_BASE}/auth/logout`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${state.accessToken}`,
+          ...(stored.accessToken ? { 'Authorization': `Bearer ${stored.accessToken}` } : {}),
         },
+        body: JSON.stringify({ refreshToken: stored.refreshToken ?? undefined }),
       });
     } catch (error) {
       console.error('Logout API error:', error);
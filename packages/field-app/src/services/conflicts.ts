@@ -0,0 +1,209 @@
+/**
+ * SYLON Field App - Conflict Resolution
+ * Resolves queued changes the server rejected with a version conflict. Each
+ * field follows a policy: the server wins for assignments, the client wins for
+ * notes and time entries, and anything else is left for the user to decide.
+ */
+
+import type { Job, SyncConflict, VersionedEntityType } from '@sylon/shared';
+import { JOB_STATUS_LABELS } from '@sylon/shared';
+import * as offlineStorage from './offline-storage';
+import type { SyncQueueItem } from './offline-storage';
+import { getAuthState } from './auth';
+
+type Resolution = 'server' | 'client' | 'manual';
+
+export type ConflictOutcome = 'retry' | 'discarded' | 'unresolved';
+
+// Per entity, the winner for a field; '*' covers fields not listed
+const RESOLUTION_POLICY: Record<VersionedEntityType, Record<string, Resolution>> = {
+  job: { assignedResources: 'server', '*': 'manual' },
+  time_entry: { '*': 'client' },
+  note: { '*': 'client' },
+  photo: { '*': 'manual' },
+  deviation: { '*': 'manual' },
+};
+
+// Job arrays holding each sub-entity type
+const JOB_COLLECTIONS = {
+  time_entry: 'timeEntries',
+  photo: 'photos',
+  deviation: 'deviations',
+  note: 'notes',
+} as const;
+
+const ENTITY_LABELS: Record<VersionedEntityType, string> = {
+  job: 'Uppdrag',
+  time_entry: 'Tidrapport',
+  photo: 'Foto',
+  deviation: 'Avvikelse',
+  note: 'Anteckning',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  content: 'Anteckning',
+  isInternal: 'Intern',
+  description: 'Beskrivning',
+  type: 'Typ',
+  timeRange: 'Tid',
+  caption: 'Bildtext',
+  category: 'Kategori',
+  severity: 'Allvarlighetsgrad',
+  title: 'Rubrik',
+  resolved: 'Åtgärdad',
+  resolution: 'Åtgärd',
+};
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function resolutionFor(entityType: VersionedEntityType, field: string): Resolution {
+  const policy = RESOLUTION_POLICY[entityType];
+  return policy[field] ?? policy['*'] ?? 'manual';
+}
+
+// Server-wins for assignment: a change to a job the resource was taken off is dropped
+async function isReleasedFromJob(conflict: SyncConflict): Promise<boolean> {
+  if (conflict.entityType !== 'job') return false;
+
+  const { user } = await getAuthState();
+  const resourceId = user?.assignedResourceId;
+  if (!resourceId) return false;
+
+  const job = conflict.current as Job;
+  return !job.assignedResources.some(a => a.resourceId === resourceId && a.status !== 'released');
+}
+
+// Write the server's version of the entity to the local cache
+async function applyServerVersion(conflict: SyncConflict): Promise<void> {
+  if (conflict.entityType === 'job') {
+    await offlineStorage.saveJob(conflict.current as Job);
+    return;
+  }
+
+  const job = await offlineStorage.getJob(conflict.jobId);
+  if (!job) return;
+
+  const key = JOB_COLLECTIONS[conflict.entityType];
+  const items = job[key] as Array<{ id: string }>;
+  const index = items.findIndex(i => i.id === conflict.entityId);
+  if (index === -1) return;
+
+  items[index] = conflict.current as (typeof items)[number];
+  await offlineStorage.saveJob(job);
+}
+
+// Write the client's values on top of the server's version to the local cache
+async function applyClientValues(stored: offlineStorage.StoredConflict): Promise<void> {
+  const { conflict } = stored;
+  const values = Object.fromEntries(conflict.fields.map(f => [f.field, f.clientValue]));
+
+  if (conflict.entityType === 'job') {
+    const job = conflict.current as Job;
+    await offlineStorage.saveJob({ ...job, ...values, version: job.version + 1 });
+    return;
+  }
+
+  const job = await offlineStorage.getJob(conflict.jobId);
+  if (!job) return;
+
+  const key = JOB_COLLECTIONS[conflict.entityType];
+  const items = job[key] as Array<{ id: string }>;
+  const index = items.findIndex(i => i.id === conflict.entityId);
+  if (index === -1) return;
+
+  const current = conflict.current as { id: string; version: number };
+  items[index] = { ...current, ...values, version: current.version + 1 } as (typeof items)[number];
+  await offlineStorage.saveJob(job);
+}
+
+/**
+ * Resolve a version conflict for a queued change. A retry leaves the change in
+ * the queue based on the server's version, with server-wins fields dropped.
+ */
+export async function handleConflict(item: SyncQueueItem, conflict: SyncConflict): Promise<ConflictOutcome> {
+  if (await isReleasedFromJob(conflict)) {
+    await offlineStorage.removeSyncItem(item.id);
+    await offlineStorage.deleteJob(conflict.jobId);
+    return 'discarded';
+  }
+
+  // Only fields the server changed since the client read them are real conflicts
+  const conflicting = conflict.fields.filter(f =>
+    !item.base || !(f.field in item.base) || !sameValue(item.base[f.field], f.serverValue)
+  );
+
+  const manual = conflicting.filter(f => resolutionFor(conflict.entityType, f.field) === 'manual');
+  if (manual.length > 0) {
+    await offlineStorage.addConflict({
+      id: item.id,
+      item,
+      conflict: { ...conflict, fields: manual },
+      detectedAt: new Date(),
+    });
+    await offlineStorage.removeSyncItem(item.id);
+    await applyServerVersion(conflict);
+    return 'unresolved';
+  }
+
+  const serverWins = new Set(
+    conflicting.filter(f => resolutionFor(conflict.entityType, f.field) === 'server').map(f => f.field)
+  );
+  const data = Object.fromEntries(
+    Object.entries(item.data as Record<string, unknown>).filter(([field]) => !serverWins.has(field))
+  );
+  const remaining = conflict.fields.filter(f => !serverWins.has(f.field));
+
+  if (remaining.length === 0) {
+    await offlineStorage.removeSyncItem(item.id);
+    await applyServerVersion(conflict);
+    return 'discarded';
+  }
+
+  await offlineStorage.saveSyncItem({
+    ...item,
+    data: { ...data, baseVersion: conflict.currentVersion },
+    base: Object.fromEntries(remaining.map(f => [f.field, f.serverValue])),
+  });
+  return 'retry';
+}
+
+// Keep the local change: queue it again on top of the server's version
+export async function keepLocalChange(conflictId: string): Promise<void> {
+  const stored = await offlineStorage.getConflict(conflictId);
+  if (!stored) return;
+
+  const { item, conflict } = stored;
+  await offlineStorage.saveSyncItem({
+    ...item,
+    data: { ...(item.data as Record<string, unknown>), baseVersion: conflict.currentVersion },
+    base: Object.fromEntries(conflict.fields.map(f => [f.field, f.serverValue])),
+    attempts: 0,
+    error: undefined,
+  });
+  await applyClientValues(stored);
+  await offlineStorage.removeConflict(conflictId);
+}
+
+// Accept the server's version, which is already cached locally
+export async function acceptServerVersion(conflictId: string): Promise<void> {
+  await offlineStorage.removeConflict(conflictId);
+}
+
+export function describeEntity(entityType: VersionedEntityType): string {
+  return ENTITY_LABELS[entityType];
+}
+
+export function describeField(field: string): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+export function describeValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '–';
+  if (field === 'status' && typeof value === 'string') return JOB_STATUS_LABELS[value] ?? value;
+  if (typeof value === 'boolean') return value ? 'Ja' : 'Nej';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -15,17 +15,25 @@ export interface Incident {
   title: string;
   description: string;
   coordinates?: Coordinates;
-  photos: string[]; // Base64 encoded photos
+  photos: string[]; // Ids of the photo blobs
   createdAt: Date;
   syncedAt?: Date;
 }
 
+// A photo stored on the device, with an object URL to show it before it is synced
+export interface CapturedPhoto {
+  blobId: string;
+  previewUrl: string;
+}
+
 export interface IncidentFormData {
   type: DeviationType;
   severity: DeviationSeverity;
   title: string;
   description: string;
   jobId?: string;
+  reportedBy: string;
+  resourceId?: string;
 }
 
 export const INCIDENT_TYPES: { value: DeviationType; label: string }[] = [
@@ -46,10 +54,10 @@ export const SEVERITY_LEVELS: { value: DeviationSeverity; label: string; color:
   { value: 'critical', label: 'Kritiskt', color: '#dc2626' },
 ];
 
-// Create and store an incident
+// Create and store an incident; its photos are uploaded separately and linked to it by the server
 export async function createIncident(
   formData: IncidentFormData,
-  photos: string[] = []
+  photos: CapturedPhoto[] = []
 ): Promise<Incident> {
   let coordinates: Coordinates | undefined;
   
@@ -68,26 +76,38 @@ export async function createIncident(
     id: `incident-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
     ...formData,
     coordinates,
-    photos,
+    photos: photos.map(p => p.blobId),
     createdAt: new Date(),
   };
 
   // Queue for sync
   await offlineStorage.queueSync('create', 'deviation', incident.id, {
+    id: incident.id,
     jobId: incident.jobId,
+    reportedBy: formData.reportedBy,
+    resourceId: formData.resourceId,
     type: incident.type,
     severity: incident.severity,
     title: incident.title,
     description: incident.description,
     coordinates: incident.coordinates,
-    photos: incident.photos,
+    photos: [],
   });
 
+  // Photos belong to a job on the server
+  for (const photo of photos) {
+    if (incident.jobId) {
+      await addJobPhoto(incident.jobId, formData.reportedBy, photo, 'damage', undefined, incident.id);
+    } else {
+      await discardPhoto(photo);
+    }
+  }
+
   return incident;
 }
 
-// Capture photo with timestamp and GPS
-export async function capturePhoto(): Promise<string | null> {
+// Capture a photo into IndexedDB; the camera adds the timestamp and GPS as EXIF
+export async function capturePhoto(): Promise<CapturedPhoto | null> {
   return new Promise((resolve) => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -102,8 +122,16 @@ export async function capturePhoto(): Promise<string | null> {
       }
 
       try {
-        const base64 = await fileToBase64(file);
-        resolve(base64);
+        const blobId = `blob-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+        await offlineStorage.saveBlob({
+          id: blobId,
+          blob: file,
+          filename: file.name || 'photo.jpg',
+          mimeType: file.type || 'image/jpeg',
+          size: file.size,
+          createdAt: new Date(),
+        });
+        resolve({ blobId, previewUrl: URL.createObjectURL(file) });
       } catch (error) {
         console.error('Failed to capture photo:', error);
         resolve(null);
@@ -114,22 +142,20 @@ export async function capturePhoto(): Promise<string | null> {
   });
 }
 
-// Convert file to base64
-function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+// Drop a captured photo that will not be used
+export async function discardPhoto(photo: CapturedPhoto): Promise<void> {
+  URL.revokeObjectURL(photo.previewUrl);
+  await offlineStorage.deleteBlob(photo.blobId);
 }
 
-// Add photo to job
+// Queue a photo for upload to a job; the queue item only refers to the blob
 export async function addJobPhoto(
   jobId: string,
-  photo: string,
+  operatorId: string,
+  photo: CapturedPhoto,
   category: 'before' | 'during' | 'after' | 'damage' | 'other' = 'during',
-  caption?: string
+  caption?: string,
+  deviationId?: string
 ): Promise<void> {
   let coordinates: Coordinates | undefined;
   
@@ -143,12 +169,16 @@ export async function addJobPhoto(
     console.warn('Could not get GPS position for photo:', error);
   }
 
-  await offlineStorage.queueSync('create', 'photo', `photo-${Date.now()}`, {
+  const id = `photo-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  await offlineStorage.queueSync('create', 'photo', id, {
+    id,
     jobId,
-    photo,
+    operatorId,
+    blobId: photo.blobId,
+    deviationId,
     category,
     caption,
     coordinates,
-    timestamp: new Date().toISOString(),
   });
+  URL.revokeObjectURL(photo.previewUrl);
 }
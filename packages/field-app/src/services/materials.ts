@@ -9,6 +9,7 @@ import { MATERIALS } from '@sylon/shared';
 export interface MaterialLoad {
   id: string;
   jobId: string;
+  resourceId?: string;
   materialId: string;
   materialName: string;
   quantity: number;
@@ -25,6 +26,7 @@ export interface MaterialLoad {
 
 export interface MaterialFormData {
   jobId: string;
+  resourceId?: string;
   materialId: string;
   quantity: number;
   type: 'load' | 'unload';
@@ -4,7 +4,7 @@
  */
 
 import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
-import type { Job, GeoPosition, Resource } from '@sylon/shared';
+import type { AppNotification, Job, GeoPosition, Resource, SyncConflict } from '@sylon/shared';
 
 interface SylonDB extends DBSchema {
   jobs: {
@@ -30,6 +30,23 @@ interface SylonDB extends DBSchema {
     key: string;
     value: unknown;
   };
+  notifications: {
+    key: string;
+    value: AppNotification;
+    indexes: { 'by-timestamp': Date };
+  };
+  conflicts: {
+    key: string;
+    value: StoredConflict;
+  };
+  deadLetters: {
+    key: string;
+    value: DeadLetterItem;
+  };
+  blobs: {
+    key: string;
+    value: StoredBlob;
+  };
 }
 
 interface QueuedGpsReading {
@@ -40,43 +57,96 @@ interface QueuedGpsReading {
   createdAt: Date;
 }
 
-interface SyncQueueItem {
+export interface SyncQueueItem {
   id: string;
   action: 'create' | 'update' | 'delete';
   entityType: string;
   entityId: string;
   data: unknown;
+  // Values of the changed fields before the change, to tell which fields the server changed too
+  base?: Record<string, unknown>;
   createdAt: Date;
   attempts: number;
   lastAttempt?: Date;
+  nextAttemptAt?: Date;
   error?: string;
 }
 
-let db: IDBPDatabase<SylonDB> | null = null;
-
-export async function initDB(): Promise<IDBPDatabase<SylonDB>> {
-  if (db) return db;
+// A queued change that was given up on: rejected by the server, or out of attempts
+export interface DeadLetterItem {
+  id: string;
+  item: SyncQueueItem;
+  reason: 'rejected' | 'exhausted';
+  status?: number;
+  failedAt: Date;
+}
 
-  db = await openDB<SylonDB>('sylon-field', 1, {
-    upgrade(database) {
-      // Jobs store
-      const jobsStore = database.createObjectStore('jobs', { keyPath: 'id' });
-      jobsStore.createIndex('by-status', 'status');
+// A queued change the server rejected and the resolution policy left to the user
+export interface StoredConflict {
+  id: string;
+  item: SyncQueueItem;
+  conflict: SyncConflict;
+  detectedAt: Date;
+}
 
-      // Resources store
-      database.createObjectStore('resources', { keyPath: 'id' });
+// Binary data such as photos, kept out of the sync queue; queued items refer to it by id
+export interface StoredBlob {
+  id: string;
+  blob: Blob;
+  filename: string;
+  mimeType: string;
+  size: number;
+  createdAt: Date;
+}
 
-      // GPS queue store
-      const gpsStore = database.createObjectStore('gpsQueue', { keyPath: 'id' });
-      gpsStore.createIndex('by-synced', 'synced');
+let db: IDBPDatabase<SylonDB> | null = null;
 
-      // Sync queue store
-      const syncStore = database.createObjectStore('syncQueue', { keyPath: 'id' });
-      syncStore.createIndex('by-type', 'entityType');
-      syncStore.createIndex('by-created', 'createdAt');
+export async function initDB(): Promise<IDBPDatabase<SylonDB>> {
+  if (db) return db;
 
-      // Settings store
-      database.createObjectStore('settings');
+  db = await openDB<SylonDB>('sylon-field', 5, {
+    upgrade(database, oldVersion) {
+      if (oldVersion < 1) {
+        // Jobs store
+        const jobsStore = database.createObjectStore('jobs', { keyPath: 'id' });
+        jobsStore.createIndex('by-status', 'status');
+
+        // Resources store
+        database.createObjectStore('resources', { keyPath: 'id' });
+
+        // GPS queue store
+        const gpsStore = database.createObjectStore('gpsQueue', { keyPath: 'id' });
+        gpsStore.createIndex('by-synced', 'synced');
+
+        // Sync queue store
+        const syncStore = database.createObjectStore('syncQueue', { keyPath: 'id' });
+        syncStore.createIndex('by-type', 'entityType');
+        syncStore.createIndex('by-created', 'createdAt');
+
+        // Settings store
+        database.createObjectStore('settings');
+      }
+
+      if (oldVersion < 2) {
+        // Notifications store
+        const notificationsStore = database.createObjectStore('notifications', { keyPath: 'id' });
+        notificationsStore.createIndex('by-timestamp', 'timestamp');
+      }
+
+      if (oldVersion < 3) {
+        // Unresolved sync conflicts store
+        database.createObjectStore('conflicts', { keyPath: 'id' });
+      }
+
+      if (oldVersion < 4) {
+        // Dead-letter store for sync items that will not be retried automatically
+        database.createObjectStore('deadLetters', { keyPath: 'id' });
+      }
+
+      if (oldVersion < 5) {
+        // Photo blobs waiting to be uploaded
+        database.createObjectStore('blobs', { keyPath: 'id' });
+      }
     },
   });
 
@@ -111,6 +181,11 @@ export async function saveJobs(jobs: Job[]): Promise<void> {
   ]);
 }
 
+export async function deleteJob(id: string): Promise<void> {
+  const database = await initDB();
+  await database.delete('jobs', id);
+}
+
 // ============================================
 // GPS QUEUE
 // ============================================
@@ -170,7 +245,8 @@ export async function queueSync(
   action: SyncQueueItem['action'],
   entityType: string,
   entityId: string,
-  data: unknown
+  data: unknown,
+  base?: Record<string, unknown>
 ): Promise<void> {
   const database = await initDB();
   const item: SyncQueueItem = {
@@ -179,15 +255,27 @@ export async function queueSync(
     entityType,
     entityId,
     data,
+    base,
     createdAt: new Date(),
     attempts: 0,
   };
   await database.add('syncQueue', item);
 }
 
+export async function saveSyncItem(item: SyncQueueItem): Promise<void> {
+  const database = await initDB();
+  await database.put('syncQueue', item);
+}
+
+// Pending items in the order they were queued
 export async function getPendingSyncItems(): Promise<SyncQueueItem[]> {
   const database = await initDB();
-  return database.getAll('syncQueue');
+  return database.getAllFromIndex('syncQueue', 'by-created');
+}
+
+export async function getSyncItem(id: string): Promise<SyncQueueItem | undefined> {
+  const database = await initDB();
+  return database.get('syncQueue', id);
 }
 
 export async function removeSyncItem(id: string): Promise<void> {
@@ -195,15 +283,155 @@ export async function removeSyncItem(id: string): Promise<void> {
   await database.delete('syncQueue', id);
 }
 
-export async function updateSyncItemError(id: string, error: string): Promise<void> {
+export async function updateSyncItemError(id: string, error: string, nextAttemptAt?: Date): Promise<SyncQueueItem | undefined> {
   const database = await initDB();
   const item = await database.get('syncQueue', id);
   if (item) {
     item.attempts += 1;
     item.lastAttempt = new Date();
+    item.nextAttemptAt = nextAttemptAt;
     item.error = error;
     await database.put('syncQueue', item);
   }
+  return item;
+}
+
+// ============================================
+// DEAD LETTERS
+// ============================================
+
+export async function moveToDeadLetter(
+  id: string,
+  reason: DeadLetterItem['reason'],
+  status?: number
+): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction(['syncQueue', 'deadLetters'], 'readwrite');
+  const item = await tx.objectStore('syncQueue').get(id);
+  if (item) {
+    await tx.objectStore('deadLetters').put({ id, item, reason, status, failedAt: new Date() });
+    await tx.objectStore('syncQueue').delete(id);
+  }
+  await tx.done;
+}
+
+export async function getDeadLetters(): Promise<DeadLetterItem[]> {
+  const database = await initDB();
+  return database.getAll('deadLetters');
+}
+
+// Put a dead item back in the sync queue with a fresh set of attempts
+export async function requeueDeadLetter(id: string): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction(['syncQueue', 'deadLetters'], 'readwrite');
+  const dead = await tx.objectStore('deadLetters').get(id);
+  if (dead) {
+    await tx.objectStore('syncQueue').put({
+      ...dead.item,
+      attempts: 0,
+      nextAttemptAt: undefined,
+      error: undefined,
+    });
+    await tx.objectStore('deadLetters').delete(id);
+  }
+  await tx.done;
+}
+
+// Drop a dead item along with any blob it was going to upload
+export async function discardDeadLetter(id: string): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction(['deadLetters', 'blobs'], 'readwrite');
+  const dead = await tx.objectStore('deadLetters').get(id);
+  const blobId = (dead?.item.data as { blobId?: string } | undefined)?.blobId;
+  if (blobId) {
+    await tx.objectStore('blobs').delete(blobId);
+  }
+  await tx.objectStore('deadLetters').delete(id);
+  await tx.done;
+}
+
+// ============================================
+// BLOBS
+// ============================================
+
+export async function saveBlob(blob: StoredBlob): Promise<void> {
+  const database = await initDB();
+  await database.put('blobs', blob);
+}
+
+export async function getBlob(id: string): Promise<StoredBlob | undefined> {
+  const database = await initDB();
+  return database.get('blobs', id);
+}
+
+export async function deleteBlob(id: string): Promise<void> {
+  const database = await initDB();
+  await database.delete('blobs', id);
+}
+
+// ============================================
+// CONFLICTS
+// ============================================
+
+export async function addConflict(conflict: StoredConflict): Promise<void> {
+  const database = await initDB();
+  await database.put('conflicts', conflict);
+}
+
+export async function getConflicts(): Promise<StoredConflict[]> {
+  const database = await initDB();
+  return database.getAll('conflicts');
+}
+
+export async function getConflict(id: string): Promise<StoredConflict | undefined> {
+  const database = await initDB();
+  return database.get('conflicts', id);
+}
+
+export async function removeConflict(id: string): Promise<void> {
+  const database = await initDB();
+  await database.delete('conflicts', id);
+}
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+
+// Only the most recent notifications are kept
+const MAX_NOTIFICATIONS = 50;
+
+export async function addNotification(notification: AppNotification): Promise<void> {
+  const database = await initDB();
+  await database.put('notifications', notification);
+
+  const keys = await database.getAllKeysFromIndex('notifications', 'by-timestamp');
+  const tx = database.transaction('notifications', 'readwrite');
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_NOTIFICATIONS))) {
+    await tx.store.delete(key);
+  }
+  await tx.done;
+}
+
+// Newest first
+export async function getNotifications(): Promise<AppNotification[]> {
+  const database = await initDB();
+  const notifications = await database.getAllFromIndex('notifications', 'by-timestamp');
+  return notifications.reverse();
+}
+
+export async function clearNotifications(): Promise<void> {
+  const database = await initDB();
+  await database.clear('notifications');
+}
+
+export async function markNotificationsRead(): Promise<void> {
+  const database = await initDB();
+  const unread = (await database.getAll('notifications')).filter(n => !n.read);
+  const tx = database.transaction('notifications', 'readwrite');
+  for (const notification of unread) {
+    await tx.store.put({ ...notification, read: true });
+  }
+  await tx.done;
 }
 
 // ============================================
@@ -227,18 +455,21 @@ export async function setSetting(key: string, value: unknown): Promise<void> {
 export async function getSyncStatus(): Promise<{
   pendingGps: number;
   pendingSync: number;
+  failedSync: number;
   lastSync?: Date;
 }> {
   const database = await initDB();
-  const [unsynedGps, pendingSync, lastSync] = await Promise.all([
+  const [unsynedGps, pendingSync, failedSync, lastSync] = await Promise.all([
     database.countFromIndex('gpsQueue', 'by-synced', 0),
     database.count('syncQueue'),
+    database.count('deadLetters'),
     getSetting<Date>('lastSyncAt'),
   ]);
   
   return {
     pendingGps: unsynedGps,
     pendingSync,
+    failedSync,
     lastSync,
   };
 }
@@ -0,0 +1,211 @@
+/**
+ * SYLON Field App - Realtime Service
+ * WebSocket push of job changes for the assigned resource. Pushed jobs are
+ * cached in IndexedDB and raise notifications, so no pull to refresh is needed.
+ */
+
+import type { AppNotification, Job } from '@sylon/shared';
+import { JOB_STATUS_LABELS } from '@sylon/shared';
+import * as offlineStorage from './offline-storage';
+import { getAuthHeader, getAuthState } from './auth';
+import { fetchAndCacheJobs } from './sync';
+
+const API_BASE = 'http://localhost:3001/api';
+const WS_URL = 'ws://localhost:3001/ws';
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60 * 1000;
+
+type JobsChangedCallback = () => void;
+type NotificationCallback = (notification: AppNotification) => void;
+
+interface ServerMessage {
+  type: string;
+  data: unknown;
+}
+
+let ws: WebSocket | null = null;
+let currentResourceId: string | null = null;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let connectedBefore = false;
+const jobsChangedCallbacks: Set<JobsChangedCallback> = new Set();
+const notificationCallbacks: Set<NotificationCallback> = new Set();
+
+function notifyJobsChanged(): void {
+  jobsChangedCallbacks.forEach(callback => callback());
+}
+
+async function raiseNotification(
+  type: AppNotification['type'],
+  title: string,
+  message: string
+): Promise<void> {
+  const notification: AppNotification = {
+    id: `notification-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    type,
+    title,
+    message,
+    timestamp: new Date(),
+    read: false,
+  };
+  await offlineStorage.addNotification(notification);
+  notificationCallbacks.forEach(callback => callback(notification));
+}
+
+// Fetch the current job; null when it no longer belongs to this resource
+async function fetchJob(jobId: string): Promise<Job | null | undefined> {
+  try {
+    const response = await fetch(`${API_BASE}/jobs/${encodeURIComponent(jobId)}`, { headers: await getAuthHeader() });
+    if (response.status === 403 || response.status === 404) return null;
+    const json = await response.json();
+    return json.success ? json.data as Job : undefined;
+  } catch (error) {
+    console.warn('Failed to fetch pushed job:', error);
+    return undefined;
+  }
+}
+
+async function handleJobAssigned(jobId: string, resourceId: string): Promise<void> {
+  if (resourceId !== currentResourceId) return;
+
+  const job = await fetchJob(jobId);
+  if (!job) return;
+
+  await offlineStorage.saveJob(job);
+  notifyJobsChanged();
+  await raiseNotification('job_assigned', 'Nytt uppdrag', `${job.jobNumber} – ${job.title}`);
+}
+
+async function handleJobStatusChange(jobId: string, status: string): Promise<void> {
+  const cached = await offlineStorage.getJob(jobId);
+  const job = await fetchJob(jobId);
+
+  if (job === null) {
+    if (cached) {
+      await offlineStorage.deleteJob(jobId);
+      notifyJobsChanged();
+    }
+    return;
+  }
+  if (!job) return;
+
+  await offlineStorage.saveJob(job);
+  notifyJobsChanged();
+
+  // Changes made in this app are already cached with the new status
+  if (cached && cached.status !== status) {
+    await raiseNotification('job_updated', 'Uppdrag uppdaterat', `${job.jobNumber} – ${JOB_STATUS_LABELS[status] ?? status}`);
+  }
+}
+
+function handleMessage(message: ServerMessage): void {
+  switch (message.type) {
+    case 'WELCOME':
+      // Pushes may have been missed while disconnected
+      if (connectedBefore) {
+        fetchAndCacheJobs().then(notifyJobsChanged).catch(console.error);
+      }
+      connectedBefore = true;
+      break;
+    case 'NEW_JOB_ASSIGNED': {
+      const { jobId, resourceId } = message.data as { jobId: string; resourceId: string };
+      handleJobAssigned(jobId, resourceId).catch(console.error);
+      break;
+    }
+    case 'JOB_STATUS_CHANGE': {
+      const { jobId, status } = message.data as { jobId: string; status: string };
+      handleJobStatusChange(jobId, status).catch(console.error);
+      break;
+    }
+  }
+}
+
+function scheduleReconnect(): void {
+  if (!currentResourceId || reconnectTimer) return;
+
+  const ceiling = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts);
+  reconnectAttempts++;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    open().catch(console.error);
+  }, Math.round(Math.random() * ceiling));
+}
+
+async function open(): Promise<void> {
+  if (!currentResourceId || ws || !navigator.onLine) return;
+
+  const { accessToken } = await getAuthState();
+  if (!accessToken || !currentResourceId || ws) return;
+
+  // The server only pushes events for the user's own resource; positions are not needed
+  const socket = new WebSocket(`${WS_URL}?token=${encodeURIComponent(accessToken)}&positions=none`);
+  ws = socket;
+
+  socket.onopen = () => {
+    reconnectAttempts = 0;
+  };
+
+  socket.onmessage = (event) => {
+    try {
+      handleMessage(JSON.parse(event.data) as ServerMessage);
+    } catch (error) {
+      console.error('Failed to parse realtime message:', error);
+    }
+  };
+
+  socket.onclose = () => {
+    if (ws === socket) {
+      ws = null;
+      scheduleReconnect();
+    }
+  };
+}
+
+// Start receiving pushed job changes for a resource
+export function startRealtime(resourceId: string): void {
+  if (currentResourceId === resourceId && ws) return;
+
+  stopRealtime();
+  currentResourceId = resourceId;
+  open().catch(console.error);
+}
+
+// Stop receiving pushed job changes
+export function stopRealtime(): void {
+  currentResourceId = null;
+  connectedBefore = false;
+  reconnectAttempts = 0;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (ws) {
+    const socket = ws;
+    ws = null;
+    socket.close();
+  }
+}
+
+// Subscribe to job changes written to IndexedDB
+export function onJobsChanged(callback: JobsChangedCallback): () => void {
+  jobsChangedCallbacks.add(callback);
+  return () => jobsChangedCallbacks.delete(callback);
+}
+
+// Subscribe to new notifications
+export function onNotification(callback: NotificationCallback): () => void {
+  notificationCallbacks.add(callback);
+  return () => notificationCallbacks.delete(callback);
+}
+
+// Reconnect right away when the device comes back online
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    open().catch(console.error);
+  });
+}
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DeadLetterItem, SyncQueueItem } from './offline-storage';
+
+// The IndexedDB stores the sync service uses, kept in memory
+const storage = vi.hoisted(() => ({
+  queue: new Map<string, SyncQueueItem>(),
+  deadLetters: [] as DeadLetterItem[],
+}));
+
+vi.mock('./offline-storage', () => ({
+  getUnsynedGpsReadings: async () => [],
+  markGpsReadingsAsSynced: async () => {},
+  clearSyncedGpsReadings: async () => {},
+  setLastSyncTime: async () => {},
+  deleteBlob: async () => {},
+  getPendingSyncItems: async () => [...storage.queue.values()].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+  getSyncItem: async (id: string) => storage.queue.get(id),
+  removeSyncItem: async (id: string) => {
+    storage.queue.delete(id);
+  },
+  updateSyncItemError: async (id: string, error: string, nextAttemptAt?: Date) => {
+    const item = storage.queue.get(id);
+    if (item) Object.assign(item, { attempts: item.attempts + 1, lastAttempt: new Date(), nextAttemptAt, error });
+    return item;
+  },
+  moveToDeadLetter: async (id: string, reason: DeadLetterItem['reason'], status?: number) => {
+    const item = storage.queue.get(id);
+    if (!item) return;
+    storage.deadLetters.push({ id, item, reason, status, failedAt: new Date() });
+    storage.queue.delete(id);
+  },
+  getDeadLetters: async () => storage.deadLetters,
+}));
+
+vi.mock('./auth', () => ({ getAuthHeader: async () => ({}) }));
+vi.mock('./conflicts', () => ({ handleConflict: async () => 'unresolved' }));
+
+const { syncAll } = await import('./sync');
+
+const fetchMock = vi.fn<typeof fetch>();
+let queued = 0;
+
+function queueNote(jobId: string, attempts = 0): SyncQueueItem {
+  const item: SyncQueueItem = {
+    id: `sync-${++queued}`,
+    action: 'create',
+    entityType: 'note',
+    entityId: `note-${queued}`,
+    data: { jobId, content: 'Halt vid infarten' },
+    createdAt: new Date(Date.now() + queued),
+    attempts,
+  };
+  storage.queue.set(item.id, item);
+  return item;
+}
+
+function respond(status: number): Response {
+  return new Response(JSON.stringify({ success: status < 400, error: { message: `Status ${status}` } }), { status });
+}
+
+beforeEach(() => {
+  storage.queue.clear();
+  storage.deadLetters.length = 0;
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+  vi.stubGlobal('navigator', { onLine: true });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('syncAll', () => {
+  it('runs one sync at a time and follows up once for calls made during it', async () => {
+    queueNote('job-1');
+    let release: (response: Response) => void = () => {};
+    fetchMock.mockImplementationOnce(() => new Promise(resolve => { release = resolve; }));
+
+    const first = syncAll();
+    const second = syncAll();
+    const third = syncAll();
+
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    queueNote('job-1');
+    fetchMock.mockResolvedValue(respond(201));
+    release(respond(201));
+
+    expect((await first).syncedItems).toBe(1);
+    // The follow-up sync sends the note queued while the first one ran
+    await vi.waitFor(() => expect(storage.queue.size).toBe(0));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('backs off a failed item and leaves it and its job alone until it is due', async () => {
+    const failed = queueNote('job-1');
+    queueNote('job-1');
+    fetchMock.mockResolvedValue(respond(503));
+    const before = Date.now();
+
+    const result = await syncAll();
+
+    expect(result.success).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(failed.attempts).toBe(1);
+    // The first retry comes after 2.5 to 5 seconds
+    const delay = failed.nextAttemptAt!.getTime() - before;
+    expect(delay).toBeGreaterThanOrEqual(2500);
+    expect(delay).toBeLessThanOrEqual(5000 + (Date.now() - before));
+
+    await syncAll();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('moves an item the server rejects to the dead letters and blocks its job', async () => {
+    const rejected = queueNote('job-1');
+    const behind = queueNote('job-1');
+    const otherJob = queueNote('job-2');
+    fetchMock.mockResolvedValueOnce(respond(422)).mockResolvedValue(respond(201));
+
+    const result = await syncAll();
+
+    expect(result.deadLettered).toBe(1);
+    expect(storage.deadLetters).toEqual([expect.objectContaining({ id: rejected.id, reason: 'rejected', status: 422 })]);
+    expect(storage.queue.has(behind.id)).toBe(true);
+    expect(storage.queue.has(otherJob.id)).toBe(false);
+  });
+
+  it('gives up on an item after its last attempt', async () => {
+    const exhausted = queueNote('job-1', 7);
+    fetchMock.mockResolvedValue(respond(503));
+
+    const result = await syncAll();
+
+    expect(result.deadLettered).toBe(1);
+    expect(storage.deadLetters).toEqual([expect.objectContaining({ id: exhausted.id, reason: 'exhausted', status: 503 })]);
+  });
+
+  it('retries expired sessions and rate limits instead of giving up', async () => {
+    const item = queueNote('job-1');
+    fetchMock.mockResolvedValue(respond(429));
+
+    await syncAll();
+
+    expect(storage.deadLetters).toHaveLength(0);
+    expect(item.nextAttemptAt).toBeDefined();
+  });
+});
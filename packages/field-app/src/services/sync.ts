@@ -3,29 +3,88 @@
  * Handles data synchronization between local and server
  */
 
-import type { Job, GeoPosition } from '@sylon/shared';
+import type { Job, GeoPosition, GpsBatch, SyncConflict, UploadSession } from '@sylon/shared';
+import { JOB_STATUS_LABELS } from '@sylon/shared';
 import * as offlineStorage from './offline-storage';
+import { getAuthHeader } from './auth';
+import { handleConflict } from './conflicts';
 
 const API_BASE = 'http://localhost:3001/api';
 
+// Retry policy for queued items
+const MAX_SYNC_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+const TRANSIENT_CLIENT_STATUSES = [401, 408, 429];
+
+// Times a chunk may be resent at the server's offset before the attempt fails
+const MAX_CHUNK_REALIGNS = 3;
+
+const SYNC_ITEM_LABELS: Record<string, string> = {
+  job: 'Uppdragsstatus',
+  time_entry: 'Tidrapport',
+  photo: 'Foto',
+  deviation: 'Avvikelse',
+  note: 'Anteckning',
+  material_load: 'Materiallogg',
+  day_start: 'Dagstart',
+  day_summary: 'Dagsammanfattning',
+};
+
+const SUB_RESOURCE_PATHS = {
+  time_entry: 'time-entries',
+  photo: 'photos',
+  deviation: 'deviations',
+  note: 'notes',
+} as const;
+
 interface SyncResult {
   success: boolean;
   syncedGps: number;
   syncedItems: number;
+  conflicts: number;
+  deadLettered: number;
   errors: string[];
 }
 
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// The sync in progress, and whether another was asked for while it ran
+let activeSync: Promise<SyncResult> | null = null;
+let syncRequested = false;
+
 // Check if online
 export function isOnline(): boolean {
   return navigator.onLine;
 }
 
-// Sync all pending data
-export async function syncAll(): Promise<SyncResult> {
+/**
+ * Sync all pending data. Only one sync runs at a time: callers during a sync
+ * share its result, and one more sync follows for anything queued meanwhile.
+ */
+export function syncAll(): Promise<SyncResult> {
+  if (activeSync) {
+    syncRequested = true;
+    return activeSync;
+  }
+
+  activeSync = runSync().finally(() => {
+    activeSync = null;
+    if (syncRequested) {
+      syncRequested = false;
+      syncAll().catch(console.error);
+    }
+  });
+  return activeSync;
+}
+
+async function runSync(): Promise<SyncResult> {
   const result: SyncResult = {
     success: true,
     syncedGps: 0,
     syncedItems: 0,
+    conflicts: 0,
+    deadLettered: 0,
     errors: [],
   };
 
@@ -46,6 +105,8 @@ export async function syncAll(): Promise<SyncResult> {
     // Sync queue items
     const queueResult = await syncQueueItems();
     result.syncedItems = queueResult.synced;
+    result.conflicts = queueResult.conflicts;
+    result.deadLettered = queueResult.deadLettered;
     if (queueResult.errors.length > 0) {
       result.errors.push(...queueResult.errors);
     }
@@ -74,20 +135,39 @@ async function syncGpsReadings(): Promise<{ synced: number; errors: string[] }>
   let synced = 0;
   const errors: string[] = [];
 
-  for (let i = 0; i < unsynced.length; i += BATCH_SIZE) {
-    const batch = unsynced.slice(i, i + BATCH_SIZE);
+  // The server expects one GpsBatch per resource
+  const byResource = new Map<string, typeof unsynced>();
+  for (const reading of unsynced) {
+    const readings = byResource.get(reading.resourceId) ?? [];
+    readings.push(reading);
+    byResource.set(reading.resourceId, readings);
+  }
+
+  const batches: typeof unsynced[] = [];
+  byResource.forEach(readings => {
+    for (let i = 0; i < readings.length; i += BATCH_SIZE) {
+      batches.push(readings.slice(i, i + BATCH_SIZE));
+    }
+  });
+
+  for (const batch of batches) {
+    const resourceId = batch[0]?.resourceId ?? '';
+    const gpsBatch: GpsBatch = {
+      resourceId,
+      batchedAt: new Date(),
+      readings: batch.map(r => ({
+        id: r.id,
+        resourceId,
+        // Phones cannot tell whether the engine runs, so engineOn is left out
+        position: r.position,
+      })),
+    };
     
     try {
       const response = await fetch(`${API_BASE}/gps/batch`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          readings: batch.map(r => ({
-            resourceId: r.resourceId,
-            position: r.position,
-            recordedAt: r.createdAt,
-          })),
-        }),
+        headers: { 'Content-Type': 'application/json', ...await getAuthHeader() },
+        body: JSON.stringify(gpsBatch),
       });
 
       if (response.ok) {
@@ -107,67 +187,285 @@ async function syncGpsReadings(): Promise<{ synced: number; errors: string[] }>
   return { synced, errors };
 }
 
+// Endpoint for a queued item
+function endpointFor(item: offlineStorage.SyncQueueItem): { endpoint: string; method: string } {
+  const jobId = (item.data as { jobId: string }).jobId;
+
+  switch (item.entityType) {
+    case 'job':
+      // Job updates from the field are status changes
+      return item.action === 'update'
+        ? { endpoint: `/jobs/${item.entityId}/status`, method: 'PATCH' }
+        : { endpoint: '/jobs', method: 'POST' };
+    case 'time_entry':
+    case 'photo':
+    case 'deviation':
+    case 'note': {
+      const path = SUB_RESOURCE_PATHS[item.entityType];
+      return item.action === 'update'
+        ? { endpoint: `/jobs/${jobId}/${path}/${item.entityId}`, method: 'PATCH' }
+        : { endpoint: `/jobs/${jobId}/${path}`, method: 'POST' };
+    }
+    case 'material_load':
+      return { endpoint: `/jobs/${jobId}/material-loads`, method: 'POST' };
+    case 'day_start':
+      return { endpoint: '/daily-checks', method: 'POST' };
+    case 'day_summary':
+      return { endpoint: '/shifts', method: 'POST' };
+    default:
+      throw new Error(`Unknown entity type: ${item.entityType}`);
+  }
+}
+
+// Queued photo: the image is a blob in IndexedDB, uploaded in chunks before the photo is created
+interface QueuedPhoto {
+  jobId: string;
+  blobId: string;
+  uploadId?: string;
+  [field: string]: unknown;
+}
+
+async function fetchUpload(uploadId: string): Promise<Response> {
+  return fetch(`${API_BASE}/uploads/${encodeURIComponent(uploadId)}`, { headers: await getAuthHeader() });
+}
+
+/**
+ * Upload a photo's blob and create the photo. The upload id is kept on the
+ * queue item, so a later attempt continues where the last one stopped.
+ * Returns the first failed response, or the response creating the photo.
+ */
+async function sendPhoto(item: offlineStorage.SyncQueueItem): Promise<Response> {
+  const { blobId, uploadId, ...photo } = item.data as QueuedPhoto;
+  const stored = await offlineStorage.getBlob(blobId);
+  if (!stored) {
+    throw new Error('The photo is no longer stored on this device');
+  }
+
+  let session: UploadSession | undefined;
+  if (uploadId) {
+    const response = await fetchUpload(uploadId);
+    if (response.ok) {
+      session = (await response.json()).data as UploadSession;
+    } else if (response.status !== 404) {
+      return response;
+    }
+  }
+
+  // No upload yet, or the server has dropped it
+  if (!session) {
+    const response = await fetch(`${API_BASE}/uploads`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...await getAuthHeader() },
+      body: JSON.stringify({ filename: stored.filename, mimeType: stored.mimeType, size: stored.size }),
+    });
+    if (!response.ok) return response;
+    session = (await response.json()).data as UploadSession;
+    await offlineStorage.saveSyncItem({ ...item, data: { ...(item.data as QueuedPhoto), uploadId: session.id } });
+  }
+
+  let realigns = 0;
+  while (!session.complete) {
+    const chunk = stored.blob.slice(session.offset, session.offset + session.chunkSize);
+    const response: Response = await fetch(`${API_BASE}/uploads/${encodeURIComponent(session.id)}?offset=${session.offset}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream', ...await getAuthHeader() },
+      body: chunk,
+    });
+
+    // The server has a different offset, for example after a lost response
+    if (response.status === 409 && realigns < MAX_CHUNK_REALIGNS) {
+      const json = await response.clone().json();
+      if (json.error?.code === 'UPLOAD_OFFSET_MISMATCH') {
+        session = { ...session, offset: json.error.details.offset as number };
+        realigns++;
+        continue;
+      }
+    }
+    if (!response.ok) return response;
+    session = (await response.json()).data as UploadSession;
+  }
+
+  return fetch(`${API_BASE}/jobs/${encodeURIComponent(photo.jobId)}/photos`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...await getAuthHeader() },
+    body: JSON.stringify({ ...photo, uploadId: session.id }),
+  });
+}
+
+async function sendSyncItem(item: offlineStorage.SyncQueueItem): Promise<Response> {
+  if (item.entityType === 'photo' && item.action === 'create' && (item.data as Partial<QueuedPhoto>).blobId) {
+    return sendPhoto(item);
+  }
+
+  const { endpoint, method } = endpointFor(item);
+  return fetch(`${API_BASE}${endpoint}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...await getAuthHeader() },
+    body: JSON.stringify(item.data),
+  });
+}
+
+// Version conflict reported by the server, if the response is one
+async function readConflict(response: Response): Promise<SyncConflict | undefined> {
+  if (response.status !== 409) return undefined;
+  try {
+    const json = await response.clone().json();
+    return json.error?.code === 'VERSION_CONFLICT' ? json.error.details as SyncConflict : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Server error message for a failed response
+async function readErrorMessage(response: Response): Promise<string> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text).error?.message ?? text;
+  } catch {
+    return text || response.statusText;
+  }
+}
+
+// Client errors will fail again on retry; timeouts, rate limits and expired sessions may not
+function isPermanentFailure(status: number): boolean {
+  return status >= 400 && status < 500 && !TRANSIENT_CLIENT_STATUSES.includes(status);
+}
+
+// Exponential backoff with jitter, so devices coming online together do not retry in step
+function retryDelay(attempts: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+// Items with the same key sync in the order they were queued, so a job's
+// status update never reaches the server before its time entries or photos
+function dependencyKey(item: offlineStorage.SyncQueueItem): string {
+  if (item.entityType === 'job') return `job:${item.entityId}`;
+  if (item.entityType === 'day_start' || item.entityType === 'day_summary') return 'day';
+
+  const jobId = (item.data as { jobId?: string }).jobId;
+  return jobId ? `job:${jobId}` : `${item.entityType}:${item.entityId}`;
+}
+
+// Record a failed attempt; rejected or exhausted items move to the dead-letter store
+async function recordFailure(item: offlineStorage.SyncQueueItem, message: string, status?: number): Promise<boolean> {
+  if (status !== undefined && isPermanentFailure(status)) {
+    await offlineStorage.updateSyncItemError(item.id, message);
+    await offlineStorage.moveToDeadLetter(item.id, 'rejected', status);
+    return true;
+  }
+
+  const attempts = item.attempts + 1;
+  if (attempts >= MAX_SYNC_ATTEMPTS) {
+    await offlineStorage.updateSyncItemError(item.id, message);
+    await offlineStorage.moveToDeadLetter(item.id, 'exhausted', status);
+    return true;
+  }
+
+  await offlineStorage.updateSyncItemError(item.id, message, new Date(Date.now() + retryDelay(attempts)));
+  return false;
+}
+
 // Sync queue items
-async function syncQueueItems(): Promise<{ synced: number; errors: string[] }> {
+async function syncQueueItems(): Promise<{ synced: number; conflicts: number; deadLettered: number; errors: string[] }> {
   const items = await offlineStorage.getPendingSyncItems();
   
   if (items.length === 0) {
-    return { synced: 0, errors: [] };
+    return { synced: 0, conflicts: 0, deadLettered: 0, errors: [] };
   }
 
   let synced = 0;
+  let conflicts = 0;
+  let deadLettered = 0;
   const errors: string[] = [];
 
+  // Dead items keep blocking the items queued after them until retried or discarded
+  const blocked = new Set((await offlineStorage.getDeadLetters()).map(dead => dependencyKey(dead.item)));
+  const now = Date.now();
+
   for (const item of items) {
+    const key = dependencyKey(item);
+    if (blocked.has(key)) continue;
+    if (item.nextAttemptAt && new Date(item.nextAttemptAt).getTime() > now) {
+      blocked.add(key);
+      continue;
+    }
+
     try {
-      let endpoint = '';
-      let method = 'POST';
-
-      switch (item.entityType) {
-        case 'job':
-          endpoint = `/jobs/${item.entityId}`;
-          method = item.action === 'update' ? 'PATCH' : 'POST';
-          break;
-        case 'time_entry':
-          endpoint = `/jobs/${(item.data as { jobId: string }).jobId}/time-entries`;
-          break;
-        case 'photo':
-          endpoint = `/jobs/${(item.data as { jobId: string }).jobId}/photos`;
-          break;
-        case 'deviation':
-          endpoint = `/jobs/${(item.data as { jobId: string }).jobId}/deviations`;
-          break;
-        default:
-          throw new Error(`Unknown entity type: ${item.entityType}`);
+      let response = await sendSyncItem(item);
+
+      // Conflicts the policy resolves are resent once, based on the server's version
+      const conflict = await readConflict(response);
+      if (conflict) {
+        const outcome = await handleConflict(item, conflict);
+        if (outcome === 'discarded') continue;
+        if (outcome === 'unresolved') {
+          conflicts++;
+          continue;
+        }
+        const retried = await offlineStorage.getSyncItem(item.id);
+        if (!retried) continue;
+        response = await sendSyncItem(retried);
       }
 
-      const response = await fetch(`${API_BASE}${endpoint}`, {
-        method,
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(item.data),
-      });
-
       if (response.ok) {
         await offlineStorage.removeSyncItem(item.id);
+        const blobId = (item.data as { blobId?: string }).blobId;
+        if (blobId) await offlineStorage.deleteBlob(blobId);
         synced++;
       } else {
-        const errorText = await response.text();
-        await offlineStorage.updateSyncItemError(item.id, errorText);
+        // A conflict that reappears is resolved again on the next sync
+        const status = await readConflict(response) ? undefined : response.status;
+        const dead = await recordFailure(item, await readErrorMessage(response), status);
+        if (dead) deadLettered++;
+        blocked.add(key);
         errors.push(`Sync failed for ${item.entityType}: ${response.statusText}`);
       }
     } catch (error) {
-      await offlineStorage.updateSyncItemError(item.id, (error as Error).message);
+      const dead = await recordFailure(item, (error as Error).message);
+      if (dead) deadLettered++;
+      blocked.add(key);
       errors.push(`Sync error: ${(error as Error).message}`);
     }
   }
 
-  return { synced, errors };
+  scheduleRetry().catch(console.error);
+  return { synced, conflicts, deadLettered, errors };
+}
+
+// Sync again when the earliest backed-off item is due
+async function scheduleRetry(): Promise<void> {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const due = (await offlineStorage.getPendingSyncItems())
+    .filter(item => item.nextAttemptAt)
+    .map(item => new Date(item.nextAttemptAt!).getTime());
+  if (due.length === 0) return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    if (isOnline()) syncAll().catch(console.error);
+  }, Math.max(0, Math.min(...due) - Date.now()));
+}
+
+// Label for a queued item in the field app
+export function describeSyncItem(item: offlineStorage.SyncQueueItem): string {
+  const label = SYNC_ITEM_LABELS[item.entityType] ?? item.entityType;
+  if (item.entityType === 'job') {
+    const status = (item.data as { status?: string }).status;
+    return status ? `${label}: ${JOB_STATUS_LABELS[status] ?? status}` : label;
+  }
+  return label;
 }
 
 // Fetch and cache jobs
 export async function fetchAndCacheJobs(): Promise<Job[]> {
   try {
-    const response = await fetch(`${API_BASE}/jobs`);
+    // The server only returns the jobs of the signed-in user's resource
+    const response = await fetch(`${API_BASE}/jobs`, { headers: await getAuthHeader() });
     const json = await response.json();
     
     if (json.success && json.data) {
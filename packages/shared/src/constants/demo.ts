@@ -52,6 +52,34 @@ export const DEMO_COMPANY = {
   },
 };
 
+// A second tenant, used to show that companies never see each other's data
+export const DEMO_SUBSIDIARY = {
+  id: 'demo-company-002',
+  name: 'SYLON Kust Entreprenad AB',
+  organizationNumber: '556765-4321',
+  address: {
+    street: 'Hamngatan 4',
+    postalCode: '871 31',
+    city: 'Härnösand',
+    country: 'Sverige',
+    coordinates: { latitude: 62.6323, longitude: 17.9379 },
+  },
+  contact: {
+    phone: '+46 611 123 45',
+    email: 'info@kust-demo.se',
+  },
+  settings: {
+    timezone: 'Europe/Stockholm',
+    locale: 'sv-SE',
+    currency: 'SEK',
+    workingHours: {
+      start: '07:00',
+      end: '16:00',
+      days: [1, 2, 3, 4, 5],
+    },
+  },
+};
+
 // ============================================
 // DEMO SITES
 // ============================================
@@ -215,6 +243,17 @@ export const RESOURCE_TYPE_LABELS: Record<string, string> = {
   crane: 'Kran',
 };
 
+export const JOB_STATUS_LABELS: Record<string, string> = {
+  draft: 'Utkast',
+  scheduled: 'Schemalagd',
+  assigned: 'Tilldelad',
+  in_progress: 'Pågår',
+  paused: 'Pausad',
+  completed: 'Klar',
+  cancelled: 'Avbruten',
+  failed: 'Misslyckad',
+};
+
 export const JOB_TYPE_LABELS: Record<string, string> = {
   snow_plowing: 'Snöplogning',
   salting: 'Saltning',
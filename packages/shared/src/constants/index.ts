@@ -3,3 +3,5 @@
  */
 
 export * from './demo.js';
+export * from './jobs.js';
+export * from './permissions.js';
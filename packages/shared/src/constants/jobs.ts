@@ -0,0 +1,40 @@
+/**
+ * SYLON Job Constants
+ * Job and invoice status state machines shared by the backend and clients
+ */
+
+import type { InvoiceStatus, JobStatus } from '../types/index.js';
+
+// Statuses a job may move to from each status
+export const JOB_STATUS_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  draft: ['scheduled', 'cancelled'],
+  scheduled: ['assigned', 'cancelled'],
+  assigned: ['in_progress', 'scheduled', 'cancelled'],
+  in_progress: ['paused', 'completed', 'failed', 'cancelled'],
+  paused: ['in_progress', 'completed', 'failed', 'cancelled'],
+  completed: [],
+  failed: [],
+  cancelled: [],
+};
+
+export function canTransitionJob(from: JobStatus, to: JobStatus): boolean {
+  return JOB_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Cancelling a job, or unscheduling an assigned one, takes it off the plan and needs jobs:cancel
+export function isJobCancellation(from: JobStatus, to: JobStatus): boolean {
+  return to === 'cancelled' || (from === 'assigned' && to === 'scheduled');
+}
+
+// Invoice statuses reachable by hand; pending becomes draft when the job completes
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  pending: [],
+  draft: ['generated'],
+  generated: ['sent'],
+  sent: ['paid'],
+  paid: [],
+};
+
+export function canTransitionInvoice(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_STATUS_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,42 @@
+/**
+ * SYLON Permission Constants
+ * Role permission matrix enforced by the backend and used by clients to hide actions
+ */
+
+import type { Permission, UserRole } from '../types/index.js';
+
+const FIELD_PERMISSIONS: Permission[] = [
+  'resources:read',
+  'gps:report',
+  'jobs:read',
+  'jobs:update_status', // not cancelling or unscheduling, which is jobs:cancel
+  'jobs:report', // material loads, time entries, photos, deviations and notes
+  'sites:read',
+  'daily_checks:report',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'resources:read', 'gps:report', 'jobs:read', 'jobs:create', 'jobs:assign', 'jobs:update_status',
+    'jobs:cancel', 'jobs:report', 'time_entries:approve', 'sites:read', 'sites:edit', 'stock:record',
+    'daily_checks:read', 'daily_checks:report', 'dashboard:read', 'invoices:manage', 'payroll:read',
+    'company:edit',
+  ],
+  dispatcher: [
+    'resources:read', 'jobs:read', 'jobs:create', 'jobs:assign', 'jobs:update_status', 'jobs:cancel',
+    'jobs:report', 'sites:read', 'stock:record', 'daily_checks:read', 'dashboard:read', 'invoices:manage',
+  ],
+  supervisor: [
+    'resources:read', 'jobs:read', 'jobs:update_status', 'jobs:cancel', 'jobs:report', 'time_entries:approve',
+    'sites:read', 'stock:record', 'daily_checks:read', 'dashboard:read',
+  ],
+  operator: FIELD_PERMISSIONS,
+  driver: FIELD_PERMISSIONS,
+};
+
+// Field roles only see their own resource and the jobs it is assigned to
+export const FIELD_ROLES: UserRole[] = ['operator', 'driver'];
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -3,10 +3,10 @@
  * Request/Response types for API communication
  */
 
-import type { Resource, GeoPosition, User } from './core.js';
-import type { Job, WorksDashboard } from './works.js';
+import type { Resource, Coordinates, GeoBounds, GeoPosition, User } from './core.js';
+import type { Customer, Deviation, InvoiceData, InvoiceStatus, Job, JobMaterial, JobNote, JobPhoto, JobResourceAssignment, JobStatus, RateCard, TimeEntry, TimeEntryType, WorkOrder, WorksDashboard } from './works.js';
 import type { Shipment, TrackingInfo } from './logistics.js';
-import type { Site, SiteDashboard } from './sites.js';
+import type { Site, SiteDashboard, SiteMaterial, MaterialTransaction } from './sites.js';
 import type { Garage, GarageDashboard } from './garage.js';
 
 // ============================================
@@ -55,17 +55,34 @@ export interface FilterParams {
 export interface LoginRequest {
   email: string;
   password: string;
+  // Refresh tokens are bound to the device they were issued to
+  deviceId?: string;
 }
 
-export interface LoginResponse {
-  user: User;
+// The logged in user, with what the apps need to show and scope their data
+export interface SessionUser extends User {
+  companyName: string;
+  assignedResourceId?: string;
+}
+
+export interface AuthTokens {
   accessToken: string;
   refreshToken: string;
+  // Access token lifetime in seconds
   expiresIn: number;
 }
 
+export interface LoginResponse extends AuthTokens {
+  user: SessionUser;
+}
+
 export interface RefreshTokenRequest {
   refreshToken: string;
+  deviceId?: string;
+}
+
+export interface LogoutRequest {
+  refreshToken?: string;
 }
 
 // ============================================
@@ -88,6 +105,21 @@ export interface BulkPositionUpdate {
   timestamp: Date;
 }
 
+// ============================================
+// GPS
+// ============================================
+
+export interface GpsBatchResult {
+  resourceId: string;
+  accepted: number;
+  duplicates: number;
+  rejected: {
+    index: number;
+    reason: string;
+  }[];
+  syncedAt: Date;
+}
+
 // ============================================
 // JOBS
 // ============================================
@@ -118,10 +150,228 @@ export interface CreateJobRequest {
   }[];
 }
 
+export interface CreateMaterialLoadRequest {
+  id: string;
+  materialId: string;
+  materialName?: string;
+  quantity: number;
+  unit?: string;
+  type: 'load' | 'unload';
+  resourceId?: string;
+  sourceId?: string;
+  destinationId?: string;
+  weight?: number; // kg
+  weighticketNumber?: string;
+  timestamp?: string;
+}
+
+export interface MaterialLoadResult {
+  loadId: string;
+  jobMaterial: JobMaterial;
+  transactions: MaterialTransaction[];
+}
+
+export interface CreateJobAssignmentRequest {
+  resourceId: string;
+  operatorId?: string;
+  assignedBy?: string; // set by the backend to the authenticated user
+}
+
+export interface JobAssignmentResult {
+  job: Job;
+  assignment: JobResourceAssignment;
+  // Loads needed per job material at the resource's capacity, when units are comparable
+  estimatedTrips?: { materialId: string; trips: number }[];
+}
+
 export interface UpdateJobStatusRequest {
-  status: string;
+  status: JobStatus;
+  changedBy?: string;
   notes?: string;
   timestamp?: string;
+  // Version of the job the change was made on; an older one is rejected with VERSION_CONFLICT
+  baseVersion?: number;
+}
+
+// ============================================
+// SYNC CONFLICTS
+// ============================================
+
+export type VersionedEntityType = 'job' | 'time_entry' | 'photo' | 'deviation' | 'note';
+
+// A field sent by the client whose stored value is different
+export interface FieldConflict {
+  field: string;
+  clientValue: unknown;
+  serverValue: unknown;
+}
+
+/**
+ * Error details of VERSION_CONFLICT responses: the write was based on an older
+ * version and some of its fields differ from what is stored now.
+ */
+export interface SyncConflict {
+  entityType: VersionedEntityType;
+  entityId: string;
+  jobId: string;
+  baseVersion: number;
+  currentVersion: number;
+  fields: FieldConflict[];
+  current: Job | TimeEntry | JobPhoto | Deviation | JobNote;
+}
+
+// ============================================
+// UPLOADS
+// ============================================
+
+export interface CreateUploadRequest {
+  filename: string;
+  mimeType: string;
+  size: number; // bytes
+}
+
+// A chunked upload; chunks are sent in order from `offset`, which also tells a resuming client where to continue
+export interface UploadSession {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  offset: number;
+  chunkSize: number;
+  complete: boolean;
+  expiresAt: Date;
+}
+
+// Creates a photo from a completed upload; the server adds the thumbnail, EXIF time and GPS position
+export interface CreateJobPhotoRequest {
+  id?: string;
+  uploadId: string;
+  operatorId: string;
+  resourceId?: string;
+  deviationId?: string;
+  category?: JobPhoto['category'];
+  caption?: string;
+  coordinates?: Coordinates;
+}
+
+// ============================================
+// INVOICING
+// ============================================
+
+export interface JobInvoice {
+  jobId: string;
+  status: InvoiceStatus;
+  invoice?: InvoiceData;
+}
+
+export interface UpdateInvoiceStatusRequest {
+  status: InvoiceStatus;
+}
+
+export type CreateRateCardRequest = Omit<RateCard, 'id' | 'companyId' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>;
+
+// ============================================
+// CUSTOMERS & WORK ORDERS
+// ============================================
+
+// The customer number is assigned by the server when left out
+export type CreateCustomerRequest = Omit<Customer, 'id' | 'companyId' | 'customerNumber' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'> & {
+  customerNumber?: string;
+};
+
+// The order number is assigned by the server when left out
+export type CreateWorkOrderRequest = Omit<WorkOrder, 'id' | 'companyId' | 'orderNumber' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'> & {
+  orderNumber?: string;
+};
+
+// Amounts are excluding VAT; billed counts generated, sent and paid invoices
+export interface WorkOrderJobSummary {
+  jobId: string;
+  jobNumber: string;
+  title: string;
+  status: JobStatus;
+  scheduledStart: Date;
+  hours: number;
+  approvedHours: number;
+  invoiceStatus: InvoiceStatus;
+  invoiceNumber?: string;
+  invoiceAmount?: number;
+}
+
+export interface WorkOrderSummary {
+  workOrder: WorkOrder;
+  customer?: Customer;
+  jobs: WorkOrderJobSummary[];
+  totals: {
+    hours: number;
+    approvedHours: number;
+    draftAmount: number;
+    billedAmount: number;
+    paidAmount: number;
+  };
+  currency: string;
+}
+
+// ============================================
+// TIME APPROVAL & PAYROLL
+// ============================================
+
+export type TimeEntryAnomalyType = 'overlap' | 'outside_shift' | 'missing_break';
+
+export interface TimeEntryAnomaly {
+  type: TimeEntryAnomalyType;
+  message: string;
+  // The other entries of an overlap
+  relatedEntryIds?: string[];
+}
+
+export interface TimeApprovalItem {
+  entry: TimeEntry;
+  jobNumber: string;
+  jobTitle: string;
+  hours: number;
+  anomalies: TimeEntryAnomaly[];
+}
+
+// Unapproved entries of one operator in one ISO week, e.g. 2025-W03 starting 2025-01-13
+export interface TimeApprovalGroup {
+  operatorId: string;
+  operatorName: string;
+  week: string;
+  weekStart: string;
+  items: TimeApprovalItem[];
+  totalHours: number;
+  anomalyCount: number;
+}
+
+// Rejecting requires a comment, which the operator sees on the entry
+export interface ReviewTimeEntriesRequest {
+  entryIds: string[];
+  decision: 'approve' | 'reject';
+  comment?: string;
+}
+
+export interface ReviewTimeEntriesResult {
+  reviewed: TimeEntry[];
+  failed: { entryId: string; code: string; message: string }[];
+}
+
+// Approved hours per operator, day and entry type; breaks are not paid
+export interface PayrollLine {
+  operatorId: string;
+  operatorName: string;
+  date: string;
+  type: TimeEntryType;
+  hours: number;
+}
+
+export interface PayrollReport {
+  from: string;
+  to: string;
+  lines: PayrollLine[];
+  totals: { operatorId: string; operatorName: string; hours: number }[];
+  // Entries in the period still waiting for approval, left out of the lines
+  unapprovedEntries: number;
 }
 
 // ============================================
@@ -134,6 +384,75 @@ export interface SiteListParams extends PaginationParams, FilterParams {
   withinRadius?: number;
 }
 
+export interface CreateMaterialTransactionRequest {
+  materialId: string;
+  type: 'in' | 'out';
+  quantity: number;
+  unit?: string;
+  resourceId?: string;
+  operatorId?: string;
+  jobId?: string;
+  destinationSiteId?: string;
+  notes?: string;
+  weighticketNumber?: string;
+}
+
+export interface MaterialTransactionResult {
+  transaction: MaterialTransaction;
+  material: SiteMaterial;
+}
+
+// ============================================
+// DAILY CHECKS & SHIFTS
+// ============================================
+
+export interface DayStartChecklistItem {
+  id: string;
+  label: string;
+  checked: boolean;
+  required: boolean;
+  category: string;
+}
+
+export interface DayStartRequest {
+  id: string;
+  date: Date;
+  resourceId: string;
+  operatorId: string;
+  items: DayStartChecklistItem[];
+  fuelLevel: number;
+  odometerReading?: number;
+  notes?: string;
+  completedAt?: Date;
+}
+
+export interface DaySummaryRequest {
+  id: string;
+  date: Date;
+  resourceId: string;
+  operatorId: string;
+  startTime: Date;
+  endTime: Date;
+  totalWorkTime: number; // minutes
+  breakTime: number; // minutes
+  completedJobs: number;
+  totalDistance?: number; // km
+  fuelUsed?: number; // liters
+  endOdometer?: number;
+  machineHours?: number;
+  defectsReported: string[];
+  notes?: string;
+}
+
+export interface SkippedDailyCheck {
+  resourceId: string;
+  operatorId?: string;
+  date: string;
+  // What showed the resource was in use without a check
+  evidence: 'shift' | 'job' | 'gps';
+  firstSeenAt?: Date;
+}
+
 // ============================================
 // REAL-TIME EVENTS
 // ============================================
@@ -148,6 +467,58 @@ export type WebSocketEvent =
   | { type: 'SITE_VISIT'; data: { siteId: string; resourceId: string; action: string } }
   | { type: 'ALERT'; data: { type: string; message: string; severity: string } };
 
+// What a WebSocket client receives events and positions for
+export type SubscriptionTopic =
+  | { type: 'company' }
+  | { type: 'resource'; resourceId: string }
+  | { type: 'job'; jobId: string }
+  | { type: 'site'; siteId: string }
+  | { type: 'viewport'; bounds: GeoBounds };
+
+// How a client receives position updates, chosen with ?positions= on connect
+export type PositionFormat = 'full' | 'delta' | 'binary' | 'none';
+
+// Coordinates in 1e-5 degrees (about 1 m), speed in 0.1 km/h, heading in whole degrees
+export interface QuantizedPosition {
+  lat: number;
+  lng: number;
+  speed: number;
+  heading: number;
+}
+
+// First position of a resource on a connection; later frames refer to its slot
+export type PositionKeyframe = [slot: number, resourceId: string, lat: number, lng: number, speed: number, heading: number, age: number];
+
+// Change since the last position sent for the slot; age is seconds before the frame time
+export type PositionDelta = [slot: number, dLat: number, dLng: number, speed: number, heading: number, age: number];
+
+// Data of POSITION_DELTA messages, and the content of binary frames
+export interface PositionFrame {
+  time: number;
+  keyframes: PositionKeyframe[];
+  deltas: PositionDelta[];
+}
+
+// Events as sent by the server, numbered in broadcast order
+export type SequencedEvent = WebSocketEvent & { seq: number };
+
+/**
+ * Reconnecting clients connect with ?resume=1, restore their topics and then
+ * send RESUME with the epoch and last sequence number they saw.
+ */
+export type WebSocketClientMessage =
+  | { type: 'SUBSCRIBE'; topics: SubscriptionTopic[] }
+  | { type: 'UNSUBSCRIBE'; topics: SubscriptionTopic[] }
+  | { type: 'RESUME'; epoch: string; lastSeq: number };
+
+// Replies to client messages; SUBSCRIBED lists all current topics
+export type WebSocketReply =
+  | { type: 'WELCOME'; data: { epoch: string; seq: number } }
+  | { type: 'SUBSCRIBED'; data: { topics: SubscriptionTopic[] } }
+  | { type: 'RESUMED'; data: { replayed: number; seq: number } }
+  | { type: 'RESYNC_REQUIRED'; data: { epoch: string; seq: number } }
+  | { type: 'ERROR'; data: { code: string; message: string; details?: unknown } };
+
 // ============================================
 // DASHBOARD
 // ============================================
@@ -53,6 +53,11 @@ export interface AuditedEntity extends BaseEntity {
   updatedBy: string;
 }
 
+// Incremented on every change, so writes based on an older copy can be detected
+export interface VersionedEntity {
+  version: number;
+}
+
 // ============================================
 // COMPANY & ORGANIZATION
 // ============================================
@@ -98,6 +103,27 @@ export interface WorkingHours {
 
 export type UserRole = 'admin' | 'dispatcher' | 'supervisor' | 'operator' | 'driver';
 
+// Actions guarded by the API, granted to roles by ROLE_PERMISSIONS
+export type Permission =
+  | 'resources:read'
+  | 'gps:report'
+  | 'jobs:read'
+  | 'jobs:create'
+  | 'jobs:assign'
+  | 'jobs:update_status'
+  | 'jobs:cancel'
+  | 'jobs:report'
+  | 'time_entries:approve'
+  | 'sites:read'
+  | 'sites:edit'
+  | 'stock:record'
+  | 'daily_checks:read'
+  | 'daily_checks:report'
+  | 'dashboard:read'
+  | 'invoices:manage'
+  | 'payroll:read'
+  | 'company:edit';
+
 export interface User extends BaseEntity {
   companyId: string;
   email: string;
@@ -183,7 +209,7 @@ export interface GpsReading {
   id: string;
   resourceId: string;
   position: GeoPosition;
-  engineOn: boolean;
+  engineOn?: boolean; // unknown for devices without an engine signal, such as phones
   fuelLevel?: number;
   odometerKm?: number;
   engineHours?: number;
@@ -205,6 +231,24 @@ export interface GpsBatch {
   syncedAt?: Date;
 }
 
+export interface TrackStop {
+  coordinates: Coordinates;
+  arrivedAt: Date;
+  departedAt: Date;
+  duration: number; // seconds
+}
+
+export interface ResourceTrack {
+  resourceId: string;
+  from: Date;
+  to: Date;
+  tolerance: number; // meters
+  points: GeoPosition[];
+  stops: TrackStop[];
+  distance: number; // km
+  originalPointCount: number;
+}
+
 // ============================================
 // TIME & SCHEDULING
 // ============================================
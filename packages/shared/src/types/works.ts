@@ -6,6 +6,8 @@
 import type {
   BaseEntity,
   AuditedEntity,
+  VersionedEntity,
+  Address,
   Coordinates,
   GeoPosition,
   TimeRange,
@@ -39,7 +41,7 @@ export type JobStatus =
   | 'cancelled'
   | 'failed';
 
-export interface Job extends AuditedEntity {
+export interface Job extends AuditedEntity, VersionedEntity {
   companyId: string;
   jobNumber: string;
   type: JobType;
@@ -57,8 +59,9 @@ export interface Job extends AuditedEntity {
   
   // Timing
   scheduledTime: TimeRange;
-  actualTime?: TimeRange;
+  actualTime?: { start: Date; end?: Date }; // the end is set when the job finishes
   estimatedDuration: number; // minutes
+  statusHistory?: JobStatusTransition[];
   
   // Customer
   customerId?: string;
@@ -80,10 +83,18 @@ export interface Job extends AuditedEntity {
   distanceTraveled?: number;
   
   // Invoice
-  invoiceStatus: 'pending' | 'generated' | 'sent' | 'paid';
+  invoiceStatus: InvoiceStatus;
   invoiceData?: InvoiceData;
 }
 
+export interface JobStatusTransition {
+  from: JobStatus;
+  to: JobStatus;
+  changedBy: string;
+  changedAt: Date;
+  notes?: string;
+}
+
 export interface JobLocation {
   name: string;
   address?: string;
@@ -139,7 +150,7 @@ export type TimeEntryType =
   | 'loading'
   | 'unloading';
 
-export interface TimeEntry extends BaseEntity {
+export interface TimeEntry extends BaseEntity, VersionedEntity {
   jobId: string;
   resourceId: string;
   operatorId: string;
@@ -149,13 +160,17 @@ export interface TimeEntry extends BaseEntity {
   approved: boolean;
   approvedBy?: string;
   approvedAt?: Date;
+  // Set when a supervisor sends the entry back; cleared when the operator corrects it
+  rejectedBy?: string;
+  rejectedAt?: Date;
+  reviewComment?: string;
 }
 
 // ============================================
 // PHOTOS & ATTACHMENTS
 // ============================================
 
-export interface JobPhoto extends BaseEntity {
+export interface JobPhoto extends BaseEntity, VersionedEntity {
   jobId: string;
   resourceId?: string;
   operatorId: string;
@@ -165,6 +180,8 @@ export interface JobPhoto extends BaseEntity {
   mimeType: string;
   size: number;
   coordinates?: Coordinates;
+  takenAt?: Date; // from EXIF
+  deviationId?: string;
   caption?: string;
   category: 'before' | 'during' | 'after' | 'damage' | 'other';
 }
@@ -185,7 +202,7 @@ export type DeviationType =
   | 'material_shortage'
   | 'other';
 
-export interface Deviation extends BaseEntity {
+export interface Deviation extends BaseEntity, VersionedEntity {
   jobId: string;
   resourceId?: string;
   reportedBy: string;
@@ -194,7 +211,7 @@ export interface Deviation extends BaseEntity {
   title: string;
   description: string;
   coordinates?: Coordinates;
-  photos: string[];
+  photos: string[]; // photo ids
   resolved: boolean;
   resolvedBy?: string;
   resolvedAt?: Date;
@@ -205,7 +222,7 @@ export interface Deviation extends BaseEntity {
 // NOTES
 // ============================================
 
-export interface JobNote extends BaseEntity {
+export interface JobNote extends BaseEntity, VersionedEntity {
   jobId: string;
   authorId: string;
   content: string;
@@ -216,14 +233,30 @@ export interface JobNote extends BaseEntity {
 // INVOICING
 // ============================================
 
+// pending: no invoice yet; draft: built on completion and rebuilt on request;
+// generated: numbered and locked; then sent to and paid by the customer
+export type InvoiceStatus = 'pending' | 'draft' | 'generated' | 'sent' | 'paid';
+
 export interface InvoiceData {
+  invoiceNumber?: string; // set when generated
   generatedAt: Date;
+  customerId?: string;
+  workOrderId?: string;
+  contractType: ContractType;
+  rateCardId?: string;
   lineItems: InvoiceLineItem[];
   totalHours: number;
   totalMaterials: number;
-  totalAmount: number;
+  subtotal: number;
+  vatRate: number; // e.g. 0.25
+  vatAmount: number;
+  totalAmount: number; // including VAT
   currency: string;
+  dueDate?: Date;
+  sentAt?: Date;
+  paidAt?: Date;
   notes?: string;
+  warnings?: string[]; // for review before generating, never printed
 }
 
 export interface InvoiceLineItem {
@@ -235,19 +268,64 @@ export interface InvoiceLineItem {
   category: 'labor' | 'equipment' | 'material' | 'other';
 }
 
+// Prices for a customer's jobs under one contract type, or the company's
+// defaults when customerId is missing. Amounts are in the company currency.
+export interface RateCard extends AuditedEntity {
+  companyId: string;
+  name: string;
+  customerId?: string;
+  contractType: ContractType;
+  laborRate: number; // per hour
+  laborRates?: Partial<Record<TimeEntryType, number>>; // per hour, overriding laborRate
+  equipmentRates: Partial<Record<ResourceType, number>>; // per machine hour
+  materialMarkup?: number; // percent on the site price
+  fixedPrice?: number; // fixed: covers labor and equipment
+  callOutFee?: number; // call_out: charged once per job
+  minimumHours?: number; // call_out: least labor hours billed
+  paymentTermsDays: number;
+}
+
+// ============================================
+// CUSTOMERS
+// ============================================
+
+export interface CustomerContact {
+  name: string;
+  role?: string;
+  phone?: string;
+  email?: string;
+}
+
+// Price agreements are the rate cards carrying the customer's id
+export interface Customer extends AuditedEntity {
+  companyId: string;
+  customerNumber: string;
+  name: string;
+  organizationNumber?: string;
+  billingAddress: Address;
+  invoiceEmail?: string;
+  contacts: CustomerContact[];
+  isActive: boolean;
+  notes?: string;
+}
+
 // ============================================
 // WORK ORDERS
 // ============================================
 
+export type ContractType = 'fixed' | 'hourly' | 'call_out';
+
+export type WorkOrderStatus = 'draft' | 'active' | 'completed' | 'invoiced';
+
 export interface WorkOrder extends AuditedEntity {
   companyId: string;
   orderNumber: string;
   customerId: string;
   jobs: string[];
-  status: 'draft' | 'active' | 'completed' | 'invoiced';
+  status: WorkOrderStatus;
   validFrom: Date;
   validTo?: Date;
-  contractType: 'fixed' | 'hourly' | 'call_out';
+  contractType: ContractType;
   terms?: string;
 }
 
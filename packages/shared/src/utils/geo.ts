@@ -93,6 +93,30 @@ export function isWithinRadius(
   return calculateDistance(point, center) <= radiusKm;
 }
 
+/**
+ * Check if point is inside a polygon (ray casting)
+ */
+export function isPointInPolygon(
+  point: Coordinates,
+  vertices: Coordinates[]
+): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const vi = vertices[i]!;
+    const vj = vertices[j]!;
+    const intersects =
+      vi.latitude > point.latitude !== vj.latitude > point.latitude &&
+      point.longitude <
+        ((vj.longitude - vi.longitude) * (point.latitude - vi.latitude)) /
+          (vj.latitude - vi.latitude) +
+          vi.longitude;
+    if (intersects) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
 /**
  * Format coordinates for display
  */
@@ -3,3 +3,4 @@
  */
 
 export * from './geo.js';
+export * from './position-codec.js';
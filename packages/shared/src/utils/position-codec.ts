@@ -0,0 +1,169 @@
+/**
+ * SYLON Position Codec
+ * Quantized position frames and their binary encoding, shared by the server
+ * that produces them and the clients that decode them.
+ */
+
+import type { GeoPosition } from '../types/core.js';
+import type { PositionFrame, QuantizedPosition } from '../types/api.js';
+
+export const COORDINATE_SCALE = 1e5;
+
+// Larger coordinate changes are sent as keyframes, as they do not fit a binary delta
+export const MAX_COORDINATE_DELTA = 32767;
+
+const FRAME_VERSION = 1;
+const HEADER_BYTES = 13;
+const KEYFRAME_BYTES = 17;
+const DELTA_BYTES = 12;
+const MAX_UINT16 = 65535;
+
+// Last decoded position per slot of a connection
+export type PositionSlots = Map<number, { resourceId: string; position: QuantizedPosition }>;
+
+export function quantizePosition(position: GeoPosition): QuantizedPosition {
+  return {
+    lat: Math.round(position.latitude * COORDINATE_SCALE),
+    lng: Math.round(position.longitude * COORDINATE_SCALE),
+    speed: Math.min(MAX_UINT16, Math.max(0, Math.round((position.speed ?? 0) * 10))),
+    heading: ((Math.round(position.heading ?? 0) % 360) + 360) % 360,
+  };
+}
+
+export function dequantizePosition(position: QuantizedPosition, timestamp: Date): GeoPosition {
+  return {
+    latitude: position.lat / COORDINATE_SCALE,
+    longitude: position.lng / COORDINATE_SCALE,
+    speed: position.speed / 10,
+    heading: position.heading,
+    timestamp,
+  };
+}
+
+function clampUint16(value: number): number {
+  return Math.min(MAX_UINT16, Math.max(0, Math.round(value)));
+}
+
+/**
+ * Binary layout, little-endian:
+ * header   u8 version, f64 time (ms), u16 keyframe count, u16 delta count
+ * keyframe u16 slot, i32 lat, i32 lng, u16 speed, u16 heading, u16 age, u8 id length, id (UTF-8)
+ * delta    u16 slot, i16 dLat, i16 dLng, u16 speed, u16 heading, u16 age
+ */
+export function encodePositionFrame(frame: PositionFrame): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const ids = frame.keyframes.map(([, resourceId]) => encoder.encode(resourceId).subarray(0, 255));
+  const size = HEADER_BYTES +
+    ids.reduce((sum, id) => sum + KEYFRAME_BYTES + id.length, 0) +
+    frame.deltas.length * DELTA_BYTES;
+
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint8(0, FRAME_VERSION);
+  view.setFloat64(1, frame.time, true);
+  view.setUint16(9, frame.keyframes.length, true);
+  view.setUint16(11, frame.deltas.length, true);
+
+  let offset = HEADER_BYTES;
+  frame.keyframes.forEach(([slot, , lat, lng, speed, heading, age], i) => {
+    const id = ids[i] ?? new Uint8Array(0);
+    view.setUint16(offset, slot, true);
+    view.setInt32(offset + 2, lat, true);
+    view.setInt32(offset + 6, lng, true);
+    view.setUint16(offset + 10, clampUint16(speed), true);
+    view.setUint16(offset + 12, clampUint16(heading), true);
+    view.setUint16(offset + 14, clampUint16(age), true);
+    view.setUint8(offset + 16, id.length);
+    bytes.set(id, offset + KEYFRAME_BYTES);
+    offset += KEYFRAME_BYTES + id.length;
+  });
+
+  for (const [slot, dLat, dLng, speed, heading, age] of frame.deltas) {
+    view.setUint16(offset, slot, true);
+    view.setInt16(offset + 2, dLat, true);
+    view.setInt16(offset + 4, dLng, true);
+    view.setUint16(offset + 6, clampUint16(speed), true);
+    view.setUint16(offset + 8, clampUint16(heading), true);
+    view.setUint16(offset + 10, clampUint16(age), true);
+    offset += DELTA_BYTES;
+  }
+
+  return buffer;
+}
+
+export function decodePositionFrame(buffer: ArrayBuffer): PositionFrame {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  if (buffer.byteLength < HEADER_BYTES || view.getUint8(0) !== FRAME_VERSION) {
+    throw new Error('Unsupported position frame');
+  }
+
+  const frame: PositionFrame = { time: view.getFloat64(1, true), keyframes: [], deltas: [] };
+  const keyframeCount = view.getUint16(9, true);
+  const deltaCount = view.getUint16(11, true);
+
+  let offset = HEADER_BYTES;
+  for (let i = 0; i < keyframeCount; i++) {
+    const idLength = view.getUint8(offset + 16);
+    frame.keyframes.push([
+      view.getUint16(offset, true),
+      decoder.decode(bytes.subarray(offset + KEYFRAME_BYTES, offset + KEYFRAME_BYTES + idLength)),
+      view.getInt32(offset + 2, true),
+      view.getInt32(offset + 6, true),
+      view.getUint16(offset + 10, true),
+      view.getUint16(offset + 12, true),
+      view.getUint16(offset + 14, true),
+    ]);
+    offset += KEYFRAME_BYTES + idLength;
+  }
+
+  for (let i = 0; i < deltaCount; i++) {
+    frame.deltas.push([
+      view.getUint16(offset, true),
+      view.getInt16(offset + 2, true),
+      view.getInt16(offset + 4, true),
+      view.getUint16(offset + 6, true),
+      view.getUint16(offset + 8, true),
+      view.getUint16(offset + 10, true),
+    ]);
+    offset += DELTA_BYTES;
+  }
+
+  return frame;
+}
+
+/**
+ * Apply a frame to the slots of a connection and return the resulting positions.
+ * Deltas for unknown slots are skipped; the server sends a keyframe first.
+ */
+export function applyPositionFrame(
+  slots: PositionSlots,
+  frame: PositionFrame
+): { resourceId: string; position: GeoPosition }[] {
+  const updates: { resourceId: string; position: GeoPosition }[] = [];
+
+  for (const [slot, resourceId, lat, lng, speed, heading, age] of frame.keyframes) {
+    const position: QuantizedPosition = { lat, lng, speed, heading };
+    slots.set(slot, { resourceId, position });
+    updates.push({ resourceId, position: dequantizePosition(position, new Date(frame.time - age * 1000)) });
+  }
+
+  for (const [slot, dLat, dLng, speed, heading, age] of frame.deltas) {
+    const current = slots.get(slot);
+    if (!current) continue;
+    const position: QuantizedPosition = {
+      lat: current.position.lat + dLat,
+      lng: current.position.lng + dLng,
+      speed,
+      heading,
+    };
+    current.position = position;
+    updates.push({ resourceId: current.resourceId, position: dequantizePosition(position, new Date(frame.time - age * 1000)) });
+  }
+
+  return updates;
+}